@@ -8,6 +8,8 @@ import { useAuth } from "@/hooks/useAuth";
 import NotFound from "@/pages/not-found";
 import Kanban from "@/pages/kanban";
 import Login from "@/pages/login";
+import Settings from "@/pages/settings";
+import MyWork from "@/pages/my-work";
 
 function Router() {
   const { isAuthenticated, isLoading, login } = useAuth();
@@ -28,6 +30,8 @@ function Router() {
     <Switch>
       <Route path="/" component={Kanban} />
       <Route path="/project/:project" component={Kanban} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/me" component={MyWork} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -29,9 +29,12 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { KANBAN_STATUSES } from "@shared/schema";
 import { handleImageDrop, handleImagePaste, insertTextAtCursor } from "@/lib/image-upload-utils";
 import { Loader2, Image as ImageIcon } from "lucide-react";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { LabelPicker } from "./label-picker";
+import { AssigneePicker } from "./assignee-picker";
+import { CardScheduleFields } from "./card-schedule-fields";
 
 interface AddCardDialogProps {
   open: boolean;
@@ -45,6 +48,7 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const descriptionTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const { statuses } = useProjectStatuses(project);
 
   const form = useForm<InsertCard>({
     resolver: zodResolver(insertCardSchema),
@@ -52,9 +56,14 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
       title: "",
       description: "",
       link: undefined,
-      status: "not-started",
+      status: statuses[0].key,
       project,
       notes: undefined,
+      labels: [],
+      assignees: [],
+      dueDate: null,
+      priority: null,
+      estimate: null,
     },
   });
 
@@ -73,16 +82,30 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
         title: "",
         description: "",
         link: undefined,
-        status: "not-started",
+        status: statuses[0].key,
         project: project,
         notes: undefined,
+        labels: [],
+      assignees: [],
+      dueDate: null,
+      priority: null,
+      estimate: null,
       });
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      let description = "Failed to create card.";
+      if (error.message.startsWith("409")) {
+        // The column is at its strict WIP limit or requires something the card lacks; the server says which
+        try {
+          description = JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || description;
+        } catch {
+          // Keep the generic message for non-JSON bodies
+        }
+      }
       toast({
-        title: "Error", 
-        description: "Failed to create card.",
+        title: "Error",
+        description,
         variant: "destructive",
       });
     },
@@ -170,17 +193,6 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    const labels = {
-      "not-started": "Not Started",
-      "blocked": "Blocked",
-      "in-progress": "In Progress", 
-      "complete": "Complete",
-      "verified": "Verified",
-    };
-    return labels[status as keyof typeof labels] || status;
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl">
@@ -298,6 +310,38 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="labels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-gray-700 dark:text-gray-300">Labels (Optional)</FormLabel>
+                  <FormControl>
+                    <LabelPicker
+                      project={project || "default"}
+                      value={field.value || []}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="assignees"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-gray-700 dark:text-gray-300">Assignees (Optional)</FormLabel>
+                  <FormControl>
+                    <AssigneePicker value={field.value || []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="status"
@@ -311,13 +355,13 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600">
-                      {KANBAN_STATUSES.map(status => (
+                      {statuses.map(status => (
                         <SelectItem
-                          key={status}
-                          value={status}
+                          key={status.key}
+                          value={status.key}
                           className="hover:bg-gray-100 dark:hover:bg-gray-700 focus:bg-gray-100 dark:focus:bg-gray-700"
                         >
-                          {getStatusLabel(status)}
+                          {status.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -327,6 +371,8 @@ export function AddCardDialog({ open, onOpenChange, project }: AddCardDialogProp
               )}
             />
             
+            <CardScheduleFields labelClassName="text-sm font-medium text-gray-700 dark:text-gray-300" />
+            
             <div className="flex gap-3 pt-6 border-t border-gray-200 dark:border-gray-700">
               <Button
                 type="button"
@@ -0,0 +1,38 @@
+import { Assignee } from "@shared/schema";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { getAssigneeInitials, getAssigneeName } from "@/lib/assignee-utils";
+import { cn } from "@/lib/utils";
+
+interface AssigneeAvatarsProps {
+  assignees: Assignee[];
+  max?: number; // Avatars shown before a "+n" counter
+  className?: string;
+}
+
+export function AssigneeAvatars({ assignees, max = 3, className }: AssigneeAvatarsProps) {
+  const shown = assignees.slice(0, max);
+  const hidden = assignees.slice(max);
+
+  return (
+    <div
+      className={cn("flex items-center -space-x-1.5", className)}
+      title={assignees.map(getAssigneeName).join(", ")}
+      data-testid="assignee-avatars"
+    >
+      {shown.map(assignee => (
+        <Avatar key={assignee.id} className="h-6 w-6 border-2 border-white dark:border-gray-800">
+          <AvatarFallback className="text-[10px] font-medium bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300">
+            {getAssigneeInitials(assignee)}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden.length > 0 && (
+        <Avatar className="h-6 w-6 border-2 border-white dark:border-gray-800">
+          <AvatarFallback className="text-[10px] font-medium bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+            +{hidden.length}
+          </AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
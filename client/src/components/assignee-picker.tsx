@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { Assignee } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { USERS_QUERY_KEY, getAssigneeName } from "@/lib/assignee-utils";
+import { AssigneeAvatars } from "./assignee-avatars";
+
+interface AssigneePickerProps {
+  value: string[]; // Usernames
+  onChange: (value: string[]) => void;
+}
+
+// Picks a card's assignees from the users of the board
+export function AssigneePicker({ value, onChange }: AssigneePickerProps) {
+  const { data: users = [] } = useQuery<Assignee[]>({
+    queryKey: USERS_QUERY_KEY,
+  });
+
+  const toggle = (username: string, checked: boolean) => {
+    onChange(checked ? [...value, username] : value.filter(selected => selected !== username));
+  };
+
+  return (
+    <div className="max-h-32 overflow-y-auto space-y-1 rounded-md border border-gray-300 dark:border-gray-600 p-2" data-testid="assignee-picker">
+      {users.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No users yet</p>
+      )}
+      {users.map(user => (
+        <label key={user.id} className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={value.includes(user.username)}
+            onCheckedChange={(checked) => toggle(user.username, checked === true)}
+          />
+          <AssigneeAvatars assignees={[user]} />
+          <span className="text-gray-800 dark:text-gray-200">{getAssigneeName(user)}</span>
+          {user.displayName && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">@{user.username}</span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
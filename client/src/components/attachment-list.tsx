@@ -0,0 +1,136 @@
+import { useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Attachment } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Paperclip, FileText, FileArchive, FileImage, Download, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { attachmentsQueryKey, uploadAttachment, deleteAttachment, formatFileSize } from "@/lib/attachment-utils";
+import { formatCommentTime } from "@/lib/comment-utils";
+
+interface AttachmentListProps {
+  cardId: string;
+}
+
+function AttachmentIcon({ contentType }: { contentType: string }) {
+  if (contentType.startsWith("image/")) {
+    return <FileImage className="w-4 h-4 text-purple-500 flex-shrink-0" />;
+  }
+  if (/zip|gzip|tar|7z/.test(contentType)) {
+    return <FileArchive className="w-4 h-4 text-amber-500 flex-shrink-0" />;
+  }
+  return <FileText className="w-4 h-4 text-blue-500 flex-shrink-0" />;
+}
+
+export function AttachmentList({ cardId }: AttachmentListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: attachmentsQueryKey(cardId),
+  });
+
+  const onAttachmentsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: attachmentsQueryKey(cardId) });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadAttachment(cardId, file),
+    onSuccess: onAttachmentsChanged,
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (attachmentId: string) => deleteAttachment(cardId, attachmentId),
+    onSuccess: onAttachmentsChanged,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove attachment: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files || []).forEach(file => uploadMutation.mutate(file));
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid="attachment-list">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Paperclip className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+            Attachments ({attachments.length})
+          </h3>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="h-7 text-xs"
+          data-testid="button-attach-file"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          {uploadMutation.isPending ? "Uploading..." : "Attach file"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="group flex items-center gap-2 px-3 py-2 text-sm">
+              <AttachmentIcon contentType={attachment.contentType} />
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                download={attachment.filename}
+                className="flex-1 truncate text-gray-800 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                title={attachment.filename}
+              >
+                {attachment.filename}
+              </a>
+              <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {formatFileSize(attachment.size)} · {attachment.uploaderName} · {formatCommentTime(attachment.createdAt)}
+              </span>
+              <a
+                href={attachment.url}
+                download={attachment.filename}
+                className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+                title="Download"
+              >
+                <Download className="w-3 h-3" />
+              </a>
+              <button
+                onClick={() => deleteMutation.mutate(attachment.id)}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
+                title="Remove attachment"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
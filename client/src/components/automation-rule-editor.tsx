@@ -0,0 +1,480 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, KeyRound, Pencil, Plus, Trash2, X, Zap } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  automationRulesQueryKey,
+  createAutomationRule,
+  updateAutomationRule,
+  replaceAutomationRuleSecret,
+  deleteAutomationRule,
+  type AutomationRuleWithSecret,
+  type DescribedAutomationRule,
+} from "@/lib/automation-utils";
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_FIELDS,
+  AUTOMATION_TRIGGER_LABELS,
+  AUTOMATION_TRIGGERS,
+  CARD_PRIORITIES,
+  AutomationAction,
+  AutomationActionType,
+  AutomationConditions,
+  AutomationField,
+  AutomationTrigger,
+  InsertAutomationRule,
+  Project,
+  insertAutomationRuleSchema,
+} from "@shared/schema";
+
+interface AutomationRuleEditorProps {
+  project: Project;
+}
+
+// Select has no empty value, so "any" stands for an unset condition
+const ANY = "any";
+
+const FIELD_LABELS: Record<AutomationField, string> = {
+  priority: "Priority",
+  dueDate: "Due date",
+  estimate: "Estimate",
+  link: "Link",
+  notes: "Notes",
+};
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+}
+
+const NEW_ACTIONS: Record<AutomationActionType, AutomationAction> = {
+  move: { type: "move", status: "" },
+  "set-field": { type: "set-field", field: "priority", value: null },
+  "add-comment": { type: "add-comment", content: "" },
+  webhook: { type: "webhook", url: "" },
+};
+
+function hasWebhookAction(rule: { actions: AutomationAction[] }): boolean {
+  return rule.actions.some(action => action.type === "webhook");
+}
+
+// Rules are saved one at a time, like labels
+export function AutomationRuleEditor({ project }: AutomationRuleEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [ruleSecret, setRuleSecret] = useState<AutomationRuleWithSecret | null>(null);
+
+  const { data: rules = [] } = useQuery<DescribedAutomationRule[]>({
+    queryKey: automationRulesQueryKey(project.slug),
+  });
+
+  const onRulesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: automationRulesQueryKey(project.slug) });
+  };
+
+  const onRuleError = (action: string) => (error: Error) => {
+    let description = `Failed to ${action} rule. Please try again.`;
+    if (error.message.startsWith("400")) {
+      try {
+        const body = JSON.parse(error.message.replace(/^\d+:\s*/, ""));
+        description = body.errors?.[0]?.message || body.message || description;
+      } catch {
+        // Keep the generic message for non-JSON bodies
+      }
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, rule }: { id?: string; rule: InsertAutomationRule }) => {
+      const existing = rules.find(candidate => candidate.id === id);
+      if (existing) {
+        await updateAutomationRule(existing, rule);
+        return null;
+      }
+      return createAutomationRule(project.slug, rule);
+    },
+    onSuccess: (created) => {
+      onRulesChanged();
+      setDraft(null);
+      // A new rule's secret is only shown now, and only matters for webhook actions
+      if (created && hasWebhookAction(created)) {
+        setRuleSecret(created);
+      }
+    },
+    onError: onRuleError("save"),
+  });
+
+  const secretMutation = useMutation({
+    mutationFn: replaceAutomationRuleSecret,
+    onSuccess: setRuleSecret,
+    onError: onRuleError("update"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: DescribedAutomationRule) => updateAutomationRule(rule, { enabled: !rule.enabled }),
+    onSuccess: onRulesChanged,
+    onError: onRuleError("update"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAutomationRule,
+    onSuccess: onRulesChanged,
+    onError: onRuleError("delete"),
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = insertAutomationRuleSchema.safeParse({
+      name: draft.name,
+      enabled: draft.enabled,
+      trigger: draft.trigger,
+      conditions: draft.conditions,
+      actions: draft.actions,
+    });
+    if (!result.success) {
+      toast({
+        title: "Invalid rule",
+        description: result.error.errors[0]?.message || "Please check the rule.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: draft.id, rule: result.data });
+  };
+
+  const setCondition = (key: keyof AutomationConditions, value: string | boolean | undefined) => {
+    if (!draft) return;
+    const { [key]: _, ...rest } = draft.conditions;
+    setDraft({ ...draft, conditions: value === undefined ? rest : { ...rest, [key]: value } });
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    if (!draft) return;
+    setDraft({ ...draft, actions: draft.actions.map((item, i) => (i === index ? action : item)) });
+  };
+
+  const statusSelect = (value: string | undefined, onChange: (value: string | undefined) => void, anyLabel?: string) => (
+    <Select value={value || ANY} onValueChange={(selected) => onChange(selected === ANY ? undefined : selected)}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {anyLabel && <SelectItem value={ANY}>{anyLabel}</SelectItem>}
+        {project.statuses.map(status => (
+          <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const actionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case "move":
+        return statusSelect(action.status || undefined, status => updateAction(index, { ...action, status: status || "" }));
+      case "set-field":
+        return (
+          <div className="flex gap-2">
+            <Select
+              value={action.field}
+              onValueChange={(field) => updateAction(index, { ...action, field: field as AutomationField, value: null })}
+            >
+              <SelectTrigger className="h-8 text-xs w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTOMATION_FIELDS.map(field => (
+                  <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {action.field === "priority" ? (
+              <Select
+                value={action.value === null ? ANY : String(action.value)}
+                onValueChange={(value) => updateAction(index, { ...action, value: value === ANY ? null : value })}
+              >
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Clear</SelectItem>
+                  {CARD_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={action.field === "estimate" ? "number" : action.field === "dueDate" ? "date" : "text"}
+                placeholder="Empty clears the field"
+                value={action.value ?? ""}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  updateAction(index, {
+                    ...action,
+                    value: value === "" ? null : action.field === "estimate" ? Number(value) : value,
+                  });
+                }}
+                className="h-8 text-xs flex-1"
+              />
+            )}
+          </div>
+        );
+      case "add-comment":
+        return (
+          <Textarea
+            placeholder="Comment text; {{title}}, {{status}}, {{project}} and {{actor}} are filled in"
+            value={action.content}
+            onChange={(e) => updateAction(index, { ...action, content: e.target.value })}
+            className="text-xs min-h-[60px]"
+          />
+        );
+      case "webhook":
+        return (
+          <Input
+            placeholder="https://example.com/hook"
+            value={action.url}
+            onChange={(e) => updateAction(index, { ...action, url: e.target.value })}
+            className="h-8 text-xs"
+          />
+        );
+    }
+  };
+
+  const copySecret = async () => {
+    if (!ruleSecret) return;
+    await navigator.clipboard.writeText(ruleSecret.secret);
+    toast({ title: "Copied", description: "The signing secret is on your clipboard." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Rules run after a card event, in the order they were created. Their changes are recorded in
+        card history under the rule's name and can trigger other rules. Webhook actions are signed with
+        the rule's secret in the <code className="font-mono">X-Kanban-Signature</code> header, like webhooks.
+      </p>
+
+      {ruleSecret && (
+        <div className="rounded-lg border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-3 space-y-2">
+          <p className="text-sm font-medium text-green-800 dark:text-green-300">
+            Signing secret of "{ruleSecret.name}". Copy it now — it will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={ruleSecret.secret} className="font-mono text-xs h-8" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copySecret} title="Copy secret">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setRuleSecret(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div
+            key={rule.id}
+            className="flex items-start gap-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2"
+            data-testid={`automation-rule-${rule.id}`}
+          >
+            <Zap className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-200">{rule.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{rule.description}</div>
+            </div>
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={() => toggleMutation.mutate(rule)}
+              title={rule.enabled ? "Pause rule" : "Enable rule"}
+            />
+            {hasWebhookAction(rule) && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => secretMutation.mutate(rule)}
+                disabled={secretMutation.isPending}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                title="New signing secret"
+              >
+                <KeyRound className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft({ id: rule.id, name: rule.name, enabled: rule.enabled, trigger: rule.trigger as AutomationTrigger, conditions: rule.conditions, actions: rule.actions })}
+              className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              title="Edit rule"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(rule)}
+              disabled={deleteMutation.isPending}
+              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Delete rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {rules.length === 0 && !draft && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No automation rules yet.</p>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-3">
+          <Input
+            placeholder="Rule name"
+            value={draft.name}
+            maxLength={100}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="h-8"
+          />
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-gray-600 dark:text-gray-300">When</div>
+            <Select
+              value={draft.trigger}
+              onValueChange={(trigger) => {
+                // Only moves have a column they came from
+                const { fromStatus, ...conditions } = draft.conditions;
+                setDraft({
+                  ...draft,
+                  trigger: trigger as AutomationTrigger,
+                  conditions: trigger === "card.moved" ? draft.conditions : conditions,
+                });
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTOMATION_TRIGGERS.map(trigger => (
+                  <SelectItem key={trigger} value={trigger}>{AUTOMATION_TRIGGER_LABELS[trigger]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {draft.trigger === "card.moved" && (
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500 dark:text-gray-400">From</div>
+                {statusSelect(draft.conditions.fromStatus, value => setCondition("fromStatus", value), "Any column")}
+              </div>
+            )}
+            <div className="space-y-1">
+              <div className="text-xs text-gray-500 dark:text-gray-400">{draft.trigger === "card.moved" ? "To" : "Card in"}</div>
+              {statusSelect(draft.conditions.status, value => setCondition("status", value), "Any column")}
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Tasks</div>
+              <Select
+                value={draft.conditions.allTasksComplete === undefined ? ANY : String(draft.conditions.allTasksComplete)}
+                onValueChange={(value) => setCondition("allTasksComplete", value === ANY ? undefined : value === "true")}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="true">All checked</SelectItem>
+                  <SelectItem value="false">Some unchecked</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Then</div>
+            {draft.actions.map((action, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <Select
+                  value={action.type}
+                  onValueChange={(type) => updateAction(index, NEW_ACTIONS[type as AutomationActionType])}
+                >
+                  <SelectTrigger className="h-8 text-xs w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTOMATION_ACTION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{AUTOMATION_ACTION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1">{actionFields(action, index)}</div>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                  className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove action"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, actions: [...draft.actions, NEW_ACTIONS["add-comment"]] })}
+              className="h-7 text-xs"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add action
+            </Button>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setDraft({ name: "", enabled: true, trigger: "card.moved", conditions: {}, actions: [NEW_ACTIONS["add-comment"]] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New rule
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardLinkKind, CardLinkView, CARD_LINK_KINDS, CARD_LINK_LABELS, RESOLVED_STATUSES } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { cardLinksQueryKey, createCardLink, deleteCardLink, BLOCKERS_QUERY_KEY } from "@/lib/card-link-utils";
+
+interface CardLinkListProps {
+  cardId: string;
+}
+
+export function CardLinkList({ cardId }: CardLinkListProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [linkType, setLinkType] = useState<CardLinkKind>("blocked-by");
+  const [targetCardId, setTargetCardId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: links = [] } = useQuery<CardLinkView[]>({
+    queryKey: cardLinksQueryKey(cardId),
+  });
+
+  // Every card the user can see, only needed while picking one
+  const { data: allCards = [] } = useQuery<Card[]>({
+    queryKey: ["/api/cards"],
+    enabled: isAdding,
+  });
+  const candidates = allCards
+    .filter(card => card.id !== cardId)
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const onLinksChanged = (otherCardId: string) => {
+    queryClient.invalidateQueries({ queryKey: cardLinksQueryKey(cardId) });
+    queryClient.invalidateQueries({ queryKey: cardLinksQueryKey(otherCardId) });
+    queryClient.invalidateQueries({ queryKey: BLOCKERS_QUERY_KEY });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createCardLink(cardId, targetCardId, linkType),
+    onSuccess: () => {
+      onLinksChanged(targetCardId);
+      setIsAdding(false);
+      setTargetCardId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to link cards: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (link: CardLinkView) => deleteCardLink(cardId, link.id),
+    onSuccess: (_, link) => onLinksChanged(link.card.id),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove link: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Group by type in the order the type picker lists them
+  const groups = CARD_LINK_KINDS
+    .map(kind => ({ kind, links: links.filter(link => link.type === kind) }))
+    .filter(group => group.links.length > 0);
+
+  return (
+    <div className="space-y-2" data-testid="card-link-list">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Link2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+            Links ({links.length})
+          </h3>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setIsAdding(!isAdding)}
+          className="h-7 text-xs"
+          data-testid="button-add-link"
+        >
+          {isAdding ? <X className="w-3 h-3 mr-1" /> : <Plus className="w-3 h-3 mr-1" />}
+          {isAdding ? "Cancel" : "Link card"}
+        </Button>
+      </div>
+
+      {isAdding && (
+        <div className="flex items-center gap-2">
+          <Select value={linkType} onValueChange={(value) => setLinkType(value as CardLinkKind)}>
+            <SelectTrigger className="w-[140px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CARD_LINK_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind}>{CARD_LINK_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={targetCardId} onValueChange={setTargetCardId}>
+            <SelectTrigger className="flex-1 h-8 text-xs">
+              <SelectValue placeholder="Select a card" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(card => (
+                <SelectItem key={card.id} value={card.id}>
+                  {card.title} <span className="text-gray-500">({card.project})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => createMutation.mutate()}
+            disabled={!targetCardId || createMutation.isPending}
+            className="h-8 text-xs bg-blue-600 hover:bg-blue-700"
+          >
+            Add
+          </Button>
+        </div>
+      )}
+
+      {groups.map(({ kind, links: groupLinks }) => (
+        <div key={kind}>
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{CARD_LINK_LABELS[kind]}</div>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+            {groupLinks.map(link => {
+              const resolved = RESOLVED_STATUSES.includes(link.card.status);
+              return (
+                <li key={link.id} className="group flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className={cn(
+                    "flex-1 truncate text-gray-800 dark:text-gray-200",
+                    resolved && "line-through text-gray-500 dark:text-gray-400"
+                  )} title={link.card.title}>
+                    {link.card.title}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {link.card.project} · {link.card.status}
+                  </span>
+                  <button
+                    onClick={() => deleteMutation.mutate(link)}
+                    className="p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
+                    title="Remove link"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
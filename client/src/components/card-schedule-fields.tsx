@@ -0,0 +1,89 @@
+import { useFormContext } from "react-hook-form";
+import { CARD_PRIORITIES, CardPriority, PRIORITY_LABELS } from "@shared/schema";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface ScheduleFields {
+  dueDate?: string | null;
+  priority?: CardPriority | null;
+  estimate?: number | null;
+}
+
+// Select items cannot have an empty value
+const NO_PRIORITY = "none";
+
+// Due date, priority and estimate inputs of the card dialogs; cleared fields are null
+export function CardScheduleFields({ labelClassName }: { labelClassName?: string }) {
+  const { control } = useFormContext<ScheduleFields>();
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <FormField
+        control={control}
+        name="dueDate"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={labelClassName}>Due date</FormLabel>
+            <FormControl>
+              <Input
+                type="date"
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.value || null)}
+                data-testid="input-due-date"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="priority"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={labelClassName}>Priority</FormLabel>
+            <Select
+              value={field.value ?? NO_PRIORITY}
+              onValueChange={(value) => field.onChange(value === NO_PRIORITY ? null : value)}
+            >
+              <FormControl>
+                <SelectTrigger data-testid="select-priority">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_PRIORITY}>None</SelectItem>
+                {CARD_PRIORITIES.map(priority => (
+                  <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="estimate"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={labelClassName}>Estimate</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="Points or hours"
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                data-testid="input-estimate"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
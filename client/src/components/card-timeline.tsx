@@ -0,0 +1,153 @@
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, Bot, History, PlusCircle, Pencil, Trash2, User, Globe, Zap, Inbox } from "lucide-react";
+import { CardEvent, CardChanges } from "@shared/schema";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { formatCommentTime } from "@/lib/comment-utils";
+
+interface CardTimelineProps {
+  cardId: string;
+  project: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  link: "Link",
+  status: "Status",
+  order: "Position",
+  project: "Project",
+  taskList: "Tasks",
+  notes: "Notes",
+  comments: "Comments",
+  labels: "Labels",
+  assignees: "Assignees",
+  dueDate: "Due date",
+  priority: "Priority",
+  estimate: "Estimate",
+};
+
+// Long-form fields only report that they changed instead of printing both versions
+const LONG_FIELDS = new Set(["description", "notes", "comments", "taskList"]);
+
+const EVENT_VERBS: Record<string, string> = {
+  created: "created this card",
+  updated: "edited this card",
+  moved: "moved this card",
+  deleted: "deleted this card",
+};
+
+function EventIcon({ type }: { type: string }) {
+  switch (type) {
+    case "created":
+      return <PlusCircle className="w-4 h-4 text-green-500" />;
+    case "moved":
+      return <ArrowRight className="w-4 h-4 text-blue-500" />;
+    case "deleted":
+      return <Trash2 className="w-4 h-4 text-red-500" />;
+    default:
+      return <Pencil className="w-4 h-4 text-amber-500" />;
+  }
+}
+
+function ActorIcon({ type }: { type: string }) {
+  switch (type) {
+    case "mcp":
+      return <Bot className="w-3 h-3" />;
+    case "user":
+      return <User className="w-3 h-3" />;
+    case "automation":
+      return <Zap className="w-3 h-3" />;
+    case "webhook":
+      return <Inbox className="w-3 h-3" />;
+    default:
+      return <Globe className="w-3 h-3" />;
+  }
+}
+
+export function CardTimeline({ cardId, project }: CardTimelineProps) {
+  const { getStatus } = useProjectStatuses(project);
+  const { data: events = [], isLoading } = useQuery<CardEvent[]>({
+    queryKey: ["/api/cards", cardId, "history"],
+  });
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "none";
+    if (field === "status") return getStatus(String(value)).label;
+    if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "none";
+    return String(value);
+  };
+
+  const renderChanges = (event: CardEvent) => {
+    // Creation and deletion snapshots are summarized by the event itself
+    if (event.type === "created" || event.type === "deleted") return null;
+
+    const changes = event.changes as CardChanges;
+    return (
+      <ul className="mt-1 space-y-0.5">
+        {Object.entries(changes).map(([field, { from, to }]) => (
+          <li key={field} className="text-xs text-gray-600 dark:text-gray-400">
+            <span className="font-medium">{FIELD_LABELS[field] || field}</span>
+            {LONG_FIELDS.has(field) ? (
+              " changed"
+            ) : (
+              <>
+                {": "}
+                <span className="line-through opacity-70">{formatValue(field, from)}</span>
+                {" → "}
+                <span>{formatValue(field, to)}</span>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6 text-gray-500 dark:text-gray-400 text-sm">Loading history...</div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500 dark:text-gray-400 text-sm italic">
+        No recorded activity yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2 mb-3">
+        <History className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Activity ({events.length})
+        </h3>
+      </div>
+      <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+        {events.map(event => (
+          <li key={event.id} className="mb-4 ml-5">
+            <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-white dark:bg-gray-900">
+              <EventIcon type={event.type} />
+            </span>
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span className="inline-flex items-center gap-1 font-medium">
+                <ActorIcon type={event.actorType} />
+                {event.actorName}
+              </span>
+              <span>{EVENT_VERBS[event.type] || event.type}</span>
+              <span
+                className="text-xs text-gray-500 dark:text-gray-400"
+                title={new Date(event.createdAt).toLocaleString()}
+              >
+                {formatCommentTime(String(event.createdAt))}
+              </span>
+            </div>
+            {renderChanges(event)}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
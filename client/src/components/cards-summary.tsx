@@ -6,6 +6,9 @@ import { Button } from "@/components/ui/button";
 import { Eye, EyeOff, Download, RefreshCw, Move } from "lucide-react";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { queryClient } from "@/lib/queryClient";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { getColorBadgeClass } from "@/lib/color-utils";
+import { compareCardRanks } from "@shared/rank";
 import Draggable from "react-draggable";
 
 interface CardSummary {
@@ -21,22 +24,6 @@ interface CardsSummaryProps {
   className?: string;
 }
 
-const statusColors = {
-  'not-started': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-  'blocked': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-  'in-progress': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-  'complete': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-  'verified': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
-};
-
-const statusLabels = {
-  'not-started': 'Not Started',
-  'blocked': 'Blocked',
-  'in-progress': 'In Progress',
-  'complete': 'Complete',
-  'verified': 'Verified'
-};
-
 // Load saved state from localStorage
 const loadSummaryState = () => {
   try {
@@ -62,6 +49,7 @@ const saveSummaryState = (state: { isVisible: boolean; position: { x: number; y:
 export function CardsSummary({ selectedProject, className }: CardsSummaryProps) {
   const [summaryState, setSummaryState] = useState(loadSummaryState);
   const { isVisible, position } = summaryState;
+  const { statuses, getStatus } = useProjectStatuses(selectedProject);
   
   const { data: summary = [], isLoading, refetch } = useQuery({
     queryKey: ['/api/cards/summary', selectedProject],
@@ -79,18 +67,21 @@ export function CardsSummary({ selectedProject, className }: CardsSummaryProps)
     }
   });
 
-  // Group cards by status
-  const groupedCards = summary.reduce((acc, card) => {
-    if (!acc[card.status]) {
-      acc[card.status] = [];
-    }
-    acc[card.status].push(card);
-    return acc;
-  }, {} as Record<string, CardSummary[]>);
+  // Group cards by status, in workflow column order
+  const columnOrder = statuses.map(status => status.key);
+  const groupedCards = [...summary]
+    .sort((a, b) => columnOrder.indexOf(a.status) - columnOrder.indexOf(b.status))
+    .reduce((acc, card) => {
+      if (!acc[card.status]) {
+        acc[card.status] = [];
+      }
+      acc[card.status].push(card);
+      return acc;
+    }, {} as Record<string, CardSummary[]>);
 
   // Sort cards within each status by order
   Object.keys(groupedCards).forEach(status => {
-    groupedCards[status].sort((a, b) => parseInt(a.order) - parseInt(b.order));
+    groupedCards[status].sort(compareCardRanks);
   });
 
   const downloadMarkdown = async () => {
@@ -212,10 +203,10 @@ export function CardsSummary({ selectedProject, className }: CardsSummaryProps)
                 <div key={status} className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Badge 
-                      className={statusColors[status as keyof typeof statusColors]} 
+                      className={getColorBadgeClass(getStatus(status).color)} 
                       variant="secondary"
                     >
-                    {statusLabels[status as keyof typeof statusLabels] || status}
+                    {getStatus(status).label}
                   </Badge>
                   <span className="text-xs text-foreground/70 font-medium">
                     {cards.length}
@@ -1,20 +1,173 @@
 import { useState } from "react";
-import { Comment } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Comment, CommentRevision, groupCommentThreads } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { MessageSquare, Trash2, Edit3, Check, X } from "lucide-react";
-import { formatCommentTime } from "@/lib/comment-utils";
+import { MessageSquare, Trash2, Edit3, Check, X, Reply, History } from "lucide-react";
+import { commentRevisionsQueryKey, formatCommentTime } from "@/lib/comment-utils";
 import { cn } from "@/lib/utils";
 
 interface CommentSectionProps {
+  cardId: string;
   comments: Comment[];
-  onAddComment: (content: string) => void;
+  onAddComment: (content: string, parentId?: string) => void;
   onDeleteComment: (commentId: string) => void;
   onUpdateComment?: (commentId: string, content: string) => void;
   isLoading?: boolean;
 }
 
+const handleKeyPress = (e: React.KeyboardEvent, action: () => void) => {
+  if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+    e.preventDefault();
+    action();
+  }
+};
+
+// Earlier versions of an edited comment, loaded when first shown
+function CommentRevisions({ cardId, commentId }: { cardId: string; commentId: string }) {
+  const { data: revisions = [], isLoading } = useQuery<CommentRevision[]>({
+    queryKey: commentRevisionsQueryKey(cardId, commentId),
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Loading history...</p>;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 border-l-2 border-gray-200 dark:border-gray-700 pl-2">
+      {revisions.map(revision => (
+        <li key={revision.id} className="text-xs text-gray-500 dark:text-gray-400">
+          <span className="font-medium">Replaced {formatCommentTime(revision.createdAt)} by {revision.editorName}:</span>
+          <p className="whitespace-pre-wrap break-words line-through decoration-gray-400/60">{revision.content}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface CommentItemProps {
+  cardId: string;
+  comment: Comment;
+  onReply?: () => void;
+  onDeleteComment: (commentId: string) => void;
+  onUpdateComment?: (commentId: string, content: string) => void;
+}
+
+function CommentItem({ cardId, comment, onReply, onDeleteComment, onUpdateComment }: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleStartEdit = () => {
+    setIsEditing(true);
+    setEditContent(comment.content);
+  };
+
+  const handleSaveEdit = () => {
+    if (editContent.trim() && onUpdateComment) {
+      onUpdateComment(comment.id, editContent.trim());
+      setIsEditing(false);
+      setEditContent("");
+    }
+  };
+
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    setEditContent("");
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <Textarea
+          value={editContent}
+          onChange={(e) => setEditContent(e.target.value)}
+          onKeyDown={(e) => handleKeyPress(e, handleSaveEdit)}
+          className="min-h-[60px] bg-white dark:bg-gray-800 text-sm"
+          autoFocus
+        />
+        <div className="flex items-center space-x-2">
+          <Button
+            size="sm"
+            onClick={handleSaveEdit}
+            className="h-7 text-xs bg-green-600 hover:bg-green-700"
+          >
+            <Check className="w-3 h-3 mr-1" />
+            Save
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleCancelEdit}
+            className="h-7 text-xs"
+          >
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group">
+      <div className="flex items-start justify-between mb-1">
+        <div className="flex items-center space-x-2">
+          <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+            {comment.authorName}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {formatCommentTime(comment.createdAt)}
+          </span>
+          {comment.editedAt && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              title={`Edited ${formatCommentTime(comment.editedAt)} - show history`}
+            >
+              <History className="w-3 h-3 mr-0.5" />
+              edited
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onReply && (
+            <button
+              onClick={onReply}
+              className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+              title="Reply"
+            >
+              <Reply className="w-3 h-3" />
+            </button>
+          )}
+          {onUpdateComment && (
+            <button
+              onClick={handleStartEdit}
+              className="p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400"
+              title="Edit comment"
+            >
+              <Edit3 className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={() => onDeleteComment(comment.id)}
+            className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
+            title={onReply ? "Delete comment and its replies" : "Delete comment"}
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+        {comment.content}
+      </p>
+      {showHistory && <CommentRevisions cardId={cardId} commentId={comment.id} />}
+    </div>
+  );
+}
+
 export function CommentSection({
+  cardId,
   comments,
   onAddComment,
   onDeleteComment,
@@ -22,8 +175,10 @@ export function CommentSection({
   isLoading = false,
 }: CommentSectionProps) {
   const [newComment, setNewComment] = useState("");
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editContent, setEditContent] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+
+  const threads = groupCommentThreads(comments);
 
   const handleSubmit = () => {
     if (newComment.trim()) {
@@ -32,28 +187,11 @@ export function CommentSection({
     }
   };
 
-  const handleStartEdit = (comment: Comment) => {
-    setEditingId(comment.id);
-    setEditContent(comment.content);
-  };
-
-  const handleSaveEdit = (commentId: string) => {
-    if (editContent.trim() && onUpdateComment) {
-      onUpdateComment(commentId, editContent.trim());
-      setEditingId(null);
-      setEditContent("");
-    }
-  };
-
-  const handleCancelEdit = () => {
-    setEditingId(null);
-    setEditContent("");
-  };
-
-  const handleKeyPress = (e: React.KeyboardEvent, action: () => void) => {
-    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
-      e.preventDefault();
-      action();
+  const handleSubmitReply = (parentId: string) => {
+    if (replyContent.trim()) {
+      onAddComment(replyContent.trim(), parentId);
+      setReplyContent("");
+      setReplyingTo(null);
     }
   };
 
@@ -68,83 +206,72 @@ export function CommentSection({
 
       {/* Comment List */}
       <div className="space-y-3 max-h-[300px] overflow-y-auto">
-        {comments.length === 0 ? (
+        {threads.length === 0 ? (
           <div className="text-center py-6 text-gray-500 dark:text-gray-400 text-sm italic">
             No comments yet. Be the first to comment!
           </div>
         ) : (
-          comments.map((comment) => (
+          threads.map((thread) => (
             <div
-              key={comment.id}
-              className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3 border border-gray-200 dark:border-gray-700 group"
+              key={thread.id}
+              className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3 border border-gray-200 dark:border-gray-700"
             >
-              {editingId === comment.id ? (
-                // Edit mode
-                <div className="space-y-2">
+              <CommentItem
+                cardId={cardId}
+                comment={thread}
+                onReply={() => {
+                  setReplyingTo(thread.id);
+                  setReplyContent("");
+                }}
+                onDeleteComment={onDeleteComment}
+                onUpdateComment={onUpdateComment}
+              />
+
+              {/* Replies */}
+              {thread.replies.length > 0 && (
+                <div className="mt-3 ml-3 pl-3 space-y-3 border-l-2 border-gray-200 dark:border-gray-700">
+                  {thread.replies.map(reply => (
+                    <CommentItem
+                      key={reply.id}
+                      cardId={cardId}
+                      comment={reply}
+                      onDeleteComment={onDeleteComment}
+                      onUpdateComment={onUpdateComment}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {replyingTo === thread.id && (
+                <div className="mt-3 ml-3 pl-3 space-y-2 border-l-2 border-blue-200 dark:border-blue-800">
                   <Textarea
-                    value={editContent}
-                    onChange={(e) => setEditContent(e.target.value)}
-                    onKeyDown={(e) => handleKeyPress(e, () => handleSaveEdit(comment.id))}
+                    placeholder="Write a reply... (Cmd/Ctrl + Enter to submit)"
+                    value={replyContent}
+                    onChange={(e) => setReplyContent(e.target.value)}
+                    onKeyDown={(e) => handleKeyPress(e, () => handleSubmitReply(thread.id))}
                     className="min-h-[60px] bg-white dark:bg-gray-800 text-sm"
                     autoFocus
                   />
                   <div className="flex items-center space-x-2">
                     <Button
                       size="sm"
-                      onClick={() => handleSaveEdit(comment.id)}
-                      className="h-7 text-xs bg-green-600 hover:bg-green-700"
+                      onClick={() => handleSubmitReply(thread.id)}
+                      disabled={!replyContent.trim() || isLoading}
+                      className="h-7 text-xs bg-blue-600 hover:bg-blue-700 text-white"
                     >
-                      <Check className="w-3 h-3 mr-1" />
-                      Save
+                      <Reply className="w-3 h-3 mr-1" />
+                      Reply
                     </Button>
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={handleCancelEdit}
+                      onClick={() => setReplyingTo(null)}
                       className="h-7 text-xs"
                     >
-                      <X className="w-3 h-3 mr-1" />
                       Cancel
                     </Button>
                   </div>
                 </div>
-              ) : (
-                // View mode
-                <>
-                  <div className="flex items-start justify-between mb-1">
-                    <div className="flex items-center space-x-2">
-                      {comment.author && (
-                        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
-                          {comment.author}
-                        </span>
-                      )}
-                      <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {formatCommentTime(comment.timestamp)}
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      {onUpdateComment && (
-                        <button
-                          onClick={() => handleStartEdit(comment)}
-                          className="p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400"
-                          title="Edit comment"
-                        >
-                          <Edit3 className="w-3 h-3" />
-                        </button>
-                      )}
-                      <button
-                        onClick={() => onDeleteComment(comment.id)}
-                        className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-400"
-                        title="Delete comment"
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </button>
-                    </div>
-                  </div>
-                  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
-                    {comment.content}
-                  </p>
-                </>
               )}
             </div>
           ))
@@ -179,6 +306,3 @@ export function CommentSection({
     </div>
   );
 }
-
-
-
@@ -19,15 +19,18 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertCardSchema } from "@shared/schema";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { COLOR_OPTIONS, Project, slugifyProjectName } from "@shared/schema";
 
 const createProjectSchema = z.object({
   projectName: z.string().min(1, "Project name is required").max(50, "Project name must be less than 50 characters"),
-  firstCardTitle: z.string().min(1, "First card title is required"),
-  firstCardDescription: z.string().min(1, "First card description is required"),
+  description: z.string().max(500, "Description must be less than 500 characters").optional(),
+  color: z.enum(COLOR_OPTIONS),
 });
 
 type CreateProjectForm = z.infer<typeof createProjectSchema>;
@@ -46,49 +49,41 @@ export function CreateProjectDialog({ open, onOpenChange, onProjectCreated }: Cr
     resolver: zodResolver(createProjectSchema),
     defaultValues: {
       projectName: "",
-      firstCardTitle: "",
-      firstCardDescription: "",
+      description: "",
+      color: "blue",
     },
   });
 
+  const projectSlug = slugifyProjectName(form.watch("projectName"));
+
   const createProjectMutation = useMutation({
     mutationFn: async (data: CreateProjectForm) => {
-      // Convert project name to slug format
-      const projectSlug = data.projectName
-        .toLowerCase()
-        .replace(/[^a-z0-9]/g, '-')
-        .replace(/-+/g, '-')
-        .replace(/^-|-$/g, '');
-
-      // Create the first card for this project
-      const cardData = {
-        title: data.firstCardTitle,
-        description: data.firstCardDescription,
-        project: projectSlug,
-        status: "not-started" as const,
-        order: "1",
-      };
-
-      const response = await apiRequest("POST", "/api/cards", cardData);
-      return { project: projectSlug, card: await response.json() };
+      const response = await apiRequest("POST", "/api/projects", {
+        name: data.projectName,
+        slug: slugifyProjectName(data.projectName),
+        description: data.description || undefined,
+        color: data.color,
+      });
+      return response.json() as Promise<Project>;
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+    onSuccess: (project) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       
       toast({
         title: "Project created",
-        description: `Project "${data.project}" has been created successfully.`,
+        description: `Project "${project.name}" has been created successfully.`,
       });
       
       form.reset();
       onOpenChange(false);
-      onProjectCreated(data.project);
+      onProjectCreated(project.slug);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create project. Please try again.",
+        description: error.message.startsWith("409")
+          ? "A project with that name already exists."
+          : "Failed to create project. Please try again.",
         variant: "destructive",
       });
     },
@@ -104,7 +99,7 @@ export function CreateProjectDialog({ open, onOpenChange, onProjectCreated }: Cr
         <DialogHeader>
           <DialogTitle>Create New Project</DialogTitle>
           <DialogDescription>
-            Create a new project with your first task card. The project name will be formatted automatically.
+            Create an empty project. Cards can be added to it from the board at any time.
           </DialogDescription>
         </DialogHeader>
         
@@ -122,48 +117,60 @@ export function CreateProjectDialog({ open, onOpenChange, onProjectCreated }: Cr
                       {...field}
                     />
                   </FormControl>
+                  {projectSlug && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Slug: <span className="font-mono">{projectSlug}</span>
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
-            <div className="space-y-3">
-              <h4 className="text-sm font-medium text-gray-900">First Task Card</h4>
-              
-              <FormField
-                control={form.control}
-                name="firstCardTitle"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Card Title</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="e.g., Set up project structure"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What is this project about?"
+                      className="min-h-[80px] resize-none"
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
-              <FormField
-                control={form.control}
-                name="firstCardDescription"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Card Description</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="e.g., Initialize the project with basic folder structure and dependencies"
-                        {...field}
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {COLOR_OPTIONS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => field.onChange(color)}
+                        className={cn(
+                          "w-6 h-6 rounded-full transition-transform",
+                          getColorDotClass(color),
+                          field.value === color ? "ring-2 ring-offset-2 ring-blue-500 scale-110" : "hover:scale-110"
+                        )}
+                        title={color}
                       />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <div className="flex justify-end space-x-2 pt-4">
               <Button
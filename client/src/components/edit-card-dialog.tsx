@@ -9,18 +9,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Card, updateCardSchema, UpdateCard, KANBAN_STATUSES, KanbanStatus } from "@shared/schema";
+import { Assignee, Card, CardPriority, Label as CardLabel, updateCardSchema, UpdateCard } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { handleImageDrop, handleImagePaste, insertTextAtCursor } from "@/lib/image-upload-utils";
 import { Loader2, Image as ImageIcon } from "lucide-react";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { CARD_LABELS_QUERY_KEY } from "@/lib/label-utils";
+import { CARD_ASSIGNEES_QUERY_KEY } from "@/lib/assignee-utils";
+import { LabelPicker } from "./label-picker";
+import { AssigneePicker } from "./assignee-picker";
+import { CardScheduleFields } from "./card-schedule-fields";
 
 // Extended schema for editing (includes status field)
 const editCardSchema = updateCardSchema.extend({
   title: z.string().min(1, "Title is required"),
   description: z.string().min(1, "Description is required"),
-  status: z.enum(KANBAN_STATUSES),
+  status: z.string().min(1, "Status is required"),
   link: z.string().url().optional().or(z.literal("")),
 });
 
@@ -38,6 +44,12 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const descriptionTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const { statuses } = useProjectStatuses(card.project);
+  // The board has loaded every card's labels and assignees already
+  const labelsByCard = queryClient.getQueryData<Record<string, CardLabel[]>>(CARD_LABELS_QUERY_KEY) || {};
+  const initialLabels = (labelsByCard[card.id] || []).map(label => label.name);
+  const assigneesByCard = queryClient.getQueryData<Record<string, Assignee[]>>(CARD_ASSIGNEES_QUERY_KEY) || {};
+  const initialAssignees = (assigneesByCard[card.id] || []).map(assignee => assignee.username);
 
   const form = useForm<EditCardForm>({
     resolver: zodResolver(editCardSchema),
@@ -45,16 +57,25 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
       title: card.title,
       description: card.description,
       link: card.link || undefined,
-      status: card.status as KanbanStatus,
+      status: card.status,
       notes: card.notes || undefined,
+      labels: initialLabels,
+      assignees: initialAssignees,
+      dueDate: card.dueDate,
+      priority: card.priority as CardPriority | null,
+      estimate: card.estimate,
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: EditCardForm) => {
+    mutationFn: async ({ labels, assignees, ...data }: EditCardForm) => {
       const updates: UpdateCard = {
         ...data,
         link: data.link || null,
+        // Only sent when changed, so labels and assignees the board had not
+        // loaded are kept
+        ...(labels && labels.join("\n") !== initialLabels.join("\n") && { labels }),
+        ...(assignees && assignees.join("\n") !== initialAssignees.join("\n") && { assignees }),
       };
       const response = await apiRequest("PATCH", `/api/cards/${card.id}`, updates);
       return response.json();
@@ -68,10 +89,21 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
       onOpenChange(false);
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
+      let description = "Failed to update card. Please try again.";
+      if (error.message.startsWith("400")) {
+        description = "That status is not part of this project's workflow.";
+      } else if (error.message.startsWith("409")) {
+        // A status change into a full column or one the workflow rules forbid; the server says why
+        try {
+          description = JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || description;
+        } catch {
+          // Keep the generic message for non-JSON bodies
+        }
+      }
       toast({
         title: "Error",
-        description: "Failed to update card. Please try again.",
+        description,
         variant: "destructive",
       });
     },
@@ -159,17 +191,6 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
     }
   };
 
-  const getStatusLabel = (status: KanbanStatus) => {
-    const labels = {
-      "not-started": "Not Started",
-      "blocked": "Blocked",
-      "in-progress": "In Progress",
-      "complete": "Complete",
-      "verified": "Verified"
-    };
-    return labels[status];
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-2xl">
@@ -289,6 +310,38 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="labels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Labels</FormLabel>
+                  <FormControl>
+                    <LabelPicker
+                      project={card.project}
+                      value={field.value || []}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="assignees"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Assignees</FormLabel>
+                  <FormControl>
+                    <AssigneePicker value={field.value || []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="status"
@@ -302,9 +355,9 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {KANBAN_STATUSES.map((status) => (
-                        <SelectItem key={status} value={status}>
-                          {getStatusLabel(status)}
+                      {statuses.map((status) => (
+                        <SelectItem key={status.key} value={status.key}>
+                          {status.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -314,6 +367,8 @@ export function EditCardDialog({ card, open, onOpenChange }: EditCardDialogProps
               )}
             />
             
+            <CardScheduleFields />
+
             <div className="flex justify-end space-x-2 pt-6 border-t border-gray-200 dark:border-gray-700 mt-4">
               <Button
                 type="button"
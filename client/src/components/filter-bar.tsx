@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Filter, Save, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+const SAVED_FILTERS_KEY = 'kanban-saved-filters';
+
+// Load saved filters from localStorage
+const loadSavedFilters = (): SavedFilter[] => {
+  try {
+    const saved = localStorage.getItem(SAVED_FILTERS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(filter =>
+          typeof filter?.name === 'string' &&
+          typeof filter?.query === 'string'
+        );
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load saved filters from localStorage:', error);
+  }
+  return [];
+};
+
+// Save filters to localStorage
+const storeSavedFilters = (filters: SavedFilter[]) => {
+  try {
+    localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.warn('Failed to save filters to localStorage:', error);
+  }
+};
+
+interface FilterBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  error: string | null;
+  matchCount: number | null;
+  onClose: () => void;
+}
+
+export function FilterBar({ query, onQueryChange, error, matchCount, onClose }: FilterBarProps) {
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+  const [saveName, setSaveName] = useState("");
+  const [isNaming, setIsNaming] = useState(false);
+
+  const updateSavedFilters = (filters: SavedFilter[]) => {
+    setSavedFilters(filters);
+    storeSavedFilters(filters);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName.trim();
+    if (!name || !query.trim() || error) return;
+    // Saving under an existing name replaces that filter
+    updateSavedFilters([...savedFilters.filter(filter => filter.name !== name), { name, query: query.trim() }]);
+    setSaveName("");
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 mb-6 space-y-2" data-testid="filter-bar">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Filter className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            autoFocus
+            placeholder="status:blocked label:bug assignee:alice has:tasks tasks:incomplete updated:<7d"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") onQueryChange("");
+            }}
+            className={cn("pl-8 font-mono text-sm", error && "border-red-400 focus-visible:ring-red-400")}
+            data-testid="input-filter-query"
+          />
+        </div>
+        {isNaming ? (
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <Input
+              autoFocus
+              placeholder="Filter name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsNaming(false);
+              }}
+              className="w-40"
+            />
+            <Button type="submit" size="sm" disabled={!saveName.trim()}>
+              Save
+            </Button>
+          </form>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsNaming(true)}
+            disabled={!query.trim() || Boolean(error)}
+            title="Save this filter"
+          >
+            <Save className="w-4 h-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close filter bar">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {error ? (
+          <span className="text-red-600 dark:text-red-400" data-testid="text-filter-error">{error}</span>
+        ) : matchCount !== null ? (
+          <span className="text-gray-600 dark:text-gray-300" data-testid="text-filter-matches">
+            {matchCount === 1 ? "1 card matches" : `${matchCount} cards match`}
+          </span>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">
+            Filter by status, project, has, tasks, updated, created or title. Prefix a term with - to exclude it.
+          </span>
+        )}
+
+        {savedFilters.map(filter => (
+          <span
+            key={filter.name}
+            className={cn(
+              "inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs",
+              filter.query === query.trim()
+                ? "border-blue-400 bg-blue-50 text-blue-700 dark:border-blue-500 dark:bg-blue-900/30 dark:text-blue-300"
+                : "border-gray-300 bg-white text-gray-700 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300"
+            )}
+          >
+            <button type="button" onClick={() => onQueryChange(filter.query)} title={filter.query}>
+              {filter.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => updateSavedFilters(savedFilters.filter(f => f.name !== filter.name))}
+              title="Delete saved filter"
+              className="text-gray-400 hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Inbox, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatCommentTime } from "@/lib/comment-utils";
+import {
+  incomingHooksQueryKey,
+  createIncomingHook,
+  updateIncomingHook,
+  deleteIncomingHook,
+  type CreatedIncomingHook,
+} from "@/lib/incoming-hook-utils";
+import {
+  IncomingHookMapping,
+  InsertIncomingHook,
+  Project,
+  PublicIncomingHook,
+  insertIncomingHookSchema,
+} from "@shared/schema";
+
+interface IncomingHookEditorProps {
+  project: Project;
+}
+
+interface IncomingHookDraft {
+  id?: string;
+  name: string;
+  mapping: IncomingHookMapping;
+}
+
+// Optional templates left empty are not sent, so they stay unset
+function cleanMapping(mapping: IncomingHookMapping): IncomingHookMapping {
+  const cleaned: IncomingHookMapping = { title: mapping.title };
+  if (mapping.description?.trim()) cleaned.description = mapping.description;
+  if (mapping.status?.trim()) cleaned.status = mapping.status.trim();
+  if (mapping.idempotencyKey?.trim()) cleaned.idempotencyKey = mapping.idempotencyKey.trim();
+  return cleaned;
+}
+
+// Hooks are saved one at a time, like outgoing webhooks
+export function IncomingHookEditor({ project }: IncomingHookEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<IncomingHookDraft | null>(null);
+  const [createdHook, setCreatedHook] = useState<CreatedIncomingHook | null>(null);
+
+  const { data: hooks = [] } = useQuery<PublicIncomingHook[]>({
+    queryKey: incomingHooksQueryKey(project.slug),
+  });
+
+  const onHooksChanged = () => {
+    queryClient.invalidateQueries({ queryKey: incomingHooksQueryKey(project.slug) });
+  };
+
+  const onHookError = (action: string) => (error: Error) => {
+    let description = `Failed to ${action} incoming hook. Please try again.`;
+    if (error.message.startsWith("400")) {
+      try {
+        const body = JSON.parse(error.message.replace(/^\d+:\s*/, ""));
+        description = body.errors?.[0]?.message || body.message || description;
+      } catch {
+        // Keep the generic message for non-JSON bodies
+      }
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, hook }: { id?: string; hook: InsertIncomingHook }) => {
+      const existing = hooks.find(candidate => candidate.id === id);
+      if (existing) {
+        await updateIncomingHook(existing, { name: hook.name, mapping: hook.mapping });
+        return null;
+      }
+      return createIncomingHook(project.slug, hook);
+    },
+    onSuccess: (created) => {
+      onHooksChanged();
+      setDraft(null);
+      if (created) {
+        setCreatedHook(created);
+      }
+    },
+    onError: onHookError("save"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (hook: PublicIncomingHook) => updateIncomingHook(hook, { enabled: !hook.enabled }),
+    onSuccess: onHooksChanged,
+    onError: onHookError("update"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteIncomingHook,
+    onSuccess: onHooksChanged,
+    onError: onHookError("delete"),
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = insertIncomingHookSchema.safeParse({ name: draft.name, mapping: cleanMapping(draft.mapping) });
+    if (!result.success) {
+      toast({
+        title: "Invalid incoming hook",
+        description: result.error.errors[0]?.message || "Please check the hook.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: draft.id, hook: result.data });
+  };
+
+  const setTemplate = (key: keyof IncomingHookMapping, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, mapping: { ...draft.mapping, [key]: value } });
+  };
+
+  const hookUrl = createdHook ? `${window.location.origin}${createdHook.path}` : "";
+
+  const copyUrl = async () => {
+    if (!createdHook) return;
+    await navigator.clipboard.writeText(hookUrl);
+    toast({ title: "Copied", description: "The hook URL is on your clipboard." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        External systems such as alerting or CI can POST any JSON to a hook's URL to open a card. Templates
+        fill in <code className="font-mono">{"{{path.to.field}}"}</code> from the payload. Deliveries with the
+        same idempotency key (the <code className="font-mono">Idempotency-Key</code> header, or the key
+        template) update the card the first one created.
+      </p>
+
+      {createdHook && (
+        <div className="rounded-lg border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-3 space-y-2">
+          <p className="text-sm font-medium text-green-800 dark:text-green-300">
+            Hook "{createdHook.name}" created. Copy its URL now — it contains a secret token and will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={hookUrl} className="font-mono text-xs h-8" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copyUrl} title="Copy URL">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedHook(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {hooks.map(hook => (
+          <div
+            key={hook.id}
+            className="flex items-start gap-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2"
+            data-testid={`incoming-hook-${hook.id}`}
+          >
+            <Inbox className="w-4 h-4 mt-0.5 text-purple-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-800 dark:text-gray-200">{hook.name}</span>
+                <span className="text-xs font-mono text-gray-400 dark:text-gray-500">{hook.tokenPrefix}…</span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate font-mono" title={hook.mapping.title}>
+                {hook.mapping.title}
+              </div>
+              <div className="text-xs text-gray-400 dark:text-gray-500">
+                {hook.lastUsedAt ? `Last delivery ${formatCommentTime(hook.lastUsedAt)}` : "No deliveries yet"}
+              </div>
+            </div>
+            <Switch
+              checked={hook.enabled}
+              onCheckedChange={() => toggleMutation.mutate(hook)}
+              title={hook.enabled ? "Refuse deliveries" : "Accept deliveries"}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft({ id: hook.id, name: hook.name, mapping: hook.mapping })}
+              className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              title="Edit hook"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(hook)}
+              disabled={deleteMutation.isPending}
+              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Delete hook"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {hooks.length === 0 && !draft && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No incoming hooks yet.</p>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-3">
+          <Input
+            placeholder="Hook name, e.g. Alertmanager"
+            value={draft.name}
+            maxLength={100}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="h-8"
+          />
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Title</div>
+            <Input
+              placeholder="{{alert.name}} on {{alert.host}}"
+              value={draft.mapping.title}
+              onChange={(e) => setTemplate("title", e.target.value)}
+              className="h-8 text-xs font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Description</div>
+            <Textarea
+              placeholder="Optional, e.g. {{alert.summary}}"
+              value={draft.mapping.description ?? ""}
+              onChange={(e) => setTemplate("description", e.target.value)}
+              className="text-xs font-mono min-h-[60px]"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Column</div>
+              <Input
+                placeholder={`Optional key or label, e.g. ${project.statuses[0]?.label ?? "Not Started"}`}
+                value={draft.mapping.status ?? ""}
+                onChange={(e) => setTemplate("status", e.target.value)}
+                className="h-8 text-xs font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Idempotency key</div>
+              <Input
+                placeholder="Optional, e.g. {{alert.fingerprint}}"
+                value={draft.mapping.idempotencyKey ?? ""}
+                onChange={(e) => setTemplate("idempotencyKey", e.target.value)}
+                className="h-8 text-xs font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Hook"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setDraft({ name: "", mapping: { title: "" } })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New incoming hook
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,12 @@ import { cn } from '@/lib/utils';
 import { TaskItem } from '@/lib/task-utils';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { X } from 'lucide-react';
+import { getImageVariantUrl } from '@shared/image-variants';
 
 interface InteractiveMarkdownProps {
   content: string;
   tasks: TaskItem[];
-  onTaskToggle: (taskText: string, completed: boolean) => void;
+  onTaskToggle: (index: number, completed: boolean) => void;
   isExpanded: boolean;
 }
 
@@ -38,18 +39,19 @@ export function InteractiveMarkdown({ content, tasks, onTaskToggle, isExpanded }
               : false;
             
             if (isTaskListItem) {
-              // Extract the text content from children
-              const textContent = extractTextFromChildren(children);
-              const taskText = textContent.replace(/^\[([x\s])\]\s*/, '').trim();
-              const task = tasks.find(t => t.text === taskText);
+              // Tasks are matched by line, so items with the same text stay apart
+              const index = tasks.findIndex(t => t.line === node?.position?.start.line);
+              const task = index >= 0 ? tasks[index] : undefined;
+              const taskText = task?.text ?? extractTextFromChildren(children).replace(/^\[([x\s])\]\s*/, '').trim();
               
               return (
                 <li className="mb-1 flex items-center gap-1.5 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors task-list-item">
                   <input
                     type="checkbox"
                     checked={task?.completed ?? false}
+                    disabled={!task}
                     onChange={(e) => {
-                      onTaskToggle(taskText, e.target.checked);
+                      onTaskToggle(index, e.target.checked);
                     }}
                     className="w-3.5 h-3.5 accent-blue-500 dark:accent-blue-400 rounded flex-shrink-0"
                     onClick={(e) => e.stopPropagation()}
@@ -101,7 +103,7 @@ export function InteractiveMarkdown({ content, tasks, onTaskToggle, isExpanded }
             
             return (
               <img
-                src={src}
+                src={getImageVariantUrl(src, 'thumbnail') ?? src}
                 alt={displayAlt}
                 loading="lazy"
                 className="rounded-lg max-w-full h-auto my-2 cursor-pointer hover:opacity-90 transition-opacity shadow-sm"
@@ -111,8 +113,13 @@ export function InteractiveMarkdown({ content, tasks, onTaskToggle, isExpanded }
                   setLightboxImage({ src: src || '', alt: displayAlt });
                 }}
                 onError={(e) => {
-                  // Handle broken images gracefully
                   const target = e.target as HTMLImageElement;
+                  // Images uploaded before variants existed only have the original
+                  if (src && target.getAttribute('src') !== src) {
+                    target.src = src;
+                    return;
+                  }
+                  // Handle broken images gracefully
                   target.style.display = 'none';
                   const errorMsg = document.createElement('div');
                   errorMsg.className = 'text-xs text-red-500 italic my-2';
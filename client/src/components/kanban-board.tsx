@@ -9,49 +9,52 @@ import { TaskCard } from "./task-card";
 import { AddCardDialog } from "./add-card-dialog";
 
 import { EditCardDialog } from "./edit-card-dialog";
+import { FilterBar } from "./filter-bar";
 import { Button } from "@/components/ui/button";
 
-import { Plus, Filter, RotateCcw } from "lucide-react";
+import { Plus, Filter, RotateCcw, Layers } from "lucide-react";
 
-import { Card, KANBAN_STATUSES, KanbanStatus } from "@shared/schema";
+import { Assignee, Card, CardSearchResult, Label, LinkedCard } from "@shared/schema";
+import { compareCardRanks, rankBetween } from "@shared/rank";
+import { parseCardQuery, matchesCardQuery, type ParsedCardQuery } from "@shared/card-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { SUBCARDS_QUERY_KEY } from "@/lib/card-link-utils";
+import { CARD_LABELS_QUERY_KEY } from "@/lib/label-utils";
+import { CARD_ASSIGNEES_QUERY_KEY } from "@/lib/assignee-utils";
 import { cn } from "@/lib/utils";
 
-// Default column widths
-const DEFAULT_COLUMN_WIDTHS: Record<KanbanStatus, number> = {
-  "not-started": 320,
-  "blocked": 320,
-  "in-progress": 320,
-  "complete": 320,
-  "verified": 320,
-};
+// Whether sub-cards are folded into their epics instead of shown in columns
+const COLLAPSE_SUBCARDS_KEY = 'kanban-collapse-subcards';
+
+// Default width for every column; saved widths are keyed by status key
+const DEFAULT_COLUMN_WIDTH = 320;
 
 // Load saved column widths from localStorage
-const loadColumnWidths = (): Record<KanbanStatus, number> => {
+const loadColumnWidths = (): Record<string, number> => {
   try {
     const saved = localStorage.getItem('kanban-column-widths');
     if (saved) {
       const parsed = JSON.parse(saved);
-      // Validate that all required statuses are present and values are numbers
-      const isValid = KANBAN_STATUSES.every(status => 
-        typeof parsed[status] === 'number' && 
-        parsed[status] >= 280 && 
-        parsed[status] <= 600
-      );
-      if (isValid) {
-        return parsed;
-      }
+      // Keep only widths that are numbers within the allowed range
+      return Object.fromEntries(
+        Object.entries(parsed).filter(([, width]) =>
+          typeof width === 'number' &&
+          width >= 280 &&
+          width <= 600
+        )
+      ) as Record<string, number>;
     }
   } catch (error) {
     console.warn('Failed to load column widths from localStorage:', error);
   }
-  return DEFAULT_COLUMN_WIDTHS;
+  return {};
 };
 
 // Save column widths to localStorage
-const saveColumnWidths = (widths: Record<KanbanStatus, number>) => {
+const saveColumnWidths = (widths: Record<string, number>) => {
   try {
     localStorage.setItem('kanban-column-widths', JSON.stringify(widths));
   } catch (error) {
@@ -61,23 +64,31 @@ const saveColumnWidths = (widths: Record<KanbanStatus, number>) => {
 
 interface KanbanBoardProps {
   selectedProject?: string;
+  searchQuery?: string;
 }
 
-export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+export function KanbanBoard({ selectedProject, searchQuery = "" }: KanbanBoardProps) {
   const [activeCard, setActiveCard] = useState<Card | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
 
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingCard, setEditingCard] = useState<Card | null>(null);
-  const [columnWidths, setColumnWidths] = useState<Record<KanbanStatus, number>>(loadColumnWidths);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>(loadColumnWidths);
+  const [showFilterBar, setShowFilterBar] = useState(false);
+  const [filterQuery, setFilterQuery] = useState("");
+  const [collapseSubcards, setCollapseSubcards] = useState(() => localStorage.getItem(COLLAPSE_SUBCARDS_KEY) === 'true');
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isConnected } = useWebSocket();
+  const { statuses } = useProjectStatuses(selectedProject);
   
   // Use the selectedProject passed as prop
   
   // Handle column width changes
-  const handleColumnWidthChange = (status: KanbanStatus, newWidth: number) => {
+  const handleColumnWidthChange = (status: string, newWidth: number) => {
     const updatedWidths = {
       ...columnWidths,
       [status]: newWidth
@@ -88,8 +99,8 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
 
   // Reset all column widths to defaults
   const resetColumnWidths = () => {
-    setColumnWidths(DEFAULT_COLUMN_WIDTHS);
-    saveColumnWidths(DEFAULT_COLUMN_WIDTHS);
+    setColumnWidths({});
+    saveColumnWidths({});
     toast({
       title: "Column widths reset",
       description: "All columns have been reset to default width.",
@@ -110,7 +121,27 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
     })
   );
 
-  const { data: cards = [], isLoading } = useQuery<Card[]>({
+  const [debouncedSearch, setDebouncedSearch] = useState(searchQuery.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const { data: searchResults } = useQuery<CardSearchResult[]>({
+    queryKey: ["/api/search", debouncedSearch, selectedProject],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedSearch, limit: "100" });
+      if (selectedProject) params.set("project", selectedProject);
+      const response = await fetch(`/api/search?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to search cards');
+      return response.json();
+    },
+    enabled: debouncedSearch.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: allCards = [], isLoading } = useQuery<Card[]>({
     queryKey: ["/api/cards", selectedProject],
     queryFn: async () => {
       const url = selectedProject 
@@ -122,41 +153,101 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
     },
   });
 
-  const updateCardMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Card> }) => {
-      const response = await apiRequest("PATCH", `/api/cards/${id}`, updates);
+  // While searching, the board only shows matching cards
+  const matchingIds = debouncedSearch && searchResults
+    ? new Set(searchResults.map(result => result.card.id))
+    : null;
+  const searchedCards = matchingIds ? allCards.filter(card => matchingIds.has(card.id)) : allCards;
+
+  // The filter bar uses the same query language as GET /api/cards?query=,
+  // evaluated locally so the board updates while typing
+  let parsedFilter: ParsedCardQuery | null = null;
+  let filterError: string | null = null;
+  if (filterQuery.trim()) {
+    try {
+      parsedFilter = parseCardQuery(filterQuery);
+    } catch (error) {
+      filterError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  // Label names and assignees come from the board-wide queries that the cards show
+  const { data: labelsByCard = {} } = useQuery<Record<string, Label[]>>({
+    queryKey: CARD_LABELS_QUERY_KEY,
+  });
+  const { data: assigneesByCard = {} } = useQuery<Record<string, Assignee[]>>({
+    queryKey: CARD_ASSIGNEES_QUERY_KEY,
+  });
+  const now = new Date();
+  const filteredCards = parsedFilter
+    ? searchedCards.filter(card => matchesCardQuery(
+        {
+          ...card,
+          labels: (labelsByCard[card.id] || []).map(label => label.name),
+          assignees: (assigneesByCard[card.id] || []).map(assignee => assignee.username),
+        },
+        parsedFilter!,
+        now
+      ))
+    : searchedCards;
+
+  // Epic view: sub-cards of an epic on this board are listed on the epic only
+  const { data: subcardsByParent = {} } = useQuery<Record<string, LinkedCard[]>>({
+    queryKey: SUBCARDS_QUERY_KEY,
+    enabled: collapseSubcards,
+  });
+  const foldedIds = new Set<string>();
+  if (collapseSubcards) {
+    const boardIds = new Set(allCards.map(card => card.id));
+    Object.entries(subcardsByParent).forEach(([parentId, subcards]) => {
+      if (boardIds.has(parentId)) {
+        subcards.forEach(subcard => foldedIds.add(subcard.id));
+      }
+    });
+  }
+  const cards = foldedIds.size > 0 ? filteredCards.filter(card => !foldedIds.has(card.id)) : filteredCards;
+
+  const toggleCollapseSubcards = () => {
+    localStorage.setItem(COLLAPSE_SUBCARDS_KEY, String(!collapseSubcards));
+    setCollapseSubcards(!collapseSubcards);
+  };
+
+  // A drop is a single request: the server ranks the card between its new
+  // neighbours and leaves every other card untouched
+  const moveCardMutation = useMutation({
+    mutationFn: async ({ id, placement }: { id: string; placement: { status: string; afterId?: string; beforeId?: string } }) => {
+      const response = await apiRequest("POST", `/api/cards/${id}/move`, placement);
       return response.json();
     },
     onSuccess: () => {
       // Don't invalidate immediately for drag operations to avoid flicker
       // The optimistic update handles the UI, server response confirms it
     },
-    onError: () => {
+    onError: (error: Error) => {
       // Revert optimistic update on error
       queryClient.invalidateQueries({ queryKey: ["/api/cards", selectedProject] });
+      // Status errors (e.g. a column missing from the card's project workflow),
+      // full columns under strict WIP limits and moves the workflow rules forbid
+      // are worth showing
+      let description = "Failed to update card. Changes reverted.";
+      if (error.message.startsWith("400") || error.message.startsWith("409")) {
+        try {
+          description = JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || description;
+        } catch {
+          // Keep the generic message for non-JSON bodies
+        }
+      }
       toast({
         title: "Error",
-        description: "Failed to update card. Changes reverted.",
+        description,
         variant: "destructive",
       });
     },
   });
 
-  const getCardsByStatus = (status: KanbanStatus) => {
+  const getCardsByStatus = (status: string) => {
     return cards
       .filter(card => card.status === status)
-      .sort((a, b) => parseInt(a.order) - parseInt(b.order));
-  };
-
-  const getColumnConfig = (status: KanbanStatus) => {
-    const configs = {
-      "not-started": { title: "Not Started", color: "gray", bgColor: "bg-gradient-to-r from-gray-50 to-slate-50" },
-      "blocked": { title: "Blocked", color: "red", bgColor: "bg-gradient-to-r from-red-50 to-rose-50" },
-      "in-progress": { title: "In Progress", color: "blue", bgColor: "bg-gradient-to-r from-blue-50 to-indigo-50" },
-      "complete": { title: "Complete", color: "green", bgColor: "bg-gradient-to-r from-green-50 to-emerald-50" },
-      "verified": { title: "Verified", color: "purple", bgColor: "bg-gradient-to-r from-purple-50 to-violet-50" },
-    };
-    return configs[status];
+      .sort(compareCardRanks);
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -164,6 +255,19 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
     setActiveCard(card || null);
   };
 
+  // Optimistically place the card between two neighbours, then persist the move
+  const moveCard = (card: Card, status: string, after?: Card, before?: Card) => {
+    const order = rankBetween(after?.order, before?.order);
+    queryClient.setQueryData(
+      ["/api/cards", selectedProject],
+      allCards.map(c => (c.id === card.id ? { ...c, status, order } : c))
+    );
+    moveCardMutation.mutate({
+      id: card.id,
+      placement: { status, afterId: after?.id, beforeId: before?.id },
+    });
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     
@@ -174,87 +278,31 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
 
     const activeId = active.id.toString();
     const overId = over.id.toString();
-    
-    // Immediately apply optimistic updates for smoother UX
-    const optimisticUpdate = () => {
-      // If we're dropping on a column (status ID)
-      if (KANBAN_STATUSES.includes(overId as KanbanStatus)) {
-        const newStatus = overId as KanbanStatus;
-        if (activeCard.status !== newStatus) {
-          // Optimistically move card to new column
-          const updatedCards = cards.map(card => 
-            card.id === activeCard.id 
-              ? { ...card, status: newStatus }
-              : card
-          );
-          queryClient.setQueryData(["/api/cards", selectedProject], updatedCards);
-          
-          updateCardMutation.mutate({
-            id: activeCard.id,
-            updates: { status: newStatus }
-          });
-        }
-      } else {
-        // We're dropping on a card - check if it's the same status or different
-        const overCard = cards.find(card => card.id === overId);
-        
-        if (overCard) {
-          if (activeCard.status === overCard.status) {
-            // Same column reordering
-            const statusCards = getCardsByStatus(activeCard.status as KanbanStatus);
-            const activeIndex = statusCards.findIndex(card => card.id === activeId);
-            const overIndex = statusCards.findIndex(card => card.id === overId);
-            
-            if (activeIndex !== overIndex && activeIndex !== -1 && overIndex !== -1) {
-              const reorderedCards = arrayMove(statusCards, activeIndex, overIndex);
-              
-              // Update the order for all cards in this status
-              const allCardsWithNewOrder = cards.map(card => {
-                if (card.status === activeCard.status) {
-                  const reorderedIndex = reorderedCards.findIndex(c => c.id === card.id);
-                  if (reorderedIndex !== -1) {
-                    return { ...card, order: (reorderedIndex + 1).toString() };
-                  }
-                }
-                return card;
-              });
-              
-              // Optimistic update
-              queryClient.setQueryData(["/api/cards", selectedProject], allCardsWithNewOrder);
-              
-              // Update all affected cards' orders through batch API
-              const orderUpdates = reorderedCards.map((card, index) => ({
-                id: card.id,
-                updates: { order: (index + 1).toString() }
-              }));
-              
-              // For now, just update the moved card - we could add batch update later
-              const activeCardNewIndex = reorderedCards.findIndex(c => c.id === activeCard.id);
-              updateCardMutation.mutate({
-                id: activeCard.id,
-                updates: { order: (activeCardNewIndex + 1).toString() }
-              });
-            }
-          } else {
-            // Different column - move to that column
-            const updatedCards = cards.map(card => 
-              card.id === activeCard.id 
-                ? { ...card, status: overCard.status }
-                : card
-            );
-            queryClient.setQueryData(["/api/cards", selectedProject], updatedCards);
-            
-            updateCardMutation.mutate({
-              id: activeCard.id,
-              updates: { status: overCard.status }
-            });
-          }
-        }
+
+    if (statuses.some(status => status.key === overId)) {
+      // Dropped on a column: append to the bottom of it
+      if (activeCard.status !== overId) {
+        const columnCards = getCardsByStatus(overId);
+        moveCard(activeCard, overId, columnCards[columnCards.length - 1]);
       }
-    };
+    } else {
+      const overCard = cards.find(card => card.id === overId);
+
+      if (overCard && overCard.id !== activeId) {
+        const columnCards = getCardsByStatus(overCard.status);
+        const overIndex = columnCards.findIndex(card => card.id === overId);
 
-    // Apply optimistic update immediately
-    optimisticUpdate();
+        if (activeCard.status === overCard.status) {
+          // Same column: the card takes the hovered card's slot
+          const activeIndex = columnCards.findIndex(card => card.id === activeId);
+          const reorderedCards = arrayMove(columnCards, activeIndex, overIndex);
+          moveCard(activeCard, overCard.status, reorderedCards[overIndex - 1], reorderedCards[overIndex + 1]);
+        } else {
+          // Other column: insert above the hovered card
+          moveCard(activeCard, overCard.status, columnCards[overIndex - 1], overCard);
+        }
+      }
+    }
     
     // Clear active card immediately since we're using optimistic updates
     setActiveCard(null);
@@ -264,8 +312,8 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
     return (
       <div className="w-full overflow-x-auto">
         <div className="flex gap-6 min-h-screen pb-4 px-6">
-          {KANBAN_STATUSES.map(status => (
-            <div key={status} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4" style={{ width: DEFAULT_COLUMN_WIDTHS[status], minWidth: DEFAULT_COLUMN_WIDTHS[status] }}>
+          {statuses.map(status => (
+            <div key={status.key} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4" style={{ width: DEFAULT_COLUMN_WIDTH, minWidth: DEFAULT_COLUMN_WIDTH }}>
               <div className="animate-pulse">
                 <div className="h-6 bg-gray-300 dark:bg-gray-600 rounded mb-4"></div>
                 <div className="space-y-3">
@@ -294,7 +342,11 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
             </span>
           </div>
           
-
+          {matchingIds && (
+            <span className="text-sm text-gray-600 dark:text-gray-300" data-testid="text-search-matches">
+              {matchingIds.size === 1 ? "1 card matches" : `${matchingIds.size} cards match`} "{debouncedSearch}"
+            </span>
+          )}
         </div>
         
         <div className="flex items-center space-x-3">
@@ -313,12 +365,43 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
           >
             <RotateCcw className="w-4 h-4" />
           </Button>
-          <Button variant="outline" className="bg-gradient-to-r from-gray-100 to-gray-200 hover:from-gray-200 hover:to-gray-300 dark:from-gray-700 dark:to-gray-600 dark:hover:from-gray-600 dark:hover:to-gray-500 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 shadow-md hover:shadow-lg transition-all duration-300">
+          <Button
+            variant="outline"
+            onClick={toggleCollapseSubcards}
+            className={cn(
+              "bg-gradient-to-r from-gray-100 to-gray-200 hover:from-gray-200 hover:to-gray-300 dark:from-gray-700 dark:to-gray-600 dark:hover:from-gray-600 dark:hover:to-gray-500 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 shadow-md hover:shadow-lg transition-all duration-300",
+              collapseSubcards && "ring-2 ring-indigo-500 text-indigo-700 dark:text-indigo-300"
+            )}
+            title={collapseSubcards ? "Show sub-cards in their columns" : "Fold sub-cards into their epics"}
+            data-testid="button-collapse-subcards"
+          >
+            <Layers className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowFilterBar(!showFilterBar)}
+            className={cn(
+              "bg-gradient-to-r from-gray-100 to-gray-200 hover:from-gray-200 hover:to-gray-300 dark:from-gray-700 dark:to-gray-600 dark:hover:from-gray-600 dark:hover:to-gray-500 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 shadow-md hover:shadow-lg transition-all duration-300",
+              parsedFilter && "ring-2 ring-blue-500 text-blue-700 dark:text-blue-300"
+            )}
+            title={parsedFilter ? `Filtered: ${filterQuery.trim()}` : "Filter cards"}
+            data-testid="button-filter"
+          >
             <Filter className="w-4 h-4" />
           </Button>
         </div>
       </div>
 
+      {showFilterBar && (
+        <FilterBar
+          query={filterQuery}
+          onQueryChange={setFilterQuery}
+          error={filterError}
+          matchCount={parsedFilter ? cards.length : null}
+          onClose={() => setShowFilterBar(false)}
+        />
+      )}
+
       <div className="w-full overflow-x-auto">
         <DndContext
           sensors={sensors}
@@ -328,21 +411,24 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
         >
           <LayoutGroup>
             <div className="flex gap-6 min-h-screen pb-4 px-6">
-              {KANBAN_STATUSES.map(status => {
-                const config = getColumnConfig(status);
-                const columnCards = getCardsByStatus(status);
+              {statuses.map(status => {
+                const columnCards = getCardsByStatus(status.key);
+                // WIP limits are per project, so they only apply on a project's own board,
+                // and count every card in the column, filtered out or not
+                const wipCount = allCards.filter(card => card.status === status.key).length;
                 
                 return (
                   <KanbanColumn
-                    key={status}
-                    id={status}
-                    title={config.title}
-                    color={config.color}
-                    bgColor={config.bgColor}
+                    key={status.key}
+                    id={status.key}
+                    title={status.label}
+                    color={status.color}
                     cards={columnCards}
                     count={columnCards.length}
-                    width={columnWidths[status]}
-                    onWidthChange={(newWidth) => handleColumnWidthChange(status, newWidth)}
+                    wipLimit={selectedProject ? status.wipLimit : null}
+                    wipCount={wipCount}
+                    width={columnWidths[status.key] || DEFAULT_COLUMN_WIDTH}
+                    onWidthChange={(newWidth) => handleColumnWidthChange(status.key, newWidth)}
                     onEditCard={handleEditCard}
                   />
                 );
@@ -357,7 +443,10 @@ export function KanbanBoard({ selectedProject }: KanbanBoardProps) {
           >
             {activeCard ? (
               <div className="transform rotate-2 scale-105 opacity-95 cursor-grabbing">
-                <TaskCard card={activeCard} />
+                <TaskCard
+                  card={activeCard}
+                  statusColor={statuses.find(status => status.key === activeCard.status)?.color}
+                />
               </div>
             ) : null}
           </DragOverlay>
@@ -2,66 +2,37 @@ import { useDroppable } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 import { motion, AnimatePresence } from "framer-motion";
 import { TaskCard } from "./task-card";
-import { Card, KanbanStatus } from "@shared/schema";
+import { Card } from "@shared/schema";
 import { cn } from "@/lib/utils";
-import { GripVertical } from "lucide-react";
+import { getColorCountClass, getColorDotClass, getColorHeaderClass } from "@/lib/color-utils";
+import { AlertTriangle, GripVertical } from "lucide-react";
 import { useState, useRef } from "react";
 
 interface KanbanColumnProps {
-  id: KanbanStatus;
+  id: string;
   title: string;
   color: string;
-  bgColor: string;
   cards: Card[];
   count: number;
+  wipLimit?: number | null;
+  wipCount?: number; // Cards held against the WIP limit; defaults to count
   width?: number;
   onWidthChange?: (width: number) => void;
   onEditCard?: (card: Card) => void;
 }
 
-export function KanbanColumn({ id, title, color, bgColor, cards, count, width = 320, onWidthChange, onEditCard }: KanbanColumnProps) {
+export function KanbanColumn({ id, title, color, cards, count, wipLimit, wipCount = count, width = 320, onWidthChange, onEditCard }: KanbanColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: id,
   });
   
+  const overWipLimit = Boolean(wipLimit) && wipCount > wipLimit!;
+
   const [isResizing, setIsResizing] = useState(false);
   const resizeRef = useRef<HTMLDivElement>(null);
   const startXRef = useRef(0);
   const startWidthRef = useRef(0);
 
-  const getStatusDotColor = () => {
-    const colors = {
-      gray: "bg-gradient-to-r from-gray-400 to-gray-500 shadow-md",
-      red: "bg-gradient-to-r from-red-400 to-red-500 shadow-md", 
-      blue: "bg-gradient-to-r from-blue-400 to-blue-500 shadow-md",
-      green: "bg-gradient-to-r from-green-400 to-green-500 shadow-md",
-      purple: "bg-gradient-to-r from-purple-400 to-purple-500 shadow-md",
-    };
-    return colors[color as keyof typeof colors] || "bg-gradient-to-r from-gray-400 to-gray-500 shadow-md";
-  };
-
-  const getCountBadgeColor = () => {
-    const colors = {
-      gray: "bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700 shadow-sm",
-      red: "bg-gradient-to-r from-red-100 to-red-200 text-red-700 shadow-sm",
-      blue: "bg-gradient-to-r from-blue-100 to-blue-200 text-blue-700 shadow-sm", 
-      green: "bg-gradient-to-r from-green-100 to-green-200 text-green-700 shadow-sm",
-      purple: "bg-gradient-to-r from-purple-100 to-purple-200 text-purple-700 shadow-sm",
-    };
-    return colors[color as keyof typeof colors] || "bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700 shadow-sm";
-  };
-
-  const getHeaderGradient = () => {
-    const gradients = {
-      gray: "bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-700",
-      red: "bg-gradient-to-r from-red-50 to-red-100 dark:from-red-900/30 dark:to-red-800/30",
-      blue: "bg-gradient-to-r from-blue-50 to-blue-100 dark:from-blue-900/30 dark:to-blue-800/30",
-      green: "bg-gradient-to-r from-green-50 to-green-100 dark:from-green-900/30 dark:to-green-800/30",
-      purple: "bg-gradient-to-r from-purple-50 to-purple-100 dark:from-purple-900/30 dark:to-purple-800/30",
-    };
-    return gradients[color as keyof typeof gradients] || "bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-700";
-  };
-
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -98,15 +69,33 @@ export function KanbanColumn({ id, title, color, bgColor, cards, count, width =
       style={{ width: `${width}px`, isolation: 'auto' }}
     >
       <div className="min-h-full rounded-xl overflow-hidden">
-        <div className={cn("px-5 py-4 border-b border-white/20 dark:border-gray-600/20", getHeaderGradient())}>
+        <div className={cn("px-5 py-4 border-b border-white/20 dark:border-gray-600/20", getColorHeaderClass(color))}>
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <div className={cn("w-4 h-4 rounded-full", getStatusDotColor())}></div>
+              <div className={cn("w-4 h-4 rounded-full shadow-md", getColorDotClass(color))}></div>
               <h3 className="font-bold text-gray-800 dark:text-gray-200 text-sm tracking-wide uppercase">{title}</h3>
             </div>
-            <span className={cn("text-xs px-3 py-1.5 rounded-full font-bold", getCountBadgeColor())}>
-              {count}
-            </span>
+            <div className="flex items-center gap-2">
+              {overWipLimit && (
+                <span
+                  className="flex items-center gap-1 text-xs font-semibold text-red-600 dark:text-red-400"
+                  title={`Over the WIP limit: ${wipCount} cards, limit ${wipLimit}`}
+                  data-testid={`wip-warning-${id}`}
+                >
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  WIP
+                </span>
+              )}
+              <span
+                className={cn(
+                  "text-xs px-3 py-1.5 rounded-full font-bold shadow-sm",
+                  overWipLimit ? "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300" : getColorCountClass(color)
+                )}
+                title={wipLimit ? `WIP limit: ${wipLimit}` : undefined}
+              >
+                {wipLimit ? `${wipCount}/${wipLimit}` : count}
+              </span>
+            </div>
           </div>
         </div>
         
@@ -136,7 +125,7 @@ export function KanbanColumn({ id, title, color, bgColor, cards, count, width =
                     }}
                     className="card-animation-wrapper"
                   >
-                    <TaskCard card={card} onEdit={onEditCard} />
+                    <TaskCard card={card} statusColor={color} onEdit={onEditCard} />
                   </motion.div>
                 ))}
               </AnimatePresence>
@@ -0,0 +1,35 @@
+import { X } from "lucide-react";
+import { getColorBadgeClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+
+interface LabelChipProps {
+  name: string;
+  color: string;
+  className?: string;
+  onRemove?: () => void;
+}
+
+export function LabelChip({ name, color, className, onRemove }: LabelChipProps) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium",
+        getColorBadgeClass(color),
+        className
+      )}
+      data-testid="label-chip"
+    >
+      {name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full opacity-70 hover:opacity-100"
+          title={`Remove ${name}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+}
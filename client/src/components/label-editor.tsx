@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { labelsQueryKey, createLabel, updateLabel, deleteLabel, CARD_LABELS_QUERY_KEY } from "@/lib/label-utils";
+import { COLOR_OPTIONS, ColorOption, Label, Project, UpdateLabel } from "@shared/schema";
+
+interface LabelEditorProps {
+  project: Project;
+}
+
+// Labels are saved one change at a time, unlike the workflow columns
+export function LabelEditor({ project }: LabelEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<ColorOption>("gray");
+  const [renaming, setRenaming] = useState<Record<string, string>>({});
+
+  const { data: labels = [] } = useQuery<Label[]>({
+    queryKey: labelsQueryKey(project.slug),
+  });
+
+  const onLabelsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: labelsQueryKey(project.slug) });
+    queryClient.invalidateQueries({ queryKey: CARD_LABELS_QUERY_KEY });
+  };
+
+  const onLabelError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.startsWith("409")
+        ? "This project already has a label with that name."
+        : `Failed to ${action} label. Please try again.`,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createLabel(project.slug, { name: newName.trim(), color: newColor }),
+    onSuccess: () => {
+      onLabelsChanged();
+      setNewName("");
+    },
+    onError: onLabelError("create"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ label, updates }: { label: Label; updates: UpdateLabel }) => updateLabel(label, updates),
+    onSuccess: onLabelsChanged,
+    onError: onLabelError("update"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLabel,
+    onSuccess: onLabelsChanged,
+    onError: onLabelError("delete"),
+  });
+
+  const saveName = (label: Label) => {
+    const name = renaming[label.id]?.trim();
+    setRenaming(({ [label.id]: _, ...rest }) => rest);
+    if (name && name !== label.name) {
+      updateMutation.mutate({ label, updates: { name } });
+    }
+  };
+
+  const colorPicker = (selected: string, onSelect: (color: ColorOption) => void) => (
+    <div className="flex flex-wrap gap-1.5">
+      {COLOR_OPTIONS.map(color => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onSelect(color)}
+          className={cn(
+            "w-4 h-4 rounded-full transition-transform",
+            getColorDotClass(color),
+            selected === color ? "ring-2 ring-offset-1 ring-blue-500 scale-110" : "hover:scale-110"
+          )}
+          title={color}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Labels mark the kind of work on a card. Renaming or recoloring a label updates every card
+        that has it; deleting one removes it from those cards.
+      </p>
+
+      <div className="space-y-2">
+        {labels.map(label => (
+          <div
+            key={label.id}
+            className="flex items-center gap-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2"
+          >
+            <div className="flex-1 space-y-2">
+              <Input
+                value={renaming[label.id] ?? label.name}
+                maxLength={30}
+                onChange={(e) => setRenaming({ ...renaming, [label.id]: e.target.value })}
+                onBlur={() => saveName(label)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    saveName(label);
+                  }
+                }}
+                className="h-8"
+              />
+              {colorPicker(label.color, color => updateMutation.mutate({ label, updates: { color } }))}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(label)}
+              disabled={deleteMutation.isPending}
+              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Delete label"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {labels.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No labels yet.</p>
+        )}
+      </div>
+
+      <div className="space-y-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-2">
+        <div className="flex gap-2">
+          <Input
+            placeholder="New label name"
+            value={newName}
+            maxLength={30}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && newName.trim()) {
+                e.preventDefault();
+                createMutation.mutate();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!newName.trim() || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {colorPicker(newColor, setNewColor)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Plus } from "lucide-react";
+import { labelsQueryKey } from "@/lib/label-utils";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { LabelChip } from "./label-chip";
+
+interface LabelPickerProps {
+  project: string;
+  value: string[]; // Label names
+  onChange: (value: string[]) => void;
+}
+
+// Picks a card's labels from its project's labels. A typed name the project
+// does not have yet is kept as is; the server creates the label with the card.
+export function LabelPicker({ project, value, onChange }: LabelPickerProps) {
+  const [newName, setNewName] = useState("");
+  const { data: labels = [] } = useQuery<Label[]>({
+    queryKey: labelsQueryKey(project),
+  });
+
+  const isSelected = (name: string) => value.some(selected => selected.toLowerCase() === name.toLowerCase());
+  const colorOf = (name: string) =>
+    labels.find(label => label.name.toLowerCase() === name.toLowerCase())?.color || "gray";
+
+  const add = (name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && !isSelected(trimmed)) {
+      onChange([...value, trimmed]);
+    }
+  };
+
+  const remove = (name: string) => {
+    onChange(value.filter(selected => selected !== name));
+  };
+
+  const available = labels.filter(label => !isSelected(label.name));
+
+  return (
+    <div className="space-y-2" data-testid="label-picker">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(name => (
+            <LabelChip key={name} name={name} color={colorOf(name)} onRemove={() => remove(name)} />
+          ))}
+        </div>
+      )}
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {available.map(label => (
+            <button
+              key={label.id}
+              type="button"
+              onClick={() => add(label.name)}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className={cn("w-2 h-2 rounded-full", getColorDotClass(label.color))} />
+              {label.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Plus className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+        <Input
+          placeholder="New label, press Enter"
+          value={newName}
+          maxLength={30}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              // Keep Enter from submitting the card form
+              e.preventDefault();
+              add(newName);
+              setNewName("");
+            }
+          }}
+          className="h-8 pl-7 text-xs bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600"
+        />
+      </div>
+    </div>
+  );
+}
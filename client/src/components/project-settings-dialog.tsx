@@ -0,0 +1,329 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { COLOR_OPTIONS, Project } from "@shared/schema";
+import { WorkflowEditor } from "./workflow-editor";
+import { LabelEditor } from "./label-editor";
+import { AutomationRuleEditor } from "./automation-rule-editor";
+import { WebhookEditor } from "./webhook-editor";
+import { IncomingHookEditor } from "./incoming-hook-editor";
+
+const projectSettingsSchema = z.object({
+  name: z.string().min(1, "Project name is required").max(50, "Project name must be less than 50 characters"),
+  description: z.string().max(500, "Description must be less than 500 characters").optional(),
+  color: z.enum(COLOR_OPTIONS),
+  archived: z.boolean(),
+  autoUnblock: z.boolean(),
+  strictWipLimits: z.boolean(),
+});
+
+type ProjectSettingsForm = z.infer<typeof projectSettingsSchema>;
+
+interface ProjectSettingsDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onProjectDeleted?: (slug: string) => void;
+}
+
+export function ProjectSettingsDialog({ project, open, onOpenChange, onProjectDeleted }: ProjectSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ProjectSettingsForm>({
+    resolver: zodResolver(projectSettingsSchema),
+    defaultValues: {
+      name: project.name,
+      description: project.description || "",
+      color: project.color as ProjectSettingsForm["color"],
+      archived: project.archived,
+      autoUnblock: project.autoUnblock,
+      strictWipLimits: project.strictWipLimits,
+    },
+  });
+
+  // Keep the form in sync when another client updates the project
+  useEffect(() => {
+    form.reset({
+      name: project.name,
+      description: project.description || "",
+      color: project.color as ProjectSettingsForm["color"],
+      archived: project.archived,
+      autoUnblock: project.autoUnblock,
+      strictWipLimits: project.strictWipLimits,
+    });
+  }, [project, form]);
+
+  const updateProjectMutation = useMutation({
+    mutationFn: async (data: ProjectSettingsForm) => {
+      const response = await apiRequest("PATCH", `/api/projects/${encodeURIComponent(project.slug)}`, {
+        ...data,
+        description: data.description || null,
+      });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Project updated",
+        description: `Project "${updated.name}" has been saved.`,
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update project. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProjectMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/projects/${encodeURIComponent(project.slug)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Project deleted",
+        description: `Project "${project.name}" has been removed.`,
+      });
+      onOpenChange(false);
+      onProjectDeleted?.(project.slug);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cannot delete project",
+        description: error.message.startsWith("409")
+          ? "This project still has cards. Remove them first or archive the project instead."
+          : "Failed to delete project. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ProjectSettingsForm) => {
+    updateProjectMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project Settings</DialogTitle>
+          <DialogDescription>
+            Renaming a project only changes its display name. Cards keep referencing the slug{" "}
+            <span className="font-mono">{project.slug}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="general">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="workflow">Workflow</TabsTrigger>
+            <TabsTrigger value="labels">Labels</TabsTrigger>
+            <TabsTrigger value="automation">Automation</TabsTrigger>
+            <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="general">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="min-h-[80px] resize-none"
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="color"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Color</FormLabel>
+                      <div className="flex flex-wrap gap-2">
+                        {COLOR_OPTIONS.map(color => (
+                          <button
+                            key={color}
+                            type="button"
+                            onClick={() => field.onChange(color)}
+                            className={cn(
+                              "w-6 h-6 rounded-full transition-transform",
+                              getColorDotClass(color),
+                              field.value === color ? "ring-2 ring-offset-2 ring-blue-500 scale-110" : "hover:scale-110"
+                            )}
+                            title={color}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="archived"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                      <div>
+                        <FormLabel>Archived</FormLabel>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Archived projects are hidden from the project picker.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="autoUnblock"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                      <div>
+                        <FormLabel>Auto-unblock</FormLabel>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Move blocked cards back to Not Started once every card blocking them is complete.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="strictWipLimits"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                      <div>
+                        <FormLabel>Strict WIP limits</FormLabel>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Refuse cards entering a column that is at its WIP limit, whether created, moved or edited there, instead of only flagging it.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-between pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => deleteProjectMutation.mutate()}
+                    disabled={deleteProjectMutation.isPending}
+                    className="text-red-600 border-red-200 hover:bg-red-50 dark:text-red-400 dark:border-red-800 dark:hover:bg-red-900/30"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                  <div className="flex space-x-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => onOpenChange(false)}
+                      disabled={updateProjectMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={updateProjectMutation.isPending}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      {updateProjectMutation.isPending ? "Saving..." : "Save"}
+                    </Button>
+                  </div>
+                </div>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="workflow">
+            <WorkflowEditor project={project} onSaved={() => onOpenChange(false)} />
+          </TabsContent>
+
+          <TabsContent value="labels">
+            <LabelEditor project={project} />
+          </TabsContent>
+
+          <TabsContent value="automation">
+            <AutomationRuleEditor project={project} />
+          </TabsContent>
+
+          <TabsContent value="webhooks" className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Outgoing</h3>
+              <WebhookEditor project={project} />
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Incoming</h3>
+              <IncomingHookEditor project={project} />
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
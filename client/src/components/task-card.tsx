@@ -1,16 +1,24 @@
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { motion, AnimatePresence } from "framer-motion";
-import { GripVertical, ExternalLink, CheckCircle, AlertTriangle, Shield, Trash2, ChevronDown, ChevronUp, Edit3, Copy, Check, Eye, StickyNote, MessageSquare } from "lucide-react";
-import { Card, KanbanStatus } from "@shared/schema";
+import { GripVertical, ExternalLink, CheckCircle, AlertTriangle, Shield, Trash2, ChevronDown, ChevronUp, Edit3, Copy, Check, Eye, StickyNote, MessageSquare, Link2, Layers, ChevronRight, CalendarClock, Gauge } from "lucide-react";
+import { Assignee, Card, CardPriority, Comment, Label, LinkedCard, PRIORITY_COLORS, RESOLVED_STATUSES } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { getColorBadgeClass, getColorBorderClass } from "@/lib/color-utils";
 import { ExplosionAnimation } from "./explosion-animation";
-import { parseTaskList, calculateTaskProgress, updateTaskCompletion, hasTaskList, serializeTaskList, extractTasksFromMarkdown, TaskItem } from "@/lib/task-utils";
-import { parseComments } from "@/lib/comment-utils";
+import { calculateTaskProgress, extractTasksFromMarkdown, setTaskCompletion, TaskItem } from "@/lib/task-utils";
+import { commentsQueryKey } from "@/lib/comment-utils";
+import { BLOCKERS_QUERY_KEY, SUBCARDS_QUERY_KEY } from "@/lib/card-link-utils";
+import { CARD_LABELS_QUERY_KEY } from "@/lib/label-utils";
+import { CARD_ASSIGNEES_QUERY_KEY } from "@/lib/assignee-utils";
+import { calculateSubcardProgress } from "@shared/progress";
+import { isCardOverdue } from "@shared/due-date";
 import { InteractiveMarkdown } from "./interactive-markdown";
 import { ViewCardDialog } from "./view-card-dialog";
+import { LabelChip } from "./label-chip";
+import { AssigneeAvatars } from "./assignee-avatars";
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import ReactMarkdown from "react-markdown";
@@ -21,34 +29,58 @@ interface TaskCardProps {
     _remoteUpdate?: boolean; 
     _statusChanged?: boolean; 
   };
+  statusColor?: string;
   onEdit?: (card: Card) => void;
 }
 
-export function TaskCard({ card, onEdit }: TaskCardProps) {
+export function TaskCard({ card, statusColor = "gray", onEdit }: TaskCardProps) {
   const [isExploding, setIsExploding] = useState(false);
   const [shouldHide, setShouldHide] = useState(false);
   const [isExpanded, setIsExpanded] = useState(card.status === "in-progress");
   const [justCopied, setJustCopied] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
+  const [showSubcards, setShowSubcards] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Extract tasks from markdown and sync with stored task list
-  const markdownTasks = extractTasksFromMarkdown(card.description);
-  const storedTasks = parseTaskList(card.taskList);
-  
-  // Merge markdown tasks with stored completion status, preferring stored state
-  const tasks = markdownTasks.map(markdownTask => {
-    const storedTask = storedTasks.find(stored => stored.text === markdownTask.text);
-    return storedTask || markdownTask;
-  });
+  // The description's checkboxes always match the card's task rows
+  const tasks = extractTasksFromMarkdown(card.description);
   
   const taskProgress = calculateTaskProgress(tasks);
   const showProgress = tasks.length > 0;
 
-  // Parse comments to get count
-  const comments = parseComments(card.comments);
-  const commentCount = comments.length;
+  // One request for the whole board, shared by every card
+  const { data: blockersByCard = {} } = useQuery<Record<string, LinkedCard[]>>({
+    queryKey: BLOCKERS_QUERY_KEY,
+  });
+  const blockers = blockersByCard[card.id] || [];
+
+  const { data: labelsByCard = {} } = useQuery<Record<string, Label[]>>({
+    queryKey: CARD_LABELS_QUERY_KEY,
+  });
+  const labels = labelsByCard[card.id] || [];
+
+  const { data: assigneesByCard = {} } = useQuery<Record<string, Assignee[]>>({
+    queryKey: CARD_ASSIGNEES_QUERY_KEY,
+  });
+  const assignees = assigneesByCard[card.id] || [];
+
+  // Epics roll up the progress of their sub-cards
+  const { data: subcardsByParent = {} } = useQuery<Record<string, LinkedCard[]>>({
+    queryKey: SUBCARDS_QUERY_KEY,
+  });
+  const subcards = subcardsByParent[card.id] || [];
+  const subcardProgress = calculateSubcardProgress(subcards);
+
+  const isOverdue = isCardOverdue(card);
+  const hasSchedule = Boolean(card.priority || card.dueDate || card.estimate !== null);
+
+  const commentCount = card.commentCount;
+  // The preview is only fetched once the card is expanded
+  const { data: comments = [] } = useQuery<Comment[]>({
+    queryKey: commentsQueryKey(card.id),
+    enabled: isExpanded && commentCount > 0,
+  });
 
   const {
     attributes,
@@ -81,19 +113,15 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
   });
 
   const updateTaskMutation = useMutation({
-    mutationFn: async (updatedTasks: TaskItem[]) => {
-      const response = await apiRequest("PATCH", `/api/cards/${card.id}`, {
-        taskList: serializeTaskList(updatedTasks)
-      });
-      return response.json();
-    },
+    mutationFn: ({ index, task, completed }: { index: number; task: TaskItem; completed: boolean }) =>
+      setTaskCompletion(card.id, index, task, completed),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update task progress.",
+        description: `Failed to update task progress: ${error.message}`,
         variant: "destructive",
       });
     },
@@ -109,11 +137,8 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
     deleteMutation.mutate();
   };
 
-  const handleTaskToggle = (taskText: string, completed: boolean) => {
-    const updatedTasks = tasks.map(task => 
-      task.text === taskText ? { ...task, completed } : task
-    );
-    updateTaskMutation.mutate(updatedTasks);
+  const handleTaskToggle = (index: number, completed: boolean) => {
+    updateTaskMutation.mutate({ index, task: tasks[index], completed });
   };
 
   const handleEdit = (e: React.MouseEvent) => {
@@ -154,14 +179,7 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
   };
 
   const getBorderColor = () => {
-    const colors: Record<KanbanStatus, string> = {
-      "not-started": "border-l-4 border-l-gray-400",
-      "blocked": "border-l-4 border-l-red-500", 
-      "in-progress": "border-l-4 border-l-blue-500",
-      "complete": "border-l-4 border-l-green-500",
-      "verified": "border-l-4 border-l-purple-500",
-    };
-    return colors[card.status as KanbanStatus] || "border-l-4 border-l-gray-400";
+    return cn("border-l-4", getColorBorderClass(statusColor));
   };
 
   const getStatusIcon = () => {
@@ -194,17 +212,76 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
           getBorderColor(),
           isDragging && "opacity-40 cursor-grabbing",
           card._remoteUpdate && card._statusChanged && "ring-2 ring-blue-400 ring-opacity-75 animate-pulse",
+          isOverdue && "ring-2 ring-red-400 dark:ring-red-500",
           isExpanded && "min-h-fit"
         )}
       >
         <div className="flex items-start justify-between mb-2">
           <div className="flex-1 pr-2">
             <h4 className="font-medium text-gray-900 dark:text-gray-100 break-words mb-1">{card.title}</h4>
-            {/* Project tag */}
-            {card.project && (
-              <div className="flex items-center">
-                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
-                  {card.project}
+            {/* Project tag and assignees */}
+            {(card.project || assignees.length > 0) && (
+              <div className="flex items-center gap-2">
+                {card.project && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                    {card.project}
+                  </span>
+                )}
+                {assignees.length > 0 && <AssigneeAvatars assignees={assignees} />}
+              </div>
+            )}
+            {labels.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 mt-1" data-testid="card-labels">
+                {labels.map(label => (
+                  <LabelChip key={label.id} name={label.name} color={label.color} />
+                ))}
+              </div>
+            )}
+            {hasSchedule && (
+              <div className="flex flex-wrap items-center gap-1 mt-1" data-testid="card-schedule">
+                {card.priority && (
+                  <span className={cn(
+                    "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold",
+                    getColorBadgeClass(PRIORITY_COLORS[card.priority as CardPriority])
+                  )}>
+                    {card.priority}
+                  </span>
+                )}
+                {card.dueDate && (
+                  <span
+                    className={cn(
+                      "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium",
+                      isOverdue
+                        ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                        : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                    )}
+                    title={isOverdue ? "Overdue" : "Due date"}
+                    data-testid={isOverdue ? "badge-overdue" : "badge-due-date"}
+                  >
+                    <CalendarClock className="w-3 h-3" />
+                    {formatDueDate(card.dueDate)}
+                  </span>
+                )}
+                {card.estimate !== null && (
+                  <span
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                    title="Estimate"
+                  >
+                    <Gauge className="w-3 h-3" />
+                    {card.estimate}
+                  </span>
+                )}
+              </div>
+            )}
+            {blockers.length > 0 && (
+              <div className="flex items-center mt-1">
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                  title={`Blocked by: ${blockers.map(blocker => blocker.title).join(", ")}`}
+                  data-testid="badge-blocked-by"
+                >
+                  <Link2 className="w-3 h-3" />
+                  Blocked by {blockers.length === 1 ? blockers[0].title : `${blockers.length} cards`}
                 </span>
               </div>
             )}
@@ -287,6 +364,59 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
           </div>
         )}
         
+        {/* Epic: rolled-up sub-card progress, with the sub-cards on demand */}
+        {subcards.length > 0 && (
+          <div className="mb-3" data-testid="epic-progress">
+            <button
+              onClick={() => setShowSubcards(!showSubcards)}
+              className="w-full flex items-center justify-between mb-2 text-left"
+            >
+              <span className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 font-medium">
+                <ChevronRight className={cn("w-3 h-3 transition-transform", showSubcards && "rotate-90")} />
+                <Layers className="w-3 h-3 text-indigo-500" />
+                Sub-cards: {subcardProgress.completed}/{subcardProgress.total} done
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 font-bold">
+                {subcardProgress.percentage}%
+              </span>
+            </button>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <motion.div
+                className={cn(
+                  "h-2 rounded-full transition-all duration-500",
+                  subcardProgress.percentage === 100 ? "bg-green-500" : "bg-indigo-500"
+                )}
+                initial={{ width: 0 }}
+                animate={{ width: `${subcardProgress.percentage}%` }}
+                transition={{ duration: 0.5, ease: "easeOut" }}
+              />
+            </div>
+            <AnimatePresence>
+              {showSubcards && (
+                <motion.ul
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: "auto" }}
+                  exit={{ opacity: 0, height: 0 }}
+                  transition={{ duration: 0.2 }}
+                  className="mt-2 space-y-1"
+                >
+                  {subcards.map(subcard => (
+                    <li key={subcard.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className={cn(
+                        "truncate text-gray-700 dark:text-gray-300",
+                        RESOLVED_STATUSES.includes(subcard.status) && "line-through text-gray-500 dark:text-gray-400"
+                      )}>
+                        {subcard.title}
+                      </span>
+                      <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">{subcard.status}</span>
+                    </li>
+                  ))}
+                </motion.ul>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
+
         <div className="mb-3 flex-1">
           <motion.div
             initial={false}
@@ -358,7 +488,7 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
                   >
                     <div className="flex items-center justify-between mb-1">
                       <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {new Date(comment.timestamp).toLocaleDateString(undefined, {
+                        {new Date(comment.createdAt).toLocaleDateString(undefined, {
                           month: 'short',
                           day: 'numeric',
                           hour: '2-digit',
@@ -457,3 +587,15 @@ export function TaskCard({ card, onEdit }: TaskCardProps) {
     </ExplosionAnimation>
   );
 }
+
+// "Mar 4", or "Mar 4, 2027" outside the current year. Due dates are calendar
+// days, so they are read as local dates rather than UTC midnight.
+function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    ...(year !== new Date().getFullYear() && { year: "numeric" }),
+  });
+}
@@ -2,15 +2,22 @@ import { Card, Comment } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ExternalLink, Edit, Copy, X } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { CommentSection } from "./comment-section";
-import { parseComments, serializeComments, addComment, deleteComment, updateComment, sortComments } from "@/lib/comment-utils";
+import { CardTimeline } from "./card-timeline";
+import { AttachmentList } from "./attachment-list";
+import { CardLinkList } from "./card-link-list";
+import { getImageVariantUrl } from "@shared/image-variants";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { getColorBadgeClass } from "@/lib/color-utils";
+import { commentsQueryKey, createComment, deleteComment, updateComment } from "@/lib/comment-utils";
 
 interface ViewCardDialogProps {
   card: Card;
@@ -25,30 +32,13 @@ export function ViewCardDialog({ card, open, onOpenChange, onEditCard }: ViewCar
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Parse comments from card
-  const comments = sortComments(parseComments(card.comments));
-
-  const getStatusLabel = (status: string) => {
-    const labels: Record<string, string> = {
-      'not-started': 'Not Started',
-      'blocked': 'Blocked',
-      'in-progress': 'In Progress', 
-      'complete': 'Complete',
-      'verified': 'Verified'
-    };
-    return labels[status] || status;
-  };
+  const { data: comments = [] } = useQuery<Comment[]>({
+    queryKey: commentsQueryKey(card.id),
+    enabled: open,
+  });
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      'not-started': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-      'blocked': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-      'in-progress': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'complete': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'verified': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
-    };
-    return colors[status] || 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
-  };
+  const { getStatus } = useProjectStatuses(card.project);
+  const cardStatus = getStatus(card.status);
 
   const handleCopy = async () => {
     setIsCopying(true);
@@ -58,7 +48,7 @@ export function ViewCardDialog({ card, open, onOpenChange, onEditCard }: ViewCar
         '',
         card.description || 'No description provided.',
         '',
-        `**Status:** ${getStatusLabel(card.status)}`,
+        `**Status:** ${cardStatus.label}`,
         card.link ? `**Link:** ${card.link}` : '',
         card.project ? `**Project:** ${card.project}` : ''
       ].filter(Boolean).join('\n');
@@ -85,71 +75,51 @@ export function ViewCardDialog({ card, open, onOpenChange, onEditCard }: ViewCar
     onEditCard?.(card);
   };
 
-  // Comment mutations
-  const updateCardComments = useMutation({
-    mutationFn: async (newComments: Comment[]) => {
-      console.log("Adding comment - card ID:", card.id);
-      console.log("New comments:", newComments);
-      console.log("Serialized:", serializeComments(newComments));
-      
-      const response = await apiRequest("PATCH", `/api/cards/${card.id}`, {
-        comments: serializeComments(newComments)
-      });
-      return response.json();
-    },
+  // Each change is its own request, so concurrent commenters never overwrite each other
+  const onCommentSaved = () => {
+    queryClient.invalidateQueries({ queryKey: commentsQueryKey(card.id) });
+    queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+  };
+
+  const onCommentError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action} comment: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const addCommentMutation = useMutation({
+    mutationFn: ({ content, parentId }: { content: string; parentId?: string }) =>
+      createComment(card.id, content, parentId),
+    onSuccess: onCommentSaved,
+    onError: onCommentError("add"),
+  });
+
+  const updateCommentMutation = useMutation({
+    mutationFn: ({ commentId, content }: { commentId: string; content: string }) =>
+      updateComment(card.id, commentId, content),
     onSuccess: () => {
-      console.log("Comment mutation successful!");
-      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
-      toast({
-        title: "Success",
-        description: "Comment updated successfully.",
-      });
-    },
-    onError: (error: Error) => {
-      console.error("Comment error:", error);
+      onCommentSaved();
       toast({
-        title: "Error",
-        description: `Failed to update comments: ${error.message}`,
-        variant: "destructive",
+        title: "Comment updated",
+        description: "Your comment has been updated.",
       });
     },
+    onError: onCommentError("update"),
   });
 
-  const handleAddComment = (content: string) => {
-    console.log("handleAddComment called with:", content);
-    console.log("Current comments:", comments);
-    
-    try {
-      const newComments = addComment(comments, content);
-      console.log("New comments array:", newComments);
-      updateCardComments.mutate(newComments);
-    } catch (error) {
-      console.error("Error in handleAddComment:", error);
+  const deleteCommentMutation = useMutation({
+    mutationFn: (commentId: string) => deleteComment(card.id, commentId),
+    onSuccess: () => {
+      onCommentSaved();
       toast({
-        title: "Error",
-        description: `Failed to add comment: ${error instanceof Error ? error.message : String(error)}`,
-        variant: "destructive",
+        title: "Comment deleted",
+        description: "The comment has been removed.",
       });
-    }
-  };
-
-  const handleDeleteComment = (commentId: string) => {
-    const newComments = deleteComment(comments, commentId);
-    updateCardComments.mutate(newComments);
-    toast({
-      title: "Comment deleted",
-      description: "The comment has been removed.",
-    });
-  };
-
-  const handleUpdateComment = (commentId: string, content: string) => {
-    const newComments = updateComment(comments, commentId, content);
-    updateCardComments.mutate(newComments);
-    toast({
-      title: "Comment updated",
-      description: "Your comment has been updated.",
-    });
-  };
+    },
+    onError: onCommentError("delete"),
+  });
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -165,8 +135,8 @@ export function ViewCardDialog({ card, open, onOpenChange, onEditCard }: ViewCar
               </DialogDescription>
             </div>
             <div className="flex items-center space-x-2 flex-shrink-0">
-              <Badge className={getStatusColor(card.status)}>
-                {getStatusLabel(card.status)}
+              <Badge className={getColorBadgeClass(cardStatus.color)}>
+                {cardStatus.label}
               </Badge>
             </div>
           </div>
@@ -233,110 +203,141 @@ export function ViewCardDialog({ card, open, onOpenChange, onEditCard }: ViewCar
           </div>
         </DialogHeader>
         
-        <div className="overflow-y-auto flex-1 max-h-[60vh] px-1 space-y-4">
-          {/* Description Section */}
-          <div>
-            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Description</h3>
-            {card.description ? (
-              <div className="text-sm text-gray-600 break-words prose prose-sm max-w-none">
-                <ReactMarkdown 
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    // Use the same clean styling as InteractiveMarkdown
-                    p: ({ children }) => <p className="mb-2 last:mb-0 text-gray-700 dark:text-gray-300">{children}</p>,
-                    ul: ({ children }) => <ul className="mb-2 last:mb-0 ml-2">{children}</ul>,
-                    ol: ({ children }) => <ol className="mb-2 last:mb-0 ml-4">{children}</ol>,
-                    li: ({ children }) => <li className="mb-1 ml-4 text-sm text-gray-700 dark:text-gray-300">{children}</li>,
-                    code: ({ children }) => <code className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm text-gray-800 dark:text-gray-200">{children}</code>,
-                    strong: ({ children }) => <strong className="font-semibold text-gray-800 dark:text-gray-200">{children}</strong>,
-                    em: ({ children }) => <em className="italic text-gray-700 dark:text-gray-300">{children}</em>,
-                    h1: ({ children }) => <h1 className="text-lg font-semibold mb-2 text-gray-900 dark:text-gray-100">{children}</h1>,
-                    h2: ({ children }) => <h2 className="text-base font-semibold mb-2 text-gray-900 dark:text-gray-100">{children}</h2>,
-                    h3: ({ children }) => <h3 className="text-sm font-medium mb-1 text-gray-900 dark:text-gray-100">{children}</h3>,
-                    blockquote: ({ children }) => <blockquote className="border-l-2 border-gray-300 dark:border-gray-600 pl-3 py-1 my-2 italic bg-gray-50 dark:bg-gray-800/30 text-gray-700 dark:text-gray-300">{children}</blockquote>,
-                    a: ({ href, children }) => (
-                      <a 
-                        href={href} 
-                        target="_blank" 
-                        rel="noopener noreferrer" 
-                        className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 underline"
-                      >
-                        {children}
-                      </a>
-                    ),
-                    pre: ({ children }) => <pre className="bg-gray-100 dark:bg-gray-800 p-3 rounded-md overflow-x-auto my-2 text-sm">{children}</pre>,
-                    img: ({ src, alt }) => {
-                      // Parse Obsidian-style width syntax: ![alt|width](url)
-                      let displayAlt = alt || '';
-                      let width: string | undefined;
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <div className="overflow-y-auto flex-1 max-h-[60vh] px-1 space-y-4">
+              {/* Description Section */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Description</h3>
+                {card.description ? (
+                  <div className="text-sm text-gray-600 break-words prose prose-sm max-w-none">
+                    <ReactMarkdown 
+                      remarkPlugins={[remarkGfm]}
+                      components={{
+                        // Use the same clean styling as InteractiveMarkdown
+                        p: ({ children }) => <p className="mb-2 last:mb-0 text-gray-700 dark:text-gray-300">{children}</p>,
+                        ul: ({ children }) => <ul className="mb-2 last:mb-0 ml-2">{children}</ul>,
+                        ol: ({ children }) => <ol className="mb-2 last:mb-0 ml-4">{children}</ol>,
+                        li: ({ children }) => <li className="mb-1 ml-4 text-sm text-gray-700 dark:text-gray-300">{children}</li>,
+                        code: ({ children }) => <code className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm text-gray-800 dark:text-gray-200">{children}</code>,
+                        strong: ({ children }) => <strong className="font-semibold text-gray-800 dark:text-gray-200">{children}</strong>,
+                        em: ({ children }) => <em className="italic text-gray-700 dark:text-gray-300">{children}</em>,
+                        h1: ({ children }) => <h1 className="text-lg font-semibold mb-2 text-gray-900 dark:text-gray-100">{children}</h1>,
+                        h2: ({ children }) => <h2 className="text-base font-semibold mb-2 text-gray-900 dark:text-gray-100">{children}</h2>,
+                        h3: ({ children }) => <h3 className="text-sm font-medium mb-1 text-gray-900 dark:text-gray-100">{children}</h3>,
+                        blockquote: ({ children }) => <blockquote className="border-l-2 border-gray-300 dark:border-gray-600 pl-3 py-1 my-2 italic bg-gray-50 dark:bg-gray-800/30 text-gray-700 dark:text-gray-300">{children}</blockquote>,
+                        a: ({ href, children }) => (
+                          <a 
+                            href={href} 
+                            target="_blank" 
+                            rel="noopener noreferrer" 
+                            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 underline"
+                          >
+                            {children}
+                          </a>
+                        ),
+                        pre: ({ children }) => <pre className="bg-gray-100 dark:bg-gray-800 p-3 rounded-md overflow-x-auto my-2 text-sm">{children}</pre>,
+                        img: ({ src, alt }) => {
+                          // Parse Obsidian-style width syntax: ![alt|width](url)
+                          let displayAlt = alt || '';
+                          let width: string | undefined;
                       
-                      if (displayAlt.includes('|')) {
-                        const parts = displayAlt.split('|');
-                        displayAlt = parts[0].trim();
-                        const widthValue = parts[1].trim();
+                          if (displayAlt.includes('|')) {
+                            const parts = displayAlt.split('|');
+                            displayAlt = parts[0].trim();
+                            const widthValue = parts[1].trim();
                         
-                        // Support both pixel values (200) and percentages (50%)
-                        if (widthValue) {
-                          width = widthValue.includes('%') ? widthValue : `${widthValue}px`;
-                        }
-                      }
+                            // Support both pixel values (200) and percentages (50%)
+                            if (widthValue) {
+                              width = widthValue.includes('%') ? widthValue : `${widthValue}px`;
+                            }
+                          }
                       
-                      return (
-                        <img
-                          src={src}
-                          alt={displayAlt}
-                          loading="lazy"
-                          className="rounded-lg max-w-full h-auto my-3 cursor-pointer hover:opacity-90 transition-opacity shadow-md"
-                          style={width ? { maxWidth: width } : undefined}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setLightboxImage({ src: src || '', alt: displayAlt });
-                          }}
-                          onError={(e) => {
-                            // Handle broken images gracefully
-                            const target = e.target as HTMLImageElement;
-                            target.style.display = 'none';
-                            const errorMsg = document.createElement('div');
-                            errorMsg.className = 'text-sm text-red-500 italic my-2 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800';
-                            errorMsg.textContent = `⚠️ Image failed to load: ${displayAlt || 'untitled'}`;
-                            target.parentNode?.insertBefore(errorMsg, target);
-                          }}
-                        />
-                      );
-                    },
-                  }}
-                >
-                  {card.description}
-                </ReactMarkdown>
+                          return (
+                            <img
+                              src={getImageVariantUrl(src, "web") ?? src}
+                              alt={displayAlt}
+                              loading="lazy"
+                              className="rounded-lg max-w-full h-auto my-3 cursor-pointer hover:opacity-90 transition-opacity shadow-md"
+                              style={width ? { maxWidth: width } : undefined}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setLightboxImage({ src: src || '', alt: displayAlt });
+                              }}
+                              onError={(e) => {
+                                const target = e.target as HTMLImageElement;
+                                // Images uploaded before variants existed only have the original
+                                if (src && target.getAttribute('src') !== src) {
+                                  target.src = src;
+                                  return;
+                                }
+                                // Handle broken images gracefully
+                                target.style.display = 'none';
+                                const errorMsg = document.createElement('div');
+                                errorMsg.className = 'text-sm text-red-500 italic my-2 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800';
+                                errorMsg.textContent = `⚠️ Image failed to load: ${displayAlt || 'untitled'}`;
+                                target.parentNode?.insertBefore(errorMsg, target);
+                              }}
+                            />
+                          );
+                        },
+                      }}
+                    >
+                      {card.description}
+                    </ReactMarkdown>
+                  </div>
+                ) : (
+                  <div className="text-gray-500 dark:text-gray-400 italic text-center py-4">
+                    No description provided
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="text-gray-500 dark:text-gray-400 italic text-center py-4">
-                No description provided
+
+              {/* Notes Section */}
+              {card.notes && (
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Notes</h3>
+                  <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md p-3">
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{card.notes}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Links Section */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <CardLinkList cardId={card.id} />
+              </div>
+
+              {/* Attachments Section */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <AttachmentList cardId={card.id} />
               </div>
-            )}
-          </div>
 
-          {/* Notes Section */}
-          {card.notes && (
-            <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Notes</h3>
-              <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md p-3">
-                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{card.notes}</p>
+              {/* Comments Section */}
+              <div className="border-t-2 border-blue-200 dark:border-blue-800 pt-4 mt-4">
+                <CommentSection
+                  cardId={card.id}
+                  comments={comments}
+                  onAddComment={(content, parentId) => addCommentMutation.mutate({ content, parentId })}
+                  onDeleteComment={(commentId) => deleteCommentMutation.mutate(commentId)}
+                  onUpdateComment={(commentId, content) => updateCommentMutation.mutate({ commentId, content })}
+                  isLoading={addCommentMutation.isPending}
+                />
               </div>
             </div>
-          )}
+          </TabsContent>
 
-          {/* Comments Section */}
-          <div className="border-t-2 border-blue-200 dark:border-blue-800 pt-4 mt-4">
-            <CommentSection
-              comments={comments}
-              onAddComment={handleAddComment}
-              onDeleteComment={handleDeleteComment}
-              onUpdateComment={handleUpdateComment}
-              isLoading={updateCardComments.isPending}
-            />
-          </div>
-        </div>
+          <TabsContent value="activity">
+            <div className="overflow-y-auto max-h-[60vh] px-1">
+              <CardTimeline cardId={card.id} project={card.project} />
+            </div>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
 
       {/* Lightbox for full-size image viewing */}
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Copy, History, Pencil, Plus, RotateCw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatCommentTime } from "@/lib/comment-utils";
+import {
+  webhooksQueryKey,
+  webhookDeliveriesQueryKey,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  redeliverWebhook,
+  type CreatedWebhook,
+} from "@/lib/webhook-utils";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  InsertWebhook,
+  Project,
+  PublicWebhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  insertWebhookSchema,
+} from "@shared/schema";
+
+interface WebhookEditorProps {
+  project: Project;
+}
+
+interface WebhookDraft {
+  id?: string;
+  url: string;
+  events: WebhookEvent[];
+}
+
+// How often an open delivery log checks for new deliveries and retries
+const DELIVERY_LOG_REFRESH_MS = 10_000;
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  succeeded: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function DeliveryLog({ webhook }: { webhook: PublicWebhook }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: webhookDeliveriesQueryKey(webhook),
+    refetchInterval: DELIVERY_LOG_REFRESH_MS,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: (delivery: WebhookDelivery) => redeliverWebhook(webhook, delivery),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookDeliveriesQueryKey(webhook) });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to redeliver. Please try again.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400 px-2 pb-2">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400 px-2 pb-2">Nothing delivered yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-700 border-t border-gray-100 dark:border-gray-700">
+      {deliveries.map(delivery => (
+        <li key={delivery.id} className="px-2 py-1.5 text-xs" data-testid={`webhook-delivery-${delivery.id}`}>
+          <div className="flex items-center gap-2">
+            <span className={`rounded px-1.5 py-0.5 font-medium ${DELIVERY_STATUS_STYLES[delivery.status as WebhookDeliveryStatus]}`}>
+              {delivery.status}
+            </span>
+            <span className="font-mono text-gray-700 dark:text-gray-300">{delivery.event}</span>
+            <span className="text-gray-400 dark:text-gray-500">{formatCommentTime(delivery.createdAt)}</span>
+            <span className="flex-1" />
+            <span className="text-gray-500 dark:text-gray-400">
+              {delivery.attempts === 1 ? "1 attempt" : `${delivery.attempts} attempts`}
+            </span>
+            <button
+              type="button"
+              onClick={() => redeliverMutation.mutate(delivery)}
+              disabled={redeliverMutation.isPending}
+              className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+              title="Redeliver"
+            >
+              <RotateCw className="w-3 h-3" />
+            </button>
+          </div>
+          {(delivery.error || delivery.responseStatus !== null || delivery.nextAttemptAt) && (
+            <div className="mt-0.5 text-gray-500 dark:text-gray-400">
+              {delivery.responseStatus !== null && <span>HTTP {delivery.responseStatus}. </span>}
+              {delivery.error && <span>{delivery.error}. </span>}
+              {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                <span>Retrying at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}.</span>
+              )}
+            </div>
+          )}
+          <details className="mt-0.5">
+            <summary className="cursor-pointer text-gray-400 dark:text-gray-500">Payload</summary>
+            <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 dark:bg-gray-900 p-2 font-mono text-[11px] text-gray-700 dark:text-gray-300">
+              {JSON.stringify(delivery.payload, null, 2)}
+            </pre>
+          </details>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Webhooks are saved one at a time, like automation rules
+export function WebhookEditor({ project }: WebhookEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<WebhookDraft | null>(null);
+  const [createdWebhook, setCreatedWebhook] = useState<CreatedWebhook | null>(null);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+
+  const { data: webhooks = [] } = useQuery<PublicWebhook[]>({
+    queryKey: webhooksQueryKey(project.slug),
+  });
+
+  const onWebhooksChanged = () => {
+    queryClient.invalidateQueries({ queryKey: webhooksQueryKey(project.slug) });
+  };
+
+  const onWebhookError = (action: string) => (error: Error) => {
+    let description = `Failed to ${action} webhook. Please try again.`;
+    if (error.message.startsWith("400")) {
+      try {
+        const body = JSON.parse(error.message.replace(/^\d+:\s*/, ""));
+        description = body.errors?.[0]?.message || body.message || description;
+      } catch {
+        // Keep the generic message for non-JSON bodies
+      }
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, webhook }: { id?: string; webhook: InsertWebhook }) => {
+      const existing = webhooks.find(candidate => candidate.id === id);
+      if (existing) {
+        await updateWebhook(existing, { url: webhook.url, events: webhook.events });
+        return null;
+      }
+      return createWebhook(project.slug, webhook);
+    },
+    onSuccess: (created) => {
+      onWebhooksChanged();
+      setDraft(null);
+      if (created) {
+        setCreatedWebhook(created);
+      }
+    },
+    onError: onWebhookError("save"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (webhook: PublicWebhook) => updateWebhook(webhook, { enabled: !webhook.enabled }),
+    onSuccess: onWebhooksChanged,
+    onError: onWebhookError("update"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: onWebhooksChanged,
+    onError: onWebhookError("delete"),
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = insertWebhookSchema.safeParse({ url: draft.url, events: draft.events });
+    if (!result.success) {
+      toast({
+        title: "Invalid webhook",
+        description: result.error.errors[0]?.message || "Please check the webhook.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: draft.id, webhook: result.data });
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    if (!draft) return;
+    const events = checked ? [...draft.events, event] : draft.events.filter(item => item !== event);
+    // Keep the events in their usual order
+    setDraft({ ...draft, events: WEBHOOK_EVENTS.filter(item => events.includes(item)) });
+  };
+
+  const copySecret = async () => {
+    if (!createdWebhook) return;
+    await navigator.clipboard.writeText(createdWebhook.secret);
+    toast({ title: "Copied", description: "The signing secret is on your clipboard." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Card events of this project are POSTed as JSON to each webhook subscribed to them. Requests are
+        signed with the webhook's secret in the <code className="font-mono">X-Kanban-Signature</code> header
+        (<code className="font-mono">sha256=</code> HMAC of the body). Failed deliveries are retried with backoff.
+      </p>
+
+      {createdWebhook && (
+        <div className="rounded-lg border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-3 space-y-2">
+          <p className="text-sm font-medium text-green-800 dark:text-green-300">
+            Webhook created. Copy its signing secret now — it will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={createdWebhook.secret} className="font-mono text-xs h-8" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copySecret} title="Copy secret">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedWebhook(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {webhooks.map(webhook => (
+          <div
+            key={webhook.id}
+            className="rounded-lg border border-gray-200 dark:border-gray-700"
+            data-testid={`webhook-${webhook.id}`}
+          >
+            <div className="flex items-start gap-2 p-2">
+              <WebhookIcon className="w-4 h-4 mt-0.5 text-blue-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate" title={webhook.url}>
+                  {webhook.url}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {webhook.events.map(event => WEBHOOK_EVENT_LABELS[event]).join(", ")}
+                </div>
+              </div>
+              <Switch
+                checked={webhook.enabled}
+                onCheckedChange={() => toggleMutation.mutate(webhook)}
+                title={webhook.enabled ? "Pause deliveries" : "Resume deliveries"}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}
+                className={openLog === webhook.id ? "text-blue-600 dark:text-blue-400" : "text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"}
+                title="Delivery log"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({ id: webhook.id, url: webhook.url, events: webhook.events })}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                title="Edit webhook"
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(webhook)}
+                disabled={deleteMutation.isPending}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                title="Delete webhook"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {openLog === webhook.id && <DeliveryLog webhook={webhook} />}
+          </div>
+        ))}
+        {webhooks.length === 0 && !draft && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No webhooks yet.</p>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-3">
+          <Input
+            placeholder="https://example.com/kanban-events"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            className="h-8"
+          />
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-gray-600 dark:text-gray-300">Events</div>
+            <div className="grid grid-cols-2 gap-1">
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                  <Checkbox
+                    checked={draft.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Webhook"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setDraft({ url: "", events: [...WEBHOOK_EVENTS] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New webhook
+        </Button>
+      )}
+    </div>
+  );
+}
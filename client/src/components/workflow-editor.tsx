@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { COLOR_OPTIONS, Project, StatusDefinition, StatusRequirement, STATUS_REQUIREMENTS, STATUS_REQUIREMENT_LABELS, slugifyProjectName, statusListSchema } from "@shared/schema";
+
+interface WorkflowEditorProps {
+  project: Project;
+  onSaved?: () => void;
+}
+
+export function WorkflowEditor({ project, onSaved }: WorkflowEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statuses, setStatuses] = useState<StatusDefinition[]>(project.statuses);
+  const [newLabel, setNewLabel] = useState("");
+
+  // Keep the editor in sync when another client updates the workflow
+  useEffect(() => {
+    setStatuses(project.statuses);
+  }, [project.statuses]);
+
+  const saveWorkflowMutation = useMutation({
+    mutationFn: async (updated: StatusDefinition[]) => {
+      const response = await apiRequest("PATCH", `/api/projects/${encodeURIComponent(project.slug)}`, {
+        statuses: updated,
+      });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Workflow updated",
+        description: `Columns for "${project.name}" have been saved.`,
+      });
+      onSaved?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cannot save workflow",
+        description: error.message.startsWith("409")
+          ? "A removed column still has cards. Move them to another column first."
+          : "Failed to save workflow. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStatus = (index: number, updates: Partial<StatusDefinition>) => {
+    setStatuses(statuses.map((status, i) => (i === index ? { ...status, ...updates } : status)));
+  };
+
+  const toggleRequirement = (index: number, requirement: StatusRequirement) => {
+    const requires = statuses[index].requires || [];
+    updateStatus(index, {
+      requires: requires.includes(requirement)
+        ? requires.filter(item => item !== requirement)
+        : STATUS_REQUIREMENTS.filter(item => item === requirement || requires.includes(item)),
+    });
+  };
+
+  // Allowing every other column is stored as no restriction, so columns added
+  // later are allowed too
+  const toggleAllowedFrom = (index: number, key: string) => {
+    const others = statuses.filter((_, i) => i !== index).map(status => status.key);
+    const allowed = statuses[index].allowedFrom ?? others;
+    const updated = allowed.includes(key) ? allowed.filter(item => item !== key) : [...allowed, key];
+    updateStatus(index, { allowedFrom: others.every(other => updated.includes(other)) ? null : updated });
+  };
+
+  // A removed column also disappears from the transitions of the others
+  const removeStatus = (index: number) => {
+    const removedKey = statuses[index].key;
+    setStatuses(statuses
+      .filter((_, i) => i !== index)
+      .map(status => status.allowedFrom
+        ? { ...status, allowedFrom: status.allowedFrom.filter(key => key !== removedKey) }
+        : status));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= statuses.length) return;
+    const reordered = [...statuses];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStatuses(reordered);
+  };
+
+  const addStatus = () => {
+    const label = newLabel.trim();
+    const baseKey = slugifyProjectName(label);
+    if (!baseKey) return;
+
+    // Keys are stored on cards, so a new column never reuses an existing key
+    let key = baseKey;
+    for (let suffix = 2; statuses.some(status => status.key === key); suffix++) {
+      key = `${baseKey}-${suffix}`;
+    }
+
+    setStatuses([...statuses, { key, label, color: "gray" }]);
+    setNewLabel("");
+  };
+
+  const handleSave = () => {
+    const result = statusListSchema.safeParse(statuses);
+    if (!result.success) {
+      toast({
+        title: "Invalid workflow",
+        description: result.error.errors[0]?.message || "Please check the column names.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveWorkflowMutation.mutate(result.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Columns appear on the board from left to right. Renaming a column keeps its cards; a column
+        can only be removed once it is empty. A column holding more cards than its WIP limit is
+        flagged on the board. Cards can only enter a column from the columns it allows, and only
+        once they have everything it requires.
+      </p>
+
+      <div className="space-y-2">
+        {statuses.map((status, index) => (
+          <div
+            key={status.key}
+            className="flex items-center gap-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2"
+          >
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => moveStatus(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Move left"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveStatus(index, 1)}
+                disabled={index === statuses.length - 1}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Move right"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex-1 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={status.label}
+                  onChange={(e) => updateStatus(index, { label: e.target.value })}
+                  className="h-8"
+                />
+                <span className="text-xs font-mono text-gray-400 dark:text-gray-500">{status.key}</span>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={status.wipLimit ?? ""}
+                  onChange={(e) => updateStatus(index, { wipLimit: e.target.value === "" ? null : Number(e.target.value) })}
+                  className="h-8 w-24"
+                  title="WIP limit: most cards the column should hold"
+                  data-testid={`input-wip-limit-${status.key}`}
+                />
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {COLOR_OPTIONS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => updateStatus(index, { color })}
+                    className={cn(
+                      "w-4 h-4 rounded-full transition-transform",
+                      getColorDotClass(color),
+                      status.color === color ? "ring-2 ring-offset-1 ring-blue-500 scale-110" : "hover:scale-110"
+                    )}
+                    title={color}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Requires</span>
+                {STATUS_REQUIREMENTS.map(requirement => (
+                  <RuleChip
+                    key={requirement}
+                    active={!!status.requires?.includes(requirement)}
+                    onClick={() => toggleRequirement(index, requirement)}
+                  >
+                    {STATUS_REQUIREMENT_LABELS[requirement]}
+                  </RuleChip>
+                ))}
+              </div>
+              {statuses.length > 1 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">From</span>
+                  <RuleChip
+                    active={!status.allowedFrom}
+                    onClick={() => updateStatus(index, { allowedFrom: status.allowedFrom ? null : [] })}
+                  >
+                    Any column
+                  </RuleChip>
+                  {statuses.filter(other => other.key !== status.key).map(other => (
+                    <RuleChip
+                      key={other.key}
+                      active={!status.allowedFrom || status.allowedFrom.includes(other.key)}
+                      onClick={() => toggleAllowedFrom(index, other.key)}
+                    >
+                      {other.label || other.key}
+                    </RuleChip>
+                  ))}
+                </div>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeStatus(index)}
+              disabled={statuses.length === 1}
+              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              title="Remove column"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="New column name"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addStatus();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={addStatus} disabled={!newLabel.trim()}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setStatuses(project.statuses)}
+          disabled={saveWorkflowMutation.isPending}
+        >
+          Reset
+        </Button>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={saveWorkflowMutation.isPending}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {saveWorkflowMutation.isPending ? "Saving..." : "Save Workflow"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RuleChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "px-1.5 py-0.5 rounded border text-xs transition-colors",
+        active
+          ? "bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/40 dark:border-blue-700 dark:text-blue-200"
+          : "border-gray-200 text-gray-500 hover:border-gray-400 dark:border-gray-700 dark:text-gray-400"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_STATUSES, Project, StatusDefinition, getStatusDefinition, mergeProjectStatuses } from "@shared/schema";
+
+// Workflow columns for a project. Without a project (the "All Projects" view)
+// the columns of every project are merged in order.
+export function useProjectStatuses(project?: string) {
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    queryFn: () => fetch('/api/projects').then(res => res.json())
+  });
+
+  const statuses: StatusDefinition[] = project
+    ? projects.find(p => p.slug === project)?.statuses || DEFAULT_STATUSES
+    : mergeProjectStatuses(projects.map(p => p.statuses));
+
+  return {
+    statuses,
+    getStatus: (key: string) => getStatusDefinition(statuses, key),
+  };
+}
@@ -45,12 +45,14 @@ export function useWebSocket(options?: { onMessage?: (message: any) => void }) {
                 return [...oldData, message.data];
               });
               queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
               queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
               break;
               
             case 'CARDS_BULK_CREATED':
               // Handle bulk card creation - invalidate all card-related queries for fresh data
               queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
               queryClient.invalidateQueries({ queryKey: ['/api/cards/summary'] });
               queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
               break;
@@ -70,6 +72,7 @@ export function useWebSocket(options?: { onMessage?: (message: any) => void }) {
                 );
               });
               queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
               
               // Clear the remote update flag after animation
               setTimeout(() => {
@@ -91,6 +94,7 @@ export function useWebSocket(options?: { onMessage?: (message: any) => void }) {
                 return oldData.filter(card => card.id !== message.data.id);
               });
               queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
               queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
               break;
               
@@ -101,6 +105,67 @@ export function useWebSocket(options?: { onMessage?: (message: any) => void }) {
                 return oldData.filter(card => !deletedIds.includes(card.id));
               });
               queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+              break;
+              
+            case 'CARDS_REBALANCED':
+              // Card ranks were respaced on the server - order is unchanged but the keys are new
+              queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              break;
+              
+            case 'COMMENT_CREATED':
+            case 'COMMENT_UPDATED':
+            case 'COMMENT_DELETED':
+              // Refresh the card's thread, and the board for its comment count
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', message.data.cardId, 'comments'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/search'] });
+              break;
+              
+            case 'ATTACHMENT_CREATED':
+            case 'ATTACHMENT_DELETED':
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', message.data.cardId, 'attachments'] });
+              break;
+              
+            case 'CARD_LINK_CREATED':
+            case 'CARD_LINK_DELETED':
+              // Both cards' link lists and the board's blocker badges
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', message.data.cardId, 'links'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', message.data.targetCardId, 'links'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', 'blockers'] });
+              break;
+              
+            case 'LABEL_CREATED':
+            case 'LABEL_UPDATED':
+            case 'LABEL_DELETED':
+              // The project's label list and the chips on its cards
+              queryClient.invalidateQueries({ queryKey: ['/api/projects', message.data.project, 'labels'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/cards', 'labels'] });
+              break;
+              
+            case 'AUTOMATION_RULE_CREATED':
+            case 'AUTOMATION_RULE_UPDATED':
+            case 'AUTOMATION_RULE_DELETED':
+              queryClient.invalidateQueries({ queryKey: ['/api/projects', message.data.project, 'automation-rules'] });
+              break;
+
+            case 'WEBHOOK_CREATED':
+            case 'WEBHOOK_UPDATED':
+            case 'WEBHOOK_DELETED':
+              queryClient.invalidateQueries({ queryKey: ['/api/projects', message.data.project, 'webhooks'] });
+              break;
+
+            case 'INCOMING_HOOK_CREATED':
+            case 'INCOMING_HOOK_UPDATED':
+            case 'INCOMING_HOOK_DELETED':
+              queryClient.invalidateQueries({ queryKey: ['/api/projects', message.data.project, 'incoming-hooks'] });
+              break;
+              
+            case 'PROJECT_CREATED':
+            case 'PROJECT_UPDATED':
+            case 'PROJECT_DELETED':
+              // Project metadata changed - refresh the project picker and header
               queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
               break;
               
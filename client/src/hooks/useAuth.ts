@@ -1,29 +1,18 @@
-import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
 
 export function useAuth() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    // Check if user is already authenticated
-    const checkAuth = async () => {
-      try {
-        const response = await fetch("/api/auth/verify", {
-          credentials: "include",
-        });
-        setIsAuthenticated(response.ok);
-      } catch (error) {
-        setIsAuthenticated(false);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Shared across components, so logging out from the header updates the router too
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-    checkAuth();
-  }, []);
-
-  const login = () => {
-    setIsAuthenticated(true);
+  const login = (loggedInUser: PublicUser) => {
+    queryClient.setQueryData(["/api/auth/user"], loggedInUser);
   };
 
   const logout = async () => {
@@ -35,14 +24,17 @@ export function useAuth() {
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      setIsAuthenticated(false);
+      // Drop the previous user's cached data before showing the login page
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/user"], null);
     }
   };
 
   return {
-    isAuthenticated,
+    user: user ?? null,
+    isAuthenticated: !!user,
     isLoading,
     login,
     logout,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { Assignee } from "@shared/schema";
+
+// Everyone a card can be assigned to, i.e. GET /api/users
+export const USERS_QUERY_KEY = ["/api/users"];
+
+/**
+ * Query key of the assignees of every assigned card (card id -> assignees),
+ * i.e. GET /api/cards/assignees. Like the card labels, it sits under
+ * /api/cards so that card updates refresh it.
+ */
+export const CARD_ASSIGNEES_QUERY_KEY = ["/api/cards", "assignees"];
+
+export function getAssigneeName(assignee: Assignee): string {
+  return assignee.displayName || assignee.username;
+}
+
+/**
+ * Up to two initials for an avatar: "Ada Lovelace" -> "AL", "ada" -> "AD"
+ */
+export function getAssigneeInitials(assignee: Assignee): string {
+  const words = getAssigneeName(assignee).trim().split(/\s+/).filter(Boolean);
+  const initials = words.length > 1
+    ? words[0][0] + words[words.length - 1][0]
+    : (words[0] || "?").slice(0, 2);
+  return initials.toUpperCase();
+}
@@ -0,0 +1,48 @@
+import { Attachment } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Query key of a card's attachments (oldest first). The default query function
+ * turns it into GET /api/cards/:id/attachments.
+ */
+export function attachmentsQueryKey(cardId: string) {
+  return ["/api/cards", cardId, "attachments"];
+}
+
+/**
+ * Attach a file to a card. The server checks the type (by extension) and size.
+ */
+export async function uploadAttachment(cardId: string, file: File): Promise<Attachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  // apiRequest sends JSON, so multipart goes through fetch directly
+  const response = await fetch(`/api/cards/${cardId}/attachments`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include', // Include session cookie
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Upload failed' }));
+    throw new Error(error.message || 'Failed to attach file');
+  }
+
+  return response.json();
+}
+
+/**
+ * Remove an attachment from a card
+ */
+export async function deleteAttachment(cardId: string, attachmentId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/cards/${cardId}/attachments/${attachmentId}`);
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,40 @@
+import { InsertAutomationRule, PublicAutomationRule, UpdateAutomationRule } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// A rule as the API lists it, with what it does in words
+export type DescribedAutomationRule = PublicAutomationRule & { description: string };
+
+// A rule as returned right after creating it or replacing its secret, the only
+// times the secret that signs its webhook actions is shown
+export type AutomationRuleWithSecret = PublicAutomationRule & { secret: string };
+
+/**
+ * Query key of a project's automation rules (in the order they run). The
+ * default query function turns it into GET /api/projects/:slug/automation-rules.
+ */
+export function automationRulesQueryKey(project: string) {
+  return ["/api/projects", project, "automation-rules"];
+}
+
+function automationRuleUrl(rule: PublicAutomationRule): string {
+  return `/api/projects/${encodeURIComponent(rule.project)}/automation-rules/${rule.id}`;
+}
+
+export async function createAutomationRule(project: string, rule: InsertAutomationRule): Promise<AutomationRuleWithSecret> {
+  const response = await apiRequest("POST", `/api/projects/${encodeURIComponent(project)}/automation-rules`, rule);
+  return response.json();
+}
+
+export async function updateAutomationRule(rule: PublicAutomationRule, updates: UpdateAutomationRule): Promise<PublicAutomationRule> {
+  const response = await apiRequest("PATCH", automationRuleUrl(rule), updates);
+  return response.json();
+}
+
+export async function replaceAutomationRuleSecret(rule: PublicAutomationRule): Promise<AutomationRuleWithSecret> {
+  const response = await apiRequest("POST", `${automationRuleUrl(rule)}/secret`);
+  return response.json();
+}
+
+export async function deleteAutomationRule(rule: PublicAutomationRule): Promise<void> {
+  await apiRequest("DELETE", automationRuleUrl(rule));
+}
@@ -0,0 +1,38 @@
+import { CardLinkKind, CardLinkView } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Query key of a card's links (oldest first). The default query function
+ * turns it into GET /api/cards/:id/links.
+ */
+export function cardLinksQueryKey(cardId: string) {
+  return ["/api/cards", cardId, "links"];
+}
+
+/**
+ * Query key of the open blockers of every blocked card (card id -> blockers),
+ * i.e. GET /api/cards/blockers. It sits under /api/cards so that card updates,
+ * which can resolve a blocker, refresh it.
+ */
+export const BLOCKERS_QUERY_KEY = ["/api/cards", "blockers"];
+
+/**
+ * Query key of the sub-cards of every epic (card id -> sub-cards with their
+ * statuses), i.e. GET /api/cards/subcards
+ */
+export const SUBCARDS_QUERY_KEY = ["/api/cards", "subcards"];
+
+/**
+ * Link a card to another; `type` is read from the first card's side
+ */
+export async function createCardLink(cardId: string, targetCardId: string, type: CardLinkKind): Promise<CardLinkView> {
+  const response = await apiRequest("POST", `/api/cards/${cardId}/links`, { targetCardId, type });
+  return response.json();
+}
+
+/**
+ * Remove a link between two cards
+ */
+export async function deleteCardLink(cardId: string, linkId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/cards/${cardId}/links/${linkId}`);
+}
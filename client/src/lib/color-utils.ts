@@ -0,0 +1,89 @@
+import { ColorOption } from "@shared/schema";
+
+// Tailwind needs complete class names at build time, so every named color
+// from COLOR_OPTIONS is spelled out here rather than interpolated.
+
+const DOT_CLASSES: Record<ColorOption, string> = {
+  gray: "bg-gradient-to-r from-gray-400 to-gray-500",
+  red: "bg-gradient-to-r from-red-400 to-red-500",
+  orange: "bg-gradient-to-r from-orange-400 to-orange-500",
+  amber: "bg-gradient-to-r from-amber-400 to-amber-500",
+  green: "bg-gradient-to-r from-green-400 to-green-500",
+  teal: "bg-gradient-to-r from-teal-400 to-teal-500",
+  blue: "bg-gradient-to-r from-blue-400 to-blue-500",
+  indigo: "bg-gradient-to-r from-indigo-400 to-indigo-500",
+  purple: "bg-gradient-to-r from-purple-400 to-purple-500",
+  pink: "bg-gradient-to-r from-pink-400 to-pink-500",
+};
+
+const BADGE_CLASSES: Record<ColorOption, string> = {
+  gray: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  red: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  orange: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  amber: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  green: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  teal: "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  indigo: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
+  purple: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  pink: "bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200",
+};
+
+const HEADER_CLASSES: Record<ColorOption, string> = {
+  gray: "bg-gradient-to-r from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-700",
+  red: "bg-gradient-to-r from-red-50 to-red-100 dark:from-red-900/30 dark:to-red-800/30",
+  orange: "bg-gradient-to-r from-orange-50 to-orange-100 dark:from-orange-900/30 dark:to-orange-800/30",
+  amber: "bg-gradient-to-r from-amber-50 to-amber-100 dark:from-amber-900/30 dark:to-amber-800/30",
+  green: "bg-gradient-to-r from-green-50 to-green-100 dark:from-green-900/30 dark:to-green-800/30",
+  teal: "bg-gradient-to-r from-teal-50 to-teal-100 dark:from-teal-900/30 dark:to-teal-800/30",
+  blue: "bg-gradient-to-r from-blue-50 to-blue-100 dark:from-blue-900/30 dark:to-blue-800/30",
+  indigo: "bg-gradient-to-r from-indigo-50 to-indigo-100 dark:from-indigo-900/30 dark:to-indigo-800/30",
+  purple: "bg-gradient-to-r from-purple-50 to-purple-100 dark:from-purple-900/30 dark:to-purple-800/30",
+  pink: "bg-gradient-to-r from-pink-50 to-pink-100 dark:from-pink-900/30 dark:to-pink-800/30",
+};
+
+const COUNT_CLASSES: Record<ColorOption, string> = {
+  gray: "bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700",
+  red: "bg-gradient-to-r from-red-100 to-red-200 text-red-700",
+  orange: "bg-gradient-to-r from-orange-100 to-orange-200 text-orange-700",
+  amber: "bg-gradient-to-r from-amber-100 to-amber-200 text-amber-700",
+  green: "bg-gradient-to-r from-green-100 to-green-200 text-green-700",
+  teal: "bg-gradient-to-r from-teal-100 to-teal-200 text-teal-700",
+  blue: "bg-gradient-to-r from-blue-100 to-blue-200 text-blue-700",
+  indigo: "bg-gradient-to-r from-indigo-100 to-indigo-200 text-indigo-700",
+  purple: "bg-gradient-to-r from-purple-100 to-purple-200 text-purple-700",
+  pink: "bg-gradient-to-r from-pink-100 to-pink-200 text-pink-700",
+};
+
+const BORDER_CLASSES: Record<ColorOption, string> = {
+  gray: "border-l-gray-400",
+  red: "border-l-red-500",
+  orange: "border-l-orange-500",
+  amber: "border-l-amber-500",
+  green: "border-l-green-500",
+  teal: "border-l-teal-500",
+  blue: "border-l-blue-500",
+  indigo: "border-l-indigo-500",
+  purple: "border-l-purple-500",
+  pink: "border-l-pink-500",
+};
+
+export function getColorDotClass(color: string): string {
+  return DOT_CLASSES[color as ColorOption] || DOT_CLASSES.gray;
+}
+
+export function getColorBadgeClass(color: string): string {
+  return BADGE_CLASSES[color as ColorOption] || BADGE_CLASSES.gray;
+}
+
+export function getColorHeaderClass(color: string): string {
+  return HEADER_CLASSES[color as ColorOption] || HEADER_CLASSES.gray;
+}
+
+export function getColorCountClass(color: string): string {
+  return COUNT_CLASSES[color as ColorOption] || COUNT_CLASSES.gray;
+}
+
+export function getColorBorderClass(color: string): string {
+  return BORDER_CLASSES[color as ColorOption] || BORDER_CLASSES.gray;
+}
@@ -1,90 +1,48 @@
 import { Comment } from "@shared/schema";
-import { nanoid } from "nanoid";
+import { apiRequest } from "@/lib/queryClient";
 
 /**
- * Parse comments JSON string into Comment array
- * Handles invalid JSON gracefully by returning empty array
+ * Query key of a card's comments (oldest first). The default query function
+ * turns it into GET /api/cards/:id/comments.
  */
-export function parseComments(commentsJson: string | null | undefined): Comment[] {
-  if (!commentsJson) return [];
-  
-  try {
-    const parsed = JSON.parse(commentsJson);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (error) {
-    console.error("Failed to parse comments:", error);
-    return [];
-  }
+export function commentsQueryKey(cardId: string) {
+  return ["/api/cards", cardId, "comments"];
 }
 
 /**
- * Serialize Comment array to JSON string
+ * Query key of a comment's edit history
  */
-export function serializeComments(comments: Comment[]): string {
-  return JSON.stringify(comments);
+export function commentRevisionsQueryKey(cardId: string, commentId: string) {
+  return ["/api/cards", cardId, "comments", commentId, "revisions"];
 }
 
 /**
- * Create a new comment object
+ * Add a comment to a card, or a reply when parentId is given
  */
-export function createComment(content: string, author?: string): Comment {
-  return {
-    id: nanoid(),
-    content,
-    timestamp: new Date().toISOString(),
-    author,
-  };
+export async function createComment(cardId: string, content: string, parentId?: string): Promise<Comment> {
+  const response = await apiRequest("POST", `/api/cards/${cardId}/comments`, { content, parentId });
+  return response.json();
 }
 
 /**
- * Add a new comment to the comments array
+ * Replace the text of a comment; the server keeps the previous text as a revision
  */
-export function addComment(
-  existingComments: Comment[],
-  content: string,
-  author?: string
-): Comment[] {
-  const newComment = createComment(content, author);
-  return [...existingComments, newComment];
+export async function updateComment(cardId: string, commentId: string, content: string): Promise<Comment> {
+  const response = await apiRequest("PATCH", `/api/cards/${cardId}/comments/${commentId}`, { content });
+  return response.json();
 }
 
 /**
- * Delete a comment by ID
+ * Delete a comment and its replies
  */
-export function deleteComment(comments: Comment[], commentId: string): Comment[] {
-  return comments.filter((comment) => comment.id !== commentId);
-}
-
-/**
- * Update a comment by ID
- */
-export function updateComment(
-  comments: Comment[],
-  commentId: string,
-  newContent: string
-): Comment[] {
-  return comments.map((comment) =>
-    comment.id === commentId
-      ? { ...comment, content: newContent, timestamp: new Date().toISOString() }
-      : comment
-  );
-}
-
-/**
- * Sort comments by timestamp (newest first by default)
- */
-export function sortComments(comments: Comment[], ascending = false): Comment[] {
-  return [...comments].sort((a, b) => {
-    const dateA = new Date(a.timestamp).getTime();
-    const dateB = new Date(b.timestamp).getTime();
-    return ascending ? dateA - dateB : dateB - dateA;
-  });
+export async function deleteComment(cardId: string, commentId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/cards/${cardId}/comments/${commentId}`);
 }
 
 /**
  * Format timestamp for display
  */
-export function formatCommentTime(timestamp: string): string {
+export function formatCommentTime(timestamp: string | Date): string {
   const date = new Date(timestamp);
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
@@ -96,7 +54,7 @@ export function formatCommentTime(timestamp: string): string {
   if (diffMins < 60) return `${diffMins}m ago`;
   if (diffHours < 24) return `${diffHours}h ago`;
   if (diffDays < 7) return `${diffDays}d ago`;
-  
+
   // For older comments, show the date
   return date.toLocaleDateString(undefined, {
     month: "short",
@@ -104,6 +62,3 @@ export function formatCommentTime(timestamp: string): string {
     year: date.getFullYear() !== now.getFullYear() ? "numeric" : undefined,
   });
 }
-
-
-
@@ -1,5 +1,5 @@
 /**
- * Utility functions for handling image uploads to R2 storage
+ * Utility functions for handling image uploads to the server's image store
  */
 
 /**
@@ -0,0 +1,32 @@
+import { InsertIncomingHook, PublicIncomingHook, UpdateIncomingHook } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// A hook as returned right after creating it, the only time its token (and so
+// its full URL path) is shown
+export type CreatedIncomingHook = PublicIncomingHook & { token: string; path: string };
+
+/**
+ * Query key of a project's incoming hooks. The default query function turns
+ * it into GET /api/projects/:slug/incoming-hooks.
+ */
+export function incomingHooksQueryKey(project: string) {
+  return ["/api/projects", project, "incoming-hooks"];
+}
+
+function incomingHookUrl(hook: PublicIncomingHook): string {
+  return `/api/projects/${encodeURIComponent(hook.project)}/incoming-hooks/${hook.id}`;
+}
+
+export async function createIncomingHook(project: string, hook: InsertIncomingHook): Promise<CreatedIncomingHook> {
+  const response = await apiRequest("POST", `/api/projects/${encodeURIComponent(project)}/incoming-hooks`, hook);
+  return response.json();
+}
+
+export async function updateIncomingHook(hook: PublicIncomingHook, updates: UpdateIncomingHook): Promise<PublicIncomingHook> {
+  const response = await apiRequest("PATCH", incomingHookUrl(hook), updates);
+  return response.json();
+}
+
+export async function deleteIncomingHook(hook: PublicIncomingHook): Promise<void> {
+  await apiRequest("DELETE", incomingHookUrl(hook));
+}
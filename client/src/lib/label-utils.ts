@@ -0,0 +1,34 @@
+import { InsertLabel, Label, UpdateLabel } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Query key of a project's labels (by name). The default query function turns
+ * it into GET /api/projects/:slug/labels.
+ */
+export function labelsQueryKey(project: string) {
+  return ["/api/projects", project, "labels"];
+}
+
+/**
+ * Query key of the labels of every labelled card (card id -> labels), i.e.
+ * GET /api/cards/labels. It sits under /api/cards so that card updates, which
+ * can change a card's labels, refresh it.
+ */
+export const CARD_LABELS_QUERY_KEY = ["/api/cards", "labels"];
+
+export async function createLabel(project: string, label: InsertLabel): Promise<Label> {
+  const response = await apiRequest("POST", `/api/projects/${encodeURIComponent(project)}/labels`, label);
+  return response.json();
+}
+
+export async function updateLabel(label: Label, updates: UpdateLabel): Promise<Label> {
+  const response = await apiRequest("PATCH", `/api/projects/${encodeURIComponent(label.project)}/labels/${label.id}`, updates);
+  return response.json();
+}
+
+/**
+ * Delete a label; it is removed from every card that has it
+ */
+export async function deleteLabel(label: Label): Promise<void> {
+  await apiRequest("DELETE", `/api/projects/${encodeURIComponent(label.project)}/labels/${label.id}`);
+}
@@ -1,63 +1,43 @@
-export interface TaskItem {
-  id: string;
-  text: string;
-  completed: boolean;
-}
+import { CardTask } from "@shared/schema";
+import { parseMarkdownTasks, hasMarkdownTasks, type MarkdownTask } from "@shared/task-markdown";
+import { calculateProgress, type Progress } from "@shared/progress";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
-export function parseTaskList(taskListJson?: string | null): TaskItem[] {
-  if (!taskListJson) return [];
-  
-  try {
-    const parsed = JSON.parse(taskListJson);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
+// A task as the board shows it: a checkbox line of the card's description.
+// The server keeps these lines and the card's task rows in the same order.
+export type TaskItem = MarkdownTask;
 
-export function serializeTaskList(tasks: TaskItem[]): string {
-  return JSON.stringify(tasks);
+/**
+ * Query key of a card's task rows (in list order). The default query function
+ * turns it into GET /api/cards/:id/tasks.
+ */
+export function tasksQueryKey(cardId: string) {
+  return ["/api/cards", cardId, "tasks"];
 }
 
 export function extractTasksFromMarkdown(markdown: string): TaskItem[] {
-  // Extract GitHub-style task lists from markdown
-  const taskRegex = /^[-*+]\s*\[([x\s])\]\s*(.+)$/gm;
-  const tasks: TaskItem[] = [];
-  let match;
-  
-  while ((match = taskRegex.exec(markdown)) !== null) {
-    const text = match[2].trim();
-    const isCompleted = match[1].toLowerCase() === 'x';
-    
-    tasks.push({
-      id: text.toLowerCase().replace(/[^a-z0-9]/g, ''), // Generate stable ID from text
-      text: text,
-      completed: isCompleted
-    });
-  }
-  
-
-  return tasks;
+  return parseMarkdownTasks(markdown);
 }
 
-export function calculateTaskProgress(tasks: TaskItem[]): {
-  completed: number;
-  total: number;
-  percentage: number;
-} {
-  const total = tasks.length;
-  const completed = tasks.filter(task => task.completed).length;
-  const percentage = total === 0 ? 0 : Math.round((completed / total) * 100);
-  
-  return { completed, total, percentage };
+export function calculateTaskProgress(tasks: TaskItem[]): Progress {
+  return calculateProgress(tasks);
 }
 
-export function updateTaskCompletion(tasks: TaskItem[], taskId: string, completed: boolean): TaskItem[] {
-  return tasks.map(task => 
-    task.id === taskId ? { ...task, completed } : task
-  );
+/**
+ * Check or uncheck the task shown at `index` of a card's description. The row
+ * at that index is looked up fresh, and must still have the same text, so a
+ * description edited elsewhere in the meantime does not toggle the wrong task.
+ */
+export async function setTaskCompletion(cardId: string, index: number, task: TaskItem, completed: boolean): Promise<CardTask> {
+  const rows = await queryClient.fetchQuery<CardTask[]>({ queryKey: tasksQueryKey(cardId), staleTime: 0 });
+  const row = rows[index];
+  if (!row || row.text !== task.text) {
+    throw new Error("The task list has changed. Please try again.");
+  }
+  const response = await apiRequest("PATCH", `/api/cards/${cardId}/tasks/${row.id}`, { completed });
+  return response.json();
 }
 
 export function hasTaskList(description: string): boolean {
-  return /^[-*+]\s*\[([x\s])\]/m.test(description);
-}
\ No newline at end of file
+  return hasMarkdownTasks(description);
+}
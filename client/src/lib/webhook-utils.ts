@@ -0,0 +1,42 @@
+import { InsertWebhook, PublicWebhook, UpdateWebhook, WebhookDelivery } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// A webhook as returned right after creating it, the only time its signing
+// secret is shown
+export type CreatedWebhook = PublicWebhook & { secret: string };
+
+/**
+ * Query key of a project's webhooks. The default query function turns it into
+ * GET /api/projects/:slug/webhooks.
+ */
+export function webhooksQueryKey(project: string) {
+  return ["/api/projects", project, "webhooks"];
+}
+
+// Delivery log of a webhook, newest first (GET .../webhooks/:id/deliveries)
+export function webhookDeliveriesQueryKey(webhook: PublicWebhook) {
+  return ["/api/projects", webhook.project, "webhooks", webhook.id, "deliveries"];
+}
+
+function webhookUrl(webhook: PublicWebhook): string {
+  return `/api/projects/${encodeURIComponent(webhook.project)}/webhooks/${webhook.id}`;
+}
+
+export async function createWebhook(project: string, webhook: InsertWebhook): Promise<CreatedWebhook> {
+  const response = await apiRequest("POST", `/api/projects/${encodeURIComponent(project)}/webhooks`, webhook);
+  return response.json();
+}
+
+export async function updateWebhook(webhook: PublicWebhook, updates: UpdateWebhook): Promise<PublicWebhook> {
+  const response = await apiRequest("PATCH", webhookUrl(webhook), updates);
+  return response.json();
+}
+
+export async function deleteWebhook(webhook: PublicWebhook): Promise<void> {
+  await apiRequest("DELETE", webhookUrl(webhook));
+}
+
+export async function redeliverWebhook(webhook: PublicWebhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const response = await apiRequest("POST", `${webhookUrl(webhook)}/deliveries/${delivery.id}/redeliver`);
+  return response.json();
+}
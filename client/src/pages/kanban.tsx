@@ -1,25 +1,36 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RotateCcw, LogOut } from "lucide-react";
+import { RotateCcw, LogOut, FolderPlus, Settings, KeyRound, Search, X, UserCheck } from "lucide-react";
 import { CreateProjectDialog } from "@/components/create-project-dialog";
+import { ProjectSettingsDialog } from "@/components/project-settings-dialog";
 import { KanbanBoard } from "@/components/kanban-board";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { CardsSummary } from "@/components/cards-summary";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { getColorDotClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { Project } from "@shared/schema";
 
 export default function Kanban() {
   const [selectedProject, setSelectedProject] = useState<string>("all");
+  const [showCreateProject, setShowCreateProject] = useState(false);
+  const [showProjectSettings, setShowProjectSettings] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
   const { toast } = useToast();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
 
-  const { data: projects = [] } = useQuery({
+  const { data: projects = [] } = useQuery<Project[]>({
     queryKey: ['/api/projects'],
     queryFn: () => fetch('/api/projects').then(res => res.json())
   });
 
+  const currentProject = projects.find(project => project.slug === selectedProject);
+
   const resetColumnWidths = () => {
     localStorage.removeItem('kanban-column-widths');
     window.location.reload();
@@ -29,13 +40,6 @@ export default function Kanban() {
     });
   };
 
-  const formatProjectName = (project: string) => {
-    return project
-      .split(/[-_\s]+/)
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join(' ');
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
       <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 transition-colors duration-300">
@@ -56,18 +60,41 @@ export default function Kanban() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Projects</SelectItem>
-                  {projects.map((project: string) => (
-                    <SelectItem key={project} value={project}>
-                      {formatProjectName(project)}
+                  {projects.map(project => (
+                    <SelectItem key={project.slug} value={project.slug}>
+                      <span className="flex items-center gap-2">
+                        <span className={cn("w-2 h-2 rounded-full", getColorDotClass(project.color))} />
+                        {project.name}
+                      </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+
+              {currentProject && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowProjectSettings(true)}
+                  title="Project settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+              )}
               
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowCreateProject(true)}
+                className="flex items-center gap-2"
+                title="Create a new project"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
               <CreateProjectDialog 
-                open={false} 
-                onOpenChange={() => {}} 
-                onProjectCreated={() => {}} 
+                open={showCreateProject} 
+                onOpenChange={setShowCreateProject} 
+                onProjectCreated={setSelectedProject} 
               />
               
               <Button
@@ -83,6 +110,44 @@ export default function Kanban() {
           </div>
           
           <div className="flex items-center space-x-3">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search cards..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setSearchQuery("");
+                }}
+                className="w-56 h-9 pl-8 pr-8"
+                data-testid="input-search"
+              />
+              {searchQuery && (
+                <button
+                  type="button"
+                  onClick={() => setSearchQuery("")}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  title="Clear search"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            {user && (
+              <span className="text-sm text-gray-600 dark:text-gray-300" data-testid="text-current-user">
+                {user.displayName || user.username}
+              </span>
+            )}
+            <Link href="/me">
+              <Button variant="outline" size="sm" title="Cards assigned to me" data-testid="button-my-work">
+                <UserCheck className="h-4 w-4" />
+              </Button>
+            </Link>
+            <Link href="/settings">
+              <Button variant="outline" size="sm" title="API tokens and settings" data-testid="button-settings">
+                <KeyRound className="h-4 w-4" />
+              </Button>
+            </Link>
             <Button
               variant="outline"
               size="sm"
@@ -96,9 +161,29 @@ export default function Kanban() {
             <ThemeToggle />
           </div>
         </div>
+        {currentProject && (
+          <div className="flex items-center gap-2 max-w-7xl mx-auto mt-3">
+            <span className={cn("w-3 h-3 rounded-full", getColorDotClass(currentProject.color))} />
+            <span className="text-sm font-semibold text-gray-800 dark:text-gray-200">{currentProject.name}</span>
+            {currentProject.description && (
+              <span className="text-sm text-gray-500 dark:text-gray-400 truncate">— {currentProject.description}</span>
+            )}
+          </div>
+        )}
       </header>
+      {currentProject && (
+        <ProjectSettingsDialog
+          project={currentProject}
+          open={showProjectSettings}
+          onOpenChange={setShowProjectSettings}
+          onProjectDeleted={() => setSelectedProject("all")}
+        />
+      )}
       <main className="w-full py-8">
-        <KanbanBoard selectedProject={selectedProject === "all" ? undefined : selectedProject} />
+        <KanbanBoard
+          selectedProject={selectedProject === "all" ? undefined : selectedProject}
+          searchQuery={searchQuery}
+        />
         <CardsSummary selectedProject={selectedProject === "all" ? undefined : selectedProject} />
       </main>
     </div>
@@ -1,26 +1,39 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { PublicUser } from "@shared/schema";
 
 interface LoginProps {
-  onLogin: () => void;
+  onLogin: (user: PublicUser) => void;
 }
 
+type Mode = "login" | "register";
+
 export default function Login({ onLogin }: LoginProps) {
-  const [passcode, setPasscode] = useState("");
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const { toast } = useToast();
 
+  const { data: authConfig } = useQuery<{ registrationOpen: boolean }>({
+    queryKey: ["/api/auth/config"],
+  });
+  const registrationOpen = authConfig?.registrationOpen ?? false;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (passcode.length !== 4) {
-      setError("Passcode must be 4 digits");
+
+    if (!username.trim() || !password) {
+      setError("Username and password are required");
       return;
     }
 
@@ -28,24 +41,30 @@ export default function Login({ onLogin }: LoginProps) {
     setError("");
 
     try {
-      const response = await fetch("/api/auth/login", {
+      const response = await fetch(mode === "login" ? "/api/auth/login" : "/api/auth/register", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ passcode }),
+        body: JSON.stringify(
+          mode === "login"
+            ? { username: username.trim(), password }
+            : { username: username.trim(), password, displayName: displayName.trim() || undefined }
+        ),
       });
 
       const data = await response.json();
 
       if (response.ok) {
+        const user = data as PublicUser;
         toast({
-          title: "Access granted",
-          description: "Welcome to the Kanban board!",
+          title: mode === "login" ? "Welcome back" : "Account created",
+          description: `Signed in as ${user.displayName || user.username}.`,
         });
-        onLogin();
+        onLogin(user);
       } else {
-        setError(data.message || "Invalid passcode");
+        // Show the first validation message when the server returns zod errors
+        setError(data.errors?.[0]?.message || data.message || "Something went wrong");
       }
     } catch (err) {
       setError("Connection error. Please try again.");
@@ -54,9 +73,8 @@ export default function Login({ onLogin }: LoginProps) {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "").slice(0, 4);
-    setPasscode(value);
+  const switchMode = () => {
+    setMode(mode === "login" ? "register" : "login");
     setError("");
   };
 
@@ -67,47 +85,84 @@ export default function Login({ onLogin }: LoginProps) {
           <div className="mx-auto mb-4 w-12 h-12 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
             <Lock className="w-6 h-6 text-blue-600 dark:text-blue-400" />
           </div>
-          <CardTitle className="text-2xl font-bold">Access Required</CardTitle>
+          <CardTitle className="text-2xl font-bold">
+            {mode === "login" ? "Sign In" : "Create Account"}
+          </CardTitle>
           <CardDescription>
-            Enter the 4-digit passcode to access the Kanban board
+            {mode === "login"
+              ? "Sign in with your account to access the Kanban board"
+              : "Choose a username and password for your account"}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
               <Input
-                data-testid="input-passcode"
-                type="text"
-                inputMode="numeric"
-                placeholder="• • • •"
-                value={passcode}
-                onChange={handleInputChange}
-                className="text-center text-2xl tracking-widest font-mono"
-                maxLength={4}
+                id="username"
+                data-testid="input-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => { setUsername(e.target.value); setError(""); }}
                 autoFocus
               />
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription data-testid="text-error">{error}</AlertDescription>
-                </Alert>
-              )}
             </div>
+            {mode === "register" && (
+              <div className="space-y-2">
+                <Label htmlFor="displayName">Display name (optional)</Label>
+                <Input
+                  id="displayName"
+                  data-testid="input-display-name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                data-testid="input-password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => { setPassword(e.target.value); setError(""); }}
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription data-testid="text-error">{error}</AlertDescription>
+              </Alert>
+            )}
             <Button 
               data-testid="button-login"
               type="submit" 
               className="w-full" 
-              disabled={isLoading || passcode.length !== 4}
+              disabled={isLoading}
             >
               {isLoading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Verifying...
+                  {mode === "login" ? "Signing in..." : "Creating account..."}
                 </>
               ) : (
-                "Access Board"
+                mode === "login" ? "Sign In" : "Create Account"
               )}
             </Button>
           </form>
+          {(registrationOpen || mode === "register") && (
+            <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
+              {mode === "login" ? "No account yet?" : "Already have an account?"}{" "}
+              <button
+                type="button"
+                onClick={switchMode}
+                className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                data-testid="button-switch-mode"
+              >
+                {mode === "login" ? "Create one" : "Sign in"}
+              </button>
+            </div>
+          )}
           <div className="mt-4 text-center">
             <span className="text-xs text-gray-400 dark:text-gray-500 font-mono">
               v{__APP_VERSION__}
@@ -117,4 +172,4 @@ export default function Login({ onLogin }: LoginProps) {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, UserCheck } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ViewCardDialog } from "@/components/view-card-dialog";
+import { EditCardDialog } from "@/components/edit-card-dialog";
+import { AssigneeAvatars } from "@/components/assignee-avatars";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { CARD_ASSIGNEES_QUERY_KEY } from "@/lib/assignee-utils";
+import { getColorBorderClass } from "@/lib/color-utils";
+import { cn } from "@/lib/utils";
+import { Assignee, Card } from "@shared/schema";
+import { sortCards, type CardSortTerm } from "@shared/card-sort";
+
+// Most urgent first: by priority, then the soonest due date
+const MY_WORK_SORT: CardSortTerm[] = [
+  { key: "priority", descending: false },
+  { key: "dueDate", descending: false },
+];
+
+// Everything assigned to the signed-in user, across all projects, grouped by status
+export default function MyWork() {
+  const [viewingCard, setViewingCard] = useState<Card | null>(null);
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
+  const { statuses, getStatus } = useProjectStatuses();
+
+  // Under /api/cards so that card changes refresh it
+  const { data: cards = [], isLoading } = useQuery<Card[]>({
+    queryKey: ["/api/cards", "assignee", "me"],
+    queryFn: async () => {
+      const response = await fetch("/api/cards?assignee=me");
+      if (!response.ok) throw new Error("Failed to fetch cards");
+      return response.json();
+    },
+  });
+
+  // Loaded here too, so the edit dialog starts from the card's assignees
+  const { data: assigneesByCard = {} } = useQuery<Record<string, Assignee[]>>({
+    queryKey: CARD_ASSIGNEES_QUERY_KEY,
+  });
+
+  // Statuses only some project has are still listed, after the merged ones
+  const statusKeys = statuses.map(status => status.key);
+  cards.forEach(card => {
+    if (!statusKeys.includes(card.status)) {
+      statusKeys.push(card.status);
+    }
+  });
+  const groups = statusKeys
+    .map(key => ({
+      status: getStatus(key),
+      cards: sortCards(cards.filter(card => card.status === key), MY_WORK_SORT),
+    }))
+    .filter(group => group.cards.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 transition-colors duration-300">
+        <div className="flex items-center justify-between max-w-3xl mx-auto">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="outline" size="sm" title="Back to board">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">My work</h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8 space-y-8">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : groups.length === 0 ? (
+          <div className="flex flex-col items-center py-12 text-gray-500 dark:text-gray-400" data-testid="my-work-empty">
+            <UserCheck className="w-8 h-8 mb-2" />
+            <p className="text-sm">Nothing is assigned to you.</p>
+          </div>
+        ) : (
+          groups.map(({ status, cards: statusCards }) => (
+            <section key={status.key} className="space-y-2" data-testid={`my-work-${status.key}`}>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {status.label} <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({statusCards.length})</span>
+              </h2>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                {statusCards.map(card => (
+                  <li key={card.id}>
+                    <button
+                      onClick={() => setViewingCard(card)}
+                      className={cn(
+                        "w-full flex items-center gap-3 px-4 py-3 text-left border-l-4 hover:bg-gray-50 dark:hover:bg-gray-700/50",
+                        getColorBorderClass(status.color)
+                      )}
+                    >
+                      <span className="flex-1 truncate text-sm font-medium text-gray-900 dark:text-gray-100" title={card.title}>
+                        {card.title}
+                      </span>
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                        {card.project}
+                      </span>
+                      <AssigneeAvatars assignees={assigneesByCard[card.id] || []} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))
+        )}
+      </main>
+
+      {viewingCard && (
+        <ViewCardDialog
+          card={viewingCard}
+          open={!!viewingCard}
+          onOpenChange={(open) => !open && setViewingCard(null)}
+          onEditCard={(card) => {
+            setViewingCard(null);
+            setEditingCard(card);
+          }}
+        />
+      )}
+      {editingCard && (
+        <EditCardDialog
+          card={editingCard}
+          open={!!editingCard}
+          onOpenChange={(open) => !open && setEditingCard(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Copy, KeyRound, Trash2 } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCommentTime } from "@/lib/comment-utils";
+import { ApiTokenScope, CreateApiToken, Project, PublicApiToken, createApiTokenSchema } from "@shared/schema";
+
+type CreatedApiToken = PublicApiToken & { token: string };
+
+export default function Settings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [restrictProjects, setRestrictProjects] = useState(false);
+  const [selectedProjects, setSelectedProjects] = useState<string[]>([]);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async (data: CreateApiToken) => {
+      const response = await apiRequest("POST", "/api/tokens", data);
+      return response.json() as Promise<CreatedApiToken>;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreatedToken(token);
+      setName("");
+      setScope("read");
+      setRestrictProjects(false);
+      setSelectedProjects([]);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create API token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Clients using this token can no longer access the board.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke API token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleProject = (slug: string, checked: boolean) => {
+    setSelectedProjects(checked ? [...selectedProjects, slug] : selectedProjects.filter(s => s !== slug));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = createApiTokenSchema.safeParse({
+      name: name.trim(),
+      scope,
+      projects: restrictProjects ? selectedProjects : null,
+    });
+    if (!result.success) {
+      toast({
+        title: "Invalid token",
+        description: restrictProjects && selectedProjects.length === 0
+          ? "Select at least one project, or allow access to all projects."
+          : result.error.errors[0]?.message || "Please check the token settings.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createTokenMutation.mutate(result.data);
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken.token);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 transition-colors duration-300">
+        <div className="flex items-center justify-between max-w-3xl mx-auto">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="outline" size="sm" title="Back to board">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Settings</h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8 space-y-8">
+        <section className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">API tokens</h2>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Agents and scripts authenticate with a personal access token sent as{" "}
+            <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>. Set it as{" "}
+            <code className="font-mono">KANBAN_API_TOKEN</code> for the kanban-mcp-server. Changes made with a
+            token are recorded under your name.
+          </p>
+
+          {createdToken && (
+            <div className="rounded-lg border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 p-4 space-y-2">
+              <p className="text-sm font-medium text-green-800 dark:text-green-300">
+                Token "{createdToken.name}" created. Copy it now — it will not be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdToken.token} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                <Button type="button" variant="outline" onClick={copyToken} title="Copy token">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="sm:col-span-2 space-y-1">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Claude Desktop"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Access</Label>
+                <Select value={scope} onValueChange={(value) => setScope(value as ApiTokenScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="read">Read only</SelectItem>
+                    <SelectItem value="write">Read and write</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="restrict-projects"
+                  checked={restrictProjects}
+                  onCheckedChange={(checked) => setRestrictProjects(checked === true)}
+                />
+                <Label htmlFor="restrict-projects">Only allow selected projects</Label>
+              </div>
+              {restrictProjects && (
+                <div className="grid grid-cols-2 gap-2 pl-6">
+                  {projects.map(project => (
+                    <div key={project.slug} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`token-project-${project.slug}`}
+                        checked={selectedProjects.includes(project.slug)}
+                        onCheckedChange={(checked) => toggleProject(project.slug, checked === true)}
+                      />
+                      <Label htmlFor={`token-project-${project.slug}`} className="font-normal">
+                        {project.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={!name.trim() || createTokenMutation.isPending}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {createTokenMutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </div>
+          </form>
+
+          {isLoading ? (
+            <div className="text-center py-6 text-gray-500 dark:text-gray-400 text-sm">Loading tokens...</div>
+          ) : tokens.length === 0 ? (
+            <div className="text-center py-6 text-gray-500 dark:text-gray-400 text-sm italic">
+              You have no API tokens yet.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+              {tokens.map(token => (
+                <li key={token.id} className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-gray-100">{token.name}</span>
+                      <span className="text-xs font-mono text-gray-400 dark:text-gray-500">{token.tokenPrefix}…</span>
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                        {token.scope === "write" ? "Read and write" : "Read only"}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {token.projects ? `Projects: ${token.projects.join(", ")}` : "All projects"}
+                      {" · "}
+                      Created {formatCommentTime(String(token.createdAt))}
+                      {" · "}
+                      {token.lastUsedAt ? `Last used ${formatCommentTime(String(token.lastUsedAt))}` : "Never used"}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeTokenMutation.mutate(token.id)}
+                    disabled={revokeTokenMutation.isPending}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
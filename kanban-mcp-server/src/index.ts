@@ -18,12 +18,22 @@ import { z } from "zod";
  * 
  * Environment Variables:
  * - KANBAN_SERVER_URL: URL of the Kanban API server (default: http://localhost:3000)
+ * - KANBAN_API_TOKEN: Personal access token created on the board's Settings page
  */
 
 // Configuration
 const KANBAN_SERVER_URL = process.env.KANBAN_SERVER_URL || "http://localhost:3000";
+const KANBAN_API_TOKEN = process.env.KANBAN_API_TOKEN;
+
+// Sent with every request; the board rejects unauthenticated API calls
+function authHeaders(): Record<string, string> {
+  return KANBAN_API_TOKEN ? { 'Authorization': `Bearer ${KANBAN_API_TOKEN}` } : {};
+}
 
 // Create MCP Server instance
+// The sort parameter of the card read tools
+const SORT_DESCRIPTION = "Optional: comma-separated sort keys, each breaking ties of the one before: rank (board order, the default), priority (P0 first), dueDate (soonest first), estimate, createdAt, updatedAt, title. Prefix a key with - to reverse it; cards without the value come last";
+
 const server = new McpServer({
   name: "kanban-mcp-server",
   version: "1.0.0"
@@ -37,6 +47,9 @@ async function apiRequest(method: string, endpoint: string, body?: any): Promise
     method,
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
+      // Recorded as the actor in each card's activity history
+      'X-Kanban-Actor': server.server.getClientVersion()?.name || "kanban-mcp-server",
     },
   };
   
@@ -70,33 +83,151 @@ server.registerTool(
   "get_projects",
   {
     title: "Get Projects",
-    description: "Get all available projects in the Kanban system.",
-    inputSchema: {}
+    description: "Get all available projects in the Kanban system with their metadata (slug, name, description, color, archived flag, created date). Use the slug when filtering or creating cards.",
+    inputSchema: {
+      includeArchived: z.boolean().optional().describe("Optional: include archived projects (default false)")
+    }
   },
-  async () => {
-    const projects = await apiRequest("GET", "/api/projects");
+  async ({ includeArchived }) => {
+    const endpoint = includeArchived ? "/api/projects?includeArchived=true" : "/api/projects";
+    const projects = await apiRequest("GET", endpoint);
     return {
       content: [{ type: "text", text: JSON.stringify(projects, null, 2) }]
     };
   }
 );
 
+server.registerTool(
+  "get_project",
+  {
+    title: "Get Project",
+    description: "Get metadata for a single project by its slug.",
+    inputSchema: {
+      slug: z.string().describe("The project slug")
+    }
+  },
+  async ({ slug }) => {
+    const project = await apiRequest("GET", `/api/projects/${encodeURIComponent(slug)}`);
+    return {
+      content: [{ type: "text", text: JSON.stringify(project, null, 2) }]
+    };
+  }
+);
+
+server.registerTool(
+  "create_project",
+  {
+    title: "Create Project",
+    description: "Create a new, empty project. The slug is derived from the name when omitted.",
+    inputSchema: {
+      name: z.string().describe("Display name of the project"),
+      slug: z.string().optional().describe("Optional: slug used to reference the project (lowercase letters, numbers and dashes)"),
+      description: z.string().optional().describe("Optional: short description of the project"),
+      color: z.enum(["gray", "red", "orange", "amber", "green", "teal", "blue", "indigo", "purple", "pink"]).optional().describe("Optional: project color"),
+      statuses: z.array(z.object({
+        key: z.string().describe("Stable status key stored on cards (lowercase letters, numbers and dashes)"),
+        label: z.string().describe("Column title shown on the board"),
+        color: z.enum(["gray", "red", "orange", "amber", "green", "teal", "blue", "indigo", "purple", "pink"]).describe("Column color"),
+        wipLimit: z.number().nullable().optional().describe("Optional: most cards the column should hold (work-in-progress limit); null or omitted for no limit"),
+        allowedFrom: z.array(z.string()).nullable().optional().describe("Optional: keys of the columns cards may be moved in from; null or omitted allows any"),
+        requires: z.array(z.enum(["link", "description", "assignee", "dueDate", "priority", "estimate", "tasksComplete"])).optional().describe("Optional: what a card needs before entering: link, description, assignee, dueDate, priority, estimate or tasksComplete (every task checked)")
+      })).optional().describe("Optional: ordered workflow columns (defaults to Not Started, Blocked, In Progress, Complete, Verified)")
+    }
+  },
+  async ({ name, slug, description, color, statuses }) => {
+    const project = await apiRequest("POST", "/api/projects", { name, slug, description, color, statuses });
+    return {
+      content: [{ type: "text", text: `Project created successfully:\n${JSON.stringify(project, null, 2)}` }]
+    };
+  }
+);
+
+server.registerTool(
+  "update_project",
+  {
+    title: "Update Project",
+    description: "Rename, describe, recolor or archive a project, or change its workflow columns, including which columns each accepts cards from (allowedFrom) and what a card needs to enter it (requires). Cards keep referencing the project by slug, so renaming does not touch any cards.",
+    inputSchema: {
+      slug: z.string().describe("The slug of the project to update"),
+      name: z.string().optional().describe("Optional: new display name"),
+      description: z.string().optional().describe("Optional: new description"),
+      color: z.enum(["gray", "red", "orange", "amber", "green", "teal", "blue", "indigo", "purple", "pink"]).optional().describe("Optional: new color"),
+      archived: z.boolean().optional().describe("Optional: archive or unarchive the project"),
+      autoUnblock: z.boolean().optional().describe("Optional: move blocked cards back to not-started once every card blocking them is complete or verified"),
+      strictWipLimits: z.boolean().optional().describe("Optional: reject moves into a column that already holds its wipLimit of cards, instead of only warning on the board"),
+      statuses: z.array(z.object({
+        key: z.string().describe("Stable status key stored on cards (lowercase letters, numbers and dashes)"),
+        label: z.string().describe("Column title shown on the board"),
+        color: z.enum(["gray", "red", "orange", "amber", "green", "teal", "blue", "indigo", "purple", "pink"]).describe("Column color"),
+        wipLimit: z.number().nullable().optional().describe("Optional: most cards the column should hold (work-in-progress limit); null or omitted for no limit"),
+        allowedFrom: z.array(z.string()).nullable().optional().describe("Optional: keys of the columns cards may be moved in from; null or omitted allows any"),
+        requires: z.array(z.enum(["link", "description", "assignee", "dueDate", "priority", "estimate", "tasksComplete"])).optional().describe("Optional: what a card needs before entering: link, description, assignee, dueDate, priority, estimate or tasksComplete (every task checked)")
+      })).optional().describe("Optional: replace the ordered workflow columns. Statuses that still have cards cannot be removed")
+    }
+  },
+  async ({ slug, ...updates }) => {
+    const project = await apiRequest("PATCH", `/api/projects/${encodeURIComponent(slug)}`, updates);
+    return {
+      content: [{ type: "text", text: `Project updated successfully:\n${JSON.stringify(project, null, 2)}` }]
+    };
+  }
+);
+
+server.registerTool(
+  "delete_project",
+  {
+    title: "Delete Project",
+    description: "Delete an empty project. Projects that still have cards must be emptied first or archived with update_project instead.",
+    inputSchema: {
+      slug: z.string().describe("The slug of the project to delete")
+    }
+  },
+  async ({ slug }) => {
+    await apiRequest("DELETE", `/api/projects/${encodeURIComponent(slug)}`);
+    return {
+      content: [{ type: "text", text: `Project ${slug} deleted successfully` }]
+    };
+  }
+);
+
+server.registerTool(
+  "list_automation_rules",
+  {
+    title: "List Automation Rules",
+    description: "List a project's automation rules (or every project's), in the order they run. Each rule has a trigger (card.created, card.moved, card.updated, task.toggled or comment.added), optional conditions, its actions (move, set-field, add-comment, webhook), whether it is enabled, and a description in words. Changes made by rules show up in card history with the rule's name as actor.",
+    inputSchema: {
+      project: z.string().optional().describe("Optional: project slug; omit for the rules of every project")
+    }
+  },
+  async ({ project }) => {
+    const endpoint = project ? `/api/automation-rules?project=${encodeURIComponent(project)}` : "/api/automation-rules";
+    const rules = await apiRequest("GET", endpoint);
+    return {
+      content: [{ type: "text", text: JSON.stringify(rules, null, 2) }]
+    };
+  }
+);
+
 server.registerTool(
   "get_cards",
   {
     title: "Get Cards",
-    description: "Get all cards or filter by project and/or status. Returns cards sorted by their order within each status.",
+    description: "Get all cards or filter by project, status and/or assignee. Returns cards sorted by their order within each status, or by a sort such as priority,dueDate.",
     inputSchema: {
       project: z.string().optional().describe("Optional: filter cards by specific project"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: filter cards by specific status")
+      status: z.string().optional().describe("Optional: filter cards by status key. Valid keys come from the project's workflow (see get_project)"),
+      assignee: z.string().optional().describe("Optional: only cards assigned to this username (comma-separate several)"),
+      sort: z.string().optional().describe(SORT_DESCRIPTION)
     }
   },
-  async ({ project, status }) => {
+  async ({ project, status, assignee, sort }) => {
     let endpoint = "/api/cards";
     const params = new URLSearchParams();
     
     if (project) params.append("project", project);
     if (status) params.append("status", status);
+    if (assignee) params.append("assignee", assignee);
+    if (sort) params.append("sort", sort);
     
     if (params.toString()) {
       endpoint += `?${params.toString()}`;
@@ -113,15 +244,19 @@ server.registerTool(
   "get_cards_by_status",
   {
     title: "Get Cards by Status",
-    description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project.",
+    description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project and sorted within each status.",
     inputSchema: {
-      project: z.string().optional().describe("Optional: filter cards by specific project")
+      project: z.string().optional().describe("Optional: filter cards by specific project"),
+      sort: z.string().optional().describe(`${SORT_DESCRIPTION}, within each status`)
     }
   },
-  async ({ project }) => {
+  async ({ project, sort }) => {
     let endpoint = "/api/cards/by-status";
-    if (project) {
-      endpoint += `?project=${encodeURIComponent(project)}`;
+    const params = new URLSearchParams();
+    if (project) params.append("project", project);
+    if (sort) params.append("sort", sort);
+    if (params.toString()) {
+      endpoint += `?${params.toString()}`;
     }
     
     const grouped = await apiRequest("GET", endpoint);
@@ -135,24 +270,109 @@ server.registerTool(
   "get_card",
   {
     title: "Get Card",
-    description: "Get details of a specific card by its ID.",
+    description: "Get details of a specific card by its ID, including its labels, its assignees, its tasks and, for epics, its sub-cards with rolled-up progress.",
     inputSchema: {
       id: z.string().describe("The ID of the card to retrieve")
     }
   },
   async ({ id }) => {
-    const card = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}`);
+    const found = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}`);
+    const tasks = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}/tasks`);
+    const { subcards, progress } = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}/subcards`);
+    const labelsByCard = await apiRequest("GET", "/api/cards/labels");
+    const assigneesByCard = await apiRequest("GET", "/api/cards/assignees");
+    const card = {
+      ...found,
+      labels: (labelsByCard[id] || []).map((label: any) => label.name),
+      assignees: (assigneesByCard[id] || []).map((assignee: any) => assignee.username),
+      tasks,
+      ...(subcards.length > 0 && {
+        subcards: subcards.map(({ id, title, status, project }: any) => ({ id, title, status, project })),
+        subcardProgress: progress,
+      }),
+    };
     return {
       content: [{ type: "text", text: JSON.stringify(card, null, 2) }]
     };
   }
 );
 
+server.registerTool(
+  "get_card_history",
+  {
+    title: "Get Card History",
+    description: "Get the activity history of a card, newest first. Each event has a type (created, updated, moved, deleted), the actor (user, MCP client or API caller), a timestamp and the before/after value of every changed field. History remains available after a card is deleted.",
+    inputSchema: {
+      id: z.string().describe("The ID of the card")
+    }
+  },
+  async ({ id }) => {
+    const events = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}/history`);
+    return {
+      content: [{ type: "text", text: JSON.stringify(events, null, 2) }]
+    };
+  }
+);
+
+server.registerTool(
+  "search_cards",
+  {
+    title: "Search Cards",
+    description: "Full-text search over card titles, descriptions, notes and comments. Every word must match (as a word prefix). Returns the best matches first, with snippets in which matched words are wrapped in ⟦ ⟧.",
+    inputSchema: {
+      query: z.string().describe("Words to search for"),
+      project: z.string().optional().describe("Optional: only search this project"),
+      limit: z.number().optional().describe("Optional: maximum number of results (default 20, max 100)")
+    }
+  },
+  async ({ query, project, limit }) => {
+    const params = new URLSearchParams({ q: query });
+    if (project) params.set("project", project);
+    if (limit) params.set("limit", String(limit));
+
+    const results = await apiRequest("GET", `/api/search?${params.toString()}`);
+    const summary = results.map((result: any) => ({
+      id: result.card.id,
+      title: result.card.title,
+      project: result.card.project,
+      status: result.card.status,
+      rank: result.rank,
+      highlights: result.highlights
+    }));
+    return {
+      content: [{ type: "text", text: JSON.stringify(summary, null, 2) }]
+    };
+  }
+);
+
+server.registerTool(
+  "query_cards",
+  {
+    title: "Query Cards",
+    description: "Filter cards with a query such as 'status:blocked project:api has:tasks tasks:incomplete updated:<7d'. Keys: status, project, label, assignee (username), priority (P0-P3), due (overdue, none, <7d for due within 7 days, or a date like <2024-01-31), has (tasks, notes, link, comments, description, labels, assignees), tasks (complete, incomplete, none), updated and created (<7d, >2w, <24h or a date like >2024-01-31), title. Bare words match title, description or notes. Prefix a term with - to negate it; separate alternatives with commas (status:todo,blocked).",
+    inputSchema: {
+      query: z.string().describe("Filter query, e.g. 'status:blocked has:tasks updated:<7d'"),
+      project: z.string().optional().describe("Optional: only query this project"),
+      sort: z.string().optional().describe(SORT_DESCRIPTION)
+    }
+  },
+  async ({ query, project, sort }) => {
+    const params = new URLSearchParams({ query });
+    if (project) params.set("project", project);
+    if (sort) params.set("sort", sort);
+
+    const cards = await apiRequest("GET", `/api/cards?${params.toString()}`);
+    return {
+      content: [{ type: "text", text: JSON.stringify(cards, null, 2) }]
+    };
+  }
+);
+
 server.registerTool(
   "upload_image",
   {
     title: "Upload Image",
-    description: "Upload an image to R2 storage and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax. Supports Obsidian-style width control: ![alt|width](url) where width can be pixels (e.g., '400') or percentage (e.g., '50%'). Provide the full file path to the image on your local system.",
+    description: "Upload an image to the board's image store and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax. Supports Obsidian-style width control: ![alt|width](url) where width can be pixels (e.g., '400') or percentage (e.g., '50%'). Provide the full file path to the image on your local system.",
     inputSchema: {
       filePath: z.string().describe("Full path to the image file on your local system (e.g., '/Users/username/Downloads/screenshot.png')"),
       width: z.string().optional().describe("Optional width constraint for the image display. Can be pixels (e.g., '400', '200') or percentage (e.g., '50%', '75%'). If not provided, image will be full responsive width.")
@@ -183,6 +403,7 @@ server.registerTool(
       const url = `${KANBAN_SERVER_URL}/api/upload-image`;
       const response = await fetch(url, {
         method: 'POST',
+        headers: authHeaders(),
         body: formData
       });
       
@@ -226,11 +447,16 @@ server.registerTool(
       project: z.string().describe("The project this card belongs to"),
       link: z.string().optional().describe("Optional: URL link related to the card"),
       notes: z.string().optional().describe("Optional: Additional notes for extra context and information"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).default("not-started").describe("The initial status of the card")
+      status: z.string().optional().describe("Optional: initial status key from the project's workflow (see get_project). Defaults to the first column"),
+      labels: z.array(z.string()).optional().describe("Optional: label names such as [\"bug\"]. Labels the project does not have yet are created"),
+      assignees: z.array(z.string()).optional().describe("Optional: usernames of the people to assign the card to"),
+      dueDate: z.string().optional().describe("Optional: due date as YYYY-MM-DD"),
+      priority: z.enum(["P0", "P1", "P2", "P3"]).optional().describe("Optional: priority, from P0 (most urgent) to P3"),
+      estimate: z.number().optional().describe("Optional: estimate in story points or hours")
     }
   },
-  async ({ title, description, project, link, notes, status = "not-started" }) => {
-    const cardData = { title, description, project, link, notes, status };
+  async ({ title, description, project, link, notes, status, labels, assignees, dueDate, priority, estimate }) => {
+    const cardData = { title, description, project, link, notes, status, labels, assignees, dueDate, priority, estimate };
     const card = await apiRequest("POST", "/api/cards", cardData);
     return {
       content: [{ type: "text", text: `Card created successfully:\n${JSON.stringify(card, null, 2)}` }]
@@ -242,10 +468,10 @@ server.registerTool(
   "move_card",
   {
     title: "Move Card",
-    description: "Move a card to a different status and optionally specify its position within that status.",
+    description: "Move a card to a different status and optionally specify its position within that status. In projects with strict WIP limits, a move into a column that is already at its limit fails with an error naming the column and its limit. A move the workflow rules forbid (a transition the column does not allow, or a field it requires, such as a link or every task checked) fails with the reasons.",
     inputSchema: {
       id: z.string().describe("The ID of the card to move"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status to move the card to"),
+      status: z.string().describe("The target status key from the card's project workflow (see get_project)"),
       position: z.number().optional().describe("Optional: position within the target status (0 = top, omit to add to end)")
     }
   },
@@ -262,23 +488,33 @@ server.registerTool(
   "update_card",
   {
     title: "Update Card",
-    description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Images can be included using ![alt](url) syntax after uploading with upload_image tool.",
+    description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Images can be included using ![alt](url) syntax after uploading with upload_image tool. A status change must follow the project's workflow rules; fields set in the same call count toward what the new column requires.",
     inputSchema: {
       id: z.string().describe("The ID of the card to update"),
       title: z.string().optional().describe("Optional: new title for the card"),
       description: z.string().optional().describe("Optional: new description for the card in Markdown format. Use **bold**, *italic*, `code`, lists, headers, blockquotes, code blocks, images (![alt](url)), and task lists (- [ ] unchecked, - [x] checked) for better structure and readability. Task lists will show progress bars."),
       link: z.string().optional().describe("Optional: new link for the card"),
       notes: z.string().optional().describe("Optional: new notes for extra context and information"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: new status for the card")
+      status: z.string().optional().describe("Optional: new status key from the card's project workflow (see get_project)"),
+      labels: z.array(z.string()).optional().describe("Optional: the card's new label names, replacing the current ones ([] removes all). Labels the project does not have yet are created"),
+      assignees: z.array(z.string()).optional().describe("Optional: usernames of the card's assignees, replacing the current ones ([] unassigns everyone)"),
+      dueDate: z.string().nullable().optional().describe("Optional: new due date as YYYY-MM-DD, or null to clear it"),
+      priority: z.enum(["P0", "P1", "P2", "P3"]).nullable().optional().describe("Optional: new priority from P0 (most urgent) to P3, or null to clear it"),
+      estimate: z.number().nullable().optional().describe("Optional: new estimate in story points or hours, or null to clear it")
     }
   },
-  async ({ id, title, description, link, notes, status }) => {
+  async ({ id, title, description, link, notes, status, labels, assignees, dueDate, priority, estimate }) => {
     const updates: any = {};
     if (title !== undefined) updates.title = title;
     if (description !== undefined) updates.description = description;
     if (link !== undefined) updates.link = link;
     if (notes !== undefined) updates.notes = notes;
     if (status !== undefined) updates.status = status;
+    if (labels !== undefined) updates.labels = labels;
+    if (assignees !== undefined) updates.assignees = assignees;
+    if (dueDate !== undefined) updates.dueDate = dueDate;
+    if (priority !== undefined) updates.priority = priority;
+    if (estimate !== undefined) updates.estimate = estimate;
     
     const card = await apiRequest("PATCH", `/api/cards/${encodeURIComponent(id)}`, updates);
     return {
@@ -316,17 +552,18 @@ server.registerTool(
         project: z.string().describe("The project this card belongs to"),
         link: z.string().optional().describe("Optional: URL link related to the card"),
         notes: z.string().optional().describe("Optional: Additional notes for extra context and information"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).default("not-started").describe("The initial status of the card")
-      })).min(1).max(20).describe("Array of cards to create (maximum 20 cards per request)")
+        status: z.string().optional().describe("Optional: initial status key from the project's workflow (see get_project). Defaults to the first column")
+      })).min(1).max(20).describe("Array of cards to create (maximum 20 cards per request)"),
+      atomic: z.boolean().optional().describe("Optional: create all cards or none; any failure rolls the whole batch back")
     }
   },
-  async ({ cards }) => {
+  async ({ cards, atomic }) => {
     const createdCards = [];
     const failedCards = [];
 
     try {
       // Use the bulk create API endpoint for better performance
-      const result = await apiRequest("POST", "/api/cards/bulk", { cards });
+      const result = await apiRequest("POST", "/api/cards/bulk", { cards, atomic });
       
       return {
         content: [{ 
@@ -335,6 +572,11 @@ server.registerTool(
         }]
       };
     } catch (error) {
+      // Creating cards one by one cannot honour an all-or-nothing request
+      if (atomic) {
+        throw error;
+      }
+
       // Fallback to individual card creation if bulk endpoint fails
       console.error("Bulk create API failed, falling back to individual creation:", error);
       
@@ -389,30 +631,12 @@ server.registerTool(
     title: "Bulk Delete Cards",
     description: "Delete multiple cards from the Kanban board by their IDs. This is more efficient than deleting cards one by one.",
     inputSchema: {
-      ids: z.array(z.string()).min(1).describe("Array of card IDs to delete")
+      ids: z.array(z.string()).min(1).describe("Array of card IDs to delete"),
+      atomic: z.boolean().optional().describe("Optional: delete all cards or none; any failure rolls the whole batch back")
     }
   },
-  async ({ ids }) => {
-    const deletedIds = [];
-    const failedIds = [];
-
-    for (const id of ids) {
-      try {
-        await apiRequest("DELETE", `/api/cards/${encodeURIComponent(id)}`);
-        deletedIds.push(id);
-      } catch (error) {
-        console.error(`Error deleting card ${id}:`, error);
-        failedIds.push(id);
-      }
-    }
-
-    const result = {
-      deletedCount: deletedIds.length,
-      deletedIds,
-      failedCount: failedIds.length,
-      failedIds,
-      requestedCount: ids.length
-    };
+  async ({ ids, atomic }) => {
+    const result = await apiRequest("DELETE", "/api/cards/bulk", { ids, atomic });
 
     return {
       content: [{ type: "text", text: `Bulk delete completed:\n${JSON.stringify(result, null, 2)}` }]
@@ -424,17 +648,18 @@ server.registerTool(
   "batch_move_cards",
   {
     title: "Batch Move Cards",
-    description: "Move multiple cards in a single operation for better performance.",
+    description: "Move multiple cards in a single operation for better performance. Moves into a column at its strict WIP limit are reported as failures.",
     inputSchema: {
       operations: z.array(z.object({
         cardId: z.string().describe("The ID of the card to move"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status"),
-        position: z.number().optional().describe("Optional: position within the target status")
-      })).describe("Array of move operations to perform")
+        status: z.string().describe("The target status key from the card's project workflow"),
+        position: z.number().optional().describe("Optional: position within the target status (0 = top, omit to add to end)")
+      })).describe("Array of move operations to perform"),
+      atomic: z.boolean().optional().describe("Optional: apply all moves or none; any failure rolls the whole batch back")
     }
   },
-  async ({ operations }) => {
-    const result = await apiRequest("POST", "/api/cards/batch-move", { operations });
+  async ({ operations, atomic }) => {
+    const result = await apiRequest("POST", "/api/cards/batch-move", { operations, atomic });
     return {
       content: [{ type: "text", text: `Batch move completed:\n${JSON.stringify(result, null, 2)}` }]
     };
@@ -445,42 +670,19 @@ server.registerTool(
   "add_comment",
   {
     title: "Add Comment",
-    description: "Add a comment to a card. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress.",
+    description: "Add a comment to a card. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress. Pass parentId to reply to an existing comment.",
     inputSchema: {
       id: z.string().describe("The ID of the card to add a comment to"),
-      content: z.string().describe("The content of the comment")
+      content: z.string().describe("The content of the comment"),
+      parentId: z.string().optional().describe("Optional: ID of the comment to reply to")
     }
   },
-  async ({ id, content }) => {
+  async ({ id, content, parentId }) => {
     try {
-      // Get the current card
-      const card = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}`);
-      
-      // Parse existing comments
-      let comments = [];
-      if (card.comments) {
-        try {
-          comments = JSON.parse(card.comments);
-        } catch (e) {
-          comments = [];
-        }
-      }
-      
-      // Add new comment
-      const newComment = {
-        id: Math.random().toString(36).substr(2, 9),
-        content,
-        timestamp: new Date().toISOString()
-      };
-      comments.push(newComment);
-      
-      // Update card with new comments
-      const updatedCard = await apiRequest("PATCH", `/api/cards/${encodeURIComponent(id)}`, {
-        comments: JSON.stringify(comments)
-      });
-      
+      const comment = await apiRequest("POST", `/api/cards/${encodeURIComponent(id)}/comments`, { content, parentId });
+
       return {
-        content: [{ type: "text", text: `Comment added successfully:\n${JSON.stringify(newComment, null, 2)}\n\nTotal comments: ${comments.length}` }]
+        content: [{ type: "text", text: `Comment added successfully:\n${JSON.stringify(comment, null, 2)}` }]
       };
     } catch (error) {
       return {
@@ -494,31 +696,21 @@ server.registerTool(
   "get_comments",
   {
     title: "Get Comments",
-    description: "Get all comments for a specific card, sorted by timestamp (newest first).",
+    description: "Get the comment threads of a card, oldest first. Each thread lists its replies.",
     inputSchema: {
       id: z.string().describe("The ID of the card to get comments from")
     }
   },
   async ({ id }) => {
     try {
-      const card = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}`);
-      
-      let comments = [];
-      if (card.comments) {
-        try {
-          comments = JSON.parse(card.comments);
-          // Sort by timestamp, newest first
-          comments.sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-        } catch (e) {
-          comments = [];
-        }
-      }
-      
+      const threads = await apiRequest("GET", `/api/cards/${encodeURIComponent(id)}/comments?threaded=true`);
+      const total = threads.reduce((sum: number, thread: any) => sum + 1 + thread.replies.length, 0);
+
       return {
         content: [{ 
           type: "text", 
-          text: comments.length > 0 
-            ? `Found ${comments.length} comment${comments.length !== 1 ? 's' : ''}:\n${JSON.stringify(comments, null, 2)}`
+          text: total > 0 
+            ? `Found ${total} comment${total !== 1 ? 's' : ''}:\n${JSON.stringify(threads, null, 2)}`
             : "No comments found for this card."
         }]
       };
@@ -530,11 +722,41 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  "update_comment",
+  {
+    title: "Update Comment",
+    description: "Edit the text of a comment. The previous text is kept in the comment's edit history.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card containing the comment"),
+      commentId: z.string().describe("The ID of the comment to edit"),
+      content: z.string().describe("The new content of the comment")
+    }
+  },
+  async ({ cardId, commentId, content }) => {
+    try {
+      const comment = await apiRequest(
+        "PATCH",
+        `/api/cards/${encodeURIComponent(cardId)}/comments/${encodeURIComponent(commentId)}`,
+        { content }
+      );
+
+      return {
+        content: [{ type: "text", text: `Comment updated successfully:\n${JSON.stringify(comment, null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to update comment: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
 server.registerTool(
   "delete_comment",
   {
     title: "Delete Comment",
-    description: "Delete a specific comment from a card by its comment ID.",
+    description: "Delete a specific comment from a card by its comment ID. Replies to the comment are deleted with it.",
     inputSchema: {
       cardId: z.string().describe("The ID of the card containing the comment"),
       commentId: z.string().describe("The ID of the comment to delete")
@@ -542,38 +764,260 @@ server.registerTool(
   },
   async ({ cardId, commentId }) => {
     try {
-      const card = await apiRequest("GET", `/api/cards/${encodeURIComponent(cardId)}`);
+      await apiRequest("DELETE", `/api/cards/${encodeURIComponent(cardId)}/comments/${encodeURIComponent(commentId)}`);
       
-      let comments = [];
-      if (card.comments) {
-        try {
-          comments = JSON.parse(card.comments);
-        } catch (e) {
-          return {
-            content: [{ type: "text", text: "Failed to parse comments" }]
-          };
-        }
+      return {
+        content: [{ type: "text", text: "Comment deleted successfully." }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to delete comment: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "attach_file",
+  {
+    title: "Attach File",
+    description: "Attach a file (PDF, log, text, CSV, JSON, zip, office document or image) to a card. Provide the full path to the file on your local system. Maximum size is 25MB.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card to attach the file to"),
+      filePath: z.string().describe("Full path to the file on your local system (e.g., '/Users/username/Downloads/report.pdf')"),
+      filename: z.string().optional().describe("Optional: name to show for the attachment (defaults to the file's name)")
+    }
+  },
+  async ({ cardId, filePath, filename }) => {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+
+    try {
+      const buffer = await fs.readFile(filePath);
+
+      // The server works out the content type from the extension
+      const formData = new FormData();
+      formData.append('file', new Blob([new Uint8Array(buffer)]), filename || path.basename(filePath));
+
+      const response = await fetch(`${KANBAN_SERVER_URL}/api/cards/${encodeURIComponent(cardId)}/attachments`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders(),
+          'X-Kanban-Actor': server.server.getClientVersion()?.name || "kanban-mcp-server",
+        },
+        body: formData
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Upload failed: ${response.status} ${errorText}`);
       }
-      
-      const initialLength = comments.length;
-      comments = comments.filter((c: any) => c.id !== commentId);
-      
-      if (comments.length === initialLength) {
-        return {
-          content: [{ type: "text", text: `Comment with ID ${commentId} not found` }]
-        };
+
+      const attachment = await response.json();
+      return {
+        content: [{ type: "text", text: `File attached successfully:\n${JSON.stringify(attachment, null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to attach file from path: ${filePath}. ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "list_attachments",
+  {
+    title: "List Attachments",
+    description: "List the files attached to a card, oldest first, with filename, size, content type, uploader and download URL.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card")
+    }
+  },
+  async ({ cardId }) => {
+    try {
+      const attachments = await apiRequest("GET", `/api/cards/${encodeURIComponent(cardId)}/attachments`);
+
+      return {
+        content: [{
+          type: "text",
+          text: attachments.length > 0
+            ? `Found ${attachments.length} attachment${attachments.length !== 1 ? 's' : ''}:\n${JSON.stringify(attachments, null, 2)}`
+            : "No attachments found for this card."
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to list attachments: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "link_cards",
+  {
+    title: "Link Cards",
+    description: "Link two cards. Types: blocks / blocked-by (dependencies), relates-to, duplicates / duplicated-by, parent-of / child-of. The type is read from cardId's side, e.g. cardId blocked-by targetCardId. Blocking and parent links cannot form cycles.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card to link from"),
+      targetCardId: z.string().describe("The ID of the card to link to"),
+      type: z.enum(["blocks", "blocked-by", "relates-to", "duplicates", "duplicated-by", "parent-of", "child-of"]).describe("How cardId relates to targetCardId")
+    }
+  },
+  async ({ cardId, targetCardId, type }) => {
+    try {
+      const link = await apiRequest("POST", `/api/cards/${encodeURIComponent(cardId)}/links`, { targetCardId, type });
+      return {
+        content: [{ type: "text", text: `Cards linked successfully:\n${JSON.stringify(link, null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to link cards: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "create_subcard",
+  {
+    title: "Create Sub-cards",
+    description: "Break an epic into sub-cards in one call. Each sub-card is a normal card (in any column) linked to the epic with parent-of; the epic shows rolled-up progress as sub-cards reach complete or verified. Either all sub-cards are created or none.",
+    inputSchema: {
+      parentId: z.string().describe("The ID of the epic (parent card)"),
+      subcards: z.array(z.object({
+        title: z.string().describe("The title of the sub-card"),
+        description: z.string().optional().describe("Optional: description in Markdown"),
+        project: z.string().optional().describe("Optional: project of the sub-card (defaults to the epic's project)"),
+        status: z.string().optional().describe("Optional: initial status key from the project's workflow. Defaults to the first column"),
+        link: z.string().optional().describe("Optional: URL link related to the sub-card"),
+        notes: z.string().optional().describe("Optional: additional notes")
+      })).min(1).max(20).describe("Sub-cards to create, in order (maximum 20 per request)")
+    }
+  },
+  async ({ parentId, subcards }) => {
+    try {
+      const created = await apiRequest("POST", `/api/cards/${encodeURIComponent(parentId)}/subcards`, { subcards });
+      return {
+        content: [{ type: "text", text: `Created ${created.length} sub-card(s):\n${JSON.stringify(created.map(({ id, title, status, project }: any) => ({ id, title, status, project })), null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to create sub-cards: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "get_card_links",
+  {
+    title: "Get Card Links",
+    description: "Get the links of a card, each with its type from this card's side (blocks, blocked-by, relates-to, duplicates, duplicated-by, parent-of, child-of) and the linked card's id, title, status and project. A card whose blocked-by cards are all complete or verified is ready to start.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card")
+    }
+  },
+  async ({ cardId }) => {
+    try {
+      const links = await apiRequest("GET", `/api/cards/${encodeURIComponent(cardId)}/links`);
+      return {
+        content: [{
+          type: "text",
+          text: links.length > 0
+            ? `Found ${links.length} link${links.length !== 1 ? 's' : ''}:\n${JSON.stringify(links, null, 2)}`
+            : "No links found for this card."
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to get card links: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "add_task",
+  {
+    title: "Add Task",
+    description: "Add a task to a card's task list. The task also appears as a '- [ ] text' checkbox in the card's description. Returns the task with its ID.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card"),
+      text: z.string().describe("The task text (a single line)"),
+      assignee: z.string().optional().describe("Optional: who the task is assigned to"),
+      dueDate: z.string().optional().describe("Optional: due date as YYYY-MM-DD"),
+      position: z.number().optional().describe("Optional: position in the list (0 = first, omit to add to the end)")
+    }
+  },
+  async ({ cardId, text, assignee, dueDate, position }) => {
+    try {
+      const task = await apiRequest("POST", `/api/cards/${encodeURIComponent(cardId)}/tasks`, { text, assignee, dueDate, position });
+      return {
+        content: [{ type: "text", text: `Task added successfully:\n${JSON.stringify(task, null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to add task: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "toggle_task",
+  {
+    title: "Toggle Task",
+    description: "Check or uncheck a task of a card. Without 'completed' the task is toggled. Task IDs are listed by get_card.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card"),
+      taskId: z.string().describe("The ID of the task"),
+      completed: z.boolean().optional().describe("Optional: true to check, false to uncheck (omit to toggle)")
+    }
+  },
+  async ({ cardId, taskId, completed }) => {
+    try {
+      let checked = completed;
+      if (checked === undefined) {
+        const tasks: { id: string; completed: boolean }[] = await apiRequest("GET", `/api/cards/${encodeURIComponent(cardId)}/tasks`);
+        const existing = tasks.find(task => task.id === taskId);
+        if (!existing) {
+          throw new Error(`Task with ID ${taskId} not found on card ${cardId}`);
+        }
+        checked = !existing.completed;
       }
-      
-      await apiRequest("PATCH", `/api/cards/${encodeURIComponent(cardId)}`, {
-        comments: JSON.stringify(comments)
-      });
-      
+      const task = await apiRequest("PATCH", `/api/cards/${encodeURIComponent(cardId)}/tasks/${encodeURIComponent(taskId)}`, { completed: checked });
       return {
-        content: [{ type: "text", text: `Comment deleted successfully. Remaining comments: ${comments.length}` }]
+        content: [{ type: "text", text: `Task ${task.completed ? "checked" : "unchecked"}:\n${JSON.stringify(task, null, 2)}` }]
       };
     } catch (error) {
       return {
-        content: [{ type: "text", text: `Failed to delete comment: ${error instanceof Error ? error.message : String(error)}` }]
+        content: [{ type: "text", text: `Failed to toggle task: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+);
+
+server.registerTool(
+  "reorder_tasks",
+  {
+    title: "Reorder Tasks",
+    description: "Set the order of a card's tasks. taskIds must list every task of the card exactly once, in the new order.",
+    inputSchema: {
+      cardId: z.string().describe("The ID of the card"),
+      taskIds: z.array(z.string()).describe("All task IDs of the card, in the new order")
+    }
+  },
+  async ({ cardId, taskIds }) => {
+    try {
+      const tasks = await apiRequest("PUT", `/api/cards/${encodeURIComponent(cardId)}/tasks/order`, { taskIds });
+      return {
+        content: [{ type: "text", text: `Tasks reordered:\n${JSON.stringify(tasks, null, 2)}` }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Failed to reorder tasks: ${error instanceof Error ? error.message : String(error)}` }]
       };
     }
   }
@@ -595,13 +1039,14 @@ Options:
 
 Environment Variables:
   KANBAN_SERVER_URL  URL of the Kanban API server (default: http://localhost:3000)
+  KANBAN_API_TOKEN   Personal access token from the board's Settings page
 
 Examples:
   # Start the MCP server (connects to localhost:3000 by default)
   kanban-mcp-server
 
   # Connect to a different Kanban server
-  KANBAN_SERVER_URL=http://localhost:8080 kanban-mcp-server
+  KANBAN_SERVER_URL=http://localhost:8080 KANBAN_API_TOKEN=kb_... kanban-mcp-server
 
 Configuration for Claude Desktop (add to claude_desktop_config.json):
 {
@@ -610,17 +1055,26 @@ Configuration for Claude Desktop (add to claude_desktop_config.json):
       "command": "npx",
       "args": ["kanban-mcp-server"],
       "env": {
-        "KANBAN_SERVER_URL": "http://localhost:3000"
+        "KANBAN_SERVER_URL": "http://localhost:3000",
+        "KANBAN_API_TOKEN": "kb_..."
       }
     }
   }
 }
 
 Available Tools:
-  - get_projects: Get all available projects
+  - get_projects: Get all available projects with metadata
+  - get_project: Get metadata for a single project
+  - create_project: Create a new, empty project
+  - update_project: Rename, describe, recolor or archive a project, or change its workflow columns
+  - delete_project: Delete an empty project
+  - list_automation_rules: List the automation rules of a project or of every project
   - get_cards: Get cards with optional filtering
   - get_cards_by_status: Get cards grouped by status
   - get_card: Get details of a specific card
+  - get_card_history: Get the activity history of a card
+  - search_cards: Full-text search over titles, descriptions, notes and comments
+  - query_cards: Filter cards with a query like "status:blocked has:tasks updated:<7d"
   - create_card: Create a new card with Markdown support
   - bulk_create_cards: Create multiple cards in one operation
   - move_card: Move a card to a different status
@@ -628,9 +1082,18 @@ Available Tools:
   - delete_card: Delete a card
   - bulk_delete_cards: Delete multiple cards efficiently
   - batch_move_cards: Move multiple cards in one operation
-  - add_comment: Add a comment to a card
-  - get_comments: Get all comments for a card
+  - add_comment: Add a comment to a card, or reply to one
+  - get_comments: Get the comment threads of a card
+  - update_comment: Edit a comment (the old text is kept as history)
   - delete_comment: Delete a specific comment from a card
+  - attach_file: Attach a local file (PDF, log, CSV, zip, ...) to a card
+  - list_attachments: List the files attached to a card
+  - add_task: Add a task (description checkbox) to a card
+  - toggle_task: Check, uncheck or toggle a task
+  - reorder_tasks: Set the order of a card's tasks
+  - link_cards: Link two cards (blocks, relates-to, duplicates, parent-of, ...)
+  - get_card_links: Get a card's links with the linked cards' statuses
+  - create_subcard: Break an epic into sub-cards in one call
 
 For more information, visit: https://github.com/yourusername/kanban-mcp-server
 `);
@@ -30,6 +30,7 @@ async function apiRequest(method: string, endpoint: string, body?: any): Promise
     method,
     headers: {
       'Content-Type': 'application/json',
+      ...(process.env.KANBAN_API_TOKEN && { 'Authorization': `Bearer ${process.env.KANBAN_API_TOKEN}` }),
     },
   };
   
@@ -65,8 +66,7 @@ const tools: Tool[] = [
       properties: {
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "Optional: filter cards by specific status"
+          description: "Optional: filter cards by status key from the project's workflow"
         }
       },
       additionalProperties: false
@@ -116,9 +116,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "The initial status of the card",
-          default: "not-started"
+          description: "Optional: initial status key from the project's workflow. Defaults to the first column"
         }
       },
       required: ["title", "description"],
@@ -137,8 +135,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "The target status to move the card to"
+          description: "The target status key from the card's project workflow"
         },
         position: {
           type: "number",
@@ -173,8 +170,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "Optional: new status for the card"
+          description: "Optional: new status key from the card's project workflow"
         }
       },
       required: ["id"],
@@ -213,8 +209,7 @@ const tools: Tool[] = [
               },
               status: {
                 type: "string",
-                enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-                description: "The target status"
+                description: "The target status key from the card's project workflow"
               },
               position: {
                 type: "number",
@@ -280,7 +275,7 @@ async function executeTool(name: string, args: any): Promise<CallToolResult> {
       }
       
       case "create_card": {
-        const { title, description, link, status = "not-started" } = args as {
+        const { title, description, link, status } = args as {
           title: string;
           description: string;
           link?: string;
@@ -47,6 +47,7 @@ async function apiRequest(method: string, endpoint: string, body?: any): Promise
     method,
     headers: {
       'Content-Type': 'application/json',
+      ...(process.env.KANBAN_API_TOKEN && { 'Authorization': `Bearer ${process.env.KANBAN_API_TOKEN}` }),
     },
   };
   
@@ -93,8 +94,7 @@ const tools: Tool[] = [
       properties: {
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "Optional: filter cards by specific status"
+          description: "Optional: filter cards by status key from the project's workflow"
         }
       },
       additionalProperties: false
@@ -148,9 +148,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "The initial status of the card",
-          default: "not-started"
+          description: "Optional: initial status key from the project's workflow. Defaults to the first column"
         }
       },
       required: ["title", "description", "project"],
@@ -169,8 +167,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "The target status to move the card to"
+          description: "The target status key from the card's project workflow"
         },
         position: {
           type: "number",
@@ -205,8 +202,7 @@ const tools: Tool[] = [
         },
         status: {
           type: "string",
-          enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-          description: "Optional: new status for the card"
+          description: "Optional: new status key from the card's project workflow"
         }
       },
       required: ["id"],
@@ -264,8 +260,7 @@ const tools: Tool[] = [
               },
               status: {
                 type: "string",
-                enum: ["not-started", "blocked", "in-progress", "complete", "verified"],
-                description: "The target status"
+                description: "The target status key from the card's project workflow"
               },
               position: {
                 type: "number",
@@ -371,7 +366,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
       }
       
       case "create_card": {
-        const { title, description, project, link, status = "not-started" } = args as {
+        const { title, description, project, link, status } = args as {
           title: string;
           description: string;
           project: string;
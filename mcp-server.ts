@@ -39,6 +39,7 @@ async function apiRequest(method: string, endpoint: string, body?: any): Promise
     method,
     headers: {
       'Content-Type': 'application/json',
+      ...(process.env.KANBAN_API_TOKEN && { 'Authorization': `Bearer ${process.env.KANBAN_API_TOKEN}` }),
     },
   };
   
@@ -93,7 +94,7 @@ server.registerTool(
     title: "Get Cards",
     description: "Get all cards or filter by status. Returns cards sorted by their order within each status.",
     inputSchema: {
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: filter cards by specific status")
+      status: z.string().optional().describe("Optional: filter cards by status key from the project's workflow")
     }
   },
   async ({ status }) => {
@@ -167,10 +168,10 @@ server.registerTool(
       project: z.string().describe("The project this card belongs to"),
       link: z.string().optional().describe("Optional: URL link related to the card"),
       notes: z.string().optional().describe("Optional: Additional notes for extra context and information"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).default("not-started").describe("The initial status of the card")
+      status: z.string().optional().describe("Optional: initial status key from the project's workflow. Defaults to the first column")
     }
   },
-  async ({ title, description, project, link, notes, status = "not-started" }) => {
+  async ({ title, description, project, link, notes, status }) => {
     const cardData = { title, description, project, link, notes, status };
     const card = await apiRequest("POST", "/api/cards", cardData);
     return {
@@ -186,7 +187,7 @@ server.registerTool(
     description: "Move a card to a different status and optionally specify its position within that status.",
     inputSchema: {
       id: z.string().describe("The ID of the card to move"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status to move the card to"),
+      status: z.string().describe("The target status key from the card's project workflow"),
       position: z.number().optional().describe("Optional: position within the target status (0 = top, omit to add to end)")
     }
   },
@@ -210,7 +211,7 @@ server.registerTool(
       description: z.string().optional().describe("Optional: new description for the card in Markdown format. Use **bold**, *italic*, `code`, lists, headers, blockquotes, code blocks, images (![alt](url)), and task lists (- [ ] unchecked, - [x] checked) for better structure and readability. Task lists will show progress bars."),
       link: z.string().optional().describe("Optional: new link for the card"),
       notes: z.string().optional().describe("Optional: new notes for extra context and information"),
-      status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: new status for the card")
+      status: z.string().optional().describe("Optional: new status key from the card's project workflow")
     }
   },
   async ({ id, title, description, link, notes, status }) => {
@@ -290,7 +291,7 @@ server.registerTool(
     inputSchema: {
       operations: z.array(z.object({
         cardId: z.string().describe("The ID of the card to move"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status"),
+        status: z.string().describe("The target status key from the card's project workflow"),
         position: z.number().optional().describe("Optional: position within the target status")
       })).describe("Array of move operations to perform")
     }
@@ -0,0 +1,337 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { registerUserSchema, createApiTokenSchema, toPublicUser, type PublicUser, type ApiToken, type PublicApiToken } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+    interface Request {
+      // Set when the request authenticated with a personal access token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+const API_TOKEN_PREFIX = "kb_";
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function generateApiToken(): string {
+  return API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+}
+
+function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { tokenHash, ...publicToken } = token;
+  return publicToken;
+}
+
+// What the current request may touch. Browser sessions get full access;
+// tokens are limited by their scope and optional project list.
+export interface AccessScope {
+  canWrite: boolean;
+  projects: string[] | null; // null = every project
+}
+
+export function getAccessScope(req: Request): AccessScope {
+  if (req.apiToken) {
+    return { canWrite: req.apiToken.scope === "write", projects: req.apiToken.projects ?? null };
+  }
+  return { canWrite: true, projects: null };
+}
+
+export function canAccessProject(scope: AccessScope, project: string): boolean {
+  return scope.projects === null || scope.projects.includes(project);
+}
+
+// Thrown when a project-restricted token touches a project outside its list
+export class ProjectAccessError extends Error {
+  constructor(project: string) {
+    super(`This API token does not have access to project "${project}"`);
+    this.name = "ProjectAccessError";
+  }
+}
+
+export function assertProjectAccess(scope: AccessScope, project: string): void {
+  if (!canAccessProject(scope, project)) {
+    throw new ProjectAccessError(project);
+  }
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Session or bearer token required. Read-scoped tokens may only use safe
+// methods; POST /mcp checks tool scope itself because reads are POSTs too.
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (req.path !== "/mcp" && !READ_METHODS.includes(req.method) && !getAccessScope(req).canWrite) {
+    return res.status(403).json({ message: "This API token is read-only" });
+  }
+  next();
+}
+
+// Admin accounts only, for board-wide maintenance. Project-restricted tokens
+// are refused even when their owner is an admin.
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  requireAuth(req, res, () => {
+    if (req.user?.role !== "admin" || getAccessScope(req).projects !== null) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    next();
+  });
+}
+
+// Every account can read and write every project, so after the first (admin)
+// account sign-ups are closed unless KANBAN_ALLOW_REGISTRATION=true. The very
+// first account can always be created so a fresh install is never locked out.
+function allowsMemberRegistration(): boolean {
+  return process.env.KANBAN_ALLOW_REGISTRATION === "true";
+}
+
+async function isRegistrationOpen(): Promise<boolean> {
+  return allowsMemberRegistration() || (await storage.countUsers()) === 0;
+}
+
+const PgStore = connectPg(session);
+
+// Exported so the WebSocket server can read the session on upgrade requests
+export const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || "kanban-session-secret-dev",
+  resave: false,
+  saveUninitialized: false,
+  store: new PgStore({ pool, tableName: "session" }),
+  cookie: {
+    httpOnly: true,
+    secure: false, // Set to true in production with HTTPS
+    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+  },
+});
+
+// Resolve "Authorization: Bearer <token>" into req.user / req.apiToken. A
+// token never creates a session, so it has to be sent with every request.
+async function authenticateBearerToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("Authorization");
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+    const user = token && await storage.getUser(token.userId);
+    if (!token || !user) {
+      return res.status(401).json({ message: "Invalid API token" });
+    }
+
+    req.user = toPublicUser(user);
+    req.apiToken = token;
+
+    // Record usage at most once a minute
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > 60 * 1000) {
+      await storage.touchApiToken(token.id);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateBearerToken);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      if (!(await isRegistrationOpen())) {
+        return res.status(403).json({ message: "Registration is disabled" });
+      }
+
+      const { username, password, displayName } = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      // Checked again with the insert, in case another account was created meanwhile
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        displayName: displayName || null,
+      }, allowsMemberRegistration());
+      if (!user) {
+        return res.status(403).json({ message: "Registration is disabled" });
+      }
+
+      const publicUser = toPublicUser(user);
+      req.login(publicUser, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser);
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid registration data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) {
+          return res.status(500).json({ message: "Logout failed" });
+        }
+        res.json({ success: true, message: "Logout successful" });
+      });
+    });
+  });
+
+  // Current user, or 401 when signed out
+  app.get("/api/auth/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(req.user);
+  });
+
+  // Kept for older clients that only need a yes/no answer
+  app.get("/api/auth/verify", (req, res) => {
+    if (req.isAuthenticated()) {
+      res.json({ authenticated: true, user: req.user });
+    } else {
+      res.status(401).json({ authenticated: false });
+    }
+  });
+
+  app.get("/api/auth/config", async (_req, res) => {
+    res.json({ registrationOpen: await isRegistrationOpen() });
+  });
+
+  // Token management needs a signed-in browser session; a token cannot mint
+  // or revoke other tokens.
+  const requireSession = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || req.apiToken) {
+      return res.status(401).json({ message: "Sign in to manage API tokens" });
+    }
+    next();
+  };
+
+  app.get("/api/tokens", requireSession, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user!.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // Returns the plaintext token once; only its hash is stored
+  app.post("/api/tokens", requireSession, async (req, res) => {
+    try {
+      const { name, scope, projects } = createApiTokenSchema.parse(req.body);
+      const token = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        scope,
+        projects: projects ?? null,
+        tokenHash: hashApiToken(token),
+        tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      });
+      res.status(201).json({ ...toPublicApiToken(created), token });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid token data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireSession, async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+}
@@ -0,0 +1,157 @@
+import type { Actor, AutomationAction, AutomationRule, Card, PublicAutomationRule } from "@shared/schema";
+import { storage, onCardActivity, type CardActivity } from "./storage";
+import { assertPublicUrl, signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "./webhooks";
+
+/**
+ * Per-project automation rules: "when a card is moved to complete, add a
+ * comment", "when every task is checked, move the card to complete". Every
+ * card activity reported by storage runs the enabled rules of the card's
+ * project with a matching trigger and conditions, oldest rule first. Changes a
+ * rule makes are recorded with the rule as actor and can trigger further
+ * rules, up to MAX_CHAIN_DEPTH rules deep, so rules cannot loop forever.
+ *
+ * A failing action stops the rest of its rule and is logged; the change that
+ * triggered the rule has already been saved.
+ *
+ * Webhook actions are sent like outgoing webhooks (server/webhooks.ts): only to
+ * public addresses, without following redirects, and signed in
+ * X-Kanban-Signature with the rule's secret. They are not retried.
+ */
+
+const MAX_CHAIN_DEPTH = 5;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface AutomationHooks {
+  broadcast(event: { type: string; data: unknown }): void;
+  // Runs after a rule moves a card, as after a move through the API
+  afterMove(card: Card, actor: Actor): Promise<void>;
+}
+
+// Rule as returned by the API - never includes the secret
+export function toPublicAutomationRule({ secret, ...rule }: AutomationRule): PublicAutomationRule {
+  return rule;
+}
+
+// How many rules deep the change made by an automation actor is
+const chainDepths = new WeakMap<Actor, number>();
+
+/**
+ * Whether a rule's conditions hold for an activity. `allTasksComplete` is
+ * only known to the caller, which loads the card's tasks when a rule needs it.
+ */
+function matchesConditions(rule: AutomationRule, activity: CardActivity, allTasksComplete: boolean): boolean {
+  const { status, fromStatus, allTasksComplete: wantAllTasksComplete } = rule.conditions;
+  if (status && activity.card.status !== status) {
+    return false;
+  }
+  if (fromStatus && activity.fromStatus !== fromStatus) {
+    return false;
+  }
+  if (wantAllTasksComplete !== undefined && allTasksComplete !== wantAllTasksComplete) {
+    return false;
+  }
+  return true;
+}
+
+// Fill in the {{placeholders}} of add-comment text
+function renderTemplate(text: string, activity: CardActivity, card: Card): string {
+  const values: Record<string, string> = {
+    title: card.title,
+    status: card.status,
+    project: card.project,
+    actor: activity.actor.name,
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// Run one action against the card as it is now; returns the card afterwards
+async function runAction(action: AutomationAction, rule: AutomationRule, activity: CardActivity, card: Card, actor: Actor, hooks: AutomationHooks): Promise<Card> {
+  switch (action.type) {
+    case "move": {
+      if (card.status === action.status) {
+        return card;
+      }
+      const moved = await storage.moveCard(card.id, { status: action.status }, actor);
+      hooks.broadcast({ type: "CARD_UPDATED", data: moved });
+      await hooks.afterMove(moved, actor);
+      return moved;
+    }
+    case "set-field": {
+      const updated = await storage.updateCard(card.id, { [action.field]: action.value }, actor);
+      hooks.broadcast({ type: "CARD_UPDATED", data: updated });
+      return updated;
+    }
+    case "add-comment": {
+      const comment = await storage.createComment(card.id, { content: renderTemplate(action.content, activity, card) }, actor);
+      hooks.broadcast({ type: "COMMENT_CREATED", data: comment });
+      return (await storage.getCard(card.id)) || card;
+    }
+    case "webhook": {
+      await assertPublicUrl(action.url);
+      const body = JSON.stringify({
+        rule: { id: rule.id, name: rule.name },
+        event: activity.type,
+        actor: activity.actor,
+        fromStatus: activity.fromStatus,
+        card,
+      });
+      const response = await fetch(action.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Kanban-Webhooks/1.0",
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(rule.secret, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook ${action.url} answered ${response.status}`);
+      }
+      return card;
+    }
+  }
+}
+
+async function runAutomations(activity: CardActivity, hooks: AutomationHooks): Promise<void> {
+  const rules = (await storage.getAutomationRules(activity.card.project))
+    .filter(rule => rule.enabled && rule.trigger === activity.type);
+  if (rules.length === 0) {
+    return;
+  }
+
+  const depth = chainDepths.get(activity.actor) ?? 0;
+  if (depth >= MAX_CHAIN_DEPTH) {
+    console.warn(`Automation chain on card ${activity.card.id} stopped after ${MAX_CHAIN_DEPTH} rules`);
+    return;
+  }
+
+  const needsTasks = rules.some(rule => rule.conditions.allTasksComplete !== undefined);
+  const tasks = needsTasks ? await storage.getTasks(activity.card.id) : [];
+  const allTasksComplete = tasks.length > 0 && tasks.every(task => task.completed);
+
+  let card = activity.card;
+  for (const rule of rules) {
+    if (!matchesConditions(rule, { ...activity, card }, allTasksComplete)) {
+      continue;
+    }
+    const actor: Actor = { type: "automation", name: rule.name };
+    chainDepths.set(actor, depth + 1);
+    for (const action of rule.actions) {
+      try {
+        card = await runAction(action, rule, activity, card, actor, hooks);
+      } catch (error) {
+        console.error(`Automation rule "${rule.name}" failed on card ${card.id} (${action.type}):`, error);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Run automation rules on card activity from now on
+ */
+export function startAutomations(hooks: AutomationHooks): void {
+  onCardActivity(activity => runAutomations(activity, hooks));
+}
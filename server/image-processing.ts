@@ -0,0 +1,77 @@
+import sharp from "sharp";
+import { IMAGE_VARIANTS, type ImageVariant } from "@shared/image-variants";
+
+// Formats that are re-encoded without metadata and get resized variants.
+// GIFs (often animated) and SVGs are stored as uploaded.
+const PROCESSED_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+// Thrown when an upload claims to be an image but cannot be decoded; answered with 400
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+export interface ImageVariantOutput {
+  variant: ImageVariant;
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  buffer: Buffer; // What to store as the original
+  width: number | null; // null when the dimensions cannot be read (some SVGs)
+  height: number | null;
+  variants: ImageVariantOutput[];
+}
+
+/**
+ * Prepare an uploaded image for storage. JPEG, PNG and WebP images are
+ * rotated upright, re-encoded without EXIF or other metadata (which can hold
+ * GPS coordinates), and get a thumbnail and a web-sized WebP variant.
+ * @throws InvalidImageError when the image cannot be decoded
+ */
+export async function processImage(buffer: Buffer, mimeType: string): Promise<ProcessedImage> {
+  if (!PROCESSED_TYPES.includes(mimeType)) {
+    const { width, height } = await readDimensions(buffer);
+    return { buffer, width, height, variants: [] };
+  }
+
+  try {
+    // rotate() with no angle applies the EXIF orientation; sharp drops all
+    // metadata on output unless asked to keep it
+    const upright = sharp(buffer).rotate();
+    const encoded = mimeType === "image/png"
+      ? upright.png()
+      : mimeType === "image/webp"
+        ? upright.webp({ quality: 90 })
+        : upright.jpeg({ quality: 90, mozjpeg: true });
+    const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+    const variants = await Promise.all(
+      (Object.keys(IMAGE_VARIANTS) as ImageVariant[]).map(async (variant) => {
+        const { maxSize, quality } = IMAGE_VARIANTS[variant];
+        const resized = await sharp(data)
+          .resize(maxSize, maxSize, { fit: "inside", withoutEnlargement: true })
+          .webp({ quality })
+          .toBuffer({ resolveWithObject: true });
+        return { variant, buffer: resized.data, width: resized.info.width, height: resized.info.height };
+      }),
+    );
+
+    return { buffer: data, width: info.width, height: info.height, variants };
+  } catch (error) {
+    throw new InvalidImageError(`Could not read image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function readDimensions(buffer: Buffer): Promise<{ width: number | null; height: number | null }> {
+  try {
+    const { width, height } = await sharp(buffer).metadata();
+    return { width: width ?? null, height: height ?? null };
+  } catch {
+    return { width: null, height: null };
+  }
+}
@@ -0,0 +1,377 @@
+import express, { type Express } from "express";
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { nanoid } from "nanoid";
+import { promises as fs } from "fs";
+import path from "path";
+import { imageVariantPath, type ImageVariant } from "@shared/image-variants";
+import { processImage } from "./image-processing";
+
+/**
+ * Where uploaded images are kept. IMAGE_STORE picks the backend:
+ * - "local": files on disk under UPLOAD_DIR (default ./uploads), served at /uploads
+ * - "s3": any S3-compatible service (AWS S3, MinIO, ...) configured with S3_* variables
+ * - "r2": Cloudflare R2 configured with R2_* variables
+ * Without IMAGE_STORE, R2 is used when all of its variables are set (the
+ * original behaviour) and local disk otherwise, so uploads work out of the box.
+ */
+
+export const IMAGE_STORE_NAMES = ["local", "s3", "r2"] as const;
+export type ImageStoreName = typeof IMAGE_STORE_NAMES[number];
+
+export interface ImageStore {
+  readonly name: ImageStoreName;
+  /** Store an image under `key` and return the URL it can be fetched from */
+  put(key: string, buffer: Buffer, mimeType: string): Promise<string>;
+  /** Remove the object under `key`; missing objects are not an error */
+  delete(key: string): Promise<void>;
+}
+
+// Thrown when the selected backend is missing settings; uploads answer 503
+export class ImageStoreConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageStoreConfigError";
+  }
+}
+
+export const LOCAL_UPLOADS_ROUTE = "/uploads";
+
+function getLocalUploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || "uploads");
+}
+
+class LocalImageStore implements ImageStore {
+  readonly name = "local";
+
+  constructor(private readonly dir: string, private readonly publicUrl: string) {}
+
+  async put(key: string, buffer: Buffer): Promise<string> {
+    const filePath = path.join(this.dir, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = path.join(this.dir, key);
+    if (!filePath.startsWith(this.dir + path.sep)) {
+      throw new Error(`Refusing to delete outside the upload directory: ${key}`);
+    }
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+class S3ImageStore implements ImageStore {
+  constructor(
+    readonly name: ImageStoreName,
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly publicUrl: string,
+  ) {}
+
+  async put(key: string, buffer: Buffer, mimeType: string): Promise<string> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: buffer,
+      ContentType: mimeType,
+      // Objects are read through publicUrl, so the bucket (or a CDN in front
+      // of it) needs public read access
+    }));
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+// Values of the listed variables, or an error naming the missing ones
+function requireEnv<K extends string>(label: string, keys: readonly K[]): Record<K, string> {
+  const missing = keys.filter(key => !process.env[key]);
+  if (missing.length > 0) {
+    throw new ImageStoreConfigError(`Missing required ${label} environment variables: ${missing.join(', ')}`);
+  }
+  return Object.fromEntries(keys.map(key => [key, process.env[key]!])) as Record<K, string>;
+}
+
+const R2_ENV_VARS = ['R2_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_BUCKET_NAME', 'R2_PUBLIC_URL'] as const;
+const S3_ENV_VARS = ['S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY', 'S3_BUCKET', 'S3_PUBLIC_URL'] as const;
+
+function createR2Store(): ImageStore {
+  const env = requireEnv("R2", R2_ENV_VARS);
+  const client = new S3Client({
+    region: 'auto', // R2 uses 'auto' for region
+    endpoint: `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: env.R2_ACCESS_KEY_ID,
+      secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+    },
+  });
+  return new S3ImageStore("r2", client, env.R2_BUCKET_NAME, env.R2_PUBLIC_URL.replace(/\/$/, ''));
+}
+
+function createS3Store(): ImageStore {
+  const env = requireEnv("S3", S3_ENV_VARS);
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint,
+    // Self-hosted services such as MinIO usually need bucket-in-path URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(endpoint),
+    credentials: {
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    },
+  });
+  return new S3ImageStore("s3", client, env.S3_BUCKET, env.S3_PUBLIC_URL.replace(/\/$/, ''));
+}
+
+function createLocalStore(): ImageStore {
+  // Relative by default so links work on any host; set UPLOADS_PUBLIC_URL for absolute links
+  const publicUrl = (process.env.UPLOADS_PUBLIC_URL || LOCAL_UPLOADS_ROUTE).replace(/\/$/, '');
+  return new LocalImageStore(getLocalUploadDir(), publicUrl);
+}
+
+function getSelectedStoreName(): ImageStoreName {
+  const selected = process.env.IMAGE_STORE;
+  if (!selected) {
+    return R2_ENV_VARS.every(key => !!process.env[key]) ? "r2" : "local";
+  }
+  if (!IMAGE_STORE_NAMES.includes(selected as ImageStoreName)) {
+    throw new ImageStoreConfigError(`Unknown IMAGE_STORE "${selected}". Use one of: ${IMAGE_STORE_NAMES.join(', ')}`);
+  }
+  return selected as ImageStoreName;
+}
+
+let imageStore: ImageStore | undefined;
+
+/**
+ * The configured image store, created on first use
+ * @throws ImageStoreConfigError when the selected backend is missing settings
+ */
+export function getImageStore(): ImageStore {
+  if (!imageStore) {
+    const name = getSelectedStoreName();
+    imageStore = name === "r2" ? createR2Store() : name === "s3" ? createS3Store() : createLocalStore();
+  }
+  return imageStore;
+}
+
+/**
+ * Why uploads are unavailable, or null when the image store is usable
+ */
+export function getImageStoreConfigError(): string | null {
+  try {
+    getImageStore();
+    return null;
+  } catch (error) {
+    if (error instanceof ImageStoreConfigError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+// Thrown for attachments the board does not accept (type or size); answered with 400
+export class InvalidAttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAttachmentError";
+  }
+}
+
+export interface StoredFile {
+  key: string;
+  url: string;
+}
+
+// A fresh, unique key: `${prefix}/<timestamp>-<id>.<ext>`
+function newStorageKey(prefix: string, originalFilename: string): string {
+  const extension = originalFilename.split('.').pop()?.replace(/[^A-Za-z0-9]/g, '') || 'bin';
+  const filename = `${Date.now()}-${nanoid(12)}.${extension}`;
+  return prefix ? `${prefix}/${filename}` : filename;
+}
+
+async function putFile(key: string, buffer: Buffer, mimeType: string): Promise<string> {
+  const store = getImageStore();
+  try {
+    const url = await store.put(key, buffer, mimeType);
+    console.log(`File uploaded successfully (${store.name}): ${url}`);
+    return url;
+  } catch (error) {
+    console.error(`Error uploading to ${store.name} image store:`, error);
+    throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Put a file in the configured store under a fresh key
+async function storeFile(buffer: Buffer, originalFilename: string, mimeType: string, prefix: string): Promise<StoredFile> {
+  const key = newStorageKey(prefix, originalFilename);
+  return { key, url: await putFile(key, buffer, mimeType) };
+}
+
+export interface UploadedImage extends StoredFile {
+  size: number; // bytes of the stored original, after metadata was stripped
+  width: number | null;
+  height: number | null;
+  thumbnailUrl: string | null;
+  webUrl: string | null;
+}
+
+/**
+ * Strip metadata from an image, upload it to the configured store under a
+ * fresh, unique key and upload its resized variants next to it
+ * (see shared/image-variants.ts)
+ * @param buffer Image file buffer
+ * @param originalFilename Original filename (for extension)
+ * @param mimeType MIME type of the image
+ * @throws InvalidImageError when the image cannot be decoded
+ * @returns Key, public URL, dimensions and variant URLs of the uploaded image
+ */
+export async function uploadImage(buffer: Buffer, originalFilename: string, mimeType: string): Promise<UploadedImage> {
+  // Fail on configuration before spending time on processing
+  getImageStore();
+  const processed = await processImage(buffer, mimeType);
+
+  // R2_IMAGE_PATH is the older name of IMAGE_PATH
+  const imagePath = process.env.IMAGE_PATH ?? process.env.R2_IMAGE_PATH ?? 'images';
+  const key = newStorageKey(imagePath, originalFilename);
+  const url = await putFile(key, processed.buffer, mimeType);
+
+  const variantUrls: Partial<Record<ImageVariant, string>> = {};
+  for (const { variant, buffer: variantBuffer } of processed.variants) {
+    variantUrls[variant] = await putFile(imageVariantPath(key, variant), variantBuffer, 'image/webp');
+  }
+
+  return {
+    key,
+    url,
+    size: processed.buffer.length,
+    width: processed.width,
+    height: processed.height,
+    thumbnailUrl: variantUrls.thumbnail ?? null,
+    webUrl: variantUrls.web ?? null,
+  };
+}
+
+/**
+ * Delete stored files by key from the configured store
+ */
+export async function deleteStoredFiles(keys: string[]): Promise<void> {
+  const store = getImageStore();
+  for (const key of keys) {
+    await store.delete(key);
+  }
+}
+
+/**
+ * Storage keys of an uploaded image and the variants made of it
+ */
+export function getImageStorageKeys(image: { storageKey: string; thumbnailUrl: string | null; webUrl: string | null }): string[] {
+  const keys = [image.storageKey];
+  if (image.thumbnailUrl) keys.push(imageVariantPath(image.storageKey, "thumbnail"));
+  if (image.webUrl) keys.push(imageVariantPath(image.storageKey, "web"));
+  return keys;
+}
+
+export const MAX_ATTACHMENT_SIZE_MB = 25;
+
+// Attachment types by extension. The stored content type always comes from
+// here, so a client cannot label an HTML page as a PDF.
+const ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  xml: 'application/xml',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  tar: 'application/x-tar',
+  '7z': 'application/x-7z-compressed',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Content type of an attachment from its filename, or undefined when the
+ * extension is not one the board accepts
+ */
+export function getAttachmentContentType(filename: string): string | undefined {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  return Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, extension) ? ATTACHMENT_TYPES[extension] : undefined;
+}
+
+/**
+ * Check an attachment and upload it to the configured store under
+ * ATTACHMENT_PATH (default "attachments")
+ * @throws InvalidAttachmentError for unsupported types and oversized files
+ * @returns Storage key, URL and the content type it was stored with
+ */
+export async function uploadAttachment(buffer: Buffer, filename: string): Promise<StoredFile & { contentType: string }> {
+  const contentType = getAttachmentContentType(filename);
+  if (!contentType) {
+    const accepted = Object.keys(ATTACHMENT_TYPES).join(', ');
+    throw new InvalidAttachmentError(`Unsupported file type for "${filename}". Accepted extensions: ${accepted}`);
+  }
+  if (buffer.length > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+    throw new InvalidAttachmentError(`File is too large. Maximum size is ${MAX_ATTACHMENT_SIZE_MB}MB.`);
+  }
+
+  const stored = await storeFile(buffer, filename, contentType, process.env.ATTACHMENT_PATH ?? 'attachments');
+  return { ...stored, contentType };
+}
+
+/**
+ * Serve images and attachments kept on local disk. Mounted whatever the
+ * current backend is, so files uploaded before switching to S3 or R2 keep loading.
+ */
+export function serveLocalUploads(app: Express) {
+  app.use(LOCAL_UPLOADS_ROUTE, express.static(getLocalUploadDir(), {
+    index: false,
+    immutable: true,
+    maxAge: '30d',
+    setHeaders: (res) => {
+      // Uploads share the app's origin; never let an SVG run script there
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+    },
+  }));
+}
+
+/**
+ * Validate if a file is an allowed image type
+ */
+export function isValidImageType(mimeType: string): boolean {
+  const allowedTypes = [
+    'image/jpeg',
+    'image/jpg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'image/svg+xml'
+  ];
+  return allowedTypes.includes(mimeType);
+}
+
+/**
+ * Validate image file size (max 10MB by default)
+ */
+export function isValidImageSize(sizeInBytes: number, maxSizeMB: number = 10): boolean {
+  const maxSizeBytes = maxSizeMB * 1024 * 1024;
+  return sizeInBytes <= maxSizeBytes;
+}
@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from "crypto";
+import { updateCardSchema, type Actor, type Card, type IncomingHook, type PublicIncomingHook } from "@shared/schema";
+import { buildHookCard, renderHookCardFields, renderHookTemplate, IncomingHookPayloadError } from "@shared/incoming-hook-mapping";
+import { storage } from "./storage";
+
+/**
+ * Incoming webhooks: POST /api/hooks/:project/:token with any JSON body
+ * creates a card in the hook's project, or updates one. The hook's mapping
+ * renders the card's title, description and status from the payload (see
+ * shared/incoming-hook-mapping.ts).
+ *
+ * A delivery with an idempotency key - the Idempotency-Key header, or else
+ * the hook's idempotencyKey template - updates the card an earlier delivery
+ * with the same key created, so a repeating alert or a re-run CI job keeps
+ * updating one card. Deliveries without a key always create a card.
+ */
+
+const HOOK_TOKEN_PREFIX = "kbh_";
+const MAX_IDEMPOTENCY_KEY_LENGTH = 500;
+
+export function generateHookToken(): string {
+  return HOOK_TOKEN_PREFIX + randomBytes(24).toString("base64url");
+}
+
+export function hashHookToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function getHookTokenPrefix(token: string): string {
+  return token.slice(0, HOOK_TOKEN_PREFIX.length + 6);
+}
+
+// Hook as returned by the API - never includes the token hash
+export function toPublicIncomingHook({ tokenHash, ...hook }: IncomingHook): PublicIncomingHook {
+  return hook;
+}
+
+export interface IncomingHookResult {
+  card: Card;
+  created: boolean;
+}
+
+/**
+ * Create or update the card for one delivery to a hook. `headerKey` is the
+ * delivery's Idempotency-Key header, which wins over the hook's template.
+ */
+export async function receiveIncomingHook(hook: IncomingHook, payload: unknown, headerKey?: string): Promise<IncomingHookResult> {
+  const actor: Actor = { type: "webhook", name: hook.name };
+  const statuses = await storage.getProjectStatuses(hook.project);
+  const fields = renderHookCardFields(hook.mapping, payload, statuses);
+  const key = (headerKey ?? (hook.mapping.idempotencyKey ? renderHookTemplate(hook.mapping.idempotencyKey, payload) : "")).trim();
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new IncomingHookPayloadError(`Idempotency keys must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+
+  const newCard = () => buildHookCard(hook.mapping, hook.project, payload, statuses);
+  if (!key) {
+    return { card: await storage.createCard(newCard(), actor), created: true };
+  }
+
+  return storage.transaction(async (store) => {
+    const cardId = await store.lockIncomingHookKey(hook.id, key);
+    const existing = cardId ? await store.getCard(cardId) : undefined;
+    if (existing) {
+      const card = await store.updateCard(existing.id, updateCardSchema.parse(fields), actor);
+      return { card, created: false };
+    }
+    const card = await store.createCard(newCard(), actor);
+    await store.setIncomingHookKeyCard(hook.id, key, card.id);
+    return { card, created: true };
+  });
+}
@@ -28,7 +28,8 @@ app.use((req, res, next) => {
 
 app.use((req, res, next) => {
   const start = Date.now();
-  const path = req.path;
+  // Incoming hook URLs carry their token; keep it out of the log
+  const path = req.path.replace(/^(\/api\/hooks\/[^/]+\/)[^/]+/, "$1…");
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -1,10 +1,15 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import session from "express-session";
 import { randomUUID } from "crypto";
-import { storage } from "./storage";
-import { insertCardSchema, updateCardSchema } from "@shared/schema";
+import { storage, WipLimitExceededError, WorkflowRuleError, type IStorage } from "./storage";
+import { setupAuth, requireAuth, requireAdmin, sessionMiddleware, getAccessScope, canAccessProject, assertProjectAccess, type AccessScope } from "./auth";
+import { insertCardSchema, updateCardSchema, insertProjectSchema, updateProjectSchema, slugifyProjectName, COLOR_OPTIONS, STATUS_REQUIREMENTS, mergeProjectStatuses, getStatusDefinition, insertCommentSchema, updateCommentSchema, groupCommentThreads, insertTaskSchema, updateTaskSchema, reorderTasksSchema, insertCardLinkSchema, createSubcardsSchema, insertLabelSchema, updateLabelSchema, insertAutomationRuleSchema, updateAutomationRuleSchema, insertWebhookSchema, updateWebhookSchema, insertIncomingHookSchema, updateIncomingHookSchema, RESOLVED_STATUSES, CARD_PRIORITIES, type CardPriority, type CreateSubcards, type Card, type CardLinkView, type LinkedCard, type Label, type Assignee, type AutomationRule, type Webhook, type IncomingHook, CARD_LINK_KINDS, type Comment, type CardTask, type Attachment, type ImageUpload, type CardSearchResult, type StatusDefinition, type Actor, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/schema";
+import { compareCardRanks } from "@shared/rank";
+import { parseCardQuery, matchesCardQuery, type ParsedCardQuery, type CardQueryFilter } from "@shared/card-query";
+import { calculateSubcardProgress } from "@shared/progress";
+import { parseCardSort, sortCards, type CardSortTerm } from "@shared/card-sort";
+import { describeAutomationRule } from "@shared/automation-rules";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import {
@@ -13,14 +18,18 @@ import {
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
 import multer from "multer";
-import { uploadImageToR2, isValidImageType, isValidImageSize, isR2Configured } from "./r2-storage";
+import { uploadImage, uploadAttachment, deleteStoredFiles, isValidImageType, isValidImageSize, getImageStoreConfigError, getAttachmentContentType, serveLocalUploads, MAX_ATTACHMENT_SIZE_MB } from "./image-store";
+import { sweepOrphanedUploads, scheduleUploadSweeps } from "./upload-gc";
+import { startAutomations, toPublicAutomationRule } from "./automation";
+import { publishWebhookEvent, startWebhookDeliveries, redeliverWebhook, generateWebhookSecret, toPublicWebhook } from "./webhooks";
+import { receiveIncomingHook, generateHookToken, hashHookToken, getHookTokenPrefix, toPublicIncomingHook } from "./incoming-hooks";
 import { promises as fs } from "fs";
 import path from "path";
 
 // WebSocket broadcast helper
 let wss: WebSocketServer;
 
-function broadcast(event: { type: string; data: any }) {
+function broadcastToClients(event: { type: string; data: any }) {
   if (wss) {
     wss.clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
@@ -30,36 +39,414 @@ function broadcast(event: { type: string; data: any }) {
   }
 }
 
-// Simple passcode - in production you'd want this as an environment variable
-const PASSCODE = "1234";
-
-// Session middleware setup
-function setupSession(app: Express) {
-  app.use(session({
-    secret: process.env.SESSION_SECRET || "kanban-session-secret-dev",
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: false, // Set to true in production with HTTPS
-      maxAge: 24 * 60 * 60 * 1000, // 24 hours
-    },
+// Card events also go out to subscribed webhooks. Bulk operations send their
+// per-card events with broadcastToClients, so webhooks get each card once,
+// in the bulk event.
+function broadcast(event: { type: string; data: any }) {
+  broadcastToClients(event);
+  publishWebhookEvent(event);
+}
+
+// Workflow columns for a project, or the merged columns of every project
+async function getWorkflow(project?: string): Promise<StatusDefinition[]> {
+  if (project) {
+    return storage.getProjectStatuses(project);
+  }
+  const projects = await storage.getProjects(true);
+  return mergeProjectStatuses(projects.map(p => p.statuses));
+}
+
+// How often long or tied card ranks are respaced
+const RANK_REBALANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Group cards by status, keyed in workflow column order and sorted by order
+function groupCardsByStatus(cards: Card[], statuses: StatusDefinition[], sort: CardSortTerm[] = []): Record<string, Card[]> {
+  const grouped: Record<string, Card[]> = {};
+  const columnOrder = statuses.map(status => status.key);
+  // Array sort is stable, so each column keeps the requested order
+  const sortedCards = sortCards(cards, sort)
+    .sort((a, b) => columnOrder.indexOf(a.status) - columnOrder.indexOf(b.status));
+
+  sortedCards.forEach(card => {
+    if (!grouped[card.status]) {
+      grouped[card.status] = [];
+    }
+    grouped[card.status].push(card);
+  });
+
+  return grouped;
+}
+
+// Actor recorded in the audit log for REST calls. The kanban-mcp-server names
+// its MCP client in the X-Kanban-Actor header; other token callers are
+// recorded with the token name, browser calls with the signed-in user.
+function getRequestActor(req: Request): Actor {
+  const userName = req.user ? req.user.displayName || req.user.username : undefined;
+  const client = req.get("X-Kanban-Actor");
+  if (client) {
+    return { type: "mcp", name: userName ? `${client} (${userName})` : client };
+  }
+  if (req.apiToken) {
+    return { type: "api", name: `${userName} via token "${req.apiToken.name}"` };
+  }
+  if (userName) {
+    return { type: "user", name: userName };
+  }
+  return { type: "api", name: "anonymous" };
+}
+
+// Cards the caller may see; project-restricted tokens only see their projects
+async function getAccessibleCards(scope: AccessScope, project?: string): Promise<Card[]> {
+  const cards = await storage.getAllCards(project);
+  return cards.filter(card => canAccessProject(scope, card.project));
+}
+
+// A card outside the caller's projects is reported as missing
+async function getAccessibleCard(scope: AccessScope, id: string): Promise<Card | undefined> {
+  const card = await storage.getCard(id);
+  return card && canAccessProject(scope, card.project) ? card : undefined;
+}
+
+// Cards matching a filter query. Label names and assignees are not on the
+// card rows, so they are looked up when the query filters on them.
+async function filterCards(cards: Card[], query: ParsedCardQuery): Promise<Card[]> {
+  const usesLabels = query.filters.some(filter =>
+    filter.kind === "label" || (filter.kind === "has" && filter.field === "labels"));
+  const usesAssignees = query.filters.some(filter =>
+    filter.kind === "assignee" || (filter.kind === "has" && filter.field === "assignees"));
+  const labelsByCard = usesLabels ? await storage.getLabelsByCard() : {};
+  const assigneesByCard = usesAssignees ? await storage.getAssigneesByCard() : {};
+  const now = new Date();
+  return cards.filter(card => matchesCardQuery({
+    ...card,
+    labels: (labelsByCard[card.id] || []).map(label => label.name),
+    assignees: (assigneesByCard[card.id] || []).map(assignee => assignee.username),
+  }, query, now));
+}
+
+// The sort parameter of the MCP read tools (see shared/card-sort.ts)
+const SORT_DESCRIPTION = "Optional: comma-separated sort keys, each breaking ties of the one before: rank (board order, the default), priority (P0 first), dueDate (soonest first), estimate, createdAt, updatedAt, title. Prefix a key with - to reverse it; cards without the value come last";
+
+// Filter term for cards assigned to any of the comma-separated usernames
+function assigneeFilter(usernames: string): CardQueryFilter {
+  const values = usernames.toLowerCase().split(",").map(value => value.trim()).filter(Boolean);
+  return { kind: "assignee", values, negate: false };
+}
+
+// A label of a project the caller may see; anything else is reported as missing
+async function getAccessibleLabel(scope: AccessScope, project: string, labelId: string): Promise<Label | undefined> {
+  if (!canAccessProject(scope, project)) {
+    return undefined;
+  }
+  const label = await storage.getLabel(labelId);
+  return label && label.project === project ? label : undefined;
+}
+
+async function getAccessibleAutomationRule(scope: AccessScope, project: string, ruleId: string): Promise<AutomationRule | undefined> {
+  if (!canAccessProject(scope, project)) {
+    return undefined;
+  }
+  const rule = await storage.getAutomationRule(ruleId);
+  return rule && rule.project === project ? rule : undefined;
+}
+
+async function getAccessibleWebhook(scope: AccessScope, project: string, webhookId: string): Promise<Webhook | undefined> {
+  if (!canAccessProject(scope, project)) {
+    return undefined;
+  }
+  const webhook = await storage.getWebhook(webhookId);
+  return webhook && webhook.project === project ? webhook : undefined;
+}
+
+async function getAccessibleIncomingHook(scope: AccessScope, project: string, hookId: string): Promise<IncomingHook | undefined> {
+  if (!canAccessProject(scope, project)) {
+    return undefined;
+  }
+  const hook = await storage.getIncomingHook(hookId);
+  return hook && hook.project === project ? hook : undefined;
+}
+
+// How many deliveries the delivery log shows by default, and at most
+const DEFAULT_DELIVERY_LOG_LIMIT = 50;
+const MAX_DELIVERY_LOG_LIMIT = 200;
+
+// Automation rules of the given project, or of every project the caller may
+// see, each with a description in words and without its secret. Shared by the
+// REST routes and the list_automation_rules tools.
+async function listAutomationRules(access: AccessScope, project?: string) {
+  const rules = (await storage.getAutomationRules(project)).filter(rule => canAccessProject(access, rule.project));
+  const workflows = new Map<string, StatusDefinition[]>();
+  const described = [];
+  for (const rule of rules) {
+    if (!workflows.has(rule.project)) {
+      workflows.set(rule.project, await storage.getProjectStatuses(rule.project));
+    }
+    described.push({ ...toPublicAutomationRule(rule), description: describeAutomationRule(rule, workflows.get(rule.project)!) });
+  }
+  return described;
+}
+
+// A comment on a card the caller may see; anything else is reported as missing
+async function getAccessibleComment(scope: AccessScope, cardId: string, commentId: string): Promise<Comment | undefined> {
+  if (!(await getAccessibleCard(scope, cardId))) {
+    return undefined;
+  }
+  const comment = await storage.getComment(commentId);
+  return comment && comment.cardId === cardId ? comment : undefined;
+}
+
+// Upload an image (metadata stripped, with resized variants) and record it.
+// Throws InvalidImageError for images that cannot be decoded.
+async function saveImage(buffer: Buffer, filename: string, mimeType: string, actor: Actor): Promise<ImageUpload> {
+  const uploaded = await uploadImage(buffer, filename, mimeType);
+  return storage.createImageUpload({
+    storageKey: uploaded.key,
+    url: uploaded.url,
+    contentType: mimeType,
+    size: uploaded.size,
+    width: uploaded.width,
+    height: uploaded.height,
+    thumbnailUrl: uploaded.thumbnailUrl,
+    webUrl: uploaded.webUrl,
+  }, actor);
+}
+
+// Once a card reaches a resolved column, cards that only it was blocking go
+// back to not-started in projects with autoUnblock on. The move itself has
+// already succeeded, so a failure here is only logged.
+async function releaseDependents(card: Card, actor: Actor): Promise<void> {
+  if (!RESOLVED_STATUSES.includes(card.status)) {
+    return;
+  }
+  try {
+    const unblocked = await storage.unblockDependents(card.id, actor);
+    unblocked.forEach(dependent => broadcast({ type: "CARD_UPDATED", data: dependent }));
+  } catch (error) {
+    console.error(`Failed to unblock cards blocked by ${card.id}:`, error);
+  }
+}
+
+// A card as get_card returns it: with its label names, assignee usernames and
+// tasks, and for epics the sub-cards and their rolled-up progress
+async function withCardDetails(card: Card, access: AccessScope) {
+  const subcards = (await storage.getSubcards(card.id)).filter(subcard => canAccessProject(access, subcard.project));
+  return {
+    ...card,
+    labels: (await storage.getCardLabels(card.id)).map(label => label.name),
+    assignees: (await storage.getCardAssignees(card.id)).map(assignee => assignee.username),
+    tasks: await storage.getTasks(card.id),
+    ...(subcards.length > 0 && {
+      subcards: subcards.map(({ id, title, status, project }) => ({ id, title, status, project })),
+      subcardProgress: calculateSubcardProgress(subcards),
+    }),
+  };
+}
+
+// Links of a card whose other card the caller may see
+async function getAccessibleCardLinks(scope: AccessScope, cardId: string): Promise<CardLinkView[]> {
+  const links = await storage.getCardLinks(cardId);
+  return links.filter(link => canAccessProject(scope, link.card.project));
+}
+
+// A task of a card the caller may see; anything else is reported as missing
+async function getAccessibleTask(scope: AccessScope, cardId: string, taskId: string): Promise<CardTask | undefined> {
+  if (!(await getAccessibleCard(scope, cardId))) {
+    return undefined;
+  }
+  const task = await storage.getTask(taskId);
+  return task && task.cardId === cardId ? task : undefined;
+}
+
+// Task changes rewrite the card's checkboxes, so boards refresh the whole card
+async function broadcastTaskChange(cardId: string): Promise<void> {
+  const card = await storage.getCard(cardId);
+  if (card) {
+    broadcast({ type: "CARD_UPDATED", data: card });
+  }
+}
+
+async function getAccessibleAttachment(scope: AccessScope, cardId: string, attachmentId: string): Promise<Attachment | undefined> {
+  if (!(await getAccessibleCard(scope, cardId))) {
+    return undefined;
+  }
+  const attachment = await storage.getAttachment(attachmentId);
+  return attachment && attachment.cardId === cardId ? attachment : undefined;
+}
+
+// Upload a file and record it as an attachment of the card. The card must
+// exist and be accessible; an unsupported or oversized file throws
+// InvalidAttachmentError, and a misconfigured store ImageStoreConfigError,
+// before anything is stored.
+async function attachFile(cardId: string, buffer: Buffer, filename: string, actor: Actor): Promise<Attachment> {
+  const stored = await uploadAttachment(buffer, filename);
+  const attachment = await storage.createAttachment(cardId, {
+    filename,
+    contentType: stored.contentType,
+    size: buffer.length,
+    storageKey: stored.key,
+    url: stored.url,
+  }, actor);
+  broadcast({ type: "ATTACHMENT_CREATED", data: attachment });
+  return attachment;
+}
+
+// The largest file attach_file takes: the base64 content of the request must
+// fit the 15MB JSON body limit (see server/index.ts)
+const MCP_ATTACHMENT_SIZE_MB = 10;
+
+// Attach a file an MCP client sent as base64. Clients send the content rather
+// than a path: a path would be read from the server's own filesystem.
+async function attachFileFromBase64(cardId: string, content: string, filename: string, actor: Actor): Promise<Attachment> {
+  const base64 = content.replace(/\s/g, "");
+  if (!base64 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    throw new Error("content must be the file's bytes encoded as base64");
+  }
+  const buffer = Buffer.from(base64, "base64");
+  if (buffer.length > MCP_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+    throw new Error(`File is too large. Maximum size is ${MCP_ATTACHMENT_SIZE_MB}MB here; upload larger files (up to ${MAX_ATTACHMENT_SIZE_MB}MB) through POST /api/cards/:id/attachments.`);
+  }
+  return attachFile(cardId, buffer, path.basename(filename), actor);
+}
+
+// Search results for MCP clients: card essentials with matches in **bold**
+function formatSearchResultsForMcp(results: CardSearchResult[]) {
+  return results.map(({ card, rank, highlights }) => ({
+    id: card.id,
+    title: card.title,
+    project: card.project,
+    status: card.status,
+    rank,
+    highlights: Object.fromEntries(Object.entries(highlights).map(([field, snippet]) => [
+      field,
+      snippet.split(SEARCH_HIGHLIGHT_START).join("**").split(SEARCH_HIGHLIGHT_END).join("**"),
+    ])),
   }));
 }
 
-// Authentication middleware
-function requireAuth(req: any, res: any, next: any) {
-  // Skip authentication for MCP endpoints - external clients need access
-  if (req.path.startsWith('/mcp') || req.path.startsWith('/api')) {
-    return next();
+// Actor for tools registered on the in-process McpServer instance
+const MCP_ACTOR: Actor = { type: "mcp", name: "kanban-integrated-server" };
+const MCP_ACCESS: AccessScope = { canWrite: true, projects: null };
+
+// One failed item of a bulk request, identified by its index in the request
+interface BatchFailure {
+  index: number;
+  error: string;
+  [field: string]: unknown;
+}
+
+// Aborts an atomic batch; throwing out of the transaction rolls it back
+class BatchAbortedError extends Error {
+  constructor(public readonly failure: BatchFailure) {
+    super(`Operation ${failure.index} failed: ${failure.error}. No changes were saved.`);
+    this.name = "BatchAbortedError";
+  }
+}
+
+// Run one operation per item. Normally failures are collected and the rest
+// still run; with `atomic` the whole batch shares a transaction and the first
+// failure rolls everything back.
+async function runBatch<T, R>(
+  items: T[],
+  atomic: boolean,
+  identify: (item: T) => Record<string, unknown>,
+  run: (item: T, store: IStorage) => Promise<R>,
+): Promise<{ results: R[]; failures: BatchFailure[] }> {
+  const execute = async (store: IStorage) => {
+    const results: R[] = [];
+    const failures: BatchFailure[] = [];
+    for (let index = 0; index < items.length; index++) {
+      try {
+        results.push(await run(items[index], store));
+      } catch (error) {
+        const failure = { index, ...identify(items[index]), error: error instanceof Error ? error.message : String(error) };
+        if (atomic) {
+          throw new BatchAbortedError(failure);
+        }
+        console.error(`Batch operation ${index} failed:`, failure.error);
+        failures.push(failure);
+      }
+    }
+    return { results, failures };
+  };
+
+  return atomic ? storage.transaction(execute) : execute(storage);
+}
+
+// Shared by DELETE /api/cards/bulk and the bulk_delete_cards tools
+async function bulkDeleteCards(ids: string[], atomic: boolean, actor: Actor, access: AccessScope) {
+  const { results: deletedIds, failures } = await runBatch(ids, atomic, id => ({ id }), async (id, store) => {
+    // Cards outside a restricted token's projects are reported as missing
+    if (!(await getAccessibleCard(access, id)) || !(await store.deleteCard(id, actor))) {
+      throw new Error(`Card with id ${id} not found`);
+    }
+    return id;
+  });
+
+  if (deletedIds.length > 0) {
+    broadcast({ type: "CARDS_BULK_DELETED", data: deletedIds });
+  }
+
+  return {
+    deletedCount: deletedIds.length,
+    deletedIds,
+    failedCount: failures.length,
+    failedIds: failures.map(failure => failure.id),
+    failures,
+    requestedCount: ids.length
+  };
+}
+
+// Shared by POST /api/cards/:id/subcards and the create_subcard tools. All
+// sub-cards are created, each linked to the epic with parent-of, or none are.
+async function createSubcards(parentId: string, { subcards }: CreateSubcards, actor: Actor, access: AccessScope): Promise<Card[]> {
+  const parent = await getAccessibleCard(access, parentId);
+  if (!parent) {
+    throw new Error(`Card with id ${parentId} not found`);
   }
 
-  if (req.session?.authenticated) {
-    return next();
+  const created = await storage.transaction(async (store) => {
+    const results: Card[] = [];
+    for (const subcard of subcards) {
+      const project = subcard.project || parent.project;
+      assertProjectAccess(access, project);
+      const card = await store.createCard({ ...subcard, project }, actor);
+      await store.createCardLink(parentId, { targetCardId: card.id, type: "parent-of" }, actor);
+      results.push(card);
+    }
+    return results;
+  });
+
+  created.forEach(card => broadcastToClients({ type: "CARD_CREATED", data: card }));
+  broadcast({ type: "CARDS_BULK_CREATED", data: { cards: created, count: created.length } });
+  return created;
+}
+
+type BatchMoveOperation = { cardId: string; status: string; position?: number };
+
+// Shared by POST /api/cards/batch-move and the batch_move_cards tools
+async function batchMoveCards(operations: BatchMoveOperation[], atomic: boolean, actor: Actor, access: AccessScope) {
+  const { results: updated, failures } = await runBatch(operations, atomic, op => ({ cardId: op.cardId }), async (op, store) => {
+    if (!op.cardId || !op.status) {
+      throw new Error("cardId and status are required");
+    }
+    if (!(await getAccessibleCard(access, op.cardId))) {
+      throw new Error(`Card with id ${op.cardId} not found`);
+    }
+    return store.moveCard(op.cardId, { status: op.status, position: op.position }, actor);
+  });
+
+  // Broadcast only what was saved (after commit for atomic batches)
+  updated.forEach(card => broadcast({ type: "CARD_UPDATED", data: card }));
+  for (const card of updated) {
+    await releaseDependents(card, actor);
   }
-  return res.status(401).json({ message: "Authentication required" });
+
+  return { updated, count: updated.length, failedCount: failures.length, failures };
 }
 
+// Client names reported at initialize, keyed by Mcp-Session-Id
+const mcpClientNames = new Map<string, string>();
+
 // Configure multer for file uploads (memory storage)
   const upload = multer({
   storage: multer.memoryStorage(),
@@ -76,53 +463,55 @@ function requireAuth(req: any, res: any, next: any) {
   },
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup session middleware
-  setupSession(app);
-
-  // Health check endpoint
-  app.get("/api/health", (req, res) => {
-    res.json({ status: "ok", timestamp: new Date().toISOString() });
-  });
-
-  // Auth routes
-  app.post("/api/auth/login", (req: any, res) => {
-    const { passcode } = req.body;
-    
-    if (passcode === PASSCODE) {
-      req.session.authenticated = true;
-      res.json({ success: true, message: "Login successful" });
+// Attachments accept more types than images (checked by extension) and larger files
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE_MB * 1024 * 1024,
+  },
+  fileFilter: (req, file, cb) => {
+    if (getAttachmentContentType(file.originalname)) {
+      cb(null, true);
     } else {
-      res.status(401).json({ message: "Invalid passcode" });
+      cb(new Error(`Unsupported file type for "${file.originalname}".`));
     }
-  });
+  },
+});
 
-  app.get("/api/auth/verify", (req: any, res) => {
-    if (req.session?.authenticated) {
-      res.json({ authenticated: true });
-    } else {
-      res.status(401).json({ authenticated: false });
+// Parse the multipart "file" field, answering 400 for rejected files
+const parseAttachmentUpload: RequestHandler = (req, res, next) => {
+  attachmentUpload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: `File is too large. Maximum size is ${MAX_ATTACHMENT_SIZE_MB}MB.` });
     }
+    if (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : String(error) });
+    }
+    next();
   });
+};
 
-  app.post("/api/auth/logout", (req: any, res) => {
-    req.session.destroy((err: any) => {
-      if (err) {
-        res.status(500).json({ message: "Logout failed" });
-      } else {
-        res.json({ success: true, message: "Logout successful" });
-      }
-    });
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Session, passport and /api/auth/* routes
+  setupAuth(app);
+
+  // Images uploaded to the local-disk image store
+  serveLocalUploads(app);
+
+  // Health check endpoint
+  app.get("/api/health", (req, res) => {
+    res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
   // Image upload endpoint (multipart/form-data from browser)
   app.post("/api/upload-image", requireAuth, upload.single('image'), async (req, res) => {
     try {
-      // Check if R2 is configured
-      if (!isR2Configured()) {
+      const configError = getImageStoreConfigError();
+      if (configError) {
+        console.error('Image upload is not configured:', configError);
         return res.status(503).json({ 
           message: "Image upload is not configured. Please contact administrator.",
-          error: "R2_NOT_CONFIGURED"
+          error: "IMAGE_STORE_NOT_CONFIGURED"
         });
       }
 
@@ -139,12 +528,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Image file is too large. Maximum size is 10MB." });
       }
 
-      // Upload to R2
-      const imageUrl = await uploadImageToR2(
-        file.buffer,
-        file.originalname,
-        file.mimetype
-      );
+      const image = await saveImage(file.buffer, file.originalname, file.mimetype, getRequestActor(req));
+      const imageUrl = image.url;
 
       // Generate markdown with optional width syntax
       const altText = file.originalname.split('.')[0];
@@ -161,11 +546,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         url: imageUrl,
         markdown,
         filename: file.originalname,
-        size: file.size,
+        size: image.size,
         mimeType: file.mimetype,
+        width: image.width,
+        height: image.height,
+        thumbnailUrl: image.thumbnailUrl,
+        webUrl: image.webUrl,
         message: `Image uploaded successfully!\n\nURL: ${imageUrl}\n\nMarkdown syntax to use in cards:\n${markdown}\n\n${width ? `Image will display with max-width: ${width}${width.includes('%') ? '' : 'px'}\n\n` : ''}You can now use this markdown in card descriptions.`
       });
     } catch (error) {
+      if (error instanceof Error && error.name === "InvalidImageError") {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error uploading image:', error);
       res.status(500).json({ 
         message: "Failed to upload image",
@@ -177,11 +569,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Image upload endpoint (JSON with base64 from MCP)
   app.post("/api/upload-image-mcp", requireAuth, async (req, res) => {
     try {
-      // Check if R2 is configured
-      if (!isR2Configured()) {
+      const configError = getImageStoreConfigError();
+      if (configError) {
+        console.error('Image upload is not configured:', configError);
         return res.status(503).json({ 
           message: "Image upload is not configured. Please contact administrator.",
-          error: "R2_NOT_CONFIGURED"
+          error: "IMAGE_STORE_NOT_CONFIGURED"
         });
       }
 
@@ -219,8 +612,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Image file is too large. Maximum size is 10MB.' });
       }
 
-      // Upload to R2
-      const imageUrl = await uploadImageToR2(buffer, filename, detectedMimeType);
+      const image = await saveImage(buffer, filename, detectedMimeType, getRequestActor(req));
+      const imageUrl = image.url;
 
       // Generate markdown with optional width syntax
       const altText = filename.split('.')[0];
@@ -236,9 +629,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         url: imageUrl,
         markdown,
+        width: image.width,
+        height: image.height,
+        thumbnailUrl: image.thumbnailUrl,
+        webUrl: image.webUrl,
         message: `Image uploaded successfully!\n\nURL: ${imageUrl}\n\nMarkdown syntax to use in cards:\n${markdown}\n\n${width ? `Image will display with max-width: ${width}${width.includes('%') ? '' : 'px'}\n\n` : ''}You can now use this markdown in card descriptions.`
       });
     } catch (error) {
+      if (error instanceof Error && error.name === "InvalidImageError") {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error uploading image:', error);
       res.status(500).json({ 
         message: "Failed to upload image",
@@ -247,210 +647,1428 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Uploads no card uses any more. GET reports them (a dry run); POST deletes
+  // them. ?graceHours= overrides UPLOAD_GC_GRACE_HOURS for unreferenced images.
+  const getSweepGraceHours = (value: unknown): number | undefined => {
+    if (value === undefined || value === "") return undefined;
+    const hours = Number(value);
+    if (!Number.isFinite(hours) || hours < 0) {
+      throw new Error("graceHours must be a non-negative number");
+    }
+    return hours;
+  };
+
+  app.get("/api/admin/uploads/orphans", requireAdmin, async (req, res) => {
+    try {
+      const graceHours = getSweepGraceHours(req.query.graceHours);
+      res.json(await sweepOrphanedUploads({ dryRun: true, graceHours }));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("graceHours")) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Failed to report orphaned uploads:', error);
+      res.status(500).json({ message: "Failed to report orphaned uploads" });
+    }
+  });
+
+  app.post("/api/admin/uploads/sweep", requireAdmin, async (req, res) => {
+    try {
+      const graceHours = getSweepGraceHours(req.query.graceHours ?? req.body?.graceHours);
+      res.json(await sweepOrphanedUploads({ dryRun: false, graceHours }));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("graceHours")) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ImageStoreConfigError") {
+        return res.status(503).json({ message: error.message, error: "IMAGE_STORE_NOT_CONFIGURED" });
+      }
+      console.error('Failed to sweep orphaned uploads:', error);
+      res.status(500).json({ message: "Failed to sweep orphaned uploads" });
+    }
+  });
+
   // Protected routes - require authentication
-  // Get all cards
+  // Get all cards (?label=bug,ui keeps cards with any of those labels, like a
+  // label: term in ?query=; ?assignee=alice,bob likewise, where "me" is the
+  // signed-in user; ?sort=priority,dueDate orders them, see shared/card-sort.ts)
   app.get("/api/cards", requireAuth, async (req, res) => {
     try {
-      const { status, project } = req.query;
-      const cards = await storage.getAllCards(project as string);
+      const { status, project, query, label, assignee, sort } = req.query;
+      const sortTerms = parseCardSort(typeof sort === "string" ? sort : "");
+      const parsedQuery = parseCardQuery(typeof query === "string" ? query : "");
+      if (typeof label === "string" && label.trim()) {
+        const values = label.toLowerCase().split(",").map(value => value.trim()).filter(Boolean);
+        parsedQuery.filters.push({ kind: "label", values, negate: false });
+      }
+      if (typeof assignee === "string" && assignee.trim()) {
+        const usernames = assignee.split(",").map(value => value.trim() === "me" ? req.user!.username : value);
+        parsedQuery.filters.push(assigneeFilter(usernames.join(",")));
+      }
+      let cards = await getAccessibleCards(getAccessScope(req), project as string);
+
+      if (parsedQuery.filters.length > 0) {
+        cards = await filterCards(cards, parsedQuery);
+      }
 
       if (status) {
-        const filteredCards = cards
-          .filter(card => card.status === status)
-          .sort((a, b) => parseInt(a.order) - parseInt(b.order));
-        res.json(filteredCards);
+        res.json(sortCards(cards.filter(card => card.status === status), sortTerms));
       } else {
-        res.json(cards);
+        res.json(sortTerms.length > 0 ? sortCards(cards, sortTerms) : cards);
       }
     } catch (error) {
+      if (error instanceof Error && error.name === "CardQueryError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "CardSortError") {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch cards" });
     }
   });
 
-  // Get all projects
-  app.get("/api/projects", async (req, res) => {
+  // Get all projects (archived projects are hidden unless ?includeArchived=true)
+  app.get("/api/projects", requireAuth, async (req, res) => {
     try {
-      const projects = await storage.getProjects();
-      res.json(projects);
+      const includeArchived = req.query.includeArchived === "true";
+      const scope = getAccessScope(req);
+      const projects = await storage.getProjects(includeArchived);
+      res.json(projects.filter(project => canAccessProject(scope, project.slug)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch projects" });
     }
   });
 
-  // Get cards summary (titles and statuses only)
-  app.get("/api/cards/summary", requireAuth, async (req, res) => {
+  // Get single project
+  app.get("/api/projects/:slug", requireAuth, async (req, res) => {
     try {
-      const { project } = req.query;
-      const cards = await storage.getAllCards(project as string);
-      
-      // Create summary with just title and status
-      const summary = cards.map(card => ({
-        id: card.id,
-        title: card.title,
-        status: card.status,
-        project: card.project,
-        order: card.order
-      }));
-      
-      res.json(summary);
+      const project = await storage.getProject(req.params.slug);
+
+      if (!project || !canAccessProject(getAccessScope(req), project.slug)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(project);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get cards summary" });
+      res.status(500).json({ message: "Failed to fetch project" });
     }
   });
 
-  // Get cards summary as markdown
-  app.get("/api/cards/summary/markdown", requireAuth, async (req, res) => {
+  // Create project (slug is derived from the name when not provided)
+  app.post("/api/projects", requireAuth, async (req, res) => {
     try {
-      const { project } = req.query;
-      const cards = await storage.getAllCards(project as string);
-      
-      // Group cards by status
-      const grouped = cards.reduce((acc, card) => {
-        if (!acc[card.status]) {
-          acc[card.status] = [];
-        }
-        acc[card.status].push(card);
-        return acc;
-      }, {} as Record<string, typeof cards>);
-      
-      // Sort cards within each status by order
-      Object.keys(grouped).forEach(status => {
-        grouped[status].sort((a, b) => parseInt(a.order) - parseInt(b.order));
+      const validatedData = insertProjectSchema.parse({
+        ...req.body,
+        slug: req.body.slug || slugifyProjectName(req.body.name || ""),
       });
-      
-      // Generate markdown
-      let markdown = "# Cards Summary\n\n";
-      
-      if (project) {
-        markdown += `**Project:** ${project}\n\n`;
+
+      if (!canAccessProject(getAccessScope(req), validatedData.slug)) {
+        return res.status(403).json({ message: "This API token cannot create projects outside its project list" });
       }
-      
-      const statusLabels = {
-        'not-started': 'Not Started',
-        'blocked': 'Blocked',
-        'in-progress': 'In Progress',
-        'complete': 'Complete',
-        'verified': 'Verified'
-      };
-      
-      for (const [status, statusCards] of Object.entries(grouped)) {
-        if (statusCards.length > 0) {
-          markdown += `## ${statusLabels[status as keyof typeof statusLabels] || status} (${statusCards.length})\n\n`;
-          statusCards.forEach(card => {
-            markdown += `- ${card.title}\n`;
-          });
-          markdown += '\n';
-        }
+
+      if (await storage.getProject(validatedData.slug)) {
+        return res.status(409).json({ message: `Project "${validatedData.slug}" already exists` });
       }
-      
-      res.setHeader('Content-Type', 'text/markdown');
-      res.send(markdown);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to generate markdown summary" });
-    }
-  });
 
-  // Get cards grouped by status (must come before the :id route)
-  app.get("/api/cards/by-status", requireAuth, async (req, res) => {
-    try {
-      const { project } = req.query;
-      const cards = await storage.getAllCards(project as string);
-      const grouped = cards.reduce((acc, card) => {
-        if (!acc[card.status]) {
-          acc[card.status] = [];
-        }
-        acc[card.status].push(card);
-        return acc;
-      }, {} as Record<string, typeof cards>);
-      
-      // Sort cards within each status by order
-      Object.keys(grouped).forEach(status => {
-        grouped[status].sort((a, b) => parseInt(a.order) - parseInt(b.order));
-      });
-      
-      res.json(grouped);
+      const project = await storage.createProject(validatedData);
+
+      broadcast({ type: "PROJECT_CREATED", data: project });
+
+      res.status(201).json(project);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch cards by status" });
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid project data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      res.status(500).json({ message: "Failed to create project" });
     }
   });
 
-  // Get single card
-  app.get("/api/cards/:id", requireAuth, async (req, res) => {
+  // Update project metadata (rename, describe, recolor, archive)
+  app.patch("/api/projects/:slug", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const card = await storage.getCard(id);
-      
-      if (!card) {
-        return res.status(404).json({ message: "Card not found" });
+      if (!canAccessProject(getAccessScope(req), req.params.slug)) {
+        return res.status(404).json({ message: "Project not found" });
       }
-      
-      res.json(card);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch card" });
-    }
-  });
 
-  // Create new card
-  app.post("/api/cards", requireAuth, async (req, res) => {
-    try {
-      const validatedData = insertCardSchema.parse(req.body);
-      const card = await storage.createCard(validatedData);
+      const validatedData = updateProjectSchema.parse(req.body);
+      const project = await storage.updateProject(req.params.slug, validatedData);
 
-      // Broadcast card creation
-      broadcast({ type: "CARD_CREATED", data: card });
+      broadcast({ type: "PROJECT_UPDATED", data: project });
 
-      res.status(201).json(card);
+      res.json(project);
     } catch (error) {
       if (error instanceof Error && error.name === "ZodError") {
         return res.status(400).json({
-          message: "Invalid card data",
+          message: "Invalid project data",
           errors: JSON.parse(error.message)
         });
       }
-      if (error instanceof Error && error.message.includes("validation")) {
-        return res.status(400).json({ message: "Invalid card data" });
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Project not found" });
       }
-      res.status(500).json({ message: "Failed to create card" });
+      if (error instanceof Error && error.name === "StatusInUseError") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update project" });
     }
   });
 
-  // Bulk create cards
-  app.post("/api/cards/bulk", requireAuth, async (req, res) => {
+  // Delete project - only allowed once it has no cards (archive it otherwise)
+  app.delete("/api/projects/:slug", requireAuth, async (req, res) => {
     try {
-      const { cards } = req.body;
+      const { slug } = req.params;
 
-      if (!Array.isArray(cards) || cards.length === 0) {
-        return res.status(400).json({ message: "Cards array is required and cannot be empty" });
+      if (!canAccessProject(getAccessScope(req), slug)) {
+        return res.status(404).json({ message: "Project not found" });
       }
 
-      if (cards.length > 20) {
-        return res.status(400).json({ message: "Maximum 20 cards can be created at once" });
-      }
+      const cardCount = await storage.countProjectCards(slug);
 
-      const createdCards = [];
-      const failedCards = [];
+      if (cardCount > 0) {
+        return res.status(409).json({
+          message: `Project "${slug}" still has ${cardCount} card${cardCount !== 1 ? 's' : ''}. Delete or move them first, or archive the project instead.`
+        });
+      }
+
+      const deleted = await storage.deleteProject(slug);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      broadcast({ type: "PROJECT_DELETED", data: { slug } });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  // Everyone cards can be assigned to, by username
+  app.get("/api/users", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getUsers());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Labels of a project, by name
+  app.get("/api/projects/:slug/labels", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await storage.getLabels(slug));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch labels" });
+    }
+  });
+
+  app.post("/api/projects/:slug/labels", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug) || !(await storage.getProject(slug))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const validatedData = insertLabelSchema.parse(req.body);
+      const label = await storage.createLabel(slug, validatedData);
+
+      broadcast({ type: "LABEL_CREATED", data: label });
+
+      res.status(201).json(label);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid label data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "DuplicateLabelError") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create label" });
+    }
+  });
+
+  // Rename or recolor a label; cards carrying it show the change
+  app.patch("/api/projects/:slug/labels/:labelId", requireAuth, async (req, res) => {
+    try {
+      const { slug, labelId } = req.params;
+      if (!(await getAccessibleLabel(getAccessScope(req), slug, labelId))) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+
+      const validatedData = updateLabelSchema.parse(req.body);
+      const label = await storage.updateLabel(labelId, validatedData);
+
+      broadcast({ type: "LABEL_UPDATED", data: label });
+
+      res.json(label);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid label data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "DuplicateLabelError") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      res.status(500).json({ message: "Failed to update label" });
+    }
+  });
+
+  // Delete a label, removing it from every card
+  app.delete("/api/projects/:slug/labels/:labelId", requireAuth, async (req, res) => {
+    try {
+      const { slug, labelId } = req.params;
+      if (!(await getAccessibleLabel(getAccessScope(req), slug, labelId))) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+
+      const label = await storage.deleteLabel(labelId);
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+
+      broadcast({ type: "LABEL_DELETED", data: label });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete label" });
+    }
+  });
+
+  // Automation rules of every project the caller may see, or of ?project=,
+  // each with a description in words
+  app.get("/api/automation-rules", requireAuth, async (req, res) => {
+    try {
+      const project = typeof req.query.project === "string" ? req.query.project : undefined;
+      res.json(await listAutomationRules(getAccessScope(req), project));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch automation rules" });
+    }
+  });
+
+  // Automation rules of a project, in the order they run
+  app.get("/api/projects/:slug/automation-rules", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await listAutomationRules(getAccessScope(req), slug));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch automation rules" });
+    }
+  });
+
+  // Returns the rule's signing secret once; later reads leave it out
+  app.post("/api/projects/:slug/automation-rules", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug) || !(await storage.getProject(slug))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const validatedData = insertAutomationRuleSchema.parse(req.body);
+      const rule = await storage.createAutomationRule(slug, validatedData, generateWebhookSecret());
+
+      broadcast({ type: "AUTOMATION_RULE_CREATED", data: toPublicAutomationRule(rule) });
+
+      res.status(201).json({ ...toPublicAutomationRule(rule), secret: rule.secret });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid automation rule",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create automation rule" });
+    }
+  });
+
+  // Change a rule, e.g. { "enabled": false } to pause it
+  app.patch("/api/projects/:slug/automation-rules/:ruleId", requireAuth, async (req, res) => {
+    try {
+      const { slug, ruleId } = req.params;
+      if (!(await getAccessibleAutomationRule(getAccessScope(req), slug, ruleId))) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+
+      const validatedData = updateAutomationRuleSchema.parse(req.body);
+      const rule = toPublicAutomationRule(await storage.updateAutomationRule(ruleId, validatedData));
+
+      broadcast({ type: "AUTOMATION_RULE_UPDATED", data: rule });
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid automation rule",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+      res.status(500).json({ message: "Failed to update automation rule" });
+    }
+  });
+
+  // Replace a rule's signing secret, e.g. after adding a webhook action to it;
+  // the answer is the only time the new secret is shown
+  app.post("/api/projects/:slug/automation-rules/:ruleId/secret", requireAuth, async (req, res) => {
+    try {
+      const { slug, ruleId } = req.params;
+      if (!(await getAccessibleAutomationRule(getAccessScope(req), slug, ruleId))) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+
+      const rule = await storage.setAutomationRuleSecret(ruleId, generateWebhookSecret());
+      if (!rule) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+
+      res.json({ ...toPublicAutomationRule(rule), secret: rule.secret });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to replace the automation rule's secret" });
+    }
+  });
+
+  app.delete("/api/projects/:slug/automation-rules/:ruleId", requireAuth, async (req, res) => {
+    try {
+      const { slug, ruleId } = req.params;
+      if (!(await getAccessibleAutomationRule(getAccessScope(req), slug, ruleId))) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+
+      const rule = await storage.deleteAutomationRule(ruleId);
+      if (!rule) {
+        return res.status(404).json({ message: "Automation rule not found" });
+      }
+
+      broadcast({ type: "AUTOMATION_RULE_DELETED", data: toPublicAutomationRule(rule) });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete automation rule" });
+    }
+  });
+
+  // Outgoing webhooks of a project (see server/webhooks.ts), without secrets
+  app.get("/api/projects/:slug/webhooks", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const webhooks = await storage.getWebhooks(slug);
+      res.json(webhooks.map(toPublicWebhook));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  // Returns the signing secret once; later reads leave it out
+  app.post("/api/projects/:slug/webhooks", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug) || !(await storage.getProject(slug))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const validatedData = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook(slug, validatedData, generateWebhookSecret());
+
+      broadcast({ type: "WEBHOOK_CREATED", data: toPublicWebhook(webhook) });
+
+      res.status(201).json({ ...toPublicWebhook(webhook), secret: webhook.secret });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid webhook",
+          errors: JSON.parse(error.message)
+        });
+      }
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  // Change a webhook, e.g. { "enabled": false } to pause deliveries
+  app.patch("/api/projects/:slug/webhooks/:webhookId", requireAuth, async (req, res) => {
+    try {
+      const { slug, webhookId } = req.params;
+      if (!(await getAccessibleWebhook(getAccessScope(req), slug, webhookId))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const validatedData = updateWebhookSchema.parse(req.body);
+      const webhook = toPublicWebhook(await storage.updateWebhook(webhookId, validatedData));
+
+      broadcast({ type: "WEBHOOK_UPDATED", data: webhook });
+
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid webhook",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/projects/:slug/webhooks/:webhookId", requireAuth, async (req, res) => {
+    try {
+      const { slug, webhookId } = req.params;
+      if (!(await getAccessibleWebhook(getAccessScope(req), slug, webhookId))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const webhook = await storage.deleteWebhook(webhookId);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      broadcast({ type: "WEBHOOK_DELETED", data: toPublicWebhook(webhook) });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Delivery log of a webhook, newest first (?limit=, default 50)
+  app.get("/api/projects/:slug/webhooks/:webhookId/deliveries", requireAuth, async (req, res) => {
+    try {
+      const { slug, webhookId } = req.params;
+      if (!(await getAccessibleWebhook(getAccessScope(req), slug, webhookId))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const requested = Number(req.query.limit);
+      const limit = Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_DELIVERY_LOG_LIMIT)
+        : DEFAULT_DELIVERY_LOG_LIMIT;
+      res.json(await storage.getWebhookDeliveries(webhookId, limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Send a delivery's payload again, as a new delivery
+  app.post("/api/projects/:slug/webhooks/:webhookId/deliveries/:deliveryId/redeliver", requireAuth, async (req, res) => {
+    try {
+      const { slug, webhookId, deliveryId } = req.params;
+      if (!(await getAccessibleWebhook(getAccessScope(req), slug, webhookId))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const delivery = await storage.getWebhookDelivery(deliveryId);
+      if (!delivery || delivery.webhookId !== webhookId) {
+        return res.status(404).json({ message: "Webhook delivery not found" });
+      }
+
+      res.status(201).json(await redeliverWebhook(delivery));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
+
+  // Incoming webhooks of a project (see server/incoming-hooks.ts), without tokens
+  app.get("/api/projects/:slug/incoming-hooks", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug)) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const hooks = await storage.getIncomingHooks(slug);
+      res.json(hooks.map(toPublicIncomingHook));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch incoming hooks" });
+    }
+  });
+
+  // Returns the token once, as part of the hook's URL path; only its hash is stored
+  app.post("/api/projects/:slug/incoming-hooks", requireAuth, async (req, res) => {
+    try {
+      const { slug } = req.params;
+      if (!canAccessProject(getAccessScope(req), slug) || !(await storage.getProject(slug))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const validatedData = insertIncomingHookSchema.parse(req.body);
+      const token = generateHookToken();
+      const hook = toPublicIncomingHook(await storage.createIncomingHook(slug, validatedData, {
+        tokenHash: hashHookToken(token),
+        tokenPrefix: getHookTokenPrefix(token),
+      }));
+
+      broadcast({ type: "INCOMING_HOOK_CREATED", data: hook });
+
+      res.status(201).json({ ...hook, token, path: `/api/hooks/${encodeURIComponent(slug)}/${token}` });
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid incoming hook",
+          errors: JSON.parse(error.message)
+        });
+      }
+      res.status(500).json({ message: "Failed to create incoming hook" });
+    }
+  });
+
+  // Change a hook, e.g. its mapping, or { "enabled": false } to refuse deliveries
+  app.patch("/api/projects/:slug/incoming-hooks/:hookId", requireAuth, async (req, res) => {
+    try {
+      const { slug, hookId } = req.params;
+      if (!(await getAccessibleIncomingHook(getAccessScope(req), slug, hookId))) {
+        return res.status(404).json({ message: "Incoming hook not found" });
+      }
+
+      const validatedData = updateIncomingHookSchema.parse(req.body);
+      const hook = toPublicIncomingHook(await storage.updateIncomingHook(hookId, validatedData));
+
+      broadcast({ type: "INCOMING_HOOK_UPDATED", data: hook });
+
+      res.json(hook);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid incoming hook",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Incoming hook not found" });
+      }
+      res.status(500).json({ message: "Failed to update incoming hook" });
+    }
+  });
+
+  app.delete("/api/projects/:slug/incoming-hooks/:hookId", requireAuth, async (req, res) => {
+    try {
+      const { slug, hookId } = req.params;
+      if (!(await getAccessibleIncomingHook(getAccessScope(req), slug, hookId))) {
+        return res.status(404).json({ message: "Incoming hook not found" });
+      }
+
+      const hook = await storage.deleteIncomingHook(hookId);
+      if (!hook) {
+        return res.status(404).json({ message: "Incoming hook not found" });
+      }
+
+      broadcast({ type: "INCOMING_HOOK_DELETED", data: toPublicIncomingHook(hook) });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete incoming hook" });
+    }
+  });
+
+  // Deliveries from external systems. The token in the path is the only
+  // credential, so there is no session or bearer token; any JSON body is
+  // mapped to a card by the hook's templates. An Idempotency-Key header (or
+  // the hook's key template) makes repeats update the card they created.
+  app.post("/api/hooks/:project/:token", async (req, res) => {
+    try {
+      const { project, token } = req.params;
+      const hook = await storage.getIncomingHookByTokenHash(hashHookToken(token));
+      if (!hook || hook.project !== project) {
+        return res.status(404).json({ message: "Hook not found" });
+      }
+      if (!hook.enabled) {
+        return res.status(403).json({ message: "This hook is disabled" });
+      }
+
+      const result = await receiveIncomingHook(hook, req.body, req.get("Idempotency-Key"));
+      await storage.touchIncomingHook(hook.id);
+
+      if (result.created) {
+        broadcast({ type: "CARD_CREATED", data: result.card });
+      } else {
+        broadcast({ type: "CARD_UPDATED", data: result.card });
+        await releaseDependents(result.card, { type: "webhook", name: hook.name });
+      }
+
+      res.status(result.created ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof Error && error.name === "IncomingHookPayloadError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid card data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
+      res.status(500).json({ message: "Failed to process hook delivery" });
+    }
+  });
+
+  // Full-text search; matched terms in `highlights` are wrapped in ⟦ ⟧
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q : "";
+      const { project } = req.query;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+
+      if (!q.trim()) {
+        return res.status(400).json({ message: "Query parameter q is required" });
+      }
+
+      const results = await storage.searchCards(q, {
+        project: project as string | undefined,
+        projects: getAccessScope(req).projects,
+        limit,
+      });
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search cards" });
+    }
+  });
+
+  // Get cards summary (titles and statuses only)
+  app.get("/api/cards/summary", requireAuth, async (req, res) => {
+    try {
+      const { project } = req.query;
+      const cards = await getAccessibleCards(getAccessScope(req), project as string);
+      
+      // Create summary with just title and status
+      const summary = cards.map(card => ({
+        id: card.id,
+        title: card.title,
+        status: card.status,
+        project: card.project,
+        order: card.order
+      }));
+      
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get cards summary" });
+    }
+  });
+
+  // Get cards summary as markdown
+  app.get("/api/cards/summary/markdown", requireAuth, async (req, res) => {
+    try {
+      const { project } = req.query;
+      const cards = await getAccessibleCards(getAccessScope(req), project as string);
+      
+      const statuses = await getWorkflow(project as string | undefined);
+      const grouped = groupCardsByStatus(cards, statuses);
+      
+      // Generate markdown
+      let markdown = "# Cards Summary\n\n";
+      
+      if (project) {
+        markdown += `**Project:** ${project}\n\n`;
+      }
+      
+      for (const [status, statusCards] of Object.entries(grouped)) {
+        if (statusCards.length > 0) {
+          markdown += `## ${getStatusDefinition(statuses, status).label} (${statusCards.length})\n\n`;
+          statusCards.forEach(card => {
+            markdown += `- ${card.title}\n`;
+          });
+          markdown += '\n';
+        }
+      }
+      
+      res.setHeader('Content-Type', 'text/markdown');
+      res.send(markdown);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate markdown summary" });
+    }
+  });
+
+  // Get cards grouped by status (must come before the :id route)
+  app.get("/api/cards/by-status", requireAuth, async (req, res) => {
+    try {
+      const { project, sort } = req.query;
+      const sortTerms = parseCardSort(typeof sort === "string" ? sort : "");
+      const cards = await getAccessibleCards(getAccessScope(req), project as string);
+      const grouped = groupCardsByStatus(cards, await getWorkflow(project as string | undefined), sortTerms);
+      
+      res.json(grouped);
+    } catch (error) {
+      if (error instanceof Error && error.name === "CardSortError") {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch cards by status" });
+    }
+  });
+
+  // Open blockers of every blocked card: card id -> cards that block it and are
+  // not resolved yet (registered before /api/cards/:id, which would match "blockers")
+  app.get("/api/cards/blockers", requireAuth, async (req, res) => {
+    try {
+      const scope = getAccessScope(req);
+      const blockers: Record<string, LinkedCard[]> = {};
+      for (const [cardId, cardBlockers] of Object.entries(await storage.getOpenBlockers())) {
+        const visible = cardBlockers.filter(blocker => canAccessProject(scope, blocker.project));
+        if (visible.length > 0) {
+          blockers[cardId] = visible;
+        }
+      }
+      res.json(blockers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch blockers" });
+    }
+  });
+
+  // Sub-cards of every epic: card id -> its sub-cards, with their statuses for
+  // the rolled-up progress (registered before /api/cards/:id)
+  app.get("/api/cards/subcards", requireAuth, async (req, res) => {
+    try {
+      const scope = getAccessScope(req);
+      const subcards: Record<string, LinkedCard[]> = {};
+      for (const [parentId, children] of Object.entries(await storage.getSubcardsByParent())) {
+        const visible = children.filter(child => canAccessProject(scope, child.project));
+        if (visible.length > 0) {
+          subcards[parentId] = visible;
+        }
+      }
+      res.json(subcards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sub-cards" });
+    }
+  });
+
+  // Assignees of every assigned card: card id -> its assignees (registered
+  // before /api/cards/:id)
+  app.get("/api/cards/assignees", requireAuth, async (req, res) => {
+    try {
+      const visibleIds = new Set((await getAccessibleCards(getAccessScope(req))).map(card => card.id));
+      const assigneesByCard: Record<string, Assignee[]> = {};
+      for (const [cardId, assignees] of Object.entries(await storage.getAssigneesByCard())) {
+        if (visibleIds.has(cardId)) {
+          assigneesByCard[cardId] = assignees;
+        }
+      }
+      res.json(assigneesByCard);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card assignees" });
+    }
+  });
+
+  // Labels of every labelled card: card id -> its labels (registered before
+  // /api/cards/:id)
+  app.get("/api/cards/labels", requireAuth, async (req, res) => {
+    try {
+      const scope = getAccessScope(req);
+      const labelsByCard: Record<string, Label[]> = {};
+      for (const [cardId, cardLabels] of Object.entries(await storage.getLabelsByCard())) {
+        if (canAccessProject(scope, cardLabels[0].project)) {
+          labelsByCard[cardId] = cardLabels;
+        }
+      }
+      res.json(labelsByCard);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card labels" });
+    }
+  });
+
+  // Get single card
+  app.get("/api/cards/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const card = await getAccessibleCard(getAccessScope(req), id);
+      
+      if (!card) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      res.json(card);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card" });
+    }
+  });
+
+  // Get the audit log of a card, newest first (still available after deletion)
+  app.get("/api/cards/:id/history", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const scope = getAccessScope(req);
+      const events = (await storage.getCardHistory(id)).filter(event => canAccessProject(scope, event.project));
+
+      if (events.length === 0 && !(await getAccessibleCard(scope, id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card history" });
+    }
+  });
+
+  // Comments of a card, oldest first. Replies carry the id of their thread's
+  // first comment as parentId; ?threaded=true nests them under it instead.
+  app.get("/api/cards/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const cardComments = await storage.getComments(id);
+      res.json(req.query.threaded === "true" ? groupCommentThreads(cardComments) : cardComments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/cards/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertCommentSchema.parse(req.body);
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const comment = await storage.createComment(id, validatedData, getRequestActor(req));
+      broadcast({ type: "COMMENT_CREATED", data: comment });
+
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid comment data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidCommentParentError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Edit a comment; the previous text is kept in its revision history
+  app.patch("/api/cards/:id/comments/:commentId", requireAuth, async (req, res) => {
+    try {
+      const { id, commentId } = req.params;
+      const { content } = updateCommentSchema.parse(req.body);
+
+      if (!(await getAccessibleComment(getAccessScope(req), id, commentId))) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const comment = await storage.updateComment(commentId, content, getRequestActor(req));
+      broadcast({ type: "COMMENT_UPDATED", data: comment });
+
+      res.json(comment);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid comment data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Delete a comment together with its replies
+  app.delete("/api/cards/:id/comments/:commentId", requireAuth, async (req, res) => {
+    try {
+      const { id, commentId } = req.params;
+
+      if (!(await getAccessibleComment(getAccessScope(req), id, commentId))) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const deleted = await storage.deleteComment(commentId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      broadcast({ type: "COMMENT_DELETED", data: { id: commentId, cardId: id } });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Edit history of a comment, oldest first: each entry is the text an edit replaced
+  app.get("/api/cards/:id/comments/:commentId/revisions", requireAuth, async (req, res) => {
+    try {
+      const { id, commentId } = req.params;
+
+      if (!(await getAccessibleComment(getAccessScope(req), id, commentId))) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      res.json(await storage.getCommentRevisions(commentId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comment history" });
+    }
+  });
+
+  // Tasks of a card, in list order. They mirror the checkboxes of the card's
+  // description, so changing them also rewrites the description.
+  app.get("/api/cards/:id/tasks", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json(await storage.getTasks(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  // Add a task, at the end unless a position is given
+  app.post("/api/cards/:id/tasks", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertTaskSchema.parse(req.body);
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const task = await storage.createTask(id, validatedData, getRequestActor(req));
+      await broadcastTaskChange(id);
+
+      res.status(201).json(task);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid task data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.status(500).json({ message: "Failed to add task" });
+    }
+  });
+
+  // Set the order of a card's tasks; taskIds must list each of them once
+  // (registered before /tasks/:taskId, which would match "order")
+  app.put("/api/cards/:id/tasks/order", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { taskIds } = reorderTasksSchema.parse(req.body);
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const tasks = await storage.reorderTasks(id, taskIds, getRequestActor(req));
+      await broadcastTaskChange(id);
+
+      res.json(tasks);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid task order",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidTaskOrderError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.status(500).json({ message: "Failed to reorder tasks" });
+    }
+  });
+
+  // Edit, check or uncheck a task, or change its assignee or due date
+  app.patch("/api/cards/:id/tasks/:taskId", requireAuth, async (req, res) => {
+    try {
+      const { id, taskId } = req.params;
+      const validatedData = updateTaskSchema.parse(req.body);
+
+      if (!(await getAccessibleTask(getAccessScope(req), id, taskId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const task = await storage.updateTask(taskId, validatedData, getRequestActor(req));
+      await broadcastTaskChange(id);
+
+      res.json(task);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid task data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      res.status(500).json({ message: "Failed to update task" });
+    }
+  });
+
+  // Remove a task and its checkbox line
+  app.delete("/api/cards/:id/tasks/:taskId", requireAuth, async (req, res) => {
+    try {
+      const { id, taskId } = req.params;
+
+      if (!(await getAccessibleTask(getAccessScope(req), id, taskId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const deleted = await storage.deleteTask(taskId, getRequestActor(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      await broadcastTaskChange(id);
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // Sub-cards of an epic with its rolled-up progress
+  app.get("/api/cards/:id/subcards", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const scope = getAccessScope(req);
+
+      if (!(await getAccessibleCard(scope, id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const subcards = (await storage.getSubcards(id)).filter(card => canAccessProject(scope, card.project));
+      res.json({ subcards, progress: calculateSubcardProgress(subcards) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sub-cards" });
+    }
+  });
+
+  // Break an epic into sub-cards: { subcards: [{ title, description?, status?, ... }] }
+  app.post("/api/cards/:id/subcards", requireAuth, async (req, res) => {
+    try {
+      const validatedData = createSubcardsSchema.parse(req.body);
+      const created = await createSubcards(req.params.id, validatedData, getRequestActor(req), getAccessScope(req));
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid sub-card data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidAssigneeError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ProjectAccessError") {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.status(500).json({ message: "Failed to create sub-cards" });
+    }
+  });
+
+  // Links of a card (blocks, blocked-by, relates-to, ...), oldest first
+  app.get("/api/cards/:id/links", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const scope = getAccessScope(req);
 
-      for (let i = 0; i < cards.length; i++) {
-        const cardData = cards[i];
-        try {
+      if (!(await getAccessibleCard(scope, id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json(await getAccessibleCardLinks(scope, id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch card links" });
+    }
+  });
+
+  // Link a card to another; the link is described from this card's side
+  app.post("/api/cards/:id/links", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertCardLinkSchema.parse(req.body);
+      const scope = getAccessScope(req);
+
+      if (!(await getAccessibleCard(scope, id)) || !(await getAccessibleCard(scope, validatedData.targetCardId))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const link = await storage.createCardLink(id, validatedData, getRequestActor(req));
+      broadcast({ type: "CARD_LINK_CREATED", data: { id: link.id, cardId: id, targetCardId: validatedData.targetCardId } });
+
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid link data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidCardLinkError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      res.status(500).json({ message: "Failed to link cards" });
+    }
+  });
+
+  // Remove a link; either of the linked cards can be named
+  app.delete("/api/cards/:id/links/:linkId", requireAuth, async (req, res) => {
+    try {
+      const { id, linkId } = req.params;
+      const link = await storage.getCardLink(linkId);
+
+      if (!link || (link.sourceCardId !== id && link.targetCardId !== id) || !(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+
+      await storage.deleteCardLink(linkId);
+      broadcast({ type: "CARD_LINK_DELETED", data: { id: linkId, cardId: link.sourceCardId, targetCardId: link.targetCardId } });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete link" });
+    }
+  });
+
+  // Files attached to a card, oldest first
+  app.get("/api/cards/:id/attachments", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      res.json(await storage.getAttachments(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Attach a file (multipart/form-data, field "file")
+  app.post("/api/cards/:id/attachments", requireAuth, async (req, res, next) => {
+    // Check the card before reading the upload into memory
+    try {
+      if (!(await getAccessibleCard(getAccessScope(req), req.params.id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to attach file" });
+    }
+  }, parseAttachmentUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+
+      const attachment = await attachFile(req.params.id, req.file.buffer, req.file.originalname, getRequestActor(req));
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof Error && error.name === "InvalidAttachmentError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ImageStoreConfigError") {
+        console.error('File upload is not configured:', error.message);
+        return res.status(503).json({
+          message: "File upload is not configured. Please contact administrator.",
+          error: "IMAGE_STORE_NOT_CONFIGURED"
+        });
+      }
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      console.error('Error attaching file:', error);
+      res.status(500).json({ message: "Failed to attach file" });
+    }
+  });
+
+  // Remove an attachment from a card and delete its file
+  app.delete("/api/cards/:id/attachments/:attachmentId", requireAuth, async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+
+      if (!(await getAccessibleAttachment(getAccessScope(req), id, attachmentId))) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const deleted = await storage.deleteAttachment(attachmentId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      try {
+        await deleteStoredFiles([deleted.storageKey]);
+      } catch (error) {
+        // The attachment is gone either way; the file only costs space
+        console.error(`Failed to delete attachment file ${deleted.storageKey}:`, error);
+      }
+
+      broadcast({ type: "ATTACHMENT_DELETED", data: { id: attachmentId, cardId: id } });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Create new card
+  app.post("/api/cards", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertCardSchema.parse(req.body);
+      assertProjectAccess(getAccessScope(req), validatedData.project || "default");
+      const card = await storage.createCard(validatedData, getRequestActor(req));
+
+      // Broadcast card creation
+      broadcast({ type: "CARD_CREATED", data: card });
+
+      res.status(201).json(card);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        return res.status(400).json({
+          message: "Invalid card data",
+          errors: JSON.parse(error.message)
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidAssigneeError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ProjectAccessError") {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.includes("validation")) {
+        return res.status(400).json({ message: "Invalid card data" });
+      }
+      res.status(500).json({ message: "Failed to create card" });
+    }
+  });
+
+  // Bulk create cards
+  app.post("/api/cards/bulk", requireAuth, async (req, res) => {
+    try {
+      const { cards, atomic } = req.body;
+
+      if (!Array.isArray(cards) || cards.length === 0) {
+        return res.status(400).json({ message: "Cards array is required and cannot be empty" });
+      }
+
+      if (cards.length > 20) {
+        return res.status(400).json({ message: "Maximum 20 cards can be created at once" });
+      }
+
+      const scope = getAccessScope(req);
+      const { results: createdCards, failures: failedCards } = await runBatch(
+        cards,
+        atomic === true,
+        (cardData: any) => ({ title: cardData?.title }),
+        async (cardData, store) => {
           const validatedData = insertCardSchema.parse(cardData);
-          const card = await storage.createCard(validatedData);
-          createdCards.push(card);
+          assertProjectAccess(scope, validatedData.project || "default");
+          return store.createCard(validatedData, getRequestActor(req));
+        },
+      );
 
-          // Broadcast each card creation with a small delay to prevent message loss
-          broadcast({ type: "CARD_CREATED", data: card });
-          
-          // Small delay to ensure WebSocket messages are processed properly
-          if (i < cards.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 10));
-          }
-        } catch (error) {
-          console.error(`Error creating card ${i}:`, error);
-          failedCards.push({
-            index: i,
-            title: cardData.title || `Card ${i}`,
-            error: error instanceof Error ? error.message : String(error)
-          });
+      // Broadcast each card creation with a small delay to prevent message loss
+      for (let i = 0; i < createdCards.length; i++) {
+        broadcastToClients({ type: "CARD_CREATED", data: createdCards[i] });
+        if (i < createdCards.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 10));
         }
       }
 
@@ -475,6 +2093,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json(result);
     } catch (error) {
+      if (error instanceof BatchAbortedError) {
+        return res.status(400).json({ message: error.message, rolledBack: true, failedCards: [error.failure] });
+      }
       console.error('Error bulk creating cards:', error);
       res.status(500).json({ message: "Failed to bulk create cards" });
     }
@@ -485,10 +2106,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const validatedData = updateCardSchema.parse(req.body);
-      const card = await storage.updateCard(id, validatedData);
+      const scope = getAccessScope(req);
+
+      if (!(await getAccessibleCard(scope, id))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (validatedData.project) {
+        assertProjectAccess(scope, validatedData.project);
+      }
+
+      const card = await storage.updateCard(id, validatedData, getRequestActor(req));
 
       // Broadcast card update
       broadcast({ type: "CARD_UPDATED", data: card });
+      await releaseDependents(card, getRequestActor(req));
 
       res.json(card);
     } catch (error) {
@@ -501,6 +2132,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.message.includes("not found")) {
         return res.status(404).json({ message: "Card not found" });
       }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
+      if (error instanceof Error && error.name === "InvalidAssigneeError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.name === "ProjectAccessError") {
+        return res.status(403).json({ message: error.message });
+      }
       if (error instanceof Error && error.message.includes("validation")) {
         return res.status(400).json({ message: "Invalid card data" });
       }
@@ -508,113 +2165,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete card
-  app.delete("/api/cards/:id", requireAuth, async (req, res) => {
+  // Bulk delete cards by IDs (registered before /api/cards/:id, which would match "bulk")
+  app.delete("/api/cards/bulk", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const deleted = await storage.deleteCard(id);
+      const { ids, atomic } = req.body;
 
-      if (!deleted) {
-        return res.status(404).json({ message: "Card not found" });
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ error: 'ids must be a non-empty array' });
       }
 
-      // Broadcast card deletion
-      broadcast({ type: "CARD_DELETED", data: { id } });
-
-      res.status(204).send();
+      res.json(await bulkDeleteCards(ids, atomic === true, getRequestActor(req), getAccessScope(req)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete card" });
+      if (error instanceof BatchAbortedError) {
+        return res.status(400).json({ error: error.message, rolledBack: true, failures: [error.failure] });
+      }
+      console.error('Error bulk deleting cards:', error);
+      res.status(500).json({ error: 'Failed to bulk delete cards' });
     }
   });
 
-  // Bulk delete cards by IDs
-  app.delete("/api/cards/bulk", requireAuth, async (req, res) => {
+  // Delete card
+  app.delete("/api/cards/:id", requireAuth, async (req, res) => {
     try {
-      const { ids } = req.body;
+      const { id } = req.params;
 
-      if (!Array.isArray(ids) || ids.length === 0) {
-        return res.status(400).json({ error: 'ids must be a non-empty array' });
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
       }
 
-      // Delete each card
-      const deletedIds = [];
-      for (const id of ids) {
-        try {
-          const deleted = await storage.deleteCard(id);
-          if (deleted) {
-            deletedIds.push(id);
-          }
-        } catch (error) {
-          console.error(`Error deleting card ${id}:`, error);
-          // Continue with other cards even if one fails
-        }
-      }
+      const deleted = await storage.deleteCard(id, getRequestActor(req));
 
-      // Broadcast deletions to all WebSocket clients
-      if (deletedIds.length > 0) {
-        broadcast({
-          type: 'CARDS_BULK_DELETED',
-          data: deletedIds
-        });
+      if (!deleted) {
+        return res.status(404).json({ message: "Card not found" });
       }
 
-      res.json({
-        deletedCount: deletedIds.length,
-        deletedIds,
-        requestedCount: ids.length
-      });
+      // Broadcast card deletion
+      broadcast({ type: "CARD_DELETED", data: { id } });
+
+      res.status(204).send();
     } catch (error) {
-      console.error('Error bulk deleting cards:', error);
-      res.status(500).json({ error: 'Failed to bulk delete cards' });
+      res.status(500).json({ message: "Failed to delete card" });
     }
   });
 
-  // Move card to specific status (simplified endpoint)
+  // Move card to specific status, optionally at a 0-based position or between
+  // two neighbouring cards (afterId / beforeId)
   app.post("/api/cards/:id/move", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { status, position } = req.body;
+      const { status, position, afterId, beforeId } = req.body;
 
       if (!status) {
         return res.status(400).json({ message: "Status is required" });
       }
 
-      // Get all cards in the target status to calculate order
-      const allCards = await storage.getAllCards();
-      const targetStatusCards = allCards
-        .filter(card => card.status === status && card.id !== id)
-        .sort((a, b) => parseInt(a.order) - parseInt(b.order));
-
-      let newOrder: string;
-      if (position === undefined || position >= targetStatusCards.length) {
-        // Add to end
-        newOrder = (targetStatusCards.length + 1).toString();
-      } else {
-        // Insert at position - update orders of existing cards
-        newOrder = (position + 1).toString();
-
-        // Update orders of cards that need to shift down
-        for (let i = position; i < targetStatusCards.length; i++) {
-          const cardToUpdate = targetStatusCards[i];
-          await storage.updateCard(cardToUpdate.id, {
-            order: (parseInt(cardToUpdate.order) + 1).toString()
-          });
-        }
+      if (!(await getAccessibleCard(getAccessScope(req), id))) {
+        return res.status(404).json({ message: "Card not found" });
       }
 
-      const updatedCard = await storage.updateCard(id, {
-        status,
-        order: newOrder
-      });
+      // Only the moved card is written; its rank is picked between its new neighbours
+      const updatedCard = await storage.moveCard(id, { status, position, afterId, beforeId }, getRequestActor(req));
 
       // Broadcast card move
       broadcast({ type: "CARD_UPDATED", data: updatedCard });
+      await releaseDependents(updatedCard, getRequestActor(req));
 
       res.json(updatedCard);
     } catch (error) {
       if (error instanceof Error && error.message.includes("not found")) {
         return res.status(404).json({ message: "Card not found" });
       }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
       res.status(500).json({ message: "Failed to move card" });
     }
   });
@@ -627,20 +2267,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!cardId || !newStatus || newOrder === undefined) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+
+      if (!(await getAccessibleCard(getAccessScope(req), cardId))) {
+        return res.status(404).json({ message: "Card not found" });
+      }
       
       const card = await storage.updateCard(cardId, { 
         status: newStatus, 
         order: newOrder.toString() 
-      });
+      }, getRequestActor(req));
       
       // Broadcast card reorder
       broadcast({ type: "CARD_UPDATED", data: card });
+      await releaseDependents(card, getRequestActor(req));
       
       res.json(card);
     } catch (error) {
       if (error instanceof Error && error.message.includes("not found")) {
         return res.status(404).json({ message: "Card not found" });
       }
+      if (error instanceof Error && error.name === "InvalidStatusError") {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkflowRuleError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WORKFLOW_RULE_VIOLATION",
+          status: error.status.key,
+          violations: error.violations,
+        });
+      }
+      if (error instanceof WipLimitExceededError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "WIP_LIMIT_EXCEEDED",
+          status: error.status.key,
+          wipLimit: error.status.wipLimit,
+          count: error.count,
+        });
+      }
       res.status(500).json({ message: "Failed to reorder card" });
     }
   });
@@ -648,62 +2313,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Batch move multiple cards
   app.post("/api/cards/batch-move", requireAuth, async (req, res) => {
     try {
-      const { operations } = req.body;
+      const { operations, atomic } = req.body;
 
       if (!Array.isArray(operations)) {
         return res.status(400).json({ message: "Operations must be an array" });
       }
 
-      const results = [];
-
-      for (const op of operations) {
-        const { cardId, status, position } = op;
+      res.json(await batchMoveCards(operations, atomic === true, getRequestActor(req), getAccessScope(req)));
+    } catch (error) {
+      if (error instanceof BatchAbortedError) {
+        return res.status(400).json({ message: error.message, rolledBack: true, failures: [error.failure] });
+      }
+      res.status(500).json({ message: "Failed to batch move cards" });
+    }
+  });
+
+  // ===== MCP (Model Context Protocol) Endpoints =====
+
+  // Create MCP Server instance
+  const mcpServer = new McpServer({
+    name: "kanban-integrated-server",
+    version: "1.0.0"
+  });
+
+
+  // Register MCP tools using the SDK
+  mcpServer.registerTool(
+    "get_projects",
+    {
+      title: "Get Projects",
+      description: "Get all available projects in the Kanban system with their metadata (slug, name, description, color, archived flag, created date). Use the slug when filtering or creating cards.",
+      inputSchema: {
+        includeArchived: z.boolean().optional().describe("Optional: include archived projects (default false)")
+      }
+    },
+    async ({ includeArchived }) => {
+          const projects = await storage.getProjects(includeArchived);
+          return {
+        content: [{ type: "text", text: JSON.stringify(projects, null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "get_project",
+    {
+      title: "Get Project",
+      description: "Get metadata for a single project by its slug.",
+      inputSchema: {
+        slug: z.string().describe("The project slug")
+      }
+    },
+    async ({ slug }) => {
+      const project = await storage.getProject(slug);
+      if (!project) {
+        throw new Error(`Project ${slug} not found`);
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(project, null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "create_project",
+    {
+      title: "Create Project",
+      description: "Create a new, empty project. The slug is derived from the name when omitted.",
+      inputSchema: {
+        name: z.string().describe("Display name of the project"),
+        slug: z.string().optional().describe("Optional: slug used to reference the project (lowercase letters, numbers and dashes)"),
+        description: z.string().optional().describe("Optional: short description of the project"),
+        color: z.enum(COLOR_OPTIONS).optional().describe("Optional: project color"),
+        statuses: z.array(z.object({
+          key: z.string().describe("Stable status key stored on cards (lowercase letters, numbers and dashes)"),
+          label: z.string().describe("Column title shown on the board"),
+          color: z.enum(COLOR_OPTIONS).describe("Column color"),
+          wipLimit: z.number().nullable().optional().describe("Optional: most cards the column should hold (work-in-progress limit); null or omitted for no limit"),
+          allowedFrom: z.array(z.string()).nullable().optional().describe("Optional: keys of the columns cards may be moved in from; null or omitted allows any"),
+          requires: z.array(z.enum(STATUS_REQUIREMENTS)).optional().describe("Optional: what a card needs before entering: link, description, assignee, dueDate, priority, estimate or tasksComplete (every task checked)")
+        })).optional().describe("Optional: ordered workflow columns (defaults to Not Started, Blocked, In Progress, Complete, Verified)")
+      }
+    },
+    async ({ name, slug, description, color, statuses }) => {
+      const validatedData = insertProjectSchema.parse({
+        name,
+        slug: slug || slugifyProjectName(name),
+        description,
+        color,
+        statuses
+      });
+
+      if (await storage.getProject(validatedData.slug)) {
+        throw new Error(`Project "${validatedData.slug}" already exists`);
+      }
 
-        if (!cardId || !status) {
-          continue;
-        }
+      const project = await storage.createProject(validatedData);
+      broadcast({ type: "PROJECT_CREATED", data: project });
 
-        try {
-          const updatedCard = await storage.updateCard(cardId, {
-            status,
-            order: position !== undefined ? position.toString() : undefined
-          });
-          results.push(updatedCard);
+      return {
+        content: [{ type: "text", text: `Project created successfully:\n${JSON.stringify(project, null, 2)}` }]
+      };
+    }
+  );
 
-          // Broadcast each card update
-          broadcast({ type: "CARD_UPDATED", data: updatedCard });
-        } catch (error) {
-          console.error(`Failed to move card ${cardId}:`, error);
-        }
+  mcpServer.registerTool(
+    "update_project",
+    {
+      title: "Update Project",
+      description: "Rename, describe, recolor or archive a project, or change its workflow columns, including which columns each accepts cards from (allowedFrom) and what a card needs to enter it (requires). Cards keep referencing the project by slug, so renaming does not touch any cards.",
+      inputSchema: {
+        slug: z.string().describe("The slug of the project to update"),
+        name: z.string().optional().describe("Optional: new display name"),
+        description: z.string().optional().describe("Optional: new description"),
+        color: z.enum(COLOR_OPTIONS).optional().describe("Optional: new color"),
+        archived: z.boolean().optional().describe("Optional: archive or unarchive the project"),
+        autoUnblock: z.boolean().optional().describe("Optional: move blocked cards back to not-started once every card blocking them is complete or verified"),
+        strictWipLimits: z.boolean().optional().describe("Optional: reject cards entering a column that already holds its wipLimit of cards, whether created, moved or edited there, instead of only warning on the board"),
+        statuses: z.array(z.object({
+          key: z.string().describe("Stable status key stored on cards (lowercase letters, numbers and dashes)"),
+          label: z.string().describe("Column title shown on the board"),
+          color: z.enum(COLOR_OPTIONS).describe("Column color"),
+          wipLimit: z.number().nullable().optional().describe("Optional: most cards the column should hold (work-in-progress limit); null or omitted for no limit"),
+          allowedFrom: z.array(z.string()).nullable().optional().describe("Optional: keys of the columns cards may be moved in from; null or omitted allows any"),
+          requires: z.array(z.enum(STATUS_REQUIREMENTS)).optional().describe("Optional: what a card needs before entering: link, description, assignee, dueDate, priority, estimate or tasksComplete (every task checked)")
+        })).optional().describe("Optional: replace the ordered workflow columns. Statuses that still have cards cannot be removed")
       }
+    },
+    async ({ slug, ...updates }) => {
+      const validatedData = updateProjectSchema.parse(updates);
+      const project = await storage.updateProject(slug, validatedData);
+      broadcast({ type: "PROJECT_UPDATED", data: project });
 
-      res.json({ updated: results, count: results.length });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to batch move cards" });
+      return {
+        content: [{ type: "text", text: `Project updated successfully:\n${JSON.stringify(project, null, 2)}` }]
+      };
     }
-  });
+  );
 
-  // ===== MCP (Model Context Protocol) Endpoints =====
+  mcpServer.registerTool(
+    "delete_project",
+    {
+      title: "Delete Project",
+      description: "Delete an empty project. Projects that still have cards must be emptied first or archived with update_project instead.",
+      inputSchema: {
+        slug: z.string().describe("The slug of the project to delete")
+      }
+    },
+    async ({ slug }) => {
+      const cardCount = await storage.countProjectCards(slug);
+      if (cardCount > 0) {
+        throw new Error(`Project "${slug}" still has ${cardCount} card(s). Delete or move them first, or archive the project instead.`);
+      }
 
-  // Create MCP Server instance
-  const mcpServer = new McpServer({
-    name: "kanban-integrated-server",
-    version: "1.0.0"
-  });
+      const deleted = await storage.deleteProject(slug);
+      if (!deleted) {
+        throw new Error(`Project ${slug} not found`);
+      }
+      broadcast({ type: "PROJECT_DELETED", data: { slug } });
 
+      return {
+        content: [{ type: "text", text: `Project ${slug} deleted successfully` }]
+      };
+    }
+  );
 
-  // Register MCP tools using the SDK
   mcpServer.registerTool(
-    "get_projects",
+    "list_automation_rules",
     {
-      title: "Get Projects",
-      description: "Get all available projects in the Kanban system.",
-      inputSchema: {}
+      title: "List Automation Rules",
+      description: "List a project's automation rules (or every project's), in the order they run. Each rule has a trigger (card.created, card.moved, card.updated, task.toggled or comment.added), optional conditions, its actions (move, set-field, add-comment, webhook), whether it is enabled, and a description in words. Changes made by rules show up in card history with the rule's name as actor.",
+      inputSchema: {
+        project: z.string().optional().describe("Optional: project slug; omit for the rules of every project")
+      }
     },
-    async () => {
-          const projects = await storage.getProjects();
-          return {
-        content: [{ type: "text", text: JSON.stringify(projects, null, 2) }]
+    async ({ project }) => {
+      const rules = await listAutomationRules(MCP_ACCESS, project);
+      return {
+        content: [{ type: "text", text: JSON.stringify(rules, null, 2) }]
       };
     }
   );
@@ -712,25 +2499,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "get_cards",
     {
       title: "Get Cards",
-      description: "Get all cards or filter by project and/or status. Returns cards sorted by their order within each status.",
+      description: "Get all cards or filter by project, status and/or assignee. Returns cards sorted by their order within each status, or by a sort such as priority,dueDate.",
       inputSchema: {
         project: z.string().optional().describe("Optional: filter cards by specific project"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: filter cards by specific status")
+        status: z.string().optional().describe("Optional: filter cards by status key. Valid keys come from the project's workflow (see get_project)"),
+        assignee: z.string().optional().describe("Optional: only cards assigned to this username (comma-separate several)"),
+        sort: z.string().optional().describe(SORT_DESCRIPTION)
       }
     },
-    async ({ project, status }) => {
-          const cards = await storage.getAllCards(project);
+    async ({ project, status, assignee, sort }) => {
+          const sortTerms = parseCardSort(sort || "");
+          let cards = await storage.getAllCards(project);
+          if (assignee) {
+            cards = await filterCards(cards, { source: "", filters: [assigneeFilter(assignee)] });
+          }
           
           if (status) {
-            const filteredCards = cards
-              .filter(card => card.status === status)
-              .sort((a, b) => parseInt(a.order) - parseInt(b.order));
+            const filteredCards = sortCards(cards.filter(card => card.status === status), sortTerms);
             return {
           content: [{ type: "text", text: JSON.stringify(filteredCards, null, 2) }]
             };
           } else {
             return {
-          content: [{ type: "text", text: JSON.stringify(cards, null, 2) }]
+          content: [{ type: "text", text: JSON.stringify(sortTerms.length > 0 ? sortCards(cards, sortTerms) : cards, null, 2) }]
         };
       }
     }
@@ -740,25 +2531,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "get_cards_by_status",
     {
       title: "Get Cards by Status",
-      description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project.",
+      description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project and sorted within each status.",
       inputSchema: {
-        project: z.string().optional().describe("Optional: filter cards by specific project")
+        project: z.string().optional().describe("Optional: filter cards by specific project"),
+        sort: z.string().optional().describe(`${SORT_DESCRIPTION}, within each status`)
       }
     },
-    async ({ project }) => {
+    async ({ project, sort }) => {
           const cards = await storage.getAllCards(project);
-          const grouped = cards.reduce((acc, card) => {
-            if (!acc[card.status]) {
-              acc[card.status] = [];
-            }
-            acc[card.status].push(card);
-            return acc;
-          }, {} as Record<string, typeof cards>);
-          
-          // Sort cards within each status by order
-          Object.keys(grouped).forEach(status => {
-            grouped[status].sort((a, b) => parseInt(a.order) - parseInt(b.order));
-          });
+          const grouped = groupCardsByStatus(cards, await getWorkflow(project), parseCardSort(sort || ""));
           
           return {
         content: [{ type: "text", text: JSON.stringify(grouped, null, 2) }]
@@ -770,24 +2551,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "get_card",
     {
       title: "Get Card",
-      description: "Get details of a specific card by its ID.",
+      description: "Get details of a specific card by its ID, including its tasks and, for epics, its sub-cards with rolled-up progress.",
       inputSchema: {
         id: z.string().describe("The ID of the card to retrieve")
       }
     },
     async ({ id }) => {
-          const card = await storage.getCard(id);
+          const found = await storage.getCard(id);
+          const card = found && await withCardDetails(found, MCP_ACCESS);
           return {
         content: [{ type: "text", text: JSON.stringify(card, null, 2) }]
       };
     }
   );
 
+  mcpServer.registerTool(
+    "get_card_history",
+    {
+      title: "Get Card History",
+      description: "Get the activity history of a card, newest first. Each event has a type (created, updated, moved, deleted), the actor (user, MCP client or API caller), a timestamp and the before/after value of every changed field. History remains available after a card is deleted.",
+      inputSchema: {
+        id: z.string().describe("The ID of the card")
+      }
+    },
+    async ({ id }) => {
+      const events = await storage.getCardHistory(id);
+      return {
+        content: [{ type: "text", text: JSON.stringify(events, null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "search_cards",
+    {
+      title: "Search Cards",
+      description: "Full-text search over card titles, descriptions, notes and comments. Every word must match (as a word prefix). Returns the best matches first, with snippets in which matched words are **bold**.",
+      inputSchema: {
+        query: z.string().describe("Words to search for"),
+        project: z.string().optional().describe("Optional: only search this project"),
+        limit: z.number().optional().describe("Optional: maximum number of results (default 20, max 100)")
+      }
+    },
+    async ({ query, project, limit }) => {
+      const results = await storage.searchCards(query, { project, limit: Math.min(limit ?? 20, 100) });
+      return {
+        content: [{ type: "text", text: JSON.stringify(formatSearchResultsForMcp(results), null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "query_cards",
+    {
+      title: "Query Cards",
+      description: "Filter cards with a query such as 'status:blocked project:api has:tasks tasks:incomplete updated:<7d'. Keys: status, project, label, assignee (username), priority (P0-P3), due (overdue, none, <7d for due within 7 days, or a date like <2024-01-31), has (tasks, notes, link, comments, description, labels, assignees), tasks (complete, incomplete, none), updated and created (<7d, >2w, <24h or a date like >2024-01-31), title. Bare words match title, description or notes. Prefix a term with - to negate it; separate alternatives with commas (status:todo,blocked).",
+      inputSchema: {
+        query: z.string().describe("Filter query, e.g. 'status:blocked has:tasks updated:<7d'"),
+        project: z.string().optional().describe("Optional: only query this project"),
+        sort: z.string().optional().describe(SORT_DESCRIPTION)
+      }
+    },
+    async ({ query, project, sort }) => {
+      const sortTerms = parseCardSort(sort || "");
+      let cards = await filterCards(await storage.getAllCards(project), parseCardQuery(query));
+      if (sortTerms.length > 0) {
+        cards = sortCards(cards, sortTerms);
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(cards, null, 2) }]
+      };
+    }
+  );
+
   mcpServer.registerTool(
     "upload_image",
     {
       title: "Upload Image",
-      description: "Upload an image to R2 storage and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax. Supports Obsidian-style width control: ![alt|width](url) where width can be pixels (e.g., '400') or percentage (e.g., '50%'). Provide the full file path to the image on your local system.",
+      description: "Upload an image to the board's image store and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax. Supports Obsidian-style width control: ![alt|width](url) where width can be pixels (e.g., '400') or percentage (e.g., '50%'). Provide the full file path to the image on your local system.",
       inputSchema: {
         filePath: z.string().describe("Full path to the image file on your local system (e.g., '/Users/username/Downloads/screenshot.png')"),
         width: z.string().optional().describe("Optional width constraint for the image display. Can be pixels (e.g., '400', '200') or percentage (e.g., '50%', '75%'). If not provided, image will be full responsive width.")
@@ -795,9 +2636,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
     async ({ filePath, width }) => {
       try {
-        // Check if R2 is configured
-        if (!isR2Configured()) {
-          throw new Error("Image upload is not configured. R2 environment variables are missing.");
+        const configError = getImageStoreConfigError();
+        if (configError) {
+          throw new Error(`Image upload is not configured. ${configError}`);
         }
 
         // Read file from the provided path
@@ -833,8 +2674,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw new Error('Image file is too large. Maximum size is 10MB.');
         }
 
-        // Upload to R2
-        const imageUrl = await uploadImageToR2(buffer, filename, detectedMimeType);
+        const imageUrl = (await saveImage(buffer, filename, detectedMimeType, MCP_ACTOR)).url;
 
         // Generate markdown with optional width syntax
         const altText = filename.split('.')[0]; // Use filename without extension as alt text
@@ -871,10 +2711,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         project: z.string().describe("The project this card belongs to"),
         link: z.string().optional().describe("Optional: URL link related to the card"),
         notes: z.string().optional().describe("Optional: Additional notes for extra context and information"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).default("not-started").describe("The initial status of the card")
+        status: z.string().optional().describe("Optional: initial status key from the project's workflow (see get_project). Defaults to the first column"),
+        labels: z.array(z.string()).optional().describe("Optional: label names such as [\"bug\"]. Labels the project does not have yet are created"),
+        assignees: z.array(z.string()).optional().describe("Optional: usernames of the people to assign the card to"),
+        dueDate: z.string().optional().describe("Optional: due date as YYYY-MM-DD"),
+        priority: z.enum(CARD_PRIORITIES).optional().describe("Optional: priority, from P0 (most urgent) to P3"),
+        estimate: z.number().optional().describe("Optional: estimate in story points or hours")
       }
     },
-    async ({ title, description, project, link, notes, status = "not-started" }) => {
+    async ({ title, description, project, link, notes, status, labels, assignees, dueDate, priority, estimate }) => {
           try {
             // Validate the card data using the schema
             const validatedData = insertCardSchema.parse({
@@ -883,10 +2728,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
               project,
               link: link || undefined,
               notes: notes || undefined,
-              status
+              status,
+              labels,
+              assignees,
+              dueDate,
+              priority,
+              estimate
             });
             
-            const card = await storage.createCard(validatedData);
+            const card = await storage.createCard(validatedData, MCP_ACTOR);
             
             // Broadcast card creation
             broadcast({ type: "CARD_CREATED", data: card });
@@ -896,7 +2746,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-          throw new Error(`Invalid card data. Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}`);
+          throw new Error(`Invalid card data: ${error.message}`);
             }
             throw error;
           }
@@ -915,7 +2765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           project: z.string().describe("The project this card belongs to"),
           link: z.string().optional().describe("Optional: URL link related to the card"),
           notes: z.string().optional().describe("Optional: Additional notes for extra context and information"),
-          status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).default("not-started").describe("The initial status of the card")
+          status: z.string().optional().describe("Optional: initial status key from the project's workflow (see get_project). Defaults to the first column")
         })).min(1).max(20).describe("Array of cards to create (maximum 20 cards per request)")
       }
     },
@@ -933,14 +2783,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             project: cardData.project,
             link: cardData.link || undefined,
             notes: cardData.notes || undefined,
-            status: cardData.status || "not-started"
+            status: cardData.status || undefined
           });
           
-          const card = await storage.createCard(validatedData);
+          const card = await storage.createCard(validatedData, MCP_ACTOR);
           createdCards.push(card);
           
           // Broadcast card creation with a small delay to prevent message loss
-          broadcast({ type: "CARD_CREATED", data: card });
+          broadcastToClients({ type: "CARD_CREATED", data: card });
           
           // Small delay to ensure WebSocket messages are processed properly
           if (i < cards.length - 1) {
@@ -996,33 +2846,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "move_card",
     {
       title: "Move Card",
-      description: "Move a card to a different status and optionally specify its position within that status.",
+      description: "Move a card to a different status and optionally specify its position within that status. In projects with strict WIP limits, a move into a column that is already at its limit fails with an error naming the column and its limit. A move the workflow rules forbid (a transition the column does not allow, or a field it requires, such as a link or every task checked) fails with the reasons.",
       inputSchema: {
         id: z.string().describe("The ID of the card to move"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status to move the card to"),
+        status: z.string().describe("The target status key from the card's project workflow (see get_project)"),
         position: z.number().optional().describe("Optional: position within the target status (0 = top, omit to add to end)")
       }
     },
     async ({ id, status, position }) => {
           try {
-            // Validate the update data using the schema
-            const updateData: any = { status };
-            if (position !== undefined) {
-              updateData.order = position.toString();
-            }
-            
-            const validatedData = updateCardSchema.parse(updateData);
-            const card = await storage.updateCard(id, validatedData);
+            const card = await storage.moveCard(id, { status, position }, MCP_ACTOR);
             
             // Broadcast card update
             broadcast({ type: "CARD_UPDATED", data: card });
+            await releaseDependents(card, MCP_ACTOR);
             
             return {
           content: [{ type: "text", text: `Card moved successfully:\n${JSON.stringify(card, null, 2)}` }]
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-          throw new Error(`Invalid status. Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}`);
+          throw new Error(`Invalid move data: ${error.message}`);
             }
             throw error;
           }
@@ -1033,17 +2877,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "update_card",
     {
       title: "Update Card",
-      description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Images can be included using ![alt](url) syntax after uploading with upload_image tool.",
+      description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Images can be included using ![alt](url) syntax after uploading with upload_image tool. A status change must follow the project's workflow rules; fields set in the same call count toward what the new column requires.",
       inputSchema: {
         id: z.string().describe("The ID of the card to update"),
         title: z.string().optional().describe("Optional: new title for the card"),
         description: z.string().optional().describe("Optional: new description for the card in Markdown format. Use **bold**, *italic*, `code`, lists, headers, blockquotes, code blocks, images (![alt](url)), and task lists (- [ ] unchecked, - [x] checked) for better structure and readability. Task lists will show progress bars."),
         link: z.string().optional().describe("Optional: new link for the card"),
         notes: z.string().optional().describe("Optional: new notes for extra context and information"),
-        status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).optional().describe("Optional: new status for the card")
+        status: z.string().optional().describe("Optional: new status key from the card's project workflow (see get_project)"),
+        labels: z.array(z.string()).optional().describe("Optional: the card's new label names, replacing the current ones ([] removes all). Labels the project does not have yet are created"),
+        assignees: z.array(z.string()).optional().describe("Optional: usernames of the card's assignees, replacing the current ones ([] unassigns everyone)"),
+        dueDate: z.string().nullable().optional().describe("Optional: new due date as YYYY-MM-DD, or null to clear it"),
+        priority: z.enum(CARD_PRIORITIES).nullable().optional().describe("Optional: new priority from P0 (most urgent) to P3, or null to clear it"),
+        estimate: z.number().nullable().optional().describe("Optional: new estimate in story points or hours, or null to clear it")
       }
     },
-    async ({ id, title, description, link, notes, status }) => {
+    async ({ id, title, description, link, notes, status, labels, assignees, dueDate, priority, estimate }) => {
           try {
             // Validate the update data using the schema
         const updates: any = {};
@@ -1052,20 +2901,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (link !== undefined) updates.link = link;
         if (notes !== undefined) updates.notes = notes;
         if (status !== undefined) updates.status = status;
+        if (labels !== undefined) updates.labels = labels;
+        if (assignees !== undefined) updates.assignees = assignees;
+        if (dueDate !== undefined) updates.dueDate = dueDate;
+        if (priority !== undefined) updates.priority = priority;
+        if (estimate !== undefined) updates.estimate = estimate;
         
             const validatedData = updateCardSchema.parse(updates);
-            const card = await storage.updateCard(id, validatedData);
+            const card = await storage.updateCard(id, validatedData, MCP_ACTOR);
             
             // Broadcast card update
             broadcast({ type: "CARD_UPDATED", data: card });
+            await releaseDependents(card, MCP_ACTOR);
             
             return {
           content: [{ type: "text", text: `Card updated successfully:\n${JSON.stringify(card, null, 2)}` }]
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-          const statusError = status ? ` Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}` : '';
-          throw new Error(`Invalid card data.${statusError}`);
+          throw new Error(`Invalid card data: ${error.message}`);
             }
             throw error;
           }
@@ -1082,7 +2936,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     },
     async ({ id }) => {
-          await storage.deleteCard(id);
+          await storage.deleteCard(id, MCP_ACTOR);
           
           // Broadcast card deletion
           broadcast({ type: "CARD_DELETED", data: { id } });
@@ -1099,46 +2953,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       title: "Bulk Delete Cards",
       description: "Delete multiple cards from the Kanban board by their IDs. This is more efficient than deleting cards one by one.",
       inputSchema: {
-        ids: z.array(z.string()).min(1).describe("Array of card IDs to delete")
+        ids: z.array(z.string()).min(1).describe("Array of card IDs to delete"),
+        atomic: z.boolean().optional().describe("Optional: delete all cards or none; any failure rolls the whole batch back")
       }
     },
-    async ({ ids }) => {
+    async ({ ids, atomic }) => {
       if (!Array.isArray(ids) || ids.length === 0) {
         throw new Error("ids must be a non-empty array");
           }
           
-          const deletedIds = [];
-          const failedIds = [];
-          
-          for (const id of ids) {
-            try {
-              const deleted = await storage.deleteCard(id);
-              if (deleted) {
-                deletedIds.push(id);
-              } else {
-                failedIds.push(id);
-              }
-            } catch (error) {
-              console.error(`Error deleting card ${id}:`, error);
-              failedIds.push(id);
-            }
-          }
-          
-          // Broadcast bulk deletion
-          if (deletedIds.length > 0) {
-            broadcast({
-              type: 'CARDS_BULK_DELETED',
-              data: deletedIds
-            });
-          }
-          
-          const result = {
-            deletedCount: deletedIds.length,
-            deletedIds,
-            failedCount: failedIds.length,
-            failedIds,
-            requestedCount: ids.length
-          };
+          const result = await bulkDeleteCards(ids, atomic === true, MCP_ACTOR, MCP_ACCESS);
           
           return {
         content: [{ type: "text", text: `Bulk delete completed:\n${JSON.stringify(result, null, 2)}` }]
@@ -1147,146 +2971,338 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   mcpServer.registerTool(
-    "add_comment",
+    "add_comment",
+    {
+      title: "Add Comment",
+      description: "Add a comment to a card. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress. Pass parentId to reply to an existing comment.",
+      inputSchema: {
+        id: z.string().describe("The ID of the card to add a comment to"),
+        content: z.string().describe("The content of the comment"),
+        parentId: z.string().optional().describe("Optional: ID of the comment to reply to")
+      }
+    },
+    async ({ id, content, parentId }) => {
+      try {
+        const comment = await storage.createComment(id, insertCommentSchema.parse({ content, parentId }), MCP_ACTOR);
+        broadcast({ type: "COMMENT_CREATED", data: comment });
+
+        return {
+          content: [{ type: "text", text: `Comment added successfully:\n${JSON.stringify(comment, null, 2)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add comment: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "get_comments",
+    {
+      title: "Get Comments",
+      description: "Get the comment threads of a card, oldest first. Each thread lists its replies.",
+      inputSchema: {
+        id: z.string().describe("The ID of the card to get comments from")
+      }
+    },
+    async ({ id }) => {
+      try {
+        const card = await storage.getCard(id);
+        if (!card) {
+          throw new Error("Card not found");
+        }
+
+        const threads = groupCommentThreads(await storage.getComments(id));
+        return {
+          content: [{
+            type: "text",
+            text: threads.length > 0
+              ? `Found ${card.commentCount} comment${card.commentCount !== 1 ? 's' : ''}:\n${JSON.stringify(threads, null, 2)}`
+              : "No comments found for this card."
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to get comments: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "update_comment",
+    {
+      title: "Update Comment",
+      description: "Edit the text of a comment. The previous text is kept in the comment's edit history.",
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card containing the comment"),
+        commentId: z.string().describe("The ID of the comment to edit"),
+        content: z.string().describe("The new content of the comment")
+      }
+    },
+    async ({ cardId, commentId, content }) => {
+      try {
+        const existing = await storage.getComment(commentId);
+        if (!existing || existing.cardId !== cardId) {
+          throw new Error(`Comment with ID ${commentId} not found`);
+        }
+
+        const comment = await storage.updateComment(commentId, updateCommentSchema.parse({ content }).content, MCP_ACTOR);
+        broadcast({ type: "COMMENT_UPDATED", data: comment });
+
+        return {
+          content: [{ type: "text", text: `Comment updated successfully:\n${JSON.stringify(comment, null, 2)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to update comment: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "delete_comment",
+    {
+      title: "Delete Comment",
+      description: "Delete a specific comment from a card by its comment ID. Replies to the comment are deleted with it.",
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card containing the comment"),
+        commentId: z.string().describe("The ID of the comment to delete")
+      }
+    },
+    async ({ cardId, commentId }) => {
+      try {
+        const existing = await storage.getComment(commentId);
+        if (!existing || existing.cardId !== cardId) {
+          return {
+            content: [{ type: "text", text: `Comment with ID ${commentId} not found` }]
+          };
+        }
+
+        await storage.deleteComment(commentId);
+        broadcast({ type: "COMMENT_DELETED", data: { id: commentId, cardId } });
+
+        return {
+          content: [{ type: "text", text: "Comment deleted successfully." }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to delete comment: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "attach_file",
+    {
+      title: "Attach File",
+      description: `Attach a file (PDF, log, text, CSV, JSON, zip, office document or image) to a card. Send the file's content encoded as base64 along with its filename; the extension decides the content type. Maximum size is ${MCP_ATTACHMENT_SIZE_MB}MB here; larger files (up to ${MAX_ATTACHMENT_SIZE_MB}MB) go through POST /api/cards/:id/attachments.`,
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card to attach the file to"),
+        content: z.string().describe("The file's content, base64-encoded"),
+        filename: z.string().describe("Name of the file including its extension (e.g., 'report.pdf')")
+      }
+    },
+    async ({ cardId, content, filename }) => {
+      try {
+        if (!(await storage.getCard(cardId))) {
+          throw new Error(`Card with ID ${cardId} not found`);
+        }
+        const attachment = await attachFileFromBase64(cardId, content, filename, MCP_ACTOR);
+        return {
+          content: [{ type: "text", text: `File attached successfully:\n${JSON.stringify(attachment, null, 2)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to attach file: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "list_attachments",
+    {
+      title: "List Attachments",
+      description: "List the files attached to a card, oldest first, with filename, size, content type, uploader and download URL.",
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card")
+      }
+    },
+    async ({ cardId }) => {
+      const card = await storage.getCard(cardId);
+      if (!card) {
+        return {
+          content: [{ type: "text", text: `Card with ID ${cardId} not found` }]
+        };
+      }
+      const cardAttachments = await storage.getAttachments(cardId);
+      return {
+        content: [{ type: "text", text: JSON.stringify(cardAttachments, null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "add_task",
+    {
+      title: "Add Task",
+      description: "Add a task to a card's task list. The task also appears as a '- [ ] text' checkbox in the card's description. Returns the task with its ID.",
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card"),
+        text: z.string().describe("The task text (a single line)"),
+        assignee: z.string().optional().describe("Optional: who the task is assigned to"),
+        dueDate: z.string().optional().describe("Optional: due date as YYYY-MM-DD"),
+        position: z.number().optional().describe("Optional: position in the list (0 = first, omit to add to the end)")
+      }
+    },
+    async ({ cardId, text, assignee, dueDate, position }) => {
+      try {
+        const task = await storage.createTask(cardId, insertTaskSchema.parse({ text, assignee, dueDate, position }), MCP_ACTOR);
+        await broadcastTaskChange(cardId);
+        return {
+          content: [{ type: "text", text: `Task added successfully:\n${JSON.stringify(task, null, 2)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add task: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "toggle_task",
+    {
+      title: "Toggle Task",
+      description: "Check or uncheck a task of a card. Without 'completed' the task is toggled. Task IDs are listed by get_card.",
+      inputSchema: {
+        cardId: z.string().describe("The ID of the card"),
+        taskId: z.string().describe("The ID of the task"),
+        completed: z.boolean().optional().describe("Optional: true to check, false to uncheck (omit to toggle)")
+      }
+    },
+    async ({ cardId, taskId, completed }) => {
+      try {
+        const existing = await storage.getTask(taskId);
+        if (!existing || existing.cardId !== cardId) {
+          throw new Error(`Task with ID ${taskId} not found on card ${cardId}`);
+        }
+        const task = await storage.updateTask(taskId, { completed: completed ?? !existing.completed }, MCP_ACTOR);
+        await broadcastTaskChange(cardId);
+        return {
+          content: [{ type: "text", text: `Task ${task.completed ? "checked" : "unchecked"}:\n${JSON.stringify(task, null, 2)}` }]
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to toggle task: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    "reorder_tasks",
     {
-      title: "Add Comment",
-      description: "Add a comment to a card. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress.",
+      title: "Reorder Tasks",
+      description: "Set the order of a card's tasks. taskIds must list every task of the card exactly once, in the new order.",
       inputSchema: {
-        id: z.string().describe("The ID of the card to add a comment to"),
-        content: z.string().describe("The content of the comment")
+        cardId: z.string().describe("The ID of the card"),
+        taskIds: z.array(z.string()).describe("All task IDs of the card, in the new order")
       }
     },
-    async ({ id, content }) => {
+    async ({ cardId, taskIds }) => {
       try {
-        const card = await storage.getCard(id);
-        if (!card) {
-          throw new Error("Card not found");
-        }
-        
-        let comments = [];
-        if (card.comments) {
-          try {
-            comments = JSON.parse(card.comments);
-          } catch (e) {
-            comments = [];
-          }
-        }
-        
-        const newComment = {
-          id: Math.random().toString(36).substr(2, 9),
-          content,
-          timestamp: new Date().toISOString()
-        };
-        comments.push(newComment);
-        
-        await storage.updateCard(id, {
-          comments: JSON.stringify(comments)
-        });
-        
-        broadcast({ type: "CARD_UPDATED", data: await storage.getCard(id) });
-        
+        const tasks = await storage.reorderTasks(cardId, taskIds, MCP_ACTOR);
+        await broadcastTaskChange(cardId);
         return {
-          content: [{ type: "text", text: `Comment added successfully:\n${JSON.stringify(newComment, null, 2)}\n\nTotal comments: ${comments.length}` }]
+          content: [{ type: "text", text: `Tasks reordered:\n${JSON.stringify(tasks, null, 2)}` }]
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to add comment: ${error instanceof Error ? error.message : String(error)}` }]
+          content: [{ type: "text", text: `Failed to reorder tasks: ${error instanceof Error ? error.message : String(error)}` }]
         };
       }
     }
   );
 
   mcpServer.registerTool(
-    "get_comments",
+    "link_cards",
     {
-      title: "Get Comments",
-      description: "Get all comments for a specific card, sorted by timestamp (newest first).",
+      title: "Link Cards",
+      description: "Link two cards. Types: blocks / blocked-by (dependencies), relates-to, duplicates / duplicated-by, parent-of / child-of. The type is read from cardId's side, e.g. cardId blocked-by targetCardId. Blocking and parent links cannot form cycles.",
       inputSchema: {
-        id: z.string().describe("The ID of the card to get comments from")
+        cardId: z.string().describe("The ID of the card to link from"),
+        targetCardId: z.string().describe("The ID of the card to link to"),
+        type: z.enum(CARD_LINK_KINDS).describe("How cardId relates to targetCardId")
       }
     },
-    async ({ id }) => {
+    async ({ cardId, targetCardId, type }) => {
       try {
-        const card = await storage.getCard(id);
-        if (!card) {
-          throw new Error("Card not found");
-        }
-        
-        let comments = [];
-        if (card.comments) {
-          try {
-            comments = JSON.parse(card.comments);
-            comments.sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-          } catch (e) {
-            comments = [];
-          }
-        }
-        
+        const link = await storage.createCardLink(cardId, { targetCardId, type }, MCP_ACTOR);
+        broadcast({ type: "CARD_LINK_CREATED", data: { id: link.id, cardId, targetCardId } });
         return {
-          content: [{ 
-            type: "text", 
-            text: comments.length > 0 
-              ? `Found ${comments.length} comment${comments.length !== 1 ? 's' : ''}:\n${JSON.stringify(comments, null, 2)}`
-              : "No comments found for this card."
-          }]
+          content: [{ type: "text", text: `Cards linked successfully:\n${JSON.stringify(link, null, 2)}` }]
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to get comments: ${error instanceof Error ? error.message : String(error)}` }]
+          content: [{ type: "text", text: `Failed to link cards: ${error instanceof Error ? error.message : String(error)}` }]
         };
       }
     }
   );
 
   mcpServer.registerTool(
-    "delete_comment",
+    "get_card_links",
     {
-      title: "Delete Comment",
-      description: "Delete a specific comment from a card by its comment ID.",
+      title: "Get Card Links",
+      description: "Get the links of a card, each with its type from this card's side (blocks, blocked-by, relates-to, duplicates, duplicated-by, parent-of, child-of) and the linked card's id, title, status and project. A card whose blocked-by cards are all complete or verified is ready to start.",
       inputSchema: {
-        cardId: z.string().describe("The ID of the card containing the comment"),
-        commentId: z.string().describe("The ID of the comment to delete")
+        cardId: z.string().describe("The ID of the card")
       }
     },
-    async ({ cardId, commentId }) => {
+    async ({ cardId }) => {
+      if (!(await storage.getCard(cardId))) {
+        return {
+          content: [{ type: "text", text: `Card with ID ${cardId} not found` }]
+        };
+      }
+      const links = await storage.getCardLinks(cardId);
+      return {
+        content: [{ type: "text", text: JSON.stringify(links, null, 2) }]
+      };
+    }
+  );
+
+  mcpServer.registerTool(
+    "create_subcard",
+    {
+      title: "Create Sub-cards",
+      description: "Break an epic into sub-cards in one call. Each sub-card is a normal card (in any column) linked to the epic with parent-of; the epic shows rolled-up progress as sub-cards reach complete or verified. Either all sub-cards are created or none.",
+      inputSchema: {
+        parentId: z.string().describe("The ID of the epic (parent card)"),
+        subcards: z.array(z.object({
+          title: z.string().describe("The title of the sub-card"),
+          description: z.string().optional().describe("Optional: description in Markdown"),
+          project: z.string().optional().describe("Optional: project of the sub-card (defaults to the epic's project)"),
+          status: z.string().optional().describe("Optional: initial status key from the project's workflow. Defaults to the first column"),
+          link: z.string().optional().describe("Optional: URL link related to the sub-card"),
+          notes: z.string().optional().describe("Optional: additional notes")
+        })).min(1).max(20).describe("Sub-cards to create, in order (maximum 20 per request)")
+      }
+    },
+    async ({ parentId, subcards }) => {
       try {
-        const card = await storage.getCard(cardId);
-        if (!card) {
-          throw new Error("Card not found");
-        }
-        
-        let comments = [];
-        if (card.comments) {
-          try {
-            comments = JSON.parse(card.comments);
-          } catch (e) {
-            return {
-              content: [{ type: "text", text: "Failed to parse comments" }]
-            };
-          }
-        }
-        
-        const initialLength = comments.length;
-        comments = comments.filter((c: any) => c.id !== commentId);
-        
-        if (comments.length === initialLength) {
-          return {
-            content: [{ type: "text", text: `Comment with ID ${commentId} not found` }]
-          };
-        }
-        
-        await storage.updateCard(cardId, {
-          comments: JSON.stringify(comments)
-        });
-        
-        broadcast({ type: "CARD_UPDATED", data: await storage.getCard(cardId) });
-        
+        const created = await createSubcards(parentId, createSubcardsSchema.parse({ subcards }), MCP_ACTOR, MCP_ACCESS);
         return {
-          content: [{ type: "text", text: `Comment deleted successfully. Remaining comments: ${comments.length}` }]
+          content: [{ type: "text", text: `Created ${created.length} sub-card(s):\n${JSON.stringify(created.map(({ id, title, status, project }) => ({ id, title, status, project })), null, 2)}` }]
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to delete comment: ${error instanceof Error ? error.message : String(error)}` }]
+          content: [{ type: "text", text: `Failed to create sub-cards: ${error instanceof Error ? error.message : String(error)}` }]
         };
       }
     }
@@ -1296,90 +3312,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "batch_move_cards",
     {
       title: "Batch Move Cards",
-      description: "Move multiple cards in a single operation for better performance.",
+      description: "Move multiple cards in a single operation for better performance. Moves into a column at its strict WIP limit are reported as failures.",
       inputSchema: {
         operations: z.array(z.object({
           cardId: z.string().describe("The ID of the card to move"),
-          status: z.enum(["not-started", "blocked", "in-progress", "complete", "verified"]).describe("The target status"),
-          position: z.number().optional().describe("Optional: position within the target status")
-        })).describe("Array of move operations to perform")
+          status: z.string().describe("The target status key from the card's project workflow"),
+          position: z.number().optional().describe("Optional: position within the target status (0 = top, omit to add to end)")
+        })).describe("Array of move operations to perform"),
+        atomic: z.boolean().optional().describe("Optional: apply all moves or none; any failure rolls the whole batch back")
       }
     },
-    async ({ operations }) => {
-          const results = [];
-          
-          for (const op of operations) {
-            const { cardId, status, position } = op;
-            
-            if (!cardId || !status) {
-              continue;
-            }
-            
-            try {
-              const updateData: any = { status };
-              if (position !== undefined) {
-                updateData.order = position.toString();
-              }
-              
-              const updatedCard = await storage.updateCard(cardId, updateData);
-              results.push(updatedCard);
-              
-              // Broadcast each card update
-              broadcast({ type: "CARD_UPDATED", data: updatedCard });
-            } catch (error) {
-              console.error(`Failed to move card ${cardId}:`, error);
-            }
-          }
+    async ({ operations, atomic }) => {
+          const result = await batchMoveCards(operations, atomic === true, MCP_ACTOR, MCP_ACCESS);
           
           return {
-        content: [{ type: "text", text: `Batch move completed:\n${JSON.stringify({ updated: results, count: results.length }, null, 2)}` }]
+        content: [{ type: "text", text: `Batch move completed:\n${JSON.stringify(result, null, 2)}` }]
       };
     }
   );
 
+  // Tools a read-scoped API token may call
+  const READ_ONLY_TOOLS = new Set([
+    "get_projects",
+    "get_project",
+    "get_cards",
+    "get_cards_by_status",
+    "get_card",
+    "get_card_history",
+    "search_cards",
+    "query_cards",
+    "get_comments",
+    "list_attachments",
+    "get_card_links",
+    "list_automation_rules",
+  ]);
+
   // Tool handler function to route tool calls
-  async function callToolHandler(name: string, args: any): Promise<any> {
+  async function callToolHandler(name: string, args: any, actor: Actor, access: AccessScope): Promise<any> {
       switch (name) {
         case "get_projects": {
-          const projects = await storage.getProjects();
+          const { includeArchived } = args as { includeArchived?: boolean };
+          const projects = (await storage.getProjects(includeArchived))
+            .filter(project => canAccessProject(access, project.slug));
           return {
           content: [{ type: "text", text: JSON.stringify(projects, null, 2) }]
           };
         }
 
+        case "get_project": {
+          const { slug } = args as { slug: string };
+          const project = await storage.getProject(slug);
+          if (!project || !canAccessProject(access, slug)) {
+            throw new Error(`Project ${slug} not found`);
+          }
+          return {
+            content: [{ type: "text", text: JSON.stringify(project, null, 2) }]
+          };
+        }
+
+        case "create_project": {
+          const { name, slug, description, color, statuses } = args as {
+            name: string;
+            slug?: string;
+            description?: string;
+            color?: string;
+            statuses?: StatusDefinition[];
+          };
+
+          const validatedData = insertProjectSchema.parse({
+            name,
+            slug: slug || slugifyProjectName(name || ""),
+            description,
+            color,
+            statuses
+          });
+          assertProjectAccess(access, validatedData.slug);
+
+          if (await storage.getProject(validatedData.slug)) {
+            throw new Error(`Project "${validatedData.slug}" already exists`);
+          }
+
+          const project = await storage.createProject(validatedData);
+          broadcast({ type: "PROJECT_CREATED", data: project });
+
+          return {
+            content: [{ type: "text", text: `Project created successfully:\n${JSON.stringify(project, null, 2)}` }]
+          };
+        }
+
+        case "update_project": {
+          const { slug, ...updates } = args as {
+            slug: string;
+            name?: string;
+            description?: string;
+            color?: string;
+            archived?: boolean;
+            autoUnblock?: boolean;
+            strictWipLimits?: boolean;
+            statuses?: StatusDefinition[];
+          };
+
+          assertProjectAccess(access, slug);
+          const validatedData = updateProjectSchema.parse(updates);
+          const project = await storage.updateProject(slug, validatedData);
+          broadcast({ type: "PROJECT_UPDATED", data: project });
+
+          return {
+            content: [{ type: "text", text: `Project updated successfully:\n${JSON.stringify(project, null, 2)}` }]
+          };
+        }
+
+        case "delete_project": {
+          const { slug } = args as { slug: string };
+          assertProjectAccess(access, slug);
+          const cardCount = await storage.countProjectCards(slug);
+          if (cardCount > 0) {
+            throw new Error(`Project "${slug}" still has ${cardCount} card(s). Delete or move them first, or archive the project instead.`);
+          }
+
+          const deleted = await storage.deleteProject(slug);
+          if (!deleted) {
+            throw new Error(`Project ${slug} not found`);
+          }
+          broadcast({ type: "PROJECT_DELETED", data: { slug } });
+
+          return {
+            content: [{ type: "text", text: `Project ${slug} deleted successfully` }]
+          };
+        }
+
+        case "list_automation_rules": {
+          const { project } = args as { project?: string };
+          const rules = await listAutomationRules(access, project);
+          return {
+            content: [{ type: "text", text: JSON.stringify(rules, null, 2) }]
+          };
+        }
+
         case "get_cards": {
-        const { project, status } = args as { project?: string; status?: string };
-          const cards = await storage.getAllCards(project);
+        const { project, status, assignee, sort } = args as { project?: string; status?: string; assignee?: string; sort?: string };
+          const sortTerms = parseCardSort(sort || "");
+          let cards = await getAccessibleCards(access, project);
+          if (assignee) {
+            cards = await filterCards(cards, { source: "", filters: [assigneeFilter(assignee)] });
+          }
           
           if (status) {
-            const filteredCards = cards
-              .filter(card => card.status === status)
-              .sort((a, b) => parseInt(a.order) - parseInt(b.order));
+            const filteredCards = sortCards(cards.filter(card => card.status === status), sortTerms);
             return {
             content: [{ type: "text", text: JSON.stringify(filteredCards, null, 2) }]
             };
           } else {
             return {
-            content: [{ type: "text", text: JSON.stringify(cards, null, 2) }]
+            content: [{ type: "text", text: JSON.stringify(sortTerms.length > 0 ? sortCards(cards, sortTerms) : cards, null, 2) }]
             };
           }
         }
         
         case "get_cards_by_status": {
-          const { project } = args as { project?: string };
-          const cards = await storage.getAllCards(project);
-          const grouped = cards.reduce((acc, card) => {
-            if (!acc[card.status]) {
-              acc[card.status] = [];
-            }
-            acc[card.status].push(card);
-            return acc;
-          }, {} as Record<string, typeof cards>);
-          
-          // Sort cards within each status by order
-          Object.keys(grouped).forEach(status => {
-            grouped[status].sort((a, b) => parseInt(a.order) - parseInt(b.order));
-          });
+          const { project, sort } = args as { project?: string; sort?: string };
+          const cards = await getAccessibleCards(access, project);
+          const grouped = groupCardsByStatus(cards, await getWorkflow(project), parseCardSort(sort || ""));
           
           return {
           content: [{ type: "text", text: JSON.stringify(grouped, null, 2) }]
@@ -1388,12 +3481,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         case "get_card": {
           const { id } = args as { id: string };
-          const card = await storage.getCard(id);
+          const found = await getAccessibleCard(access, id);
+          const card = found && await withCardDetails(found, access);
           return {
           content: [{ type: "text", text: JSON.stringify(card, null, 2) }]
           };
         }
 
+        case "get_card_history": {
+          const { id } = args as { id: string };
+          const events = (await storage.getCardHistory(id)).filter(event => canAccessProject(access, event.project));
+          return {
+            content: [{ type: "text", text: JSON.stringify(events, null, 2) }]
+          };
+        }
+
+        case "search_cards": {
+          const { query, project, limit } = args as { query: string; project?: string; limit?: number };
+          if (!query || !query.trim()) {
+            throw new Error("query is required");
+          }
+          const results = await storage.searchCards(query, {
+            project,
+            projects: access.projects,
+            limit: Math.min(limit ?? 20, 100),
+          });
+          return {
+            content: [{ type: "text", text: JSON.stringify(formatSearchResultsForMcp(results), null, 2) }]
+          };
+        }
+
+        case "query_cards": {
+          const { query, project, sort } = args as { query: string; project?: string; sort?: string };
+          const sortTerms = parseCardSort(sort || "");
+          let cards = await filterCards(await getAccessibleCards(access, project), parseCardQuery(query || ""));
+          if (sortTerms.length > 0) {
+            cards = sortCards(cards, sortTerms);
+          }
+          return {
+            content: [{ type: "text", text: JSON.stringify(cards, null, 2) }]
+          };
+        }
+
         case "upload_image": {
           const { filePath, width } = args as {
             filePath: string;
@@ -1401,9 +3530,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
 
           try {
-            // Check if R2 is configured
-            if (!isR2Configured()) {
-              throw new Error("Image upload is not configured. R2 environment variables are missing.");
+            const configError = getImageStoreConfigError();
+            if (configError) {
+              throw new Error(`Image upload is not configured. ${configError}`);
             }
 
             // Read file from the provided path
@@ -1439,8 +3568,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               throw new Error('Image file is too large. Maximum size is 10MB.');
             }
 
-            // Upload to R2
-            const imageUrl = await uploadImageToR2(buffer, filename, detectedMimeType);
+            const imageUrl = (await saveImage(buffer, filename, detectedMimeType, actor)).url;
 
             // Generate markdown with optional width syntax
             const altText = filename.split('.')[0]; // Use filename without extension as alt text
@@ -1466,13 +3594,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         case "create_card": {
-          const { title, description, project, link, notes, status = "not-started" } = args as {
+          const { title, description, project, link, notes, status, labels, assignees, dueDate, priority, estimate } = args as {
             title: string;
             description: string;
             project: string;
             link?: string;
             notes?: string;
             status?: string;
+            labels?: string[];
+            assignees?: string[];
+            dueDate?: string;
+            priority?: CardPriority;
+            estimate?: number;
           };
           
           try {
@@ -1483,10 +3616,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
               project,
               link: link || undefined,
               notes: notes || undefined,
-              status
+              status,
+              labels,
+              assignees,
+              dueDate,
+              priority,
+              estimate
             });
+            assertProjectAccess(access, validatedData.project || "default");
             
-            const card = await storage.createCard(validatedData);
+            const card = await storage.createCard(validatedData, actor);
             
             // Broadcast card creation
             broadcast({ type: "CARD_CREATED", data: card });
@@ -1496,7 +3635,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-            throw new Error(`Invalid card data. Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}`);
+            throw new Error(`Invalid card data: ${error.message}`);
             }
             throw error;
           }
@@ -1510,37 +3649,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
           
           try {
-            // Validate the update data using the schema
-            const updateData: any = { status };
-            if (position !== undefined) {
-              updateData.order = position.toString();
+            if (!(await getAccessibleCard(access, id))) {
+              throw new Error(`Card with id ${id} not found`);
             }
-            
-            const validatedData = updateCardSchema.parse(updateData);
-            const card = await storage.updateCard(id, validatedData);
+            const card = await storage.moveCard(id, { status, position }, actor);
             
             // Broadcast card update
             broadcast({ type: "CARD_UPDATED", data: card });
+            await releaseDependents(card, actor);
             
             return {
             content: [{ type: "text", text: `Card moved successfully:\n${JSON.stringify(card, null, 2)}` }]
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-            throw new Error(`Invalid status. Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}`);
+            throw new Error(`Invalid move data: ${error.message}`);
             }
             throw error;
           }
         }
         
         case "update_card": {
-        const { id, title, description, link, notes, status } = args as {
+        const { id, title, description, link, notes, status, labels, assignees, dueDate, priority, estimate } = args as {
             id: string;
             title?: string;
             description?: string;
             link?: string;
             notes?: string;
             status?: string;
+            labels?: string[];
+            assignees?: string[];
+            dueDate?: string | null;
+            priority?: CardPriority | null;
+            estimate?: number | null;
           };
           
           try {
@@ -1551,20 +3692,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (link !== undefined) updates.link = link;
           if (notes !== undefined) updates.notes = notes;
           if (status !== undefined) updates.status = status;
+          if (labels !== undefined) updates.labels = labels;
+          if (assignees !== undefined) updates.assignees = assignees;
+          if (dueDate !== undefined) updates.dueDate = dueDate;
+          if (priority !== undefined) updates.priority = priority;
+          if (estimate !== undefined) updates.estimate = estimate;
           
+            if (!(await getAccessibleCard(access, id))) {
+              throw new Error(`Card with id ${id} not found`);
+            }
             const validatedData = updateCardSchema.parse(updates);
-            const card = await storage.updateCard(id, validatedData);
+            const card = await storage.updateCard(id, validatedData, actor);
             
             // Broadcast card update
             broadcast({ type: "CARD_UPDATED", data: card });
+            await releaseDependents(card, actor);
             
             return {
             content: [{ type: "text", text: `Card updated successfully:\n${JSON.stringify(card, null, 2)}` }]
             };
           } catch (error) {
             if (error instanceof Error && error.name === "ZodError") {
-            const statusError = status ? ` Status must be one of: not-started, blocked, in-progress, complete, verified. Received: ${status}` : '';
-            throw new Error(`Invalid card data.${statusError}`);
+            throw new Error(`Invalid card data: ${error.message}`);
             }
             throw error;
           }
@@ -1572,7 +3721,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         case "delete_card": {
           const { id } = args as { id: string };
-          await storage.deleteCard(id);
+          if (!(await getAccessibleCard(access, id))) {
+            throw new Error(`Card with id ${id} not found`);
+          }
+          await storage.deleteCard(id, actor);
           
           // Broadcast card deletion
           broadcast({ type: "CARD_DELETED", data: { id } });
@@ -1583,79 +3735,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         case "bulk_delete_cards": {
-          const { ids } = args as { ids: string[] };
+          const { ids, atomic } = args as { ids: string[]; atomic?: boolean };
           
           if (!Array.isArray(ids) || ids.length === 0) {
           throw new Error("ids must be a non-empty array");
           }
           
-          const deletedIds = [];
-          const failedIds = [];
+          const result = await bulkDeleteCards(ids, atomic === true, actor, access);
           
-          for (const id of ids) {
-            try {
-              const deleted = await storage.deleteCard(id);
-              if (deleted) {
-                deletedIds.push(id);
-              } else {
-                failedIds.push(id);
-              }
-            } catch (error) {
-              console.error(`Error deleting card ${id}:`, error);
-              failedIds.push(id);
-            }
+          return {
+          content: [{ type: "text", text: `Bulk delete completed:\n${JSON.stringify(result, null, 2)}` }]
+          };
+        }
+        
+        case "batch_move_cards": {
+          const { operations, atomic } = args as { operations: BatchMoveOperation[]; atomic?: boolean };
+          if (!Array.isArray(operations)) {
+            throw new Error("operations must be an array");
           }
+          const result = await batchMoveCards(operations, atomic === true, actor, access);
           
-          // Broadcast bulk deletion
-          if (deletedIds.length > 0) {
-            broadcast({
-              type: 'CARDS_BULK_DELETED',
-              data: deletedIds
-            });
+          return {
+          content: [{ type: "text", text: `Batch move completed:\n${JSON.stringify(result, null, 2)}` }]
+          };
+        }
+
+        case "add_comment": {
+          const { id, content, parentId } = args as { id: string; content: string; parentId?: string };
+          if (!(await getAccessibleCard(access, id))) {
+            throw new Error("Card not found");
           }
-          
-          const result = {
-            deletedCount: deletedIds.length,
-            deletedIds,
-            failedCount: failedIds.length,
-            failedIds,
-            requestedCount: ids.length
+          const comment = await storage.createComment(id, insertCommentSchema.parse({ content, parentId }), actor);
+          broadcast({ type: "COMMENT_CREATED", data: comment });
+          return {
+            content: [{ type: "text", text: `Comment added successfully:\n${JSON.stringify(comment, null, 2)}` }]
           };
-          
+        }
+
+        case "get_comments": {
+          const { id } = args as { id: string };
+          const card = await getAccessibleCard(access, id);
+          if (!card) {
+            throw new Error("Card not found");
+          }
+          const threads = groupCommentThreads(await storage.getComments(id));
           return {
-          content: [{ type: "text", text: `Bulk delete completed:\n${JSON.stringify(result, null, 2)}` }]
+            content: [{
+              type: "text",
+              text: threads.length > 0
+                ? `Found ${card.commentCount} comment${card.commentCount !== 1 ? 's' : ''}:\n${JSON.stringify(threads, null, 2)}`
+                : "No comments found for this card."
+            }]
+          };
+        }
+
+        case "update_comment": {
+          const { cardId, commentId, content } = args as { cardId: string; commentId: string; content: string };
+          if (!(await getAccessibleComment(access, cardId, commentId))) {
+            throw new Error(`Comment with ID ${commentId} not found`);
+          }
+          const comment = await storage.updateComment(commentId, updateCommentSchema.parse({ content }).content, actor);
+          broadcast({ type: "COMMENT_UPDATED", data: comment });
+          return {
+            content: [{ type: "text", text: `Comment updated successfully:\n${JSON.stringify(comment, null, 2)}` }]
+          };
+        }
+
+        case "delete_comment": {
+          const { cardId, commentId } = args as { cardId: string; commentId: string };
+          if (!(await getAccessibleComment(access, cardId, commentId))) {
+            throw new Error(`Comment with ID ${commentId} not found`);
+          }
+          await storage.deleteComment(commentId);
+          broadcast({ type: "COMMENT_DELETED", data: { id: commentId, cardId } });
+          return {
+            content: [{ type: "text", text: "Comment deleted successfully." }]
           };
         }
         
-        case "batch_move_cards": {
-          const { operations } = args as { operations: Array<{ cardId: string; status: string; position?: number }> };
-          const results = [];
-          
-          for (const op of operations) {
-            const { cardId, status, position } = op;
-            
-            if (!cardId || !status) {
-              continue;
-            }
-            
-            try {
-              const updateData: any = { status };
-              if (position !== undefined) {
-                updateData.order = position.toString();
-              }
-              
-              const updatedCard = await storage.updateCard(cardId, updateData);
-              results.push(updatedCard);
-              
-              // Broadcast each card update
-              broadcast({ type: "CARD_UPDATED", data: updatedCard });
-            } catch (error) {
-              console.error(`Failed to move card ${cardId}:`, error);
+        case "attach_file": {
+          const { cardId, content, filename } = args as { cardId: string; content: string; filename: string };
+          if (!(await getAccessibleCard(access, cardId))) {
+            throw new Error(`Card with ID ${cardId} not found`);
+          }
+          const attachment = await attachFileFromBase64(cardId, content, filename, actor);
+          return {
+            content: [{ type: "text", text: `File attached successfully:\n${JSON.stringify(attachment, null, 2)}` }]
+          };
+        }
+
+        case "list_attachments": {
+          const { cardId } = args as { cardId: string };
+          if (!(await getAccessibleCard(access, cardId))) {
+            throw new Error(`Card with ID ${cardId} not found`);
+          }
+          const cardAttachments = await storage.getAttachments(cardId);
+          return {
+            content: [{ type: "text", text: JSON.stringify(cardAttachments, null, 2) }]
+          };
+        }
+
+        case "add_task": {
+          const { cardId, ...fields } = args as { cardId: string; text: string; assignee?: string; dueDate?: string; position?: number };
+          if (!(await getAccessibleCard(access, cardId))) {
+            throw new Error(`Card with ID ${cardId} not found`);
+          }
+          const task = await storage.createTask(cardId, insertTaskSchema.parse(fields), actor);
+          await broadcastTaskChange(cardId);
+          return {
+            content: [{ type: "text", text: `Task added successfully:\n${JSON.stringify(task, null, 2)}` }]
+          };
+        }
+
+        case "toggle_task": {
+          const { cardId, taskId, completed } = args as { cardId: string; taskId: string; completed?: boolean };
+          const existing = await getAccessibleTask(access, cardId, taskId);
+          if (!existing) {
+            throw new Error(`Task with ID ${taskId} not found on card ${cardId}`);
+          }
+          const task = await storage.updateTask(taskId, { completed: completed ?? !existing.completed }, actor);
+          await broadcastTaskChange(cardId);
+          return {
+            content: [{ type: "text", text: `Task ${task.completed ? "checked" : "unchecked"}:\n${JSON.stringify(task, null, 2)}` }]
+          };
+        }
+
+        case "reorder_tasks": {
+          const { cardId, taskIds } = args as { cardId: string; taskIds: string[] };
+          if (!(await getAccessibleCard(access, cardId))) {
+            throw new Error(`Card with ID ${cardId} not found`);
+          }
+          const tasks = await storage.reorderTasks(cardId, taskIds, actor);
+          await broadcastTaskChange(cardId);
+          return {
+            content: [{ type: "text", text: `Tasks reordered:\n${JSON.stringify(tasks, null, 2)}` }]
+          };
+        }
+
+        case "link_cards": {
+          const { cardId, targetCardId, type } = args as { cardId: string; targetCardId: string; type: string };
+          for (const id of [cardId, targetCardId]) {
+            if (!(await getAccessibleCard(access, id))) {
+              throw new Error(`Card with ID ${id} not found`);
             }
           }
-          
+          const link = await storage.createCardLink(cardId, insertCardLinkSchema.parse({ targetCardId, type }), actor);
+          broadcast({ type: "CARD_LINK_CREATED", data: { id: link.id, cardId, targetCardId } });
+          return {
+            content: [{ type: "text", text: `Cards linked successfully:\n${JSON.stringify(link, null, 2)}` }]
+          };
+        }
+
+        case "create_subcard": {
+          const { parentId, subcards } = args as { parentId: string; subcards: unknown };
+          const created = await createSubcards(parentId, createSubcardsSchema.parse({ subcards }), actor, access);
+          return {
+            content: [{ type: "text", text: `Created ${created.length} sub-card(s):\n${JSON.stringify(created.map(({ id, title, status, project }) => ({ id, title, status, project })), null, 2)}` }]
+          };
+        }
+
+        case "get_card_links": {
+          const { cardId } = args as { cardId: string };
+          if (!(await getAccessibleCard(access, cardId))) {
+            throw new Error(`Card with ID ${cardId} not found`);
+          }
+          const links = await getAccessibleCardLinks(access, cardId);
           return {
-          content: [{ type: "text", text: `Batch move completed:\n${JSON.stringify({ updated: results, count: results.length }, null, 2)}` }]
+            content: [{ type: "text", text: JSON.stringify(links, null, 2) }]
           };
         }
         
@@ -1678,20 +3924,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/mcp/info', (req, res) => {
     // Get tools from the MCP server
     const tools = [
-      { name: "get_projects", description: "Get all available projects in the Kanban system." },
-      { name: "get_cards", description: "Get all cards or filter by project and/or status. Returns cards sorted by their order within each status." },
-      { name: "get_cards_by_status", description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project." },
-      { name: "get_card", description: "Get details of a specific card by its ID." },
-      { name: "upload_image", description: "Upload an image to R2 storage and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax." },
-      { name: "create_card", description: "Create a new card in the Kanban board for a specific project. The description field supports full Markdown formatting including images." },
-      { name: "move_card", description: "Move a card to a different status and optionally specify its position within that status." },
-      { name: "update_card", description: "Update properties of an existing card. Use Markdown formatting in the description for better readability." },
+      { name: "get_projects", description: "Get all available projects in the Kanban system with their metadata." },
+      { name: "get_project", description: "Get metadata for a single project by its slug." },
+      { name: "create_project", description: "Create a new, empty project." },
+      { name: "update_project", description: "Rename, describe, recolor or archive a project, or change its workflow columns, their WIP limits and transition rules." },
+      { name: "delete_project", description: "Delete an empty project." },
+      { name: "list_automation_rules", description: "List the automation rules of a project, or of every project, with their triggers, conditions, actions and a description in words." },
+      { name: "get_cards", description: "Get all cards or filter by project, status and/or assignee. Returns cards sorted by their order within each status, or by a sort such as priority,dueDate." },
+      { name: "get_cards_by_status", description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project and sorted within each status." },
+      { name: "get_card", description: "Get details of a specific card by its ID, including its tasks and, for epics, sub-cards with rolled-up progress." },
+      { name: "get_card_history", description: "Get the activity history (who changed what and when) of a card." },
+      { name: "search_cards", description: "Full-text search over card titles, descriptions, notes and comments, with highlighted snippets." },
+      { name: "query_cards", description: "Filter cards with a query like 'status:blocked project:api label:bug assignee:alice priority:p0,p1 due:overdue has:tasks tasks:incomplete updated:<7d'. Supports negation (-key:value), comma-separated alternatives, bare words and a sort such as priority,dueDate." },
+      { name: "upload_image", description: "Upload an image to the board's image store and get back a URL that can be used in Markdown. The returned URL can be inserted into card descriptions using ![alt text](url) syntax." },
+      { name: "create_card", description: "Create a new card in the Kanban board for a specific project. The description field supports full Markdown formatting including images. Labels and assignees can be given by name." },
+      { name: "move_card", description: "Move a card to a different status and optionally specify its position within that status. Fails when the project has strict WIP limits and the target column is full, or when the workflow rules forbid the move." },
+      { name: "update_card", description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Setting labels or assignees replaces the card\'s current ones." },
       { name: "delete_card", description: "Delete a card from the Kanban board." },
       { name: "bulk_delete_cards", description: "Delete multiple cards from the Kanban board by their IDs. This is more efficient than deleting cards one by one." },
-      { name: "batch_move_cards", description: "Move multiple cards in a single operation for better performance." },
-      { name: "add_comment", description: "Add a comment to a card. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress." },
-      { name: "get_comments", description: "Get all comments for a specific card, sorted by timestamp (newest first)." },
-      { name: "delete_comment", description: "Delete a specific comment from a card by its comment ID." }
+      { name: "batch_move_cards", description: "Move multiple cards in a single operation for better performance. Moves into a column at its strict WIP limit are reported as failures." },
+      { name: "add_comment", description: "Add a comment to a card, or reply to one with parentId. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress." },
+      { name: "get_comments", description: "Get the comment threads of a card, oldest first, with their replies." },
+      { name: "update_comment", description: "Edit the text of a comment. The previous text is kept in its edit history." },
+      { name: "delete_comment", description: "Delete a specific comment (and its replies) from a card by its comment ID." },
+      { name: "attach_file", description: "Attach a file (PDF, log, CSV, zip, ...) sent as base64 to a card." },
+      { name: "list_attachments", description: "List the files attached to a card with their download URLs." },
+      { name: "add_task", description: "Add a task (a description checkbox) to a card, optionally with an assignee, due date and position." },
+      { name: "toggle_task", description: "Check, uncheck or toggle a task of a card." },
+      { name: "reorder_tasks", description: "Set the order of a card's tasks." },
+      { name: "link_cards", description: "Link two cards: blocks / blocked-by, relates-to, duplicates / duplicated-by or parent-of / child-of." },
+      { name: "get_card_links", description: "Get the links of a card with the linked cards' titles and statuses." },
+      { name: "create_subcard", description: "Break an epic into sub-cards in one call; the epic rolls up their progress." }
     ];
 
     res.json({
@@ -1708,7 +3971,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // MCP JSON-RPC endpoint (simplified approach)
-  app.post('/mcp', async (req, res) => {
+  app.post('/mcp', requireAuth, async (req, res) => {
     try {
       const { jsonrpc, id, method, params } = req.body;
       
@@ -1737,6 +4000,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`[MCP] Initialize request from client:`, JSON.stringify(params?.clientInfo || {}, null, 2));
           // Generate session ID for initialization
           sessionId = randomUUID();
+          mcpClientNames.set(sessionId, params?.clientInfo?.name || "mcp-client");
           result = {
             protocolVersion: clientProtocolVersion,
             capabilities: {
@@ -1756,17 +4020,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         case "tools/list":
           // Get tools from the MCP server
           const tools = [
-            { name: "get_projects", description: "Get all available projects in the Kanban system." },
-            { name: "get_cards", description: "Get all cards or filter by project and/or status. Returns cards sorted by their order within each status." },
-            { name: "get_cards_by_status", description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project." },
-            { name: "get_card", description: "Get details of a specific card by its ID." },
-            { name: "upload_image", description: "Upload an image to R2 storage and get back a URL that can be used in Markdown." },
-            { name: "create_card", description: "Create a new card in the Kanban board for a specific project. The description field supports full Markdown formatting including images." },
-            { name: "move_card", description: "Move a card to a different status and optionally specify its position within that status." },
-            { name: "update_card", description: "Update properties of an existing card. Use Markdown formatting in the description for better readability." },
+            { name: "get_projects", description: "Get all available projects in the Kanban system with their metadata." },
+            { name: "get_project", description: "Get metadata for a single project by its slug." },
+            { name: "create_project", description: "Create a new, empty project." },
+            { name: "update_project", description: "Rename, describe, recolor or archive a project, or change its workflow columns, their WIP limits and transition rules." },
+            { name: "delete_project", description: "Delete an empty project." },
+            { name: "list_automation_rules", description: "List the automation rules of a project, or of every project, with their triggers, conditions, actions and a description in words." },
+            { name: "get_cards", description: "Get all cards or filter by project, status and/or assignee. Returns cards sorted by their order within each status, or by a sort such as priority,dueDate." },
+            { name: "get_cards_by_status", description: "Get all cards grouped by status with proper ordering. Returns an object with status as keys and arrays of cards as values, optionally filtered by project and sorted within each status." },
+            { name: "get_card", description: "Get details of a specific card by its ID, including its tasks and, for epics, sub-cards with rolled-up progress." },
+            { name: "get_card_history", description: "Get the activity history (who changed what and when) of a card." },
+            { name: "search_cards", description: "Full-text search over card titles, descriptions, notes and comments, with highlighted snippets." },
+            { name: "query_cards", description: "Filter cards with a query like 'status:blocked project:api label:bug assignee:alice priority:p0,p1 due:overdue has:tasks tasks:incomplete updated:<7d'. Supports negation (-key:value), comma-separated alternatives, bare words and a sort such as priority,dueDate." },
+            { name: "upload_image", description: "Upload an image to the board's image store and get back a URL that can be used in Markdown." },
+            { name: "create_card", description: "Create a new card in the Kanban board for a specific project. The description field supports full Markdown formatting including images. Labels and assignees can be given by name." },
+            { name: "move_card", description: "Move a card to a different status and optionally specify its position within that status. Fails when the project has strict WIP limits and the target column is full, or when the workflow rules forbid the move." },
+            { name: "update_card", description: "Update properties of an existing card. Use Markdown formatting in the description for better readability. Setting labels or assignees replaces the card\'s current ones." },
             { name: "delete_card", description: "Delete a card from the Kanban board." },
             { name: "bulk_delete_cards", description: "Delete multiple cards from the Kanban board by their IDs. This is more efficient than deleting cards one by one." },
-            { name: "batch_move_cards", description: "Move multiple cards in a single operation for better performance." }
+            { name: "batch_move_cards", description: "Move multiple cards in a single operation for better performance. Moves into a column at its strict WIP limit are reported as failures." },
+            { name: "add_comment", description: "Add a comment to a card, or reply to one with parentId. Comments are timestamped and can be used for discussions, updates, or notes about the card's progress." },
+            { name: "get_comments", description: "Get the comment threads of a card, oldest first, with their replies." },
+            { name: "update_comment", description: "Edit the text of a comment. The previous text is kept in its edit history." },
+            { name: "delete_comment", description: "Delete a specific comment (and its replies) from a card by its comment ID." },
+            { name: "attach_file", description: "Attach a file (PDF, log, CSV, zip, ...) sent as base64 to a card." },
+            { name: "list_attachments", description: "List the files attached to a card with their download URLs." },
+            { name: "add_task", description: "Add a task (a description checkbox) to a card, optionally with an assignee, due date and position." },
+            { name: "toggle_task", description: "Check, uncheck or toggle a task of a card." },
+            { name: "reorder_tasks", description: "Set the order of a card's tasks." },
+            { name: "link_cards", description: "Link two cards: blocks / blocked-by, relates-to, duplicates / duplicated-by or parent-of / child-of." },
+            { name: "get_card_links", description: "Get the links of a card with the linked cards' titles and statuses." },
+            { name: "create_subcard", description: "Break an epic into sub-cards in one call; the epic rolls up their progress." }
           ];
           result = { tools };
           break;
@@ -1775,9 +4059,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const { name, arguments: args } = params;
           console.log(`[MCP] Calling tool: ${name}`, args);
           
+          const access = getAccessScope(req);
+          if (!access.canWrite && !READ_ONLY_TOOLS.has(name)) {
+            return res.status(403).json({
+              jsonrpc: "2.0",
+              id,
+              error: { code: -32603, message: `Tool ${name} needs a write-scoped API token` }
+            });
+          }
+
           // Call the tool handler directly
           try {
-            result = await callToolHandler(name, args || {});
+            const sessionClient = mcpClientNames.get(req.get("Mcp-Session-Id") || "") || "mcp-client";
+            const userName = req.user!.displayName || req.user!.username;
+            result = await callToolHandler(name, args || {}, { type: "mcp", name: `${sessionClient} (${userName})` }, access);
           } catch (error) {
             console.error(`[MCP] Tool call error:`, error);
             return res.status(500).json({
@@ -1827,7 +4122,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
   // Setup WebSocket server
-  wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Only signed-in browser sessions may subscribe to board updates
+  wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      const req = info.req as any;
+      sessionMiddleware(req, {} as any, () => {
+        done(Boolean(req.session?.passport?.user), 401, "Unauthorized");
+      });
+    },
+  });
   
   wss.on('connection', (ws) => {
     console.log('New WebSocket connection established');
@@ -1845,6 +4150,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error('WebSocket error:', error);
     });
   });
+
+  // Converts legacy integer orders on first start, then keeps rank keys short
+  const rebalanceRanks = async () => {
+    try {
+      const rewritten = await storage.rebalanceCardRanks();
+      if (rewritten > 0) {
+        console.log(`Rebalanced ranks of ${rewritten} card(s)`);
+        broadcast({ type: "CARDS_REBALANCED", data: { count: rewritten } });
+      }
+    } catch (error) {
+      console.error('Failed to rebalance card ranks:', error);
+    }
+  };
+  await rebalanceRanks();
+  setInterval(rebalanceRanks, RANK_REBALANCE_INTERVAL_MS).unref();
+
+  // Projects used to exist only as card values; give any such slug its project row
+  try {
+    const synced = await storage.syncProjectsFromCards();
+    if (synced > 0) {
+      console.log(`Created project rows for ${synced} project(s) found on cards`);
+    }
+  } catch (error) {
+    console.error('Failed to sync projects from cards:', error);
+  }
+
+  // Comments used to be a JSON column on cards; move any that are left into the comments table
+  try {
+    const migrated = await storage.migrateLegacyComments();
+    if (migrated > 0) {
+      console.log(`Moved ${migrated} legacy comment(s) into the comments table`);
+    }
+  } catch (error) {
+    console.error('Failed to migrate legacy comments:', error);
+  }
+
+  // Task lists used to be parsed from descriptions, with a JSON copy of their
+  // states on the card; give cards that predate task rows their rows
+  try {
+    const migrated = await storage.migrateLegacyTaskLists();
+    if (migrated > 0) {
+      console.log(`Created task rows for ${migrated} card(s)`);
+    }
+  } catch (error) {
+    console.error('Failed to migrate task lists:', error);
+  }
+
+  // Cards created before search existed (or written outside the app) get indexed on start
+  try {
+    const indexed = await storage.reindexCardSearch();
+    if (indexed > 0) {
+      console.log(`Indexed ${indexed} card(s) for search`);
+    }
+  } catch (error) {
+    console.error('Failed to index cards for search:', error);
+  }
+
+  // Images embedded before reference tracking existed are picked up here
+  try {
+    await storage.rebuildImageReferences();
+  } catch (error) {
+    console.error('Failed to rebuild image references:', error);
+  }
+  scheduleUploadSweeps();
+  startAutomations({ broadcast, afterMove: releaseDependents });
+  startWebhookDeliveries();
   
   return httpServer;
 }
@@ -1,99 +1,2011 @@
-import { Card, InsertCard, UpdateCard, User, InsertUser, cards, users } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { Card, InsertCard, UpdateCard, User, InsertUser, Project, InsertProject, UpdateProject, StatusDefinition, Actor, CardEvent, CardEventType, CardChanges, Comment, CommentRevision, InsertComment, LegacyComment, Attachment, InsertAttachment, ImageUpload, InsertImageUpload, CardTask, InsertTask, UpdateTask, CardLink, CardLinkKind, CardLinkType, CardLinkView, InsertCardLink, LinkedCard, Label, InsertLabel, UpdateLabel, Assignee, ApiToken, AutomationRule, AutomationTrigger, InsertAutomationRule, UpdateAutomationRule, Webhook, InsertWebhook, UpdateWebhook, WebhookDelivery, IncomingHook, InsertIncomingHook, UpdateIncomingHook, CardSearchResult, SearchField, cards, users, projects, cardEvents, apiTokens, cardSearch, comments, commentRevisions, attachments, imageUploads, cardImageRefs, cardTasks, cardLinks, labels, cardLabels, cardAssignees, automationRules, webhooks, webhookDeliveries, incomingHooks, incomingHookKeys, formatProjectSlug, getStatusDefinition, DEFAULT_STATUSES, RESOLVED_STATUSES, CARD_LINK_TYPES, CARD_LINK_INVERSES, SEARCH_FIELDS, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/schema";
+import { parseMarkdownTasks, writeMarkdownTasks } from "@shared/task-markdown";
+import { findWorkflowViolations, type WorkflowCardState } from "@shared/workflow-rules";
+import { compareCardRanks, evenlySpacedRanks, isValidRank, rankBetween, RANK_REBALANCE_LENGTH } from "@shared/rank";
+import { db as defaultDb } from "./db";
+import { eq, desc, asc, and, or, ne, lt, lte, inArray, notInArray, isNull, isNotNull, count, sql } from "drizzle-orm";
+
+// Thrown when a card is given a status that is not part of its project's workflow
+export class InvalidStatusError extends Error {
+  constructor(status: string, project: string, statuses: StatusDefinition[]) {
+    super(`Invalid status "${status}" for project "${project}". Status must be one of: ${statuses.map(s => s.key).join(", ")}`);
+    this.name = "InvalidStatusError";
+  }
+}
+
+// Thrown when a workflow update would remove a column that still holds cards
+export class StatusInUseError extends Error {
+  constructor(project: string, statusCounts: Record<string, number>) {
+    const details = Object.entries(statusCounts).map(([status, count]) => `${status} (${count})`).join(", ");
+    super(`Cannot remove statuses that still contain cards in project "${project}": ${details}`);
+    this.name = "StatusInUseError";
+  }
+}
+
+// Thrown when a reply names a parent comment that is not on the same card
+export class InvalidCommentParentError extends Error {
+  constructor(parentId: string, cardId: string) {
+    super(`Comment ${parentId} is not a comment on card ${cardId}`);
+    this.name = "InvalidCommentParentError";
+  }
+}
+
+// Thrown when a new task order does not list exactly the card's tasks
+export class InvalidTaskOrderError extends Error {
+  constructor(cardId: string) {
+    super(`Task order must list every task of card ${cardId} exactly once`);
+    this.name = "InvalidTaskOrderError";
+  }
+}
+
+// Thrown for links a card cannot have: to itself, twice, or closing a cycle
+// of blocks or parent-of links
+export class InvalidCardLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCardLinkError";
+  }
+}
+
+// Thrown when a label would share its name with another label of the project
+export class DuplicateLabelError extends Error {
+  constructor(name: string, project: string) {
+    super(`Label "${name}" already exists in project "${project}"`);
+    this.name = "DuplicateLabelError";
+  }
+}
+
+// Thrown when a card is assigned to a username that no user has
+export class InvalidAssigneeError extends Error {
+  constructor(usernames: string[]) {
+    super(`Unknown assignee${usernames.length === 1 ? "" : "s"}: ${usernames.join(", ")}`);
+    this.name = "InvalidAssigneeError";
+  }
+}
+
+// Thrown in projects with strict WIP limits when creating, moving or editing a
+// card would put more cards in a column than its limit allows
+export class WipLimitExceededError extends Error {
+  constructor(public readonly project: string, public readonly status: StatusDefinition, public readonly count: number) {
+    super(`Column "${status.label}" (${status.key}) of project "${project}" is at its WIP limit: it holds ${count} card(s) and allows ${status.wipLimit}. Move a card out of it first, or raise its limit in the project's workflow.`);
+    this.name = "WipLimitExceededError";
+  }
+}
+
+// Thrown when a status change breaks the workflow rules of the card's project:
+// the target column does not take cards from its current one, or requires
+// something the card lacks
+export class WorkflowRuleError extends Error {
+  constructor(public readonly project: string, public readonly status: StatusDefinition, public readonly violations: string[]) {
+    super(`Card cannot enter "${status.label}" (${status.key}) in project "${project}": ${violations.join("; ")}`);
+    this.name = "WorkflowRuleError";
+  }
+}
+
+// Recorded when a caller does not say who made a change
+const UNKNOWN_ACTOR: Actor = { type: "api", name: "unknown" };
+
+// Where a moved card should land in its target column. `afterId`/`beforeId`
+// name its new neighbours (what drag-and-drop knows); `position` is a 0-based
+// index among the column's cards in the same project. With neither, the card
+// goes to the end of the column.
+export interface CardPlacement {
+  status: string;
+  position?: number;
+  afterId?: string;
+  beforeId?: string;
+}
+
+export interface CardSearchOptions {
+  project?: string;
+  projects?: string[] | null; // Restrict to these projects (null = all)
+  limit?: number;
+}
+
+// Snippet settings for ts_headline; titles are short, so they are highlighted whole
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`;
+
+// Card fields that feed the search document (comment text is reindexed by the comment methods)
+const INDEXED_FIELDS = ["title", "description", "notes"];
+
+// Bookkeeping columns left out of card_events diffs
+const UNTRACKED_FIELDS = ["id", "comments", "commentCount", "createdAt", "updatedAt"];
+
+// Something that happened to a card, as automation rules see it. fromStatus
+// and changes are set for moves and edits, task for task.toggled and comment
+// for comment.added.
+export interface CardActivity {
+  type: AutomationTrigger;
+  card: Card;
+  actor: Actor;
+  fromStatus?: string;
+  changes?: CardChanges;
+  task?: CardTask;
+  comment?: Comment;
+}
+
+export type CardActivityListener = (activity: CardActivity) => Promise<void> | void;
+
+const activityListeners: CardActivityListener[] = [];
+
+/**
+ * Call `listener` after every card activity, once the change is committed.
+ * Listeners run after the write has returned; their errors are only logged.
+ */
+export function onCardActivity(listener: CardActivityListener): void {
+  activityListeners.push(listener);
+}
+
+function notifyActivity(activity: CardActivity): void {
+  setImmediate(() => {
+    for (const listener of activityListeners) {
+      Promise.resolve()
+        .then(() => listener(activity))
+        .catch(error => console.error(`Card activity listener failed on ${activity.type} of card ${activity.card.id}:`, error));
+    }
+  });
+}
+
+// Uploads no card uses: images no card references, and attachments whose card was deleted
+export interface OrphanedUploads {
+  images: ImageUpload[];
+  attachments: Attachment[];
+}
 
 export interface IStorage {
-  // Card operations
+  // Card operations (every mutation is recorded in the card_events audit log)
   getAllCards(project?: string): Promise<Card[]>;
   getCard(id: string): Promise<Card | undefined>;
-  createCard(card: InsertCard): Promise<Card>;
-  updateCard(id: string, updates: UpdateCard): Promise<Card>;
-  deleteCard(id: string): Promise<boolean>;
+  createCard(card: InsertCard, actor?: Actor): Promise<Card>;
+  updateCard(id: string, updates: UpdateCard, actor?: Actor): Promise<Card>;
+  deleteCard(id: string, actor?: Actor): Promise<boolean>;
+  getCardHistory(cardId: string): Promise<CardEvent[]>;
+
+  // Comments, oldest first. Replies hang off the first comment of their thread;
+  // an edit keeps the replaced text as a revision. Every change refreshes the
+  // card's commentCount, updatedAt and search document. migrateLegacyComments
+  // moves the old cards.comments JSON into the table and returns the comments moved.
+  getComments(cardId: string): Promise<Comment[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(cardId: string, comment: InsertComment, actor?: Actor): Promise<Comment>;
+  updateComment(id: string, content: string, actor?: Actor): Promise<Comment>;
+  deleteComment(id: string): Promise<Comment | undefined>;
+  getCommentRevisions(commentId: string): Promise<CommentRevision[]>;
+  migrateLegacyComments(): Promise<number>;
+
+  // Tasks, in list order. They mirror the Markdown checkboxes of the card's
+  // description: changing a task rewrites those lines (recorded as a
+  // description edit by the actor), and editing the description re-reads
+  // them, keeping the id, assignee and due date of items that stay.
+  // migrateLegacyTaskLists creates rows for cards that predate them and
+  // returns the number of cards migrated.
+  getTasks(cardId: string): Promise<CardTask[]>;
+  getTask(id: string): Promise<CardTask | undefined>;
+  createTask(cardId: string, task: InsertTask, actor?: Actor): Promise<CardTask>;
+  updateTask(id: string, updates: UpdateTask, actor?: Actor): Promise<CardTask>;
+  deleteTask(id: string, actor?: Actor): Promise<CardTask | undefined>;
+  reorderTasks(cardId: string, taskIds: string[], actor?: Actor): Promise<CardTask[]>;
+  migrateLegacyTaskLists(): Promise<number>;
+
+  // Links between cards. getCardLinks and createCardLink describe each link
+  // from the given card's side (a "blocks" link stored on the other card is
+  // "blocked-by"). getOpenBlockers maps each blocked card to its blockers
+  // that are not in a RESOLVED_STATUSES column. unblockDependents moves cards
+  // blocked only by the given (resolved) card from blocked to not-started,
+  // where their project has autoUnblock on, and returns them.
+  getCardLinks(cardId: string): Promise<CardLinkView[]>;
+  getCardLink(id: string): Promise<CardLink | undefined>;
+  createCardLink(cardId: string, link: InsertCardLink, actor?: Actor): Promise<CardLinkView>;
+  deleteCardLink(id: string): Promise<CardLink | undefined>;
+  getOpenBlockers(): Promise<Record<string, LinkedCard[]>>;
+  // Sub-cards are the targets of an epic's parent-of links, oldest link first
+  getSubcards(parentId: string): Promise<Card[]>;
+  getSubcardsByParent(): Promise<Record<string, LinkedCard[]>>;
+  unblockDependents(cardId: string, actor?: Actor): Promise<Card[]>;
+
+  // Labels of a project, by name. Cards get theirs through the labels field of
+  // createCard and updateCard, which takes names (any case) and creates the
+  // ones the project lacks; the change is recorded on the card like a field.
+  // getLabelsByCard maps every labelled card to its labels.
+  getLabels(project: string): Promise<Label[]>;
+  getLabel(id: string): Promise<Label | undefined>;
+  createLabel(project: string, label: InsertLabel): Promise<Label>;
+  updateLabel(id: string, updates: UpdateLabel): Promise<Label>;
+  deleteLabel(id: string): Promise<Label | undefined>;
+  getCardLabels(cardId: string): Promise<Label[]>;
+  getLabelsByCard(): Promise<Record<string, Label[]>>;
+
+  // Assignees of cards, by username. Cards get theirs through the assignees
+  // field of createCard and updateCard, which takes usernames and fails with
+  // InvalidAssigneeError before changing anything when one is unknown.
+  // getAssigneesByCard maps every assigned card to its assignees.
+  getCardAssignees(cardId: string): Promise<Assignee[]>;
+  getAssigneesByCard(): Promise<Record<string, Assignee[]>>;
+
+  // Attachments, oldest first. Only the metadata is kept here; the files are
+  // in the upload store. Adding or removing one bumps the card's updatedAt.
+  getAttachments(cardId: string): Promise<Attachment[]>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  createAttachment(cardId: string, attachment: InsertAttachment, actor?: Actor): Promise<Attachment>;
+  deleteAttachment(id: string): Promise<Attachment | undefined>;
+
+  // Images uploaded for Markdown, with their dimensions and resized variants.
+  // Card writes keep card_image_refs current; rebuildImageReferences recomputes
+  // it for every card and returns the number of references. getOrphanedUploads
+  // lists unreferenced images created before the cutoff, and every attachment
+  // whose card is gone.
+  createImageUpload(upload: InsertImageUpload, actor?: Actor): Promise<ImageUpload>;
+  deleteImageUpload(id: string): Promise<ImageUpload | undefined>;
+  rebuildImageReferences(): Promise<number>;
+  getOrphanedUploads(createdBefore: Date): Promise<OrphanedUploads>;
+
+  // Ordering: cards.order holds a fractional rank (see shared/rank.ts), so a
+  // move rewrites only the moved card. rebalanceCardRanks respaces columns whose
+  // ranks grew long or still hold legacy integers; it returns the cards rewritten.
+  // Like every status change in createCard and updateCard, a move fails with
+  // WipLimitExceededError when the project has strictWipLimits and the column
+  // already holds its wipLimit of cards, and with WorkflowRuleError when the
+  // project's workflow rules do not allow it.
+  moveCard(id: string, placement: CardPlacement, actor?: Actor): Promise<Card>;
+  rebalanceCardRanks(): Promise<number>;
+
+  // Full-text search over title, description, notes and comment text. Every
+  // term must match, as a word prefix. reindexCardSearch indexes cards that
+  // have no card_search row yet and returns how many it indexed.
+  searchCards(query: string, options?: CardSearchOptions): Promise<CardSearchResult[]>;
+  reindexCardSearch(): Promise<number>;
   
-  // Project operations
-  getProjects(): Promise<string[]>;
+  // Project operations. Cards create their project's row when they are
+  // written; syncProjectsFromCards backfills rows for slugs that only exist on
+  // older cards and returns how many it created.
+  getProjects(includeArchived?: boolean): Promise<Project[]>;
+  getProject(slug: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(slug: string, updates: UpdateProject): Promise<Project>;
+  deleteProject(slug: string): Promise<boolean>;
+  syncProjectsFromCards(): Promise<number>;
+  countProjectCards(slug: string): Promise<number>;
+  getProjectStatuses(slug: string): Promise<StatusDefinition[]>;
   
-  // User operations (for future authentication)
+  // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<Assignee[]>;
+  // The first account becomes admin. Later accounts are members and are only
+  // created when allowMembers is set; undefined when one is refused.
+  createUser(user: Omit<InsertUser, "role">, allowMembers: boolean): Promise<User | undefined>;
+  countUsers(): Promise<number>;
+
+  // API token operations (tokens are looked up by the SHA-256 hash of their value)
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: Omit<ApiToken, "id" | "createdAt" | "lastUsedAt">): Promise<ApiToken>;
+  deleteApiToken(userId: string, id: string): Promise<boolean>;
+  touchApiToken(id: string): Promise<void>;
+
+  // Automation rules of a project in the order they run (oldest first), or of
+  // every project. Statuses the conditions and move actions name must be part
+  // of the project's workflow. Card writes report what happened to listeners
+  // registered with onCardActivity, which is how the rules are run. `secret`
+  // signs the requests of the rule's webhook actions.
+  getAutomationRules(project?: string): Promise<AutomationRule[]>;
+  getAutomationRule(id: string): Promise<AutomationRule | undefined>;
+  createAutomationRule(project: string, rule: InsertAutomationRule, secret: string): Promise<AutomationRule>;
+  updateAutomationRule(id: string, updates: UpdateAutomationRule): Promise<AutomationRule>;
+  setAutomationRuleSecret(id: string, secret: string): Promise<AutomationRule | undefined>;
+  deleteAutomationRule(id: string): Promise<AutomationRule | undefined>;
+
+  // Outgoing webhooks of a project (oldest first) and their deliveries, newest
+  // first. A delivery is attempted by whoever claims it: claiming moves its
+  // next attempt to leaseUntil, so a delivery is never sent twice at once.
+  getWebhooks(project: string): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  createWebhook(project: string, webhook: InsertWebhook, secret: string): Promise<Webhook>;
+  updateWebhook(id: string, updates: UpdateWebhook): Promise<Webhook>;
+  deleteWebhook(id: string): Promise<Webhook | undefined>;
+  getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  createWebhookDeliveries(deliveries: Pick<WebhookDelivery, "webhookId" | "event" | "payload">[]): Promise<WebhookDelivery[]>;
+  // Pending deliveries of enabled webhooks whose next attempt is due
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: string, now: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, updates: Partial<Pick<WebhookDelivery, "status" | "attempts" | "responseStatus" | "error" | "nextAttemptAt" | "lastAttemptAt">>): Promise<WebhookDelivery>;
+  // Deletes finished deliveries created before `before`; returns how many
+  pruneWebhookDeliveries(before: Date): Promise<number>;
+
+  // Incoming webhooks of a project (oldest first). Like API tokens, a hook is
+  // looked up by the SHA-256 hash of the token in its URL.
+  getIncomingHooks(project: string): Promise<IncomingHook[]>;
+  getIncomingHook(id: string): Promise<IncomingHook | undefined>;
+  getIncomingHookByTokenHash(tokenHash: string): Promise<IncomingHook | undefined>;
+  createIncomingHook(project: string, hook: InsertIncomingHook, token: Pick<IncomingHook, "tokenHash" | "tokenPrefix">): Promise<IncomingHook>;
+  updateIncomingHook(id: string, updates: UpdateIncomingHook): Promise<IncomingHook>;
+  deleteIncomingHook(id: string): Promise<IncomingHook | undefined>;
+  touchIncomingHook(id: string): Promise<void>;
+  // Records an idempotency key of a hook if it is new and returns the card
+  // recorded for it, if any. Inside a transaction the key stays locked until
+  // it ends, so concurrent deliveries with one key are handled one at a time.
+  lockIncomingHookKey(hookId: string, key: string): Promise<string | null>;
+  setIncomingHookKeyCard(hookId: string, key: string, cardId: string): Promise<void>;
+
+  // Runs fn against a storage bound to one database transaction. Everything
+  // fn does commits together, or is rolled back if it throws.
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
 }
 
+type Database = typeof defaultDb;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
+  // The pool by default; a transaction handle for the storage passed to
+  // transaction(), which also collects the card activity to report on commit
+  constructor(
+    private readonly db: Database | Transaction = defaultDb,
+    private readonly pendingActivity: CardActivity[] | null = null,
+  ) {}
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested calls become savepoints inside the outer transaction
+    const activity: CardActivity[] = [];
+    const result = await this.db.transaction(tx => fn(new DatabaseStorage(tx, activity)));
+    activity.forEach(item => this.reportActivity(item));
+    return result;
+  }
+
+  // Held back until the outermost transaction commits; dropped if it rolls back
+  private reportActivity(activity: CardActivity): void {
+    if (this.pendingActivity) {
+      this.pendingActivity.push(activity);
+    } else {
+      notifyActivity(activity);
+    }
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
-      .returning();
-    return user;
+  async createUser(insertUser: Omit<InsertUser, "role">, allowMembers: boolean): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Held until commit, so two first sign-ups cannot both become admin
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [existing] = await tx.select({ count: count() }).from(users);
+      if (existing.count > 0 && !allowMembers) {
+        return undefined;
+      }
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: existing.count === 0 ? "admin" : "member" })
+        .returning();
+      return user;
+    });
+  }
+
+  async getUsers(): Promise<Assignee[]> {
+    return this.db.select(ASSIGNEE_FIELDS).from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await this.db.select({ count: count() }).from(users);
+    return result.count;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return this.db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: Omit<ApiToken, "id" | "createdAt" | "lastUsedAt">): Promise<ApiToken> {
+    const [created] = await this.db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return result.length > 0;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
   }
 
   async getAllCards(project?: string): Promise<Card[]> {
     let allCards: Card[];
     
     if (project) {
-      allCards = await db.select().from(cards).where(eq(cards.project, project));
+      allCards = await this.db.select().from(cards).where(eq(cards.project, project));
     } else {
-      allCards = await db.select().from(cards);
+      allCards = await this.db.select().from(cards);
     }
     
-    return allCards.sort((a, b) => parseInt(a.order) - parseInt(b.order));
+    return allCards.sort(compareCardRanks);
+  }
+
+  async getProjects(includeArchived = false): Promise<Project[]> {
+    const allProjects = await this.db.select().from(projects).orderBy(asc(projects.name));
+    return includeArchived ? allProjects : allProjects.filter(project => !project.archived);
+  }
+
+  async getProject(slug: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.slug, slug));
+    return project || undefined;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db
+      .insert(projects)
+      .values(insertProject)
+      .returning();
+    return project;
+  }
+
+  async updateProject(slug: string, updates: UpdateProject): Promise<Project> {
+    if (updates.statuses) {
+      await this.assertStatusesRemovable(slug, updates.statuses);
+    }
+
+    const [updatedProject] = await this.db
+      .update(projects)
+      .set(updates)
+      .where(eq(projects.slug, slug))
+      .returning();
+
+    if (!updatedProject) {
+      throw new Error(`Project ${slug} not found`);
+    }
+
+    return updatedProject;
+  }
+
+  async deleteProject(slug: string): Promise<boolean> {
+    const result = await this.db
+      .delete(projects)
+      .where(eq(projects.slug, slug))
+      .returning({ id: projects.id });
+
+    if (result.length > 0) {
+      await this.db.delete(labels).where(eq(labels.project, slug));
+      await this.db.delete(automationRules).where(eq(automationRules.project, slug));
+      await this.db.delete(webhooks).where(eq(webhooks.project, slug));
+      await this.db.delete(incomingHooks).where(eq(incomingHooks.project, slug));
+    }
+    return result.length > 0;
+  }
+
+  async countProjectCards(slug: string): Promise<number> {
+    const projectCards = await this.db.select({ id: cards.id }).from(cards).where(eq(cards.project, slug));
+    return projectCards.length;
+  }
+
+  async getProjectStatuses(slug: string): Promise<StatusDefinition[]> {
+    const project = await this.getProject(slug);
+    return project?.statuses?.length ? project.statuses : DEFAULT_STATUSES;
+  }
+
+  private async assertValidStatus(project: string, status: string): Promise<void> {
+    const statuses = await this.getProjectStatuses(project);
+    if (!statuses.some(s => s.key === status)) {
+      throw new InvalidStatusError(status, project, statuses);
+    }
+  }
+
+  // Room for one more card in a column; only checked in projects with strict WIP limits
+  private async assertWipLimit(slug: string, status: string): Promise<void> {
+    const project = await this.getProject(slug);
+    const column = project?.statuses.find(s => s.key === status);
+    if (!project?.strictWipLimits || !column?.wipLimit) {
+      return;
+    }
+    const [{ value }] = await this.db
+      .select({ value: count() })
+      .from(cards)
+      .where(and(eq(cards.project, slug), eq(cards.status, status)));
+    if (value >= column.wipLimit) {
+      throw new WipLimitExceededError(slug, column, value);
+    }
+  }
+
+  // Transition rules and required fields of the target column (shared/workflow-rules.ts);
+  // `from` is undefined for new cards
+  private async assertWorkflowRules(project: string, from: string | undefined, to: string, card: WorkflowCardState): Promise<void> {
+    const statuses = await this.getProjectStatuses(project);
+    const violations = findWorkflowViolations(statuses, from, to, card);
+    if (violations.length > 0) {
+      throw new WorkflowRuleError(project, getStatusDefinition(statuses, to), violations);
+    }
+  }
+
+  // Columns named by a rule's conditions and move actions
+  private async assertRuleStatuses(project: string, rule: UpdateAutomationRule): Promise<void> {
+    const named = [
+      rule.conditions?.status,
+      rule.conditions?.fromStatus,
+      ...(rule.actions || []).map(action => action.type === "move" ? action.status : undefined),
+    ];
+    for (const status of named) {
+      if (status) {
+        await this.assertValidStatus(project, status);
+      }
+    }
   }
 
-  async getProjects(): Promise<string[]> {
-    const allCards = await db.select({ project: cards.project }).from(cards);
-    const projects = new Set(allCards.map(card => card.project));
-    return Array.from(projects).sort();
+  private async assertStatusesRemovable(slug: string, statuses: StatusDefinition[]): Promise<void> {
+    const keptKeys = new Set(statuses.map(status => status.key));
+    const removedKeys = (await this.getProjectStatuses(slug))
+      .map(status => status.key)
+      .filter(key => !keptKeys.has(key));
+
+    if (removedKeys.length === 0) {
+      return;
+    }
+
+    const stranded = await this.db
+      .select({ status: cards.status })
+      .from(cards)
+      .where(and(eq(cards.project, slug), inArray(cards.status, removedKeys)));
+
+    if (stranded.length > 0) {
+      const statusCounts: Record<string, number> = {};
+      stranded.forEach(({ status }) => {
+        statusCounts[status] = (statusCounts[status] || 0) + 1;
+      });
+      throw new StatusInUseError(slug, statusCounts);
+    }
+  }
+
+  // Projects used to be derived from distinct card values. Backfill a metadata
+  // row for any slug that only exists on cards so legacy data keeps showing up.
+  async syncProjectsFromCards(): Promise<number> {
+    const cardProjects = await this.db.selectDistinct({ project: cards.project }).from(cards);
+    if (cardProjects.length === 0) {
+      return 0;
+    }
+
+    const created = await this.db
+      .insert(projects)
+      .values(cardProjects.map(({ project }) => ({
+        slug: project,
+        name: formatProjectSlug(project),
+      })))
+      .onConflictDoNothing({ target: projects.slug })
+      .returning({ slug: projects.slug });
+    return created.length;
+  }
+
+  private async ensureProject(slug: string): Promise<void> {
+    await this.db
+      .insert(projects)
+      .values({ slug, name: formatProjectSlug(slug) })
+      .onConflictDoNothing({ target: projects.slug });
   }
 
   async getCard(id: string): Promise<Card | undefined> {
-    const [card] = await db.select().from(cards).where(eq(cards.id, id));
+    const [card] = await this.db.select().from(cards).where(eq(cards.id, id));
     return card || undefined;
   }
 
-  async createCard(insertCard: InsertCard): Promise<Card> {
-    const [card] = await db
+  async createCard({ labels: labelNames, assignees: usernames, ...insertCard }: InsertCard, actor: Actor = UNKNOWN_ACTOR): Promise<Card> {
+    const assignees = usernames?.length ? await this.resolveAssignees(usernames) : [];
+    const project = insertCard.project || "default";
+    await this.ensureProject(project);
+
+    // Default to the first column of the project's workflow
+    const status = insertCard.status || (await this.getProjectStatuses(project))[0].key;
+    await this.assertValidStatus(project, status);
+    await this.assertWipLimit(project, status);
+    await this.assertWorkflowRules(project, undefined, status, {
+      link: insertCard.link ?? null,
+      description: insertCard.description,
+      dueDate: insertCard.dueDate ?? null,
+      priority: insertCard.priority ?? null,
+      estimate: insertCard.estimate ?? null,
+      assigneeCount: assignees.length,
+      tasks: parseMarkdownTasks(insertCard.description),
+    });
+
+    // New cards go to the bottom of their column unless given a valid rank
+    const order = insertCard.order && isValidRank(insertCard.order)
+      ? insertCard.order
+      : rankBetween(await this.getLastRank(project, status), null);
+
+    const [card] = await this.db
       .insert(cards)
       .values({
         ...insertCard,
-        project: insertCard.project || "default"
+        status,
+        project,
+        order
       })
       .returning();
+
+    await this.indexCard(card);
+    await this.syncImageReferences(card.id);
+    await this.syncTasksFromMarkdown(card.id, card.description);
+    const changes = diffCards(undefined, card);
+    if (labelNames?.length) {
+      changes.labels = await this.setCardLabels(card.id, project, labelNames);
+    }
+    if (assignees.length > 0) {
+      changes.assignees = await this.setCardAssignees(card.id, assignees);
+    }
+    await this.recordCardEvent(card, "created", changes, actor);
     return card;
   }
 
-  async updateCard(id: string, updates: UpdateCard): Promise<Card> {
-    const [updatedCard] = await db
+  async updateCard(id: string, { labels: labelNames, assignees: usernames, ...updates }: UpdateCard, actor: Actor = UNKNOWN_ACTOR): Promise<Card> {
+    const assignees = usernames && await this.resolveAssignees(usernames);
+    if (updates.project) {
+      await this.ensureProject(updates.project);
+    }
+
+    const existing = await this.getCard(id);
+    if (!existing) {
+      throw new Error(`Card with id ${id} not found`);
+    }
+
+    if (updates.status || updates.project) {
+      await this.assertValidStatus(updates.project || existing.project, updates.status || existing.status);
+    }
+
+    const status = updates.status || existing.status;
+    if (status !== existing.status || (updates.project && updates.project !== existing.project)) {
+      await this.assertWipLimit(updates.project || existing.project, status);
+    }
+    if (status !== existing.status) {
+      // Checked against the card as this update leaves it
+      await this.assertWorkflowRules(updates.project || existing.project, existing.status, status, {
+        link: updates.link !== undefined ? updates.link : existing.link,
+        description: updates.description ?? existing.description,
+        dueDate: updates.dueDate !== undefined ? updates.dueDate : existing.dueDate,
+        priority: updates.priority !== undefined ? updates.priority : existing.priority,
+        estimate: updates.estimate !== undefined ? updates.estimate : existing.estimate,
+        assigneeCount: assignees ? assignees.length : (await this.getCardAssignees(id)).length,
+        tasks: updates.description !== undefined ? parseMarkdownTasks(updates.description) : await this.getTasks(id),
+      });
+    }
+    if (updates.order !== undefined && !isValidRank(updates.order)) {
+      // Older clients send 1-based integer positions
+      const position = Math.max(parseInt(updates.order, 10) - 1, 0) || 0;
+      updates = { ...updates, order: await this.getRankForPosition(id, updates.project || existing.project, status, position) };
+    } else if (updates.order === undefined && status !== existing.status) {
+      // A card moved to another column without a position lands at its bottom
+      updates = { ...updates, order: rankBetween(await this.getLastRank(updates.project || existing.project, status, id), null) };
+    }
+
+    const [updatedCard] = await this.db
       .update(cards)
-      .set(updates)
+      .set({ ...updates, updatedAt: new Date() })
       .where(eq(cards.id, id))
       .returning();
     
     if (!updatedCard) {
       throw new Error(`Card with id ${id} not found`);
     }
+
+    const changes = diffCards(existing, updatedCard);
+    const changedFields = Object.keys(changes);
+    if (changedFields.some(field => INDEXED_FIELDS.includes(field))) {
+      await this.indexCard(updatedCard);
+    }
+    if (changedFields.includes("description") || changedFields.includes("notes")) {
+      await this.syncImageReferences(id);
+    }
+    if (changedFields.includes("description")) {
+      await this.syncTasksFromMarkdown(id, updatedCard.description);
+    }
+    if (labelNames || changedFields.includes("project")) {
+      // Labels follow a card to another project by name
+      const names = labelNames || (await this.getCardLabels(id)).map(label => label.name);
+      const labelChange = await this.setCardLabels(id, updatedCard.project, names);
+      if (labelChange.from.join("\n") !== labelChange.to.join("\n")) {
+        changes.labels = labelChange;
+        changedFields.push("labels");
+      }
+    }
+    if (assignees) {
+      const assigneeChange = await this.setCardAssignees(id, assignees);
+      if (assigneeChange.from.join("\n") !== assigneeChange.to.join("\n")) {
+        changes.assignees = assigneeChange;
+        changedFields.push("assignees");
+      }
+    }
+    if (changedFields.length > 0) {
+      // Status and position changes are moves; anything else is an edit
+      const type = changedFields.every(field => field === "status" || field === "order") ? "moved" : "updated";
+      await this.recordCardEvent(updatedCard, type, changes, actor);
+    }
     
     return updatedCard;
   }
 
-  async deleteCard(id: string): Promise<boolean> {
-    const result = await db
+  async moveCard(id: string, placement: CardPlacement, actor: Actor = UNKNOWN_ACTOR): Promise<Card> {
+    const { status, position, afterId, beforeId } = placement;
+    const card = await this.getCard(id);
+    if (!card) {
+      throw new Error(`Card with id ${id} not found`);
+    }
+    let order: string;
+
+    if (afterId || beforeId) {
+      const [after, before] = await Promise.all([
+        afterId ? this.getCard(afterId) : undefined,
+        beforeId ? this.getCard(beforeId) : undefined,
+      ]);
+      if ((afterId && !after) || (beforeId && !before)) {
+        throw new Error(`Card with id ${afterId && !after ? afterId : beforeId} not found`);
+      }
+      order = rankBetween(after?.order, before?.order);
+    } else if (position !== undefined) {
+      order = await this.getRankForPosition(id, card.project, status, position);
+    } else {
+      order = rankBetween(await this.getLastRank(card.project, status, id), null);
+    }
+
+    return this.updateCard(id, { status, order }, actor);
+  }
+
+  async rebalanceCardRanks(): Promise<number> {
+    const rows = await this.db
+      .select({ id: cards.id, project: cards.project, status: cards.status, order: cards.order })
+      .from(cards);
+
+    // Ranks are compared within one project's column
+    const columns = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const column = `${row.project}\u0000${row.status}`;
+      columns.set(column, [...(columns.get(column) || []), row]);
+    }
+
+    let rewritten = 0;
+    for (const column of Array.from(columns.values())) {
+      const orders = column.map(row => row.order);
+      const needsRebalance =
+        orders.some(order => !isValidRank(order) || order.length > RANK_REBALANCE_LENGTH) ||
+        new Set(orders).size !== orders.length;
+      if (!needsRebalance) {
+        continue;
+      }
+
+      // Legacy integer orders sort numerically ahead of ranked cards
+      column.sort((a, b) => {
+        const aLegacy = !isValidRank(a.order);
+        const bLegacy = !isValidRank(b.order);
+        if (aLegacy && bLegacy) {
+          return (parseInt(a.order, 10) || 0) - (parseInt(b.order, 10) || 0) || compareCardRanks(a, b);
+        }
+        if (aLegacy !== bLegacy) {
+          return aLegacy ? -1 : 1;
+        }
+        return compareCardRanks(a, b);
+      });
+
+      // Respacing is housekeeping, not a user change, so no card_events are written
+      const ranks = evenlySpacedRanks(column.length);
+      for (let i = 0; i < column.length; i++) {
+        if (column[i].order !== ranks[i]) {
+          await this.db.update(cards).set({ order: ranks[i] }).where(eq(cards.id, column[i].id));
+          rewritten++;
+        }
+      }
+    }
+
+    return rewritten;
+  }
+
+  async searchCards(query: string, options: CardSearchOptions = {}): Promise<CardSearchResult[]> {
+    // Build the tsquery from plain words so user input can never be tsquery syntax
+    const terms = query.split(/[^0-9A-Za-z\u00C0-\uFFFF]+/).filter(Boolean);
+    if (terms.length === 0) {
+      return [];
+    }
+    const tsQuery = sql`to_tsquery('english', ${terms.map(term => `${term}:*`).join(" & ")}::text)`;
+    const rank = sql<number>`ts_rank(${cardSearch.document}, ${tsQuery})`;
+
+    const rows = await this.db
+      .select({
+        card: cards,
+        rank,
+        title: sql<string>`ts_headline('english', ${cards.title}, ${tsQuery}, ${TITLE_HEADLINE_OPTIONS}::text)`,
+        description: sql<string>`ts_headline('english', ${cards.description}, ${tsQuery}, ${HEADLINE_OPTIONS}::text)`,
+        notes: sql<string>`ts_headline('english', coalesce(${cards.notes}, ''), ${tsQuery}, ${HEADLINE_OPTIONS}::text)`,
+        comments: sql<string>`ts_headline('english', ${cardSearch.commentText}, ${tsQuery}, ${HEADLINE_OPTIONS}::text)`,
+      })
+      .from(cardSearch)
+      .innerJoin(cards, eq(cards.id, cardSearch.cardId))
+      .where(and(
+        sql`${cardSearch.document} @@ ${tsQuery}`,
+        options.project ? eq(cards.project, options.project) : undefined,
+        options.projects ? inArray(cards.project, options.projects) : undefined,
+      ))
+      .orderBy(desc(rank))
+      .limit(options.limit ?? 20);
+
+    return rows.map(row => {
+      // ts_headline returns the start of the text when nothing matched; keep real matches only
+      const highlights: Partial<Record<SearchField, string>> = {};
+      for (const field of SEARCH_FIELDS) {
+        if (row[field].includes(SEARCH_HIGHLIGHT_START)) {
+          highlights[field] = row[field];
+        }
+      }
+      return { card: row.card, rank: Number(row.rank), highlights };
+    });
+  }
+
+  async reindexCardSearch(): Promise<number> {
+    const missing = await this.db
+      .select({ card: cards })
+      .from(cards)
+      .leftJoin(cardSearch, eq(cardSearch.cardId, cards.id))
+      .where(isNull(cardSearch.cardId));
+
+    for (const { card } of missing) {
+      await this.indexCard(card);
+    }
+    return missing.length;
+  }
+
+  // Title weighs most, then description, then notes and comments
+  private async indexCard(card: Card): Promise<void> {
+    const cardComments = await this.db
+      .select({ content: comments.content })
+      .from(comments)
+      .where(eq(comments.cardId, card.id))
+      .orderBy(asc(comments.createdAt));
+    const commentText = cardComments.map(comment => comment.content).join("\n");
+    const document = sql`
+      setweight(to_tsvector('english', ${card.title}::text), 'A') ||
+      setweight(to_tsvector('english', ${card.description}::text), 'B') ||
+      setweight(to_tsvector('english', ${card.notes ?? ""}::text), 'C') ||
+      setweight(to_tsvector('english', ${commentText}::text), 'C')`;
+
+    await this.db
+      .insert(cardSearch)
+      .values({ cardId: card.id, document, commentText })
+      .onConflictDoUpdate({ target: cardSearch.cardId, set: { document, commentText } });
+  }
+
+  // Rank of the last of the project's cards in `status`, ignoring `excludeId`
+  private async getLastRank(project: string, status: string, excludeId?: string): Promise<string | null> {
+    const column = await this.db
+      .select({ id: cards.id, order: cards.order })
+      .from(cards)
+      .where(and(eq(cards.project, project), eq(cards.status, status), excludeId ? ne(cards.id, excludeId) : undefined));
+    const ranked = column.filter(card => isValidRank(card.order)).sort(compareCardRanks);
+    return ranked.length > 0 ? ranked[ranked.length - 1].order : null;
+  }
+
+  // Rank that puts card `id` at a 0-based index among the project's cards in `status`
+  private async getRankForPosition(id: string, project: string, status: string, position: number): Promise<string> {
+    const column = (await this.db
+      .select({ id: cards.id, order: cards.order })
+      .from(cards)
+      .where(and(eq(cards.project, project), eq(cards.status, status), ne(cards.id, id))))
+      .sort(compareCardRanks);
+    const index = Math.min(Math.max(position, 0), column.length);
+    return rankBetween(column[index - 1]?.order, column[index]?.order);
+  }
+
+  async deleteCard(id: string, actor: Actor = UNKNOWN_ACTOR): Promise<boolean> {
+    const result = await this.db
       .delete(cards)
       .where(eq(cards.id, id))
-      .returning({ id: cards.id });
+      .returning();
+
+    if (result.length > 0) {
+      await this.recordCardEvent(result[0], "deleted", diffCards(result[0], undefined), actor);
+    }
     
     return result.length > 0;
   }
+
+  async getCardHistory(cardId: string): Promise<CardEvent[]> {
+    return this.db
+      .select()
+      .from(cardEvents)
+      .where(eq(cardEvents.cardId, cardId))
+      .orderBy(desc(cardEvents.createdAt));
+  }
+
+  async getComments(cardId: string): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(eq(comments.cardId, cardId))
+      .orderBy(asc(comments.createdAt), asc(comments.id));
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment || undefined;
+  }
+
+  async createComment(cardId: string, comment: InsertComment, actor: Actor = UNKNOWN_ACTOR): Promise<Comment> {
+    if (!(await this.getCard(cardId))) {
+      throw new Error(`Card with id ${cardId} not found`);
+    }
+
+    let parentId: string | null = null;
+    if (comment.parentId) {
+      const parent = await this.getComment(comment.parentId);
+      if (!parent || parent.cardId !== cardId) {
+        throw new InvalidCommentParentError(comment.parentId, cardId);
+      }
+      // A reply to a reply joins the same thread
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const [created] = await this.db
+      .insert(comments)
+      .values({
+        cardId,
+        parentId,
+        content: comment.content,
+        authorType: actor.type,
+        authorName: actor.name,
+      })
+      .returning();
+
+    await this.syncCardComments(cardId);
+    const card = await this.getCard(cardId);
+    if (card) {
+      this.reportActivity({ type: "comment.added", card, actor, comment: created });
+    }
+    return created;
+  }
+
+  async updateComment(id: string, content: string, actor: Actor = UNKNOWN_ACTOR): Promise<Comment> {
+    const existing = await this.getComment(id);
+    if (!existing) {
+      throw new Error(`Comment with id ${id} not found`);
+    }
+    if (existing.content === content) {
+      return existing;
+    }
+
+    // The revision and the new text are written together
+    const updated = await this.db.transaction(async (tx) => {
+      await tx.insert(commentRevisions).values({
+        commentId: id,
+        content: existing.content,
+        editorType: actor.type,
+        editorName: actor.name,
+      });
+      const [comment] = await tx
+        .update(comments)
+        .set({ content, editedAt: new Date() })
+        .where(eq(comments.id, id))
+        .returning();
+      return comment;
+    });
+
+    await this.syncCardComments(existing.cardId);
+    return updated;
+  }
+
+  // Replies are deleted along with the comment they answer
+  async deleteComment(id: string): Promise<Comment | undefined> {
+    const [deleted] = await this.db.delete(comments).where(eq(comments.id, id)).returning();
+    if (deleted) {
+      await this.syncCardComments(deleted.cardId);
+    }
+    return deleted || undefined;
+  }
+
+  async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    return this.db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(asc(commentRevisions.createdAt));
+  }
+
+  async getTasks(cardId: string): Promise<CardTask[]> {
+    return this.db
+      .select()
+      .from(cardTasks)
+      .where(eq(cardTasks.cardId, cardId))
+      .orderBy(asc(cardTasks.position), asc(cardTasks.createdAt));
+  }
+
+  async getTask(id: string): Promise<CardTask | undefined> {
+    const [task] = await this.db.select().from(cardTasks).where(eq(cardTasks.id, id));
+    return task || undefined;
+  }
+
+  async createTask(cardId: string, task: InsertTask, actor: Actor = UNKNOWN_ACTOR): Promise<CardTask> {
+    const card = await this.getCard(cardId);
+    if (!card) {
+      throw new Error(`Card with id ${cardId} not found`);
+    }
+
+    const drafts = (await this.getTasks(cardId)).map(toTaskDraft);
+    const position = Math.min(task.position ?? drafts.length, drafts.length);
+    drafts.splice(position, 0, {
+      text: task.text,
+      completed: task.completed ?? false,
+      assignee: task.assignee ?? null,
+      dueDate: task.dueDate ?? null,
+    });
+
+    const saved = await this.saveTaskList(card, drafts, actor);
+    return saved[position];
+  }
+
+  async updateTask(id: string, updates: UpdateTask, actor: Actor = UNKNOWN_ACTOR): Promise<CardTask> {
+    const existing = await this.getTask(id);
+    const card = existing && await this.getCard(existing.cardId);
+    if (!existing || !card) {
+      throw new Error(`Task with id ${id} not found`);
+    }
+
+    const drafts = (await this.getTasks(card.id)).map(task => task.id === id ? toTaskDraft({ ...task, ...updates }) : toTaskDraft(task));
+    const saved = await this.saveTaskList(card, drafts, actor);
+    const task = saved.find(task => task.id === id)!;
+    if (task.completed !== existing.completed) {
+      this.reportActivity({ type: "task.toggled", card: (await this.getCard(card.id)) || card, actor, task });
+    }
+    return task;
+  }
+
+  async deleteTask(id: string, actor: Actor = UNKNOWN_ACTOR): Promise<CardTask | undefined> {
+    const existing = await this.getTask(id);
+    const card = existing && await this.getCard(existing.cardId);
+    if (!existing || !card) {
+      return undefined;
+    }
+
+    const drafts = (await this.getTasks(card.id)).filter(task => task.id !== id).map(toTaskDraft);
+    await this.saveTaskList(card, drafts, actor);
+    return existing;
+  }
+
+  async reorderTasks(cardId: string, taskIds: string[], actor: Actor = UNKNOWN_ACTOR): Promise<CardTask[]> {
+    const card = await this.getCard(cardId);
+    if (!card) {
+      throw new Error(`Card with id ${cardId} not found`);
+    }
+
+    const tasks = await this.getTasks(cardId);
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    if (taskIds.length !== tasks.length || new Set(taskIds).size !== taskIds.length || !taskIds.every(taskId => byId.has(taskId))) {
+      throw new InvalidTaskOrderError(cardId);
+    }
+
+    return this.saveTaskList(card, taskIds.map(taskId => toTaskDraft(byId.get(taskId)!)), actor);
+  }
+
+  async migrateLegacyTaskLists(): Promise<number> {
+    // Cards with the old JSON task states, and cards whose checkboxes have no rows yet
+    const candidates = await this.db
+      .select()
+      .from(cards)
+      .where(or(
+        isNotNull(cards.taskList),
+        and(
+          sql`${cards.description} ~ ${"\\[[ xX]\\]"}`,
+          sql`not exists (select 1 from ${cardTasks} where ${cardTasks.cardId} = ${cards.id})`,
+        ),
+      ));
+
+    let migrated = 0;
+    for (const card of candidates) {
+      // The board used to show stored completion over the checkbox when the text matched
+      const stored = parseLegacyTaskList(card.taskList);
+      const items = parseMarkdownTasks(card.description).map(item => {
+        const storedTask = stored.find(task => task.text === item.text);
+        return storedTask ? { ...item, completed: storedTask.completed } : item;
+      });
+      const description = writeMarkdownTasks(card.description, items);
+
+      await this.db.transaction(async (tx) => {
+        await tx.delete(cardTasks).where(eq(cardTasks.cardId, card.id));
+        if (items.length > 0) {
+          await tx.insert(cardTasks).values(items.map((item, position) => ({
+            cardId: card.id,
+            position,
+            text: item.text,
+            completed: item.completed,
+          })));
+        }
+        // Moving data is not activity, so updatedAt stays as it was
+        await tx.update(cards).set({ description, taskList: null }).where(eq(cards.id, card.id));
+      });
+      if (items.length > 0) {
+        migrated++;
+      }
+    }
+
+    return migrated;
+  }
+
+  async getCardLinks(cardId: string): Promise<CardLinkView[]> {
+    const [outgoing, incoming] = await Promise.all([
+      this.db
+        .select({ link: cardLinks, card: LINKED_CARD_FIELDS })
+        .from(cardLinks)
+        .innerJoin(cards, eq(cards.id, cardLinks.targetCardId))
+        .where(eq(cardLinks.sourceCardId, cardId)),
+      this.db
+        .select({ link: cardLinks, card: LINKED_CARD_FIELDS })
+        .from(cardLinks)
+        .innerJoin(cards, eq(cards.id, cardLinks.sourceCardId))
+        .where(eq(cardLinks.targetCardId, cardId)),
+    ]);
+
+    return [
+      ...outgoing.map(({ link, card }) => toCardLinkView(link, link.type, card)),
+      ...incoming.map(({ link, card }) => toCardLinkView(link, CARD_LINK_INVERSES[link.type], card)),
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCardLink(id: string): Promise<CardLink | undefined> {
+    const [link] = await this.db.select().from(cardLinks).where(eq(cardLinks.id, id));
+    return link || undefined;
+  }
+
+  async createCardLink(cardId: string, link: InsertCardLink, actor: Actor = UNKNOWN_ACTOR): Promise<CardLinkView> {
+    const { sourceCardId, targetCardId, type } = toStoredLink(cardId, link);
+    if (sourceCardId === targetCardId) {
+      throw new InvalidCardLinkError("A card cannot be linked to itself");
+    }
+
+    const [card, other] = await Promise.all([this.getCard(cardId), this.getCard(link.targetCardId)]);
+    if (!card) {
+      throw new Error(`Card with id ${cardId} not found`);
+    }
+    if (!other) {
+      throw new Error(`Card with id ${link.targetCardId} not found`);
+    }
+
+    // relates-to reads the same both ways, so either direction is a duplicate
+    const sameLink = (source: string, target: string) =>
+      and(eq(cardLinks.sourceCardId, source), eq(cardLinks.targetCardId, target), eq(cardLinks.type, type));
+    const [duplicate] = await this.db
+      .select({ id: cardLinks.id })
+      .from(cardLinks)
+      .where(type === "relates-to" ? or(sameLink(sourceCardId, targetCardId), sameLink(targetCardId, sourceCardId)) : sameLink(sourceCardId, targetCardId));
+    if (duplicate) {
+      throw new InvalidCardLinkError(`Card ${cardId} is already linked to ${link.targetCardId} as ${link.type}`);
+    }
+
+    if ((type === "blocks" || type === "parent-of") && await this.isLinkedThrough(targetCardId, sourceCardId, type)) {
+      throw new InvalidCardLinkError(`Linking card ${cardId} to ${link.targetCardId} as ${link.type} would create a cycle`);
+    }
+
+    const [created] = await this.db
+      .insert(cardLinks)
+      .values({ sourceCardId, targetCardId, type, creatorType: actor.type, creatorName: actor.name })
+      .returning();
+
+    return toCardLinkView(created, link.type, { id: other.id, title: other.title, status: other.status, project: other.project });
+  }
+
+  async deleteCardLink(id: string): Promise<CardLink | undefined> {
+    const [deleted] = await this.db.delete(cardLinks).where(eq(cardLinks.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getOpenBlockers(): Promise<Record<string, LinkedCard[]>> {
+    const rows = await this.db
+      .select({ blockedId: cardLinks.targetCardId, blocker: LINKED_CARD_FIELDS })
+      .from(cardLinks)
+      .innerJoin(cards, eq(cards.id, cardLinks.sourceCardId))
+      .where(and(eq(cardLinks.type, "blocks"), notInArray(cards.status, RESOLVED_STATUSES)));
+
+    const blockers: Record<string, LinkedCard[]> = {};
+    for (const { blockedId, blocker } of rows) {
+      (blockers[blockedId] ??= []).push(blocker);
+    }
+    return blockers;
+  }
+
+  async getSubcards(parentId: string): Promise<Card[]> {
+    const rows = await this.db
+      .select({ card: cards })
+      .from(cardLinks)
+      .innerJoin(cards, eq(cards.id, cardLinks.targetCardId))
+      .where(and(eq(cardLinks.sourceCardId, parentId), eq(cardLinks.type, "parent-of")))
+      .orderBy(asc(cardLinks.createdAt));
+    return rows.map(row => row.card);
+  }
+
+  async getSubcardsByParent(): Promise<Record<string, LinkedCard[]>> {
+    const rows = await this.db
+      .select({ parentId: cardLinks.sourceCardId, subcard: LINKED_CARD_FIELDS })
+      .from(cardLinks)
+      .innerJoin(cards, eq(cards.id, cardLinks.targetCardId))
+      .where(eq(cardLinks.type, "parent-of"))
+      .orderBy(asc(cardLinks.createdAt));
+
+    const subcards: Record<string, LinkedCard[]> = {};
+    for (const { parentId, subcard } of rows) {
+      (subcards[parentId] ??= []).push(subcard);
+    }
+    return subcards;
+  }
+
+  async unblockDependents(cardId: string, actor: Actor = UNKNOWN_ACTOR): Promise<Card[]> {
+    const card = await this.getCard(cardId);
+    if (!card || !RESOLVED_STATUSES.includes(card.status)) {
+      return [];
+    }
+
+    const dependents = await this.db
+      .select({ card: cards })
+      .from(cardLinks)
+      .innerJoin(cards, eq(cards.id, cardLinks.targetCardId))
+      .where(and(eq(cardLinks.sourceCardId, cardId), eq(cardLinks.type, "blocks"), eq(cards.status, BLOCKED_STATUS)));
+    if (dependents.length === 0) {
+      return [];
+    }
+
+    const openBlockers = await this.getOpenBlockers();
+    const unblocked: Card[] = [];
+    for (const { card: dependent } of dependents) {
+      if (openBlockers[dependent.id]) {
+        continue;
+      }
+      const project = await this.getProject(dependent.project);
+      if (!project?.autoUnblock || !project.statuses.some(status => status.key === UNBLOCKED_STATUS)) {
+        continue;
+      }
+      // The card lands at the bottom. One that a strict WIP limit or the
+      // workflow rules keep out of not-started stays blocked.
+      try {
+        unblocked.push(await this.updateCard(dependent.id, { status: UNBLOCKED_STATUS }, actor));
+      } catch (error) {
+        if (!(error instanceof WorkflowRuleError) && !(error instanceof WipLimitExceededError)) {
+          throw error;
+        }
+      }
+    }
+    return unblocked;
+  }
+
+  async getLabels(project: string): Promise<Label[]> {
+    return this.db
+      .select()
+      .from(labels)
+      .where(eq(labels.project, project))
+      .orderBy(asc(sql`lower(${labels.name})`));
+  }
+
+  async getLabel(id: string): Promise<Label | undefined> {
+    const [label] = await this.db.select().from(labels).where(eq(labels.id, id));
+    return label || undefined;
+  }
+
+  async createLabel(project: string, label: InsertLabel): Promise<Label> {
+    await this.assertLabelNameFree(project, label.name);
+    await this.ensureProject(project);
+    const [created] = await this.db
+      .insert(labels)
+      .values({ ...label, project })
+      .returning();
+    return created;
+  }
+
+  async updateLabel(id: string, updates: UpdateLabel): Promise<Label> {
+    const existing = await this.getLabel(id);
+    if (!existing) {
+      throw new Error(`Label with id ${id} not found`);
+    }
+    if (updates.name) {
+      await this.assertLabelNameFree(existing.project, updates.name, id);
+    }
+
+    const [updated] = await this.db
+      .update(labels)
+      .set(updates)
+      .where(eq(labels.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLabel(id: string): Promise<Label | undefined> {
+    const [deleted] = await this.db.delete(labels).where(eq(labels.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getAutomationRules(project?: string): Promise<AutomationRule[]> {
+    return this.db
+      .select()
+      .from(automationRules)
+      .where(project ? eq(automationRules.project, project) : undefined)
+      .orderBy(asc(automationRules.createdAt));
+  }
+
+  async getAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    const [rule] = await this.db.select().from(automationRules).where(eq(automationRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAutomationRule(project: string, rule: InsertAutomationRule, secret: string): Promise<AutomationRule> {
+    await this.ensureProject(project);
+    await this.assertRuleStatuses(project, rule);
+    const [created] = await this.db
+      .insert(automationRules)
+      .values({ ...rule, project, secret })
+      .returning();
+    return created;
+  }
+
+  async updateAutomationRule(id: string, updates: UpdateAutomationRule): Promise<AutomationRule> {
+    const existing = await this.getAutomationRule(id);
+    if (!existing) {
+      throw new Error(`Automation rule with id ${id} not found`);
+    }
+    await this.assertRuleStatuses(existing.project, updates);
+
+    const [updated] = await this.db
+      .update(automationRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(automationRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setAutomationRuleSecret(id: string, secret: string): Promise<AutomationRule | undefined> {
+    const [updated] = await this.db
+      .update(automationRules)
+      .set({ secret, updatedAt: new Date() })
+      .where(eq(automationRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    const [deleted] = await this.db.delete(automationRules).where(eq(automationRules.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getWebhooks(project: string): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.project, project))
+      .orderBy(asc(webhooks.createdAt));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async createWebhook(project: string, webhook: InsertWebhook, secret: string): Promise<Webhook> {
+    await this.ensureProject(project);
+    const [created] = await this.db
+      .insert(webhooks)
+      .values({ ...webhook, project, secret })
+      .returning();
+    return created;
+  }
+
+  async updateWebhook(id: string, updates: UpdateWebhook): Promise<Webhook> {
+    const [updated] = await this.db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Webhook with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<Webhook | undefined> {
+    const [deleted] = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async createWebhookDeliveries(deliveries: Pick<WebhookDelivery, "webhookId" | "event" | "payload">[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    const now = new Date();
+    return this.db
+      .insert(webhookDeliveries)
+      .values(deliveries.map(delivery => ({ ...delivery, nextAttemptAt: now })))
+      .returning();
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const rows = await this.db
+      .select({ delivery: webhookDeliveries })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+      .where(and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        eq(webhooks.enabled, true),
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+    return rows.map(row => row.delivery);
+  }
+
+  async claimWebhookDelivery(id: string, now: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    const [claimed] = await this.db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now),
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<Pick<WebhookDelivery, "status" | "attempts" | "responseStatus" | "error" | "nextAttemptAt" | "lastAttemptAt">>): Promise<WebhookDelivery> {
+    const [updated] = await this.db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Webhook delivery with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async pruneWebhookDeliveries(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(webhookDeliveries)
+      .where(and(ne(webhookDeliveries.status, "pending"), lt(webhookDeliveries.createdAt, before)))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  async getIncomingHooks(project: string): Promise<IncomingHook[]> {
+    return this.db
+      .select()
+      .from(incomingHooks)
+      .where(eq(incomingHooks.project, project))
+      .orderBy(asc(incomingHooks.createdAt));
+  }
+
+  async getIncomingHook(id: string): Promise<IncomingHook | undefined> {
+    const [hook] = await this.db.select().from(incomingHooks).where(eq(incomingHooks.id, id));
+    return hook || undefined;
+  }
+
+  async getIncomingHookByTokenHash(tokenHash: string): Promise<IncomingHook | undefined> {
+    const [hook] = await this.db.select().from(incomingHooks).where(eq(incomingHooks.tokenHash, tokenHash));
+    return hook || undefined;
+  }
+
+  async createIncomingHook(project: string, hook: InsertIncomingHook, token: Pick<IncomingHook, "tokenHash" | "tokenPrefix">): Promise<IncomingHook> {
+    await this.ensureProject(project);
+    const [created] = await this.db
+      .insert(incomingHooks)
+      .values({ ...hook, ...token, project })
+      .returning();
+    return created;
+  }
+
+  async updateIncomingHook(id: string, updates: UpdateIncomingHook): Promise<IncomingHook> {
+    const [updated] = await this.db
+      .update(incomingHooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(incomingHooks.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Incoming hook with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async deleteIncomingHook(id: string): Promise<IncomingHook | undefined> {
+    const [deleted] = await this.db.delete(incomingHooks).where(eq(incomingHooks.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async touchIncomingHook(id: string): Promise<void> {
+    await this.db.update(incomingHooks).set({ lastUsedAt: new Date() }).where(eq(incomingHooks.id, id));
+  }
+
+  async lockIncomingHookKey(hookId: string, key: string): Promise<string | null> {
+    // A concurrent insert of the same key waits here until the other transaction ends
+    await this.db.insert(incomingHookKeys).values({ hookId, key }).onConflictDoNothing();
+    const [row] = await this.db
+      .select({ cardId: incomingHookKeys.cardId })
+      .from(incomingHookKeys)
+      .where(and(eq(incomingHookKeys.hookId, hookId), eq(incomingHookKeys.key, key)))
+      .for("update");
+    return row?.cardId ?? null;
+  }
+
+  async setIncomingHookKeyCard(hookId: string, key: string, cardId: string): Promise<void> {
+    await this.db
+      .update(incomingHookKeys)
+      .set({ cardId })
+      .where(and(eq(incomingHookKeys.hookId, hookId), eq(incomingHookKeys.key, key)));
+  }
+
+  async getCardLabels(cardId: string): Promise<Label[]> {
+    const rows = await this.db
+      .select({ label: labels })
+      .from(cardLabels)
+      .innerJoin(labels, eq(labels.id, cardLabels.labelId))
+      .where(eq(cardLabels.cardId, cardId))
+      .orderBy(asc(sql`lower(${labels.name})`));
+    return rows.map(row => row.label);
+  }
+
+  async getLabelsByCard(): Promise<Record<string, Label[]>> {
+    const rows = await this.db
+      .select({ cardId: cardLabels.cardId, label: labels })
+      .from(cardLabels)
+      .innerJoin(labels, eq(labels.id, cardLabels.labelId))
+      .orderBy(asc(sql`lower(${labels.name})`));
+
+    const labelsByCard: Record<string, Label[]> = {};
+    for (const { cardId, label } of rows) {
+      (labelsByCard[cardId] ??= []).push(label);
+    }
+    return labelsByCard;
+  }
+
+  async getCardAssignees(cardId: string): Promise<Assignee[]> {
+    return this.db
+      .select(ASSIGNEE_FIELDS)
+      .from(cardAssignees)
+      .innerJoin(users, eq(users.id, cardAssignees.userId))
+      .where(eq(cardAssignees.cardId, cardId))
+      .orderBy(asc(users.username));
+  }
+
+  async getAssigneesByCard(): Promise<Record<string, Assignee[]>> {
+    const rows = await this.db
+      .select({ cardId: cardAssignees.cardId, assignee: ASSIGNEE_FIELDS })
+      .from(cardAssignees)
+      .innerJoin(users, eq(users.id, cardAssignees.userId))
+      .orderBy(asc(users.username));
+
+    const assigneesByCard: Record<string, Assignee[]> = {};
+    for (const { cardId, assignee } of rows) {
+      (assigneesByCard[cardId] ??= []).push(assignee);
+    }
+    return assigneesByCard;
+  }
+
+  // The users with the given usernames, sorted by username
+  private async resolveAssignees(usernames: string[]): Promise<Assignee[]> {
+    const wanted = Array.from(new Set(usernames.map(username => username.trim()).filter(Boolean)));
+    if (wanted.length === 0) {
+      return [];
+    }
+
+    const found = await this.db
+      .select(ASSIGNEE_FIELDS)
+      .from(users)
+      .where(inArray(users.username, wanted))
+      .orderBy(asc(users.username));
+    const unknown = wanted.filter(username => !found.some(user => user.username === username));
+    if (unknown.length > 0) {
+      throw new InvalidAssigneeError(unknown);
+    }
+    return found;
+  }
+
+  // Replace a card's assignees. Returns the usernames before and after, sorted.
+  private async setCardAssignees(cardId: string, assignees: Assignee[]): Promise<{ from: string[]; to: string[] }> {
+    const from = (await this.getCardAssignees(cardId)).map(user => user.username);
+    await this.db.delete(cardAssignees).where(eq(cardAssignees.cardId, cardId));
+    if (assignees.length > 0) {
+      await this.db.insert(cardAssignees).values(assignees.map(user => ({ cardId, userId: user.id })));
+    }
+    return { from, to: assignees.map(user => user.username) };
+  }
+
+  private async assertLabelNameFree(project: string, name: string, exceptId?: string): Promise<void> {
+    const [clash] = await this.db
+      .select({ id: labels.id })
+      .from(labels)
+      .where(and(
+        eq(labels.project, project),
+        sql`lower(${labels.name}) = ${name.toLowerCase()}`,
+        exceptId ? ne(labels.id, exceptId) : undefined,
+      ));
+    if (clash) {
+      throw new DuplicateLabelError(name, project);
+    }
+  }
+
+  // Replace a card's labels with the named labels of `project`, creating the
+  // missing ones. Returns the label names before and after, sorted.
+  private async setCardLabels(cardId: string, project: string, names: string[]): Promise<{ from: string[]; to: string[] }> {
+    const from = (await this.getCardLabels(cardId)).map(label => label.name);
+
+    const wanted = names.map(name => name.trim()).filter(Boolean);
+    const known = new Set((await this.getLabels(project)).map(label => label.name.toLowerCase()));
+    const missing = wanted.filter(name => !known.has(name.toLowerCase()));
+    if (missing.length > 0) {
+      await this.ensureProject(project);
+      await this.db
+        .insert(labels)
+        .values(missing.map(name => ({ project, name })))
+        .onConflictDoNothing();
+    }
+
+    const wantedKeys = new Set(wanted.map(name => name.toLowerCase()));
+    const chosen = (await this.getLabels(project)).filter(label => wantedKeys.has(label.name.toLowerCase()));
+    await this.db.delete(cardLabels).where(eq(cardLabels.cardId, cardId));
+    if (chosen.length > 0) {
+      await this.db.insert(cardLabels).values(chosen.map(label => ({ cardId, labelId: label.id })));
+    }
+    return { from, to: chosen.map(label => label.name) };
+  }
+
+  async getAttachments(cardId: string): Promise<Attachment[]> {
+    return this.db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.cardId, cardId))
+      .orderBy(asc(attachments.createdAt), asc(attachments.id));
+  }
+
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment || undefined;
+  }
+
+  async createAttachment(cardId: string, attachment: InsertAttachment, actor: Actor = UNKNOWN_ACTOR): Promise<Attachment> {
+    if (!(await this.getCard(cardId))) {
+      throw new Error(`Card with id ${cardId} not found`);
+    }
+
+    const [created] = await this.db
+      .insert(attachments)
+      .values({
+        ...attachment,
+        cardId,
+        uploaderType: actor.type,
+        uploaderName: actor.name,
+      })
+      .returning();
+
+    await this.touchCard(cardId);
+    return created;
+  }
+
+  async deleteAttachment(id: string): Promise<Attachment | undefined> {
+    const [deleted] = await this.db.delete(attachments).where(eq(attachments.id, id)).returning();
+    if (deleted?.cardId) {
+      await this.touchCard(deleted.cardId);
+    }
+    return deleted || undefined;
+  }
+
+  async createImageUpload(upload: InsertImageUpload, actor: Actor = UNKNOWN_ACTOR): Promise<ImageUpload> {
+    const [created] = await this.db
+      .insert(imageUploads)
+      .values({ ...upload, uploaderType: actor.type, uploaderName: actor.name })
+      .returning();
+    return created;
+  }
+
+  async deleteImageUpload(id: string): Promise<ImageUpload | undefined> {
+    const [deleted] = await this.db.delete(imageUploads).where(eq(imageUploads.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async rebuildImageReferences(): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(cardImageRefs);
+      await tx.execute(imageReferencesInsert());
+      const [{ value }] = await tx.select({ value: count() }).from(cardImageRefs);
+      return value;
+    });
+  }
+
+  async getOrphanedUploads(createdBefore: Date): Promise<OrphanedUploads> {
+    const images = await this.db
+      .select({ image: imageUploads })
+      .from(imageUploads)
+      .leftJoin(cardImageRefs, eq(cardImageRefs.imageId, imageUploads.id))
+      .where(and(isNull(cardImageRefs.imageId), lt(imageUploads.createdAt, createdBefore)))
+      .orderBy(asc(imageUploads.createdAt));
+    // A deleted card cannot come back, so its attachments need no grace period
+    const detached = await this.db
+      .select()
+      .from(attachments)
+      .where(isNull(attachments.cardId))
+      .orderBy(asc(attachments.createdAt));
+    return { images: images.map(row => row.image), attachments: detached };
+  }
+
+  async migrateLegacyComments(): Promise<number> {
+    const legacyCards = await this.db
+      .select({ id: cards.id, comments: cards.comments })
+      .from(cards)
+      .where(isNotNull(cards.comments));
+
+    let migrated = 0;
+    for (const card of legacyCards) {
+      const legacyComments = parseLegacyComments(card.comments);
+      await this.db.transaction(async (tx) => {
+        if (legacyComments.length > 0) {
+          await tx
+            .insert(comments)
+            .values(legacyComments.map(comment => {
+              const createdAt = new Date(comment.timestamp);
+              return {
+                id: comment.id,
+                cardId: card.id,
+                content: comment.content,
+                authorType: UNKNOWN_ACTOR.type,
+                authorName: comment.author || UNKNOWN_ACTOR.name,
+                createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+              };
+            }))
+            .onConflictDoNothing({ target: comments.id });
+        }
+        await tx.update(cards).set({ comments: null }).where(eq(cards.id, card.id));
+      });
+      // Moving data is not activity, so updatedAt stays as it was
+      await this.syncCardComments(card.id, false);
+      migrated += legacyComments.length;
+    }
+
+    return migrated;
+  }
+
+  // Recount a card's comments and refresh its search document
+  private async syncCardComments(cardId: string, touch = true): Promise<void> {
+    const commentCount = sql<number>`(select count(*) from ${comments} where ${comments.cardId} = ${cardId})::int`;
+    const [card] = await this.db
+      .update(cards)
+      .set(touch ? { commentCount, updatedAt: new Date() } : { commentCount })
+      .where(eq(cards.id, cardId))
+      .returning();
+    if (card) {
+      await this.indexCard(card);
+    }
+  }
+
+  // Replace a card's tasks with `drafts` (in order; drafts with an id keep
+  // their row) and rewrite the description's checkboxes to match
+  private async saveTaskList(card: Card, drafts: TaskDraft[], actor: Actor): Promise<CardTask[]> {
+    return this.transaction(async (tx) => {
+      const store = tx as DatabaseStorage;
+      const keptIds = drafts.flatMap(draft => draft.id ? [draft.id] : []);
+      await store.db
+        .delete(cardTasks)
+        .where(keptIds.length > 0
+          ? and(eq(cardTasks.cardId, card.id), notInArray(cardTasks.id, keptIds))
+          : eq(cardTasks.cardId, card.id));
+
+      for (let position = 0; position < drafts.length; position++) {
+        const { id, ...fields } = drafts[position];
+        if (id) {
+          await store.db.update(cardTasks).set({ ...fields, position }).where(eq(cardTasks.id, id));
+        } else {
+          await store.db.insert(cardTasks).values({ ...fields, position, cardId: card.id });
+        }
+      }
+
+      // The rows already match, so the re-read in updateCard changes nothing
+      const description = writeMarkdownTasks(card.description, drafts);
+      if (description !== card.description) {
+        await store.updateCard(card.id, { description }, actor);
+      }
+      return store.getTasks(card.id);
+    });
+  }
+
+  // Bring a card's task rows in line with the checkboxes of its description.
+  // Items are matched to rows by text first, in order; a remaining item at the
+  // index of a remaining row is taken as that row with edited text.
+  private async syncTasksFromMarkdown(cardId: string, description: string): Promise<void> {
+    const items = parseMarkdownTasks(description);
+    const rows = await this.getTasks(cardId);
+
+    const matched: (CardTask | undefined)[] = items.map(() => undefined);
+    const used = new Set<string>();
+    items.forEach((item, index) => {
+      const row = rows.find(candidate => !used.has(candidate.id) && candidate.text === item.text);
+      if (row) {
+        matched[index] = row;
+        used.add(row.id);
+      }
+    });
+    items.forEach((_, index) => {
+      const row = rows[index];
+      if (!matched[index] && row && !used.has(row.id)) {
+        matched[index] = row;
+        used.add(row.id);
+      }
+    });
+
+    const removed = rows.filter(row => !used.has(row.id)).map(row => row.id);
+    if (removed.length > 0) {
+      await this.db.delete(cardTasks).where(inArray(cardTasks.id, removed));
+    }
+    for (let position = 0; position < items.length; position++) {
+      const item = items[position];
+      const row = matched[position];
+      if (!row) {
+        await this.db.insert(cardTasks).values({ cardId, position, text: item.text, completed: item.completed });
+      } else if (row.position !== position || row.text !== item.text || row.completed !== item.completed) {
+        await this.db
+          .update(cardTasks)
+          .set({ position, text: item.text, completed: item.completed })
+          .where(eq(cardTasks.id, row.id));
+      }
+    }
+  }
+
+  // Whether `to` can be reached from `from` by following links of one type
+  private async isLinkedThrough(from: string, to: string, type: CardLinkType): Promise<boolean> {
+    const links = await this.db
+      .select({ sourceCardId: cardLinks.sourceCardId, targetCardId: cardLinks.targetCardId })
+      .from(cardLinks)
+      .where(eq(cardLinks.type, type));
+
+    const seen = new Set([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === to) {
+        return true;
+      }
+      for (const link of links) {
+        if (link.sourceCardId === current && !seen.has(link.targetCardId)) {
+          seen.add(link.targetCardId);
+          queue.push(link.targetCardId);
+        }
+      }
+    }
+    return false;
+  }
+
+  private async syncImageReferences(cardId: string): Promise<void> {
+    await this.db.delete(cardImageRefs).where(eq(cardImageRefs.cardId, cardId));
+    await this.db.execute(imageReferencesInsert(cardId));
+  }
+
+  private async touchCard(cardId: string): Promise<void> {
+    await this.db.update(cards).set({ updatedAt: new Date() }).where(eq(cards.id, cardId));
+  }
+
+  private async recordCardEvent(card: Card, type: CardEventType, changes: CardChanges, actor: Actor): Promise<void> {
+    await this.db.insert(cardEvents).values({
+      cardId: card.id,
+      project: card.project,
+      type,
+      actorType: actor.type,
+      actorName: actor.name,
+      changes,
+    });
+
+    // An edit that also changes the status is reported as both a move and an edit
+    if (type === "created") {
+      this.reportActivity({ type: "card.created", card, actor, changes });
+    }
+    if (changes.status && type !== "created" && type !== "deleted") {
+      this.reportActivity({ type: "card.moved", card, actor, fromStatus: String(changes.status.from), changes });
+    }
+    if (type === "updated" && Object.keys(changes).some(field => field !== "status" && field !== "order")) {
+      this.reportActivity({ type: "card.updated", card, actor, changes });
+    }
+  }
+}
+
+// Insert the card_image_refs rows of one card, or of every card. Matching on
+// the URL text also catches images in links, HTML and reference-style Markdown.
+function imageReferencesInsert(cardId?: string) {
+  const text = sql`coalesce(c.description, '') || ' ' || coalesce(c.notes, '')`;
+  return sql`
+    insert into ${cardImageRefs} (card_id, image_id)
+    select c.id, i.id
+    from ${cards} c
+    join ${imageUploads} i
+      on strpos(${text}, i.url) > 0
+      or strpos(${text}, i.thumbnail_url) > 0
+      or strpos(${text}, i.web_url) > 0
+    ${cardId ? sql`where c.id = ${cardId}` : sql``}
+    on conflict do nothing`;
+}
+
+// Columns auto-unblocking moves a card out of and into
+const BLOCKED_STATUS = "blocked";
+const UNBLOCKED_STATUS = "not-started";
+
+const LINKED_CARD_FIELDS = { id: cards.id, title: cards.title, status: cards.status, project: cards.project };
+
+const ASSIGNEE_FIELDS = { id: users.id, username: users.username, displayName: users.displayName };
+
+// Links are stored in their forward direction: "A blocked-by B" is "B blocks A"
+function toStoredLink(cardId: string, link: InsertCardLink): Pick<CardLink, "sourceCardId" | "targetCardId" | "type"> {
+  const forward = (CARD_LINK_TYPES as readonly string[]).includes(link.type);
+  return forward
+    ? { sourceCardId: cardId, targetCardId: link.targetCardId, type: link.type as CardLinkType }
+    : { sourceCardId: link.targetCardId, targetCardId: cardId, type: CARD_LINK_INVERSES[link.type] as CardLinkType };
+}
+
+function toCardLinkView(link: CardLink, type: CardLinkKind, card: LinkedCard): CardLinkView {
+  return { id: link.id, type, card, createdAt: link.createdAt };
+}
+
+// A task as saveTaskList takes it: an existing row (with id) or a new one
+type TaskDraft = Pick<CardTask, "text" | "completed" | "assignee" | "dueDate"> & { id?: string };
+
+function toTaskDraft(task: TaskDraft): TaskDraft {
+  return { id: task.id, text: task.text, completed: task.completed, assignee: task.assignee, dueDate: task.dueDate };
+}
+
+// Task states from the legacy cards.taskList JSON; unreadable JSON has none
+function parseLegacyTaskList(taskListJson: string | null): { text: string; completed: boolean }[] {
+  if (!taskListJson) return [];
+  try {
+    const parsed = JSON.parse(taskListJson);
+    return Array.isArray(parsed)
+      ? parsed.filter(task => typeof task?.text === "string" && typeof task?.completed === "boolean")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Comments from the legacy cards.comments JSON; unreadable JSON has none
+function parseLegacyComments(commentsJson: string | null): LegacyComment[] {
+  try {
+    const parsed = commentsJson ? JSON.parse(commentsJson) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(comment => typeof comment?.id === "string" && typeof comment?.content === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Field-level before/after diff of two card snapshots. A missing snapshot
+// (creation or deletion) is treated as every field being null.
+function diffCards(before: Card | undefined, after: Card | undefined): CardChanges {
+  const changes: CardChanges = {};
+  const fields = Object.keys(after || before || {}) as (keyof Card)[];
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.includes(field)) continue;
+    const from = before ? before[field] : null;
+    const to = after ? after[field] : null;
+    if ((from ?? null) !== (to ?? null)) {
+      changes[field] = { from: from ?? null, to: to ?? null };
+    }
+  }
+
+  return changes;
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
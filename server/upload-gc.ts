@@ -0,0 +1,126 @@
+import { storage } from "./storage";
+import { deleteStoredFiles, getImageStorageKeys } from "./image-store";
+
+/**
+ * Sweep of uploads no card uses any more: images that no card description or
+ * notes reference (see card_image_refs), and attachments of deleted cards.
+ * Images get a grace period, since an upload is only referenced once the card
+ * that embeds it is saved.
+ *
+ * UPLOAD_GC_GRACE_HOURS   minimum age of an unreferenced image (default 24)
+ * UPLOAD_GC_INTERVAL_HOURS run a deleting sweep this often; unset or 0 leaves
+ *                          sweeping to the admin endpoint
+ */
+
+const DEFAULT_GRACE_HOURS = 24;
+
+export interface UploadSweepOptions {
+  dryRun: boolean;
+  graceHours?: number;
+}
+
+export interface OrphanedUploadEntry {
+  kind: "image" | "attachment";
+  id: string;
+  url: string;
+  size: number;
+  createdAt: Date;
+  keys: string[];
+}
+
+export interface UploadSweepReport {
+  dryRun: boolean;
+  graceHours: number;
+  createdBefore: Date;
+  orphans: OrphanedUploadEntry[];
+  totalBytes: number;
+  deleted: number;
+  failures: { id: string; error: string }[];
+}
+
+export function getDefaultGraceHours(): number {
+  const configured = Number(process.env.UPLOAD_GC_GRACE_HOURS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_GRACE_HOURS;
+}
+
+/**
+ * Find orphaned uploads and, unless dryRun, delete their files and records.
+ * A file that fails to delete keeps its record, so the next sweep retries it.
+ */
+export async function sweepOrphanedUploads({ dryRun, graceHours = getDefaultGraceHours() }: UploadSweepOptions): Promise<UploadSweepReport> {
+  // References are kept current on every card write; rebuilding first also
+  // covers cards written outside the app
+  await storage.rebuildImageReferences();
+
+  const createdBefore = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+  const { images, attachments } = await storage.getOrphanedUploads(createdBefore);
+
+  const orphans: OrphanedUploadEntry[] = [
+    ...images.map(image => ({
+      kind: "image" as const,
+      id: image.id,
+      url: image.url,
+      size: image.size,
+      createdAt: image.createdAt,
+      keys: getImageStorageKeys(image),
+    })),
+    ...attachments.map(attachment => ({
+      kind: "attachment" as const,
+      id: attachment.id,
+      url: attachment.url,
+      size: attachment.size,
+      createdAt: attachment.createdAt,
+      keys: [attachment.storageKey],
+    })),
+  ];
+
+  const report: UploadSweepReport = {
+    dryRun,
+    graceHours,
+    createdBefore,
+    orphans,
+    totalBytes: orphans.reduce((sum, orphan) => sum + orphan.size, 0),
+    deleted: 0,
+    failures: [],
+  };
+  if (dryRun) {
+    return report;
+  }
+
+  for (const orphan of orphans) {
+    try {
+      await deleteStoredFiles(orphan.keys);
+      if (orphan.kind === "image") {
+        await storage.deleteImageUpload(orphan.id);
+      } else {
+        await storage.deleteAttachment(orphan.id);
+      }
+      report.deleted++;
+    } catch (error) {
+      report.failures.push({ id: orphan.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+}
+
+/**
+ * Start the periodic sweep when UPLOAD_GC_INTERVAL_HOURS is set
+ */
+export function scheduleUploadSweeps(): void {
+  const intervalHours = Number(process.env.UPLOAD_GC_INTERVAL_HOURS);
+  if (!Number.isFinite(intervalHours) || intervalHours <= 0) {
+    return;
+  }
+
+  const sweep = async () => {
+    try {
+      const report = await sweepOrphanedUploads({ dryRun: false });
+      if (report.deleted > 0 || report.failures.length > 0) {
+        console.log(`Upload sweep deleted ${report.deleted} of ${report.orphans.length} orphaned upload(s)`);
+      }
+    } catch (error) {
+      console.error('Orphaned upload sweep failed:', error);
+    }
+  };
+  setInterval(sweep, intervalHours * 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,299 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import { WEBHOOK_EVENTS, type Card, type PublicWebhook, type Webhook, type WebhookDelivery, type WebhookEvent } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Outgoing webhooks: card events of a project POSTed as JSON to the URLs
+ * subscribed to them. Every event becomes one delivery per webhook, recorded
+ * before it is sent, so the project settings can show what was sent and how
+ * it went. A failed delivery is retried with backoff - 30s, 2m, 8m, 32m, ~2h
+ * after each failure - until it succeeds or has been tried MAX_ATTEMPTS times.
+ *
+ * Each request carries
+ *   X-Kanban-Event       the event, e.g. CARD_UPDATED
+ *   X-Kanban-Delivery    the delivery id, the same for every retry
+ *   X-Kanban-Signature   sha256=<hex HMAC-SHA256 of the body, keyed with the
+ *                        webhook's secret>
+ * and the body { event, project, occurredAt, data }. Bulk events carry only
+ * the cards (or ids) of the webhook's project. Cards created in bulk are only
+ * sent in CARDS_BULK_CREATED, not also one by one as CARD_CREATED.
+ *
+ * Any member can point a webhook at any URL, so the host is resolved before
+ * every attempt and private, loopback and link-local addresses are refused
+ * (see assertPublicUrl); redirects are not followed.
+ */
+
+const MAX_ATTEMPTS = 6;
+const FIRST_RETRY_DELAY_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A claimed delivery is not picked up again by the retry loop for this long
+const DELIVERY_LEASE_MS = 60_000;
+const RETRY_INTERVAL_MS = 15_000;
+const RETRY_BATCH_SIZE = 20;
+// Finished deliveries are kept this long for the delivery log
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Kanban-Signature";
+
+// Addresses outgoing requests may not reach: loopback, link-local (which
+// includes cloud metadata at 169.254.169.254), private, unique-local and other
+// non-public ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Thrown when an outgoing request's host resolves to a refused address
+export class PrivateAddressError extends Error {
+  constructor(host: string, address: string) {
+    super(`Refusing to send to ${host}: ${address} is a private or local address. Add the host to KANBAN_WEBHOOK_ALLOWED_HOSTS to allow it.`);
+    this.name = "PrivateAddressError";
+  }
+}
+
+// Hosts an admin allows to resolve to private addresses, e.g. a receiver on the LAN
+function getAllowedHosts(): string[] {
+  return (process.env.KANBAN_WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Refuse a URL whose host resolves to any private or local address, unless
+ * the host is listed in KANBAN_WEBHOOK_ALLOWED_HOSTS. Used before every
+ * request to a URL a user chose: webhooks and automation rule webhooks.
+ * @throws PrivateAddressError
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (getAllowedHosts().includes(host)) {
+    return;
+  }
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  const refused = addresses.find(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"));
+  if (refused) {
+    throw new PrivateAddressError(host, refused.address);
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return "whsec_" + randomBytes(24).toString("base64url");
+}
+
+export function signWebhookPayload(secret: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(body).digest("hex");
+}
+
+// Webhook as returned by the API - never includes the secret
+export function toPublicWebhook({ secret, ...webhook }: Webhook): PublicWebhook {
+  return webhook;
+}
+
+function isWebhookEvent(type: string): type is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(type);
+}
+
+// Project of a deleted card, from its history (which outlives the card)
+async function getDeletedCardProject(id: string): Promise<string | undefined> {
+  const [latest] = await storage.getCardHistory(id);
+  return latest?.project;
+}
+
+// The event data each project sees: single-card events belong to the card's
+// project, bulk events are split by project. Data is as routes.ts broadcasts
+// it: a card, { id } of a deleted card, { cards, count } or a list of ids.
+async function splitByProject(type: WebhookEvent, data: unknown): Promise<Map<string, unknown>> {
+  const byProject = new Map<string, unknown>();
+  switch (type) {
+    case "CARD_CREATED":
+    case "CARD_UPDATED": {
+      const card = data as Card;
+      byProject.set(card.project, card);
+      break;
+    }
+    case "CARD_DELETED": {
+      const deleted = data as { id: string };
+      const project = await getDeletedCardProject(deleted.id);
+      if (project) {
+        byProject.set(project, deleted);
+      }
+      break;
+    }
+    case "CARDS_BULK_CREATED": {
+      const cardsByProject = new Map<string, Card[]>();
+      for (const card of (data as { cards: Card[] }).cards) {
+        cardsByProject.set(card.project, [...(cardsByProject.get(card.project) || []), card]);
+      }
+      cardsByProject.forEach((cards, project) => byProject.set(project, { cards, count: cards.length }));
+      break;
+    }
+    case "CARDS_BULK_DELETED": {
+      const idsByProject = new Map<string, string[]>();
+      for (const id of data as string[]) {
+        const project = await getDeletedCardProject(id);
+        if (project) {
+          idsByProject.set(project, [...(idsByProject.get(project) || []), id]);
+        }
+      }
+      idsByProject.forEach((ids, project) => byProject.set(project, ids));
+      break;
+    }
+  }
+  return byProject;
+}
+
+function getRetryDelay(attempts: number): number {
+  return FIRST_RETRY_DELAY_MS * Math.pow(4, attempts - 1);
+}
+
+// Send a claimed delivery once and record how it went
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const webhook = await storage.getWebhook(delivery.webhookId);
+  if (!webhook) {
+    return delivery;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const lastAttemptAt = new Date();
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    await assertPublicUrl(webhook.url);
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Kanban-Webhooks/1.0",
+        "X-Kanban-Event": delivery.event,
+        "X-Kanban-Delivery": delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+      },
+      body,
+      // A redirect could lead to an address assertPublicUrl refuses
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Answered ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (failure) {
+    error = failure instanceof Error ? failure.message : String(failure);
+  }
+
+  if (!error) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded", attempts, responseStatus, error: null, nextAttemptAt: null, lastAttemptAt,
+    });
+  }
+  const retry = attempts < MAX_ATTEMPTS;
+  return storage.updateWebhookDelivery(delivery.id, {
+    status: retry ? "pending" : "failed",
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: retry ? new Date(lastAttemptAt.getTime() + getRetryDelay(attempts)) : null,
+    lastAttemptAt,
+  });
+}
+
+// Attempt a delivery unless it is not due or someone else is sending it
+async function claimAndAttempt(delivery: WebhookDelivery): Promise<void> {
+  const now = new Date();
+  const claimed = await storage.claimWebhookDelivery(delivery.id, now, new Date(now.getTime() + DELIVERY_LEASE_MS));
+  if (claimed) {
+    await attemptDelivery(claimed);
+  }
+}
+
+async function publish(type: WebhookEvent, data: unknown): Promise<void> {
+  const occurredAt = new Date().toISOString();
+  const byProject = await splitByProject(type, data);
+  const projects = Array.from(byProject.keys());
+  for (let i = 0; i < projects.length; i++) {
+    const project = projects[i];
+    const subscribed = (await storage.getWebhooks(project))
+      .filter(webhook => webhook.enabled && webhook.events.includes(type));
+    const deliveries = await storage.createWebhookDeliveries(subscribed.map(webhook => ({
+      webhookId: webhook.id,
+      event: type,
+      payload: { event: type, project, occurredAt, data: byProject.get(project) },
+    })));
+    await Promise.all(deliveries.map(claimAndAttempt));
+  }
+}
+
+/**
+ * Deliver a broadcast event to the webhooks subscribed to it, in the
+ * background. Events webhooks cannot subscribe to are ignored.
+ */
+export function publishWebhookEvent(event: { type: string; data: unknown }): void {
+  if (!isWebhookEvent(event.type)) {
+    return;
+  }
+  publish(event.type, event.data).catch(error => {
+    console.error(`Failed to deliver ${event.type} webhooks:`, error);
+  });
+}
+
+/**
+ * Send a delivery again as a new delivery with the same payload, e.g. once
+ * the receiving end is fixed. Returns the new delivery after its first attempt.
+ */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [copy] = await storage.createWebhookDeliveries([
+    { webhookId: delivery.webhookId, event: delivery.event, payload: delivery.payload },
+  ]);
+  const now = new Date();
+  const claimed = await storage.claimWebhookDelivery(copy.id, now, new Date(now.getTime() + DELIVERY_LEASE_MS));
+  return claimed ? attemptDelivery(claimed) : copy;
+}
+
+/**
+ * Retry failed deliveries when they are due, including any left pending by a
+ * restart, and drop finished deliveries older than the retention period
+ */
+export function startWebhookDeliveries(): void {
+  let running = false;
+  const retryDue = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const due = await storage.getDueWebhookDeliveries(new Date(), RETRY_BATCH_SIZE);
+      for (const delivery of due) {
+        await claimAndAttempt(delivery);
+      }
+    } catch (error) {
+      console.error('Failed to retry webhook deliveries:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const prune = async () => {
+    try {
+      const pruned = await storage.pruneWebhookDeliveries(new Date(Date.now() - DELIVERY_RETENTION_MS));
+      if (pruned > 0) {
+        console.log(`Pruned ${pruned} old webhook deliveries`);
+      }
+    } catch (error) {
+      console.error('Failed to prune webhook deliveries:', error);
+    }
+  };
+
+  setInterval(retryDue, RETRY_INTERVAL_MS).unref();
+  setInterval(prune, PRUNE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,53 @@
+// One-line descriptions of automation rules, e.g. "When a card is moved to
+// Complete: add a comment, then move it to Verified". Shown in the rule list
+// and returned to agents by list_automation_rules.
+import {
+  getStatusDefinition,
+  type AutomationAction,
+  type AutomationRule,
+  type AutomationTrigger,
+  type StatusDefinition,
+} from "./schema";
+
+const TRIGGER_PHRASES: Record<AutomationTrigger, string> = {
+  "card.created": "a card is created",
+  "card.moved": "a card is moved",
+  "card.updated": "a card is edited",
+  "task.toggled": "a task is checked or unchecked",
+  "comment.added": "a comment is added",
+};
+
+function describeAction(action: AutomationAction, statuses: StatusDefinition[]): string {
+  switch (action.type) {
+    case "move":
+      return `move it to ${getStatusDefinition(statuses, action.status).label}`;
+    case "set-field":
+      return action.value === null || action.value === ""
+        ? `clear its ${action.field}`
+        : `set its ${action.field} to ${action.value}`;
+    case "add-comment":
+      return "add a comment";
+    case "webhook":
+      return `call ${action.url}`;
+  }
+}
+
+/**
+ * What a rule does, in words. Column keys are shown as their labels in
+ * `statuses`, the workflow of the rule's project.
+ */
+export function describeAutomationRule(rule: Pick<AutomationRule, "trigger" | "conditions" | "actions">, statuses: StatusDefinition[]): string {
+  const { status, fromStatus, allTasksComplete } = rule.conditions;
+  let when = TRIGGER_PHRASES[rule.trigger as AutomationTrigger] ?? rule.trigger;
+  if (fromStatus) {
+    when += ` from ${getStatusDefinition(statuses, fromStatus).label}`;
+  }
+  if (status) {
+    when += rule.trigger === "card.moved" ? ` to ${getStatusDefinition(statuses, status).label}` : ` in ${getStatusDefinition(statuses, status).label}`;
+  }
+  if (allTasksComplete !== undefined) {
+    when += allTasksComplete ? " and every task is checked" : " and some task is unchecked";
+  }
+  const then = rule.actions.map(action => describeAction(action, statuses)).join(", then ");
+  return `When ${when}: ${then}`;
+}
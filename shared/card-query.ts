@@ -0,0 +1,284 @@
+// Card filter queries, e.g. `status:blocked project:api has:tasks tasks:incomplete updated:<7d`.
+//
+// A query is a list of space-separated terms that must all match:
+//   status:a,b         card is in any of the listed statuses (same for project:)
+//   label:bug,ui       card has any of the listed labels (any case)
+//   assignee:alice     card is assigned to any of the listed usernames
+//   priority:p0,p1     card has any of the listed priorities
+//   due:overdue        past due and not resolved; due:none = no due date;
+//                      due:<7d = due within 7 days (or overdue); due:>2024-01-31
+//   has:tasks          tasks | notes | link | comments | description | labels | assignees
+//   tasks:incomplete   complete (all checked) | incomplete (some open) | none
+//   updated:<7d        changed less than 7 days ago; >7d = longer ago. Units: h, d, w
+//   created:>2024-01-31  absolute dates compare the date itself
+//   title:word         title contains the text
+//   word "a phrase"    title, description or notes contain the text
+// Prefix a term with "-" to negate it. Values with spaces can be "quoted".
+// A word whose part before ":" is not a filter name, such as a URL or 12:30,
+// is searched for as text.
+import { CARD_PRIORITIES, type Card } from "./schema";
+import { parseMarkdownTasks } from "./task-markdown";
+import { isCardOverdue, toDateKey } from "./due-date";
+
+export class CardQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CardQueryError";
+  }
+}
+
+export const HAS_FIELDS = ["tasks", "notes", "link", "comments", "description", "labels", "assignees"] as const;
+export type HasField = typeof HAS_FIELDS[number];
+
+// Keys of key:value filters; "labels" is an alias of "label"
+const FILTER_KEYS = ["status", "project", "label", "labels", "assignee", "priority", "due", "has", "tasks", "updated", "created", "title"];
+
+export const TASK_STATES = ["complete", "incomplete", "none"] as const;
+export type TaskState = typeof TASK_STATES[number];
+
+export type CardQueryFilter = { negate: boolean } & (
+  | { kind: "status" | "project" | "label" | "assignee" | "priority"; values: string[] }
+  | { kind: "due"; condition: "overdue" | "none" | "<" | ">"; days?: number; date?: string }
+  | { kind: "has"; field: HasField }
+  | { kind: "tasks"; state: TaskState }
+  | { kind: "date"; field: "createdAt" | "updatedAt"; comparison: "<" | ">"; ageMs?: number; date?: Date }
+  | { kind: "text"; field: "title" | "any"; value: string }
+);
+
+export interface ParsedCardQuery {
+  source: string;
+  filters: CardQueryFilter[];
+}
+
+// Dates arrive as Date on the server and as ISO strings over JSON. Label
+// names and assignee usernames are not part of the card row; callers add
+// them for label: and assignee: filters.
+type QueryableCard = Omit<Card, "createdAt" | "updatedAt"> & {
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  labels?: string[];
+  assignees?: string[];
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Split on whitespace, keeping "quoted values" (also after a key:) together
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /(-?(?:[a-z]+:)?)"([^"]*)"?|(\S+)/gi;
+  let match;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[3] !== undefined ? match[3] : `${match[1]}\u0000${match[2]}`);
+  }
+  return tokens;
+}
+
+function parseDateFilter(field: "createdAt" | "updatedAt", key: string, value: string): CardQueryFilter {
+  const match = /^([<>])(.+)$/.exec(value);
+  if (!match) {
+    throw new CardQueryError(`${key}: needs < or >, e.g. ${key}:<7d or ${key}:>2024-01-31`);
+  }
+  const [, comparison, amount] = match;
+
+  const duration = /^(\d+)([hdw])$/.exec(amount);
+  if (duration) {
+    const ageMs = parseInt(duration[1], 10) * DURATION_UNITS[duration[2]];
+    return { kind: "date", field, comparison: comparison as "<" | ">", ageMs, negate: false };
+  }
+
+  const date = new Date(amount);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(amount) || isNaN(date.getTime())) {
+    throw new CardQueryError(`Invalid ${key}: value "${amount}". Use a duration like 7d or a date like 2024-01-31`);
+  }
+  return { kind: "date", field, comparison: comparison as "<" | ">", date, negate: false };
+}
+
+function parseDueFilter(value: string): CardQueryFilter {
+  const condition = value.toLowerCase();
+  if (condition === "overdue" || condition === "none") {
+    return { kind: "due", condition, negate: false };
+  }
+
+  const match = /^([<>])(?:(\d+)d|(\d{4}-\d{2}-\d{2}))$/.exec(condition);
+  if (!match) {
+    throw new CardQueryError(`Invalid due: value "${value}". Use overdue, none, a number of days like <7d or a date like >2024-01-31`);
+  }
+  const [, comparison, days, date] = match;
+  return days !== undefined
+    ? { kind: "due", condition: comparison as "<" | ">", days: parseInt(days, 10), negate: false }
+    : { kind: "due", condition: comparison as "<" | ">", date, negate: false };
+}
+
+function parseTerm(token: string): CardQueryFilter {
+  const negate = token.startsWith("-") && token.length > 1;
+  const body = negate ? token.slice(1) : token;
+
+  // Quoted phrase, with or without a key
+  const quoted = body.indexOf("\u0000");
+  if (quoted !== -1) {
+    const prefix = body.slice(0, quoted);
+    const key = prefix.replace(/:$/, "").toLowerCase();
+    const value = body.slice(quoted + 1);
+    if (!key) {
+      return { kind: "text", field: "any", value, negate };
+    }
+    if (!FILTER_KEYS.includes(key)) {
+      return { kind: "text", field: "any", value: prefix + value, negate };
+    }
+    return { ...parseKeyValue(key, value), negate };
+  }
+
+  const separator = body.indexOf(":");
+  const key = body.slice(0, separator).toLowerCase();
+  if (separator <= 0 || !FILTER_KEYS.includes(key)) {
+    return { kind: "text", field: "any", value: body, negate };
+  }
+  return { ...parseKeyValue(key, body.slice(separator + 1)), negate };
+}
+
+function parseKeyValue(key: string, value: string): CardQueryFilter {
+  if (!value) {
+    throw new CardQueryError(`Missing value for ${key}:`);
+  }
+
+  switch (key) {
+    case "status":
+    case "project":
+      return { kind: key, values: value.split(",").filter(Boolean), negate: false };
+
+    case "label":
+    case "labels":
+      return { kind: "label", values: value.toLowerCase().split(",").filter(Boolean), negate: false };
+
+    case "assignee":
+      return { kind: "assignee", values: value.toLowerCase().split(",").filter(Boolean), negate: false };
+
+    case "priority": {
+      const values = value.toUpperCase().split(",").filter(Boolean);
+      const invalid = values.find(priority => !(CARD_PRIORITIES as readonly string[]).includes(priority));
+      if (invalid) {
+        throw new CardQueryError(`Invalid priority: value "${invalid}". Use one of: ${CARD_PRIORITIES.join(", ")}`);
+      }
+      return { kind: "priority", values, negate: false };
+    }
+
+    case "due":
+      return parseDueFilter(value);
+
+    case "has": {
+      const field = value.toLowerCase() as HasField;
+      if (!HAS_FIELDS.includes(field)) {
+        throw new CardQueryError(`Invalid has: value "${value}". Use one of: ${HAS_FIELDS.join(", ")}`);
+      }
+      return { kind: "has", field, negate: false };
+    }
+
+    case "tasks": {
+      const state = value.toLowerCase() as TaskState;
+      if (!TASK_STATES.includes(state)) {
+        throw new CardQueryError(`Invalid tasks: value "${value}". Use one of: ${TASK_STATES.join(", ")}`);
+      }
+      return { kind: "tasks", state, negate: false };
+    }
+
+    case "updated":
+      return parseDateFilter("updatedAt", key, value);
+
+    case "created":
+      return parseDateFilter("createdAt", key, value);
+
+    case "title":
+      return { kind: "text", field: "title", value, negate: false };
+
+    default:
+      throw new CardQueryError(`Unknown filter "${key}:". Use status, project, label, assignee, priority, due, has, tasks, updated, created or title`);
+  }
+}
+
+// Throws CardQueryError with a user-facing message when the query is invalid
+export function parseCardQuery(input: string): ParsedCardQuery {
+  return { source: input, filters: tokenize(input).map(parseTerm) };
+}
+
+// Tasks as the board shows them: the Markdown checkboxes of the description,
+// which the server keeps in line with the card's task rows
+function getTaskStates(card: QueryableCard): boolean[] {
+  return parseMarkdownTasks(card.description).map(task => task.completed);
+}
+
+function includesText(haystack: string | null, needle: string): boolean {
+  return (haystack || "").toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchesFilter(card: QueryableCard, filter: CardQueryFilter, now: Date): boolean {
+  switch (filter.kind) {
+    case "status":
+      return filter.values.includes(card.status);
+
+    case "project":
+      return filter.values.includes(card.project);
+
+    case "label":
+      return (card.labels || []).some(label => filter.values.includes(label.toLowerCase()));
+
+    case "assignee":
+      return (card.assignees || []).some(username => filter.values.includes(username.toLowerCase()));
+
+    case "priority":
+      return card.priority !== null && filter.values.includes(card.priority);
+
+    case "due": {
+      if (filter.condition === "overdue") return isCardOverdue(card, now);
+      if (filter.condition === "none") return !card.dueDate;
+      if (!card.dueDate) return false;
+      // Within n days: due before the day n days from today
+      const boundary = filter.date ?? toDateKey(now, filter.days);
+      return filter.condition === "<" ? card.dueDate < boundary : card.dueDate > boundary;
+    }
+
+    case "has":
+      switch (filter.field) {
+        case "tasks":
+          return getTaskStates(card).length > 0;
+        case "comments":
+          return card.commentCount > 0;
+        case "labels":
+          return (card.labels || []).length > 0;
+        case "assignees":
+          return (card.assignees || []).length > 0;
+        default:
+          return Boolean(card[filter.field]?.trim());
+      }
+
+    case "tasks": {
+      const states = getTaskStates(card);
+      if (filter.state === "none") return states.length === 0;
+      if (filter.state === "complete") return states.length > 0 && states.every(Boolean);
+      return states.some(completed => !completed);
+    }
+
+    case "date": {
+      const value = new Date(card[filter.field]).getTime();
+      if (filter.ageMs !== undefined) {
+        const age = now.getTime() - value;
+        return filter.comparison === "<" ? age < filter.ageMs : age > filter.ageMs;
+      }
+      const date = filter.date!.getTime();
+      return filter.comparison === "<" ? value < date : value > date;
+    }
+
+    case "text":
+      if (filter.field === "title") {
+        return includesText(card.title, filter.value);
+      }
+      return [card.title, card.description, card.notes].some(field => includesText(field, filter.value));
+  }
+}
+
+export function matchesCardQuery(card: QueryableCard, query: ParsedCardQuery, now: Date = new Date()): boolean {
+  return query.filters.every(filter => matchesFilter(card, filter, now) !== filter.negate);
+}
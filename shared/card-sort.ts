@@ -0,0 +1,93 @@
+// Sort orders for card lists, e.g. `priority,dueDate` or `-updatedAt`.
+//
+// A sort is a comma-separated list of keys, each breaking the ties of the one
+// before it:
+//   rank       board order within a column (the default)
+//   priority   P0 first
+//   dueDate    soonest first
+//   estimate   smallest first
+//   createdAt, updatedAt   oldest first
+//   title      alphabetical
+// Prefix a key with "-" to reverse it. Cards without a priority, due date or
+// estimate come last either way, and remaining ties keep board order.
+import { CARD_PRIORITIES, type Card } from "./schema";
+import { compareCardRanks } from "./rank";
+
+export class CardSortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CardSortError";
+  }
+}
+
+export const CARD_SORT_KEYS = ["rank", "priority", "dueDate", "estimate", "createdAt", "updatedAt", "title"] as const;
+export type CardSortKey = typeof CARD_SORT_KEYS[number];
+
+export interface CardSortTerm {
+  key: CardSortKey;
+  descending: boolean;
+}
+
+// Dates arrive as Date on the server and as ISO strings over JSON
+type SortableCard = Pick<Card, "id" | "order" | "title" | "priority" | "dueDate" | "estimate"> & {
+  createdAt: Date | string;
+  updatedAt: Date | string;
+};
+
+// Throws CardSortError with a user-facing message when the sort is invalid
+export function parseCardSort(input: string): CardSortTerm[] {
+  return input.split(",").map(term => term.trim()).filter(Boolean).map(term => {
+    const descending = term.startsWith("-");
+    const name = descending ? term.slice(1) : term;
+    const key = CARD_SORT_KEYS.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (!key) {
+      throw new CardSortError(`Unknown sort key "${name}". Use ${CARD_SORT_KEYS.join(", ")}`);
+    }
+    return { key, descending };
+  });
+}
+
+// Sort value of a card, or null when it has none
+function getSortValue(card: SortableCard, key: Exclude<CardSortKey, "rank">): string | number | null {
+  switch (key) {
+    case "priority":
+      return card.priority ? CARD_PRIORITIES.indexOf(card.priority as typeof CARD_PRIORITIES[number]) : null;
+    case "dueDate":
+      return card.dueDate;
+    case "estimate":
+      return card.estimate;
+    case "createdAt":
+    case "updatedAt":
+      return new Date(card[key]).getTime();
+    case "title":
+      return card.title.toLowerCase();
+  }
+}
+
+function compareByTerm(a: SortableCard, b: SortableCard, { key, descending }: CardSortTerm): number {
+  if (key === "rank") {
+    return descending ? compareCardRanks(b, a) : compareCardRanks(a, b);
+  }
+  const valueA = getSortValue(a, key);
+  const valueB = getSortValue(b, key);
+  if (valueA === null || valueB === null) {
+    return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+  }
+  const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+  return descending ? -order : order;
+}
+
+/**
+ * A sorted copy of `cards`
+ */
+export function sortCards<T extends SortableCard>(cards: T[], sort: CardSortTerm[]): T[] {
+  return [...cards].sort((a, b) => {
+    for (let i = 0; i < sort.length; i++) {
+      const order = compareByTerm(a, b, sort[i]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return compareCardRanks(a, b);
+  });
+}
@@ -0,0 +1,21 @@
+import { RESOLVED_STATUSES } from "./schema";
+
+// Due dates are calendar days (YYYY-MM-DD) without a time zone, so they are
+// compared with the local date of the machine doing the comparing.
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD, `days` later when given
+ */
+export function toDateKey(date: Date, days = 0): string {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
+
+/**
+ * Whether a card is past its due date: due before today and not in a
+ * resolved column (complete or verified)
+ */
+export function isCardOverdue(card: { dueDate: string | null; status: string }, now: Date = new Date()): boolean {
+  return Boolean(card.dueDate) && card.dueDate! < toDateKey(now) && !RESOLVED_STATUSES.includes(card.status);
+}
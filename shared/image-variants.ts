@@ -0,0 +1,34 @@
+// Resized copies stored next to each uploaded raster image. A variant's key
+// is the original's with the extension replaced, e.g.
+// images/1700000000000-abcdefghijkl.png -> images/1700000000000-abcdefghijkl.thumb.webp
+// so a client can find it from the Markdown URL alone.
+
+export const IMAGE_VARIANTS = {
+  // Shown on board cards
+  thumbnail: { suffix: "thumb", maxSize: 640, quality: 75 },
+  // Shown inline in the card dialog; the lightbox opens the original
+  web: { suffix: "web", maxSize: 1920, quality: 82 },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+// <timestamp>-<12 char id>.<ext> as written by the upload pipeline, for the
+// formats it makes variants of
+const UPLOADED_RASTER_NAME = /\/\d+-[A-Za-z0-9_-]{12}\.(png|jpe?g|webp)$/i;
+
+/**
+ * Storage key (or URL) of a variant of an uploaded image
+ */
+export function imageVariantPath(original: string, variant: ImageVariant): string {
+  return original.replace(/\.[A-Za-z0-9]+$/, `.${IMAGE_VARIANTS[variant].suffix}.webp`);
+}
+
+/**
+ * URL of a variant of an image uploaded to this board, or undefined for
+ * images that were not (external links, GIF and SVG uploads)
+ */
+export function getImageVariantUrl(url: string | undefined, variant: ImageVariant): string | undefined {
+  if (!url) return undefined;
+  const path = url.split(/[?#]/)[0];
+  return UPLOADED_RASTER_NAME.test(path) ? imageVariantPath(path, variant) : undefined;
+}
@@ -0,0 +1,86 @@
+// How an incoming hook's mapping turns a posted JSON payload into card fields.
+// Templates such as "{{alert.labels.alertname}} on {{alert.labels.instance}}"
+// have their {{path}} placeholders filled in from the payload; a path steps
+// into objects by key and into arrays by index.
+import { insertCardSchema, type IncomingHookMapping, type InsertCard, type StatusDefinition } from "./schema";
+
+export class IncomingHookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IncomingHookPayloadError";
+  }
+}
+
+// Value at a dot path such as alerts.0.labels.severity, if there is one
+function getPayloadValue(payload: unknown, path: string): unknown {
+  let value = payload;
+  for (const step of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[step];
+  }
+  return value;
+}
+
+/**
+ * Fill in the {{path}} placeholders of a template from the payload. Missing
+ * values render as nothing; objects and arrays render as JSON.
+ */
+export function renderHookTemplate(template: string, payload: unknown): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => {
+    const value = getPayloadValue(payload, path);
+    if (value === null || value === undefined) {
+      return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Column key for a rendered status, which may name the column by its label.
+// Anything else is passed on for storage to reject as an unknown status.
+function resolveStatus(rendered: string, statuses: StatusDefinition[]): string {
+  const match = statuses.find(status => status.key === rendered)
+    || statuses.find(status => status.label.toLowerCase() === rendered.toLowerCase());
+  return match ? match.key : rendered;
+}
+
+export interface HookCardFields {
+  title: string;
+  description?: string;
+  status?: string;
+}
+
+/**
+ * The card fields a payload renders to, as applied to the card an earlier
+ * delivery created. A field whose template is unset or renders empty is left
+ * out, so it keeps its value; the title is required.
+ */
+export function renderHookCardFields(mapping: IncomingHookMapping, payload: unknown, statuses: StatusDefinition[]): HookCardFields {
+  const title = renderHookTemplate(mapping.title, payload).trim();
+  if (!title) {
+    throw new IncomingHookPayloadError("The title template rendered an empty title for this payload");
+  }
+  const fields: HookCardFields = { title };
+  if (mapping.description) {
+    fields.description = renderHookTemplate(mapping.description, payload);
+  }
+  const status = mapping.status ? renderHookTemplate(mapping.status, payload).trim() : "";
+  if (status) {
+    fields.status = resolveStatus(status, statuses);
+  }
+  return fields;
+}
+
+/**
+ * A new card in `project` for a payload. Without a description template the
+ * card starts with an empty description; without a status it goes to the
+ * project's first column.
+ */
+export function buildHookCard(mapping: IncomingHookMapping, project: string, payload: unknown, statuses: StatusDefinition[]): InsertCard {
+  return insertCardSchema.parse({
+    description: "",
+    ...renderHookCardFields(mapping, payload, statuses),
+    project,
+  });
+}
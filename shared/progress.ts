@@ -0,0 +1,26 @@
+import { RESOLVED_STATUSES } from "./schema";
+
+export interface Progress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Share of completed items, as shown by progress bars
+ */
+export function calculateProgress(items: { completed: boolean }[]): Progress {
+  const total = items.length;
+  const completed = items.filter(item => item.completed).length;
+  const percentage = total === 0 ? 0 : Math.round((completed / total) * 100);
+
+  return { completed, total, percentage };
+}
+
+/**
+ * Rolled-up progress of an epic: a sub-card counts as done once it is in a
+ * resolved column (complete or verified), whatever its own checklist says
+ */
+export function calculateSubcardProgress(subcards: { status: string }[]): Progress {
+  return calculateProgress(subcards.map(subcard => ({ completed: RESOLVED_STATUSES.includes(subcard.status) })));
+}
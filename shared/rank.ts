@@ -0,0 +1,108 @@
+// Card ranks: fractional, lexicographically ordered keys stored in cards.order.
+//
+// A rank is a string of lowercase letters read as a base-26 fraction
+// ("n" ~ 0.5, "nn" ~ 0.53). There is always a key between two different ranks,
+// so moving a card only rewrites that card. Keys never end in "a" (the zero
+// digit), otherwise "b" and "ba" would be equal values with different strings.
+// Legacy integer orders ("1", "2", ...) are digit-only and never valid ranks.
+
+const RANK_DIGITS = "abcdefghijklmnopqrstuvwxyz";
+const RANK_BASE = RANK_DIGITS.length;
+
+// Columns whose keys grow past this length are respaced by the rebalance job
+export const RANK_REBALANCE_LENGTH = 10;
+
+const RANK_PATTERN = /^[a-z]*[b-z]$/;
+
+export function isValidRank(value: string): boolean {
+  return RANK_PATTERN.test(value);
+}
+
+// Plain code-unit comparison; do not use localeCompare or database collation
+export function compareRanks(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Key strictly between `a` ("" = start) and `b` (null = end)
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix and recurse on what follows it
+    let n = 0;
+    while ((a[n] || RANK_DIGITS[0]) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? RANK_DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? RANK_DIGITS.indexOf(b[0]) : RANK_BASE;
+  if (digitB - digitA > 1) {
+    return RANK_DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Consecutive first digits: take b's first digit when b has more after it,
+  // otherwise keep a's first digit and find a key after the rest of a
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return RANK_DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// Appending and prepending are the common moves, so they step one digit
+// instead of halving the remaining space; keys stay short for much longer.
+function rankAfter(a: string): string {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== "z") {
+      return a.slice(0, i) + RANK_DIGITS[RANK_DIGITS.indexOf(a[i]) + 1];
+    }
+  }
+  return midpoint(a, null);
+}
+
+function rankBefore(b: string): string {
+  for (let i = 0; i < b.length; i++) {
+    if (b[i] > "b") {
+      return b.slice(0, i) + RANK_DIGITS[RANK_DIGITS.indexOf(b[i]) - 1];
+    }
+  }
+  return midpoint("", b);
+}
+
+// Rank for a card placed between two neighbours; either side may be missing
+export function rankBetween(before: string | null | undefined, after: string | null | undefined): string {
+  const lower = before && isValidRank(before) ? before : "";
+  const upper = after && isValidRank(after) ? after : null;
+  if (upper === null || (lower && lower >= upper)) {
+    // Neighbours out of order (e.g. a tie) place the card right after `before`
+    return lower ? rankAfter(lower) : midpoint("", null);
+  }
+  return lower ? midpoint(lower, upper) : rankBefore(upper);
+}
+
+// `count` evenly spaced ranks of equal length, used to seed or respace a column
+export function evenlySpacedRanks(count: number): string[] {
+  let length = 1;
+  while (Math.pow(RANK_BASE, length) < (count + 1) * RANK_BASE) {
+    length++;
+  }
+
+  const span = Math.pow(RANK_BASE, length);
+  const ranks: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    let value = Math.floor((i * span) / (count + 1));
+    let key = "";
+    for (let digit = 0; digit < length; digit++) {
+      key = RANK_DIGITS[value % RANK_BASE] + key;
+      value = Math.floor(value / RANK_BASE);
+    }
+    ranks.push(key.replace(/a+$/, ""));
+  }
+  return ranks;
+}
+
+// Sort comparator for cards; ties (only possible before a rebalance) fall back to id
+export function compareCardRanks(a: { order: string; id: string }, b: { order: string; id: string }): number {
+  return compareRanks(a.order, b.order) || compareRanks(a.id, b.id);
+}
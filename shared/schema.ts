@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, real, timestamp, date, jsonb, index, uniqueIndex, primaryKey, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,53 +13,910 @@ export const KANBAN_STATUSES = [
 
 export type KanbanStatus = typeof KANBAN_STATUSES[number];
 
+// Named colors shared by projects and board UI (mapped to Tailwind classes on the client)
+export const COLOR_OPTIONS = [
+  "gray",
+  "red",
+  "orange",
+  "amber",
+  "green",
+  "teal",
+  "blue",
+  "indigo",
+  "purple",
+  "pink"
+] as const;
+
+export type ColorOption = typeof COLOR_OPTIONS[number];
+
+// What a column can require of a card before it may enter (see shared/workflow-rules.ts)
+export const STATUS_REQUIREMENTS = ["link", "description", "assignee", "dueDate", "priority", "estimate", "tasksComplete"] as const;
+export type StatusRequirement = typeof STATUS_REQUIREMENTS[number];
+
+export const STATUS_REQUIREMENT_LABELS: Record<StatusRequirement, string> = {
+  link: "Link",
+  description: "Description",
+  assignee: "Assignee",
+  dueDate: "Due date",
+  priority: "Priority",
+  estimate: "Estimate",
+  tasksComplete: "All tasks checked",
+};
+
+// A single column in a project's workflow. `key` is what cards store in `status`.
+// wipLimit is the most cards the column should hold; unset means no limit.
+// allowedFrom lists the columns cards may be moved in from (unset: any), and
+// requires what a card needs before it may enter.
+export interface StatusDefinition {
+  key: string;
+  label: string;
+  color: ColorOption;
+  wipLimit?: number | null;
+  allowedFrom?: string[] | null;
+  requires?: StatusRequirement[];
+}
+
+// Workflow used by projects that have not customised their columns
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { key: "not-started", label: "Not Started", color: "gray" },
+  { key: "blocked", label: "Blocked", color: "red" },
+  { key: "in-progress", label: "In Progress", color: "blue" },
+  { key: "complete", label: "Complete", color: "green" },
+  { key: "verified", label: "Verified", color: "purple" },
+];
+
+export const statusDefinitionSchema = z.object({
+  key: z.string().min(1).max(40).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Status key must be lowercase letters, numbers and dashes"),
+  label: z.string().min(1, "Status label is required").max(40),
+  color: z.enum(COLOR_OPTIONS),
+  wipLimit: z.number().int().min(1, "A WIP limit must be at least 1").max(999).nullable().optional(),
+  allowedFrom: z.array(z.string()).nullable().optional(),
+  requires: z.array(z.enum(STATUS_REQUIREMENTS)).optional(),
+});
+
+export const statusListSchema = z.array(statusDefinitionSchema)
+  .min(1, "A workflow needs at least one status")
+  .refine(
+    statuses => new Set(statuses.map(status => status.key)).size === statuses.length,
+    "Status keys must be unique"
+  )
+  .refine(
+    statuses => statuses.every(status => (status.allowedFrom || []).every(key => statuses.some(other => other.key === key))),
+    "Allowed transitions can only name columns of the workflow"
+  );
+
+// Combine several project workflows into one ordered column list (used by the
+// "All Projects" view). The first definition seen for a key wins.
+export function mergeProjectStatuses(workflows: StatusDefinition[][]): StatusDefinition[] {
+  const merged = new Map<string, StatusDefinition>();
+  for (const statuses of workflows) {
+    for (const status of statuses) {
+      if (!merged.has(status.key)) {
+        merged.set(status.key, status);
+      }
+    }
+  }
+  return merged.size > 0 ? Array.from(merged.values()) : DEFAULT_STATUSES;
+}
+
+// A card in one of these columns no longer blocks the cards it is linked to
+export const RESOLVED_STATUSES = ["complete", "verified"];
+
+// Card priorities, most urgent first
+export const CARD_PRIORITIES = ["P0", "P1", "P2", "P3"] as const;
+export type CardPriority = typeof CARD_PRIORITIES[number];
+
+export const PRIORITY_LABELS: Record<CardPriority, string> = {
+  P0: "P0 · Urgent",
+  P1: "P1 · High",
+  P2: "P2 · Medium",
+  P3: "P3 · Low",
+};
+
+export const PRIORITY_COLORS: Record<CardPriority, ColorOption> = {
+  P0: "red",
+  P1: "orange",
+  P2: "amber",
+  P3: "gray",
+};
+
+export function getStatusDefinition(statuses: StatusDefinition[], key: string): StatusDefinition {
+  return statuses.find(status => status.key === key)
+    || DEFAULT_STATUSES.find(status => status.key === key)
+    || { key, label: key, color: "gray" };
+}
+
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(), // Stable identifier referenced by cards.project
+  name: text("name").notNull(), // Display name - can be renamed without touching cards
+  description: text("description"),
+  color: text("color").notNull().default("blue"),
+  archived: boolean("archived").notNull().default(false),
+  statuses: jsonb("statuses").$type<StatusDefinition[]>().notNull().default(DEFAULT_STATUSES), // Ordered workflow columns
+  autoUnblock: boolean("auto_unblock").notNull().default(false), // Move blocked cards to not-started once their blockers are done
+  strictWipLimits: boolean("strict_wip_limits").notNull().default(false), // Reject cards entering a column that is at its WIP limit
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Convert a free-form project name into the slug format stored on cards
+export function slugifyProjectName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Derive a readable display name from a legacy slug (e.g. "mobile-app" -> "Mobile App")
+export function formatProjectSlug(slug: string): string {
+  return slug
+    .split(/[-_\s]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  slug: z.string().min(1).max(50).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug must be lowercase letters, numbers and dashes"),
+  name: z.string().min(1, "Project name is required").max(50, "Project name must be less than 50 characters"),
+  color: z.enum(COLOR_OPTIONS).default("blue"),
+  statuses: statusListSchema.optional(),
+});
+
+export const updateProjectSchema = insertProjectSchema.omit({
+  slug: true,
+}).partial();
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+
 export const cards = pgTable("cards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description").notNull(),
   link: text("link"),
   status: text("status").notNull().default("not-started"),
-  order: text("order").notNull().default("0"),
+  order: text("order").notNull().default("0"), // Fractional rank, see shared/rank.ts; compare as plain strings
   project: text("project").notNull().default("default"),
-  taskList: text("task_list"), // JSON array of task items with completion status
+  taskList: text("task_list"), // Legacy JSON task states, moved into card_tasks at startup
   notes: text("notes"), // Additional notes field for extra context and information
-  comments: text("comments"), // JSON array of comments with timestamps and content
+  comments: text("comments"), // Legacy JSON comments, moved into the comments table at startup
+  commentCount: integer("comment_count").notNull().default(0), // Kept in step with the comments table
+  dueDate: date("due_date"), // YYYY-MM-DD
+  priority: text("priority"), // One of CARD_PRIORITIES
+  estimate: real("estimate"), // Story points or hours, whichever the team counts in
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(), // Bumped by every update, including moves
 });
 
+export const dueDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be YYYY-MM-DD");
+
+export const labelNameSchema = z.string().trim()
+  .min(1, "Label name cannot be empty")
+  .max(30, "Label name must be 30 characters or less");
+
+// Statuses are validated against the card's project workflow in the storage
+// layer; when omitted on create, the first column of the workflow is used.
+// labels are label names of the card's project; missing ones are created.
+// assignees are usernames of existing users.
 export const insertCardSchema = createInsertSchema(cards).omit({
   id: true,
+  taskList: true,
+  comments: true,
+  commentCount: true,
+  createdAt: true,
+  updatedAt: true,
 }).extend({
-  status: z.enum(KANBAN_STATUSES).default("not-started"),
+  status: z.string().min(1).optional(),
+  labels: z.array(labelNameSchema).max(20, "A card can have at most 20 labels").optional(),
+  assignees: z.array(z.string().trim().min(1)).max(10, "A card can have at most 10 assignees").optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+  priority: z.enum(CARD_PRIORITIES).nullable().optional(),
+  estimate: z.number().min(0, "Estimate cannot be negative").max(1000, "Estimate must be 1000 or less").nullable().optional(),
 });
 
 export const updateCardSchema = createInsertSchema(cards).omit({
   id: true,
+  taskList: true,
+  comments: true,
+  commentCount: true,
+  createdAt: true,
+  updatedAt: true,
 }).extend({
-  status: z.enum(KANBAN_STATUSES).optional(),
+  status: z.string().min(1).optional(),
+  labels: z.array(labelNameSchema).max(20, "A card can have at most 20 labels").optional(),
+  assignees: z.array(z.string().trim().min(1)).max(10, "A card can have at most 10 assignees").optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+  priority: z.enum(CARD_PRIORITIES).nullable().optional(),
+  estimate: z.number().min(0, "Estimate cannot be negative").max(1000, "Estimate must be 1000 or less").nullable().optional(),
 }).partial();
 
 export type InsertCard = z.infer<typeof insertCardSchema>;
 export type UpdateCard = z.infer<typeof updateCardSchema>;
 export type Card = typeof cards.$inferSelect;
 
-// Comment type for card comments
-export interface Comment {
+// Labels ("bug", "feature", "tech-debt") belong to a project; names are
+// unique within it, ignoring case. A card can only carry its own project's
+// labels, so moving a card to another project carries them over by name.
+export const labels = pgTable(
+  "labels",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    project: text("project").notNull(),
+    name: text("name").notNull(),
+    color: text("color").notNull().default("gray"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_labels_project_name").on(table.project, sql`lower(${table.name})`)],
+);
+
+export const cardLabels = pgTable(
+  "card_labels",
+  {
+    cardId: varchar("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    labelId: varchar("label_id").notNull().references(() => labels.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.cardId, table.labelId] }),
+    index("IDX_card_labels_label").on(table.labelId),
+  ],
+);
+
+export const insertLabelSchema = z.object({
+  name: labelNameSchema,
+  color: z.enum(COLOR_OPTIONS).default("gray"),
+});
+
+export const updateLabelSchema = insertLabelSchema.partial();
+
+export type InsertLabel = z.infer<typeof insertLabelSchema>;
+export type UpdateLabel = z.infer<typeof updateLabelSchema>;
+export type Label = typeof labels.$inferSelect;
+
+// Checklist items of a card. They mirror the Markdown task list in the card's
+// description one to one (see shared/task-markdown.ts): position is the index
+// of the item's checkbox line, and text and completed are kept equal to it.
+// assignee and dueDate exist only here.
+export const cardTasks = pgTable(
+  "card_tasks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    cardId: varchar("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    text: text("text").notNull(),
+    completed: boolean("completed").notNull().default(false),
+    assignee: text("assignee"),
+    dueDate: date("due_date"), // YYYY-MM-DD
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_card_tasks_card").on(table.cardId, table.position)],
+);
+
+export const insertTaskSchema = z.object({
+  text: z.string().trim().min(1, "Task text cannot be empty").max(500)
+    .regex(/^[^\r\n]*$/, "Task text must be a single line"),
+  completed: z.boolean().optional(),
+  assignee: z.string().trim().min(1).max(100).nullable().optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+  position: z.number().int().min(0).optional(), // Defaults to the end of the list
+});
+
+export const updateTaskSchema = insertTaskSchema.omit({ position: true }).partial();
+
+export const reorderTasksSchema = z.object({
+  taskIds: z.array(z.string().min(1)),
+});
+
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type CardTask = typeof cardTasks.$inferSelect;
+
+// Relationships between cards. Each is stored once, in one direction
+// ("A blocks B"); the other card sees the inverse ("B is blocked by A").
+export const CARD_LINK_TYPES = ["blocks", "relates-to", "duplicates", "parent-of"] as const;
+export type CardLinkType = typeof CARD_LINK_TYPES[number];
+
+// A link type as seen from either end
+export const CARD_LINK_KINDS = ["blocks", "blocked-by", "relates-to", "duplicates", "duplicated-by", "parent-of", "child-of"] as const;
+export type CardLinkKind = typeof CARD_LINK_KINDS[number];
+
+export const CARD_LINK_INVERSES: Record<CardLinkKind, CardLinkKind> = {
+  "blocks": "blocked-by",
+  "blocked-by": "blocks",
+  "relates-to": "relates-to",
+  "duplicates": "duplicated-by",
+  "duplicated-by": "duplicates",
+  "parent-of": "child-of",
+  "child-of": "parent-of",
+};
+
+export const CARD_LINK_LABELS: Record<CardLinkKind, string> = {
+  "blocks": "Blocks",
+  "blocked-by": "Blocked by",
+  "relates-to": "Relates to",
+  "duplicates": "Duplicates",
+  "duplicated-by": "Duplicated by",
+  "parent-of": "Parent of",
+  "child-of": "Child of",
+};
+
+export const cardLinks = pgTable(
+  "card_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sourceCardId: varchar("source_card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    targetCardId: varchar("target_card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    type: text("type").$type<CardLinkType>().notNull(),
+    creatorType: text("creator_type").notNull(),
+    creatorName: text("creator_name").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_card_links_unique").on(table.sourceCardId, table.targetCardId, table.type),
+    index("IDX_card_links_target").on(table.targetCardId),
+  ],
+);
+
+// A link from the point of view of one card; type may be an inverse kind
+export const insertCardLinkSchema = z.object({
+  targetCardId: z.string().min(1),
+  type: z.enum(CARD_LINK_KINDS),
+});
+
+export type InsertCardLink = z.infer<typeof insertCardLinkSchema>;
+
+// Sub-cards are ordinary cards linked to their epic with parent-of. They
+// default to the epic's project and may sit in any of its columns.
+export const createSubcardsSchema = z.object({
+  subcards: z.array(insertCardSchema.extend({ description: z.string().default("") }))
+    .min(1, "At least one sub-card is required")
+    .max(20, "Maximum 20 sub-cards can be created at once"),
+});
+
+export type CreateSubcards = z.infer<typeof createSubcardsSchema>;
+export type CardLink = typeof cardLinks.$inferSelect;
+
+// The card at the other end of a link, as much of it as link lists show
+export type LinkedCard = Pick<Card, "id" | "title" | "status" | "project">;
+
+export interface CardLinkView {
+  id: string;
+  type: CardLinkKind; // From the point of view of the card the links were asked for
+  card: LinkedCard;
+  createdAt: Date;
+}
+
+// Who performed a change: a signed-in person, an MCP client (by client name),
+// an unauthenticated API caller or an automation rule (by rule name)
+export const ACTOR_TYPES = ["user", "mcp", "api", "automation", "webhook"] as const;
+export type ActorType = typeof ACTOR_TYPES[number];
+
+export interface Actor {
+  type: ActorType;
+  name: string;
+}
+
+export const CARD_EVENT_TYPES = ["created", "updated", "moved", "deleted"] as const;
+export type CardEventType = typeof CARD_EVENT_TYPES[number];
+
+// Before/after values keyed by card field
+export type CardChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Append-only audit log. cardId is not a foreign key so the history of a
+// deleted card stays readable.
+export const cardEvents = pgTable("card_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cardId: varchar("card_id").notNull(),
+  project: text("project").notNull(),
+  type: text("type").notNull(),
+  actorType: text("actor_type").notNull(),
+  actorName: text("actor_name").notNull(),
+  changes: jsonb("changes").$type<CardChanges>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CardEvent = typeof cardEvents.$inferSelect;
+export type InsertCardEvent = typeof cardEvents.$inferInsert;
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Full-text index of each card, kept in step by the storage layer. It lives in
+// its own table so the tsvector never shows up on Card. commentText holds the
+// plain text of the card's comments so search results can highlight them.
+export const cardSearch = pgTable(
+  "card_search",
+  {
+    cardId: varchar("card_id").primaryKey().references(() => cards.id, { onDelete: "cascade" }),
+    document: tsvector("document").notNull(),
+    commentText: text("comment_text").notNull().default(""),
+  },
+  (table) => [index("IDX_card_search_document").using("gin", table.document)],
+);
+
+export const SEARCH_FIELDS = ["title", "description", "notes", "comments"] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+// Matched terms in search snippets are wrapped in these markers
+export const SEARCH_HIGHLIGHT_START = "⟦";
+export const SEARCH_HIGHLIGHT_END = "⟧";
+
+export interface CardSearchResult {
+  card: Card;
+  rank: number;
+  highlights: Partial<Record<SearchField, string>>; // Only fields that matched
+}
+
+// Card comments. A reply's parentId is the first comment of its thread, so
+// threads are one level deep. Authors are recorded like card_events actors.
+export const comments = pgTable(
+  "comments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    cardId: varchar("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    parentId: varchar("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    authorType: text("author_type").notNull(),
+    authorName: text("author_name").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    editedAt: timestamp("edited_at"), // null until the first edit
+  },
+  (table) => [index("IDX_comments_card").on(table.cardId)],
+);
+
+// Edit history: each row is the text an edit replaced, and who replaced it when
+export const commentRevisions = pgTable("comment_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: varchar("comment_id").notNull().references(() => comments.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  editorType: text("editor_type").notNull(),
+  editorName: text("editor_name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(10000),
+  parentId: z.string().min(1).optional(),
+});
+
+export const updateCommentSchema = insertCommentSchema.pick({ content: true });
+
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type UpdateComment = z.infer<typeof updateCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+
+export type CommentThread = Comment & { replies: Comment[] };
+
+// Group a card's comments (oldest first) into threads. Replies whose thread
+// start is missing are shown as threads of their own.
+export function groupCommentThreads(cardComments: Comment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of cardComments) {
+    if (!comment.parentId) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+  const result = Array.from(threads.values());
+  for (const comment of cardComments) {
+    if (comment.parentId) {
+      const thread = threads.get(comment.parentId);
+      if (thread) {
+        thread.replies.push(comment);
+      } else {
+        result.push({ ...comment, replies: [] });
+      }
+    }
+  }
+  return result.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+// Files attached to a card. The bytes live in the upload store (server/image-store.ts)
+// under storageKey; url is where they are downloaded from. contentType is
+// derived from the file extension on the server, never taken from the client.
+// cardId becomes null when the card is deleted, leaving the file for the
+// orphaned-upload sweep.
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    cardId: varchar("card_id").references(() => cards.id, { onDelete: "set null" }),
+    filename: text("filename").notNull(),
+    contentType: text("content_type").notNull(),
+    size: integer("size").notNull(), // bytes
+    storageKey: text("storage_key").notNull(),
+    url: text("url").notNull(),
+    uploaderType: text("uploader_type").notNull(),
+    uploaderName: text("uploader_name").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_attachments_card").on(table.cardId)],
+);
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = Pick<Attachment, "filename" | "contentType" | "size" | "storageKey" | "url">;
+
+// Images uploaded for use in Markdown. url is the stored original, with
+// metadata stripped; thumbnailUrl and webUrl are its resized WebP variants
+// (see shared/image-variants.ts), null for GIF and SVG uploads.
+export const imageUploads = pgTable(
+  "image_uploads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    storageKey: text("storage_key").notNull(),
+    url: text("url").notNull(),
+    contentType: text("content_type").notNull(),
+    size: integer("size").notNull(), // bytes
+    width: integer("width"),
+    height: integer("height"),
+    thumbnailUrl: text("thumbnail_url"),
+    webUrl: text("web_url"),
+    uploaderType: text("uploader_type").notNull(),
+    uploaderName: text("uploader_name").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_image_uploads_url").on(table.url)],
+);
+
+// Which cards show which uploaded images: an image is referenced when its
+// URL, or one of its variants' URLs, appears in a card's description or notes.
+// Kept current on every card write; images without references are orphans.
+export const cardImageRefs = pgTable(
+  "card_image_refs",
+  {
+    cardId: varchar("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    imageId: varchar("image_id").notNull().references(() => imageUploads.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.cardId, table.imageId] }),
+    index("IDX_card_image_refs_image").on(table.imageId),
+  ],
+);
+
+export type ImageUpload = typeof imageUploads.$inferSelect;
+export type InsertImageUpload = Pick<ImageUpload, "storageKey" | "url" | "contentType" | "size" | "width" | "height" | "thumbnailUrl" | "webUrl">;
+
+// Shape of the legacy cards.comments JSON
+export interface LegacyComment {
   id: string;
   content: string;
   timestamp: string;
-  author?: string; // Optional for future use with authentication
+  author?: string;
 }
 
+// Session storage for connect-pg-simple (declared here so drizzle-kit push keeps it)
+export const sessions = pgTable(
+  "session",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: jsonb("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
+
+export const USER_ROLES = ["admin", "member"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  displayName: text("display_name"),
+  role: text("role").notNull().default("member"), // The first registered account becomes admin
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
+  role: true,
+});
+
+// Payload accepted by POST /api/auth/register
+export const registerUserSchema = z.object({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be less than 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+  displayName: z.string().max(50).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type User = typeof users.$inferSelect;
+// User as returned by the API - never includes the password hash
+export type PublicUser = Omit<User, "password">;
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Users a card is assigned to; a card can have several
+export const cardAssignees = pgTable(
+  "card_assignees",
+  {
+    cardId: varchar("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.cardId, table.userId] }),
+    index("IDX_card_assignees_user").on(table.userId),
+  ],
+);
+
+// A user as assignee lists and pickers show them
+export type Assignee = Pick<User, "id" | "username" | "displayName">;
+
+// Personal access tokens for agents and scripts. Only a SHA-256 hash of the
+// token is stored; the plaintext is shown once when the token is created.
+export const API_TOKEN_SCOPES = ["read", "write"] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // First characters, so users can tell tokens apart
+  scope: text("scope").notNull().default("read"),
+  projects: jsonb("projects").$type<string[] | null>(), // null = every project
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1, "Token name is required").max(50, "Token name must be less than 50 characters"),
+  scope: z.enum(API_TOKEN_SCOPES),
+  projects: z.array(z.string().min(1)).min(1).nullable().optional(),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+// Token as returned by the API - never includes the hash
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+// Automation rules: "when <trigger>, if <conditions>, then <actions>", per
+// project. server/automation.ts runs them after every matching card event.
+export const AUTOMATION_TRIGGERS = ["card.created", "card.moved", "card.updated", "task.toggled", "comment.added"] as const;
+export type AutomationTrigger = typeof AUTOMATION_TRIGGERS[number];
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  "card.created": "Card created",
+  "card.moved": "Card moved",
+  "card.updated": "Card edited",
+  "task.toggled": "Task checked or unchecked",
+  "comment.added": "Comment added",
+};
+
+export const AUTOMATION_ACTION_TYPES = ["move", "set-field", "add-comment", "webhook"] as const;
+export type AutomationActionType = typeof AUTOMATION_ACTION_TYPES[number];
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  move: "Move card",
+  "set-field": "Set field",
+  "add-comment": "Add comment",
+  webhook: "Call webhook",
+};
+
+// Card fields the set-field action can write
+export const AUTOMATION_FIELDS = ["priority", "dueDate", "estimate", "link", "notes"] as const;
+export type AutomationField = typeof AUTOMATION_FIELDS[number];
+
+// Every condition given must hold. status is the card's column after the
+// event, fromStatus the column a moved card left, and allTasksComplete whether
+// every task of the card is checked.
+export const automationConditionsSchema = z.object({
+  status: z.string().min(1).optional(),
+  fromStatus: z.string().min(1).optional(),
+  allTasksComplete: z.boolean().optional(),
+});
+
+// URL of an outgoing webhook or of a rule's webhook action. Whether its host
+// is a public address is checked when it is called (server/webhooks.ts).
+export const webhookUrlSchema = z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+// add-comment content may use {{title}}, {{status}}, {{project}} and {{actor}}
+export const automationActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("move"), status: z.string().min(1, "Choose a column to move to") }),
+  z.object({ type: z.literal("set-field"), field: z.enum(AUTOMATION_FIELDS), value: z.union([z.string(), z.number(), z.null()]) }),
+  z.object({ type: z.literal("add-comment"), content: z.string().trim().min(1, "Comment text is required").max(10000) }),
+  z.object({ type: z.literal("webhook"), url: webhookUrlSchema }),
+]);
+
+export type AutomationConditions = z.infer<typeof automationConditionsSchema>;
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+
+export const automationRules = pgTable(
+  "automation_rules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    project: text("project").notNull(),
+    name: text("name").notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    trigger: text("trigger").notNull(), // One of AUTOMATION_TRIGGERS
+    conditions: jsonb("conditions").$type<AutomationConditions>().notNull().default({}),
+    actions: jsonb("actions").$type<AutomationAction[]>().notNull().default([]), // Run in order; a failing action stops the rest
+    // Key of the X-Kanban-Signature HMAC of webhook actions. New rules get one
+    // from generateWebhookSecret; the default fills in rules made before signing.
+    secret: text("secret").notNull().default(sql`'whsec_' || replace(gen_random_uuid()::text, '-', '')`),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_automation_rules_project").on(table.project)],
+);
+
+const automationActionListSchema = z.array(automationActionSchema)
+  .min(1, "A rule needs at least one action")
+  .max(10, "A rule can have at most 10 actions")
+  .superRefine((actions, ctx) => {
+    // set-field values must be valid for their card field
+    actions.forEach((action, index) => {
+      if (action.type !== "set-field") {
+        return;
+      }
+      const result = updateCardSchema.safeParse({ [action.field]: action.value });
+      if (!result.success) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "value"],
+          message: `Invalid ${action.field}: ${result.error.errors[0]?.message}`,
+        });
+      }
+    });
+  });
+
+export const insertAutomationRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100),
+  enabled: z.boolean().default(true),
+  trigger: z.enum(AUTOMATION_TRIGGERS),
+  conditions: automationConditionsSchema.default({}),
+  actions: automationActionListSchema,
+});
+
+export const updateAutomationRuleSchema = insertAutomationRuleSchema.partial();
+
+export type InsertAutomationRule = z.infer<typeof insertAutomationRuleSchema>;
+export type UpdateAutomationRule = z.infer<typeof updateAutomationRuleSchema>;
+export type AutomationRule = typeof automationRules.$inferSelect;
+// Rule as returned by the API - the secret is only shown on create and when it is replaced
+export type PublicAutomationRule = Omit<AutomationRule, "secret">;
+
+// Outgoing webhooks: a project's card events POSTed as signed JSON to a URL.
+// server/webhooks.ts sends them and retries failed deliveries with backoff.
+export const WEBHOOK_EVENTS = ["CARD_CREATED", "CARD_UPDATED", "CARD_DELETED", "CARDS_BULK_CREATED", "CARDS_BULK_DELETED"] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  CARD_CREATED: "Card created",
+  CARD_UPDATED: "Card updated",
+  CARD_DELETED: "Card deleted",
+  CARDS_BULK_CREATED: "Cards bulk created",
+  CARDS_BULK_DELETED: "Cards bulk deleted",
+};
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    project: text("project").notNull(),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(), // Key of the X-Kanban-Signature HMAC
+    events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_webhooks_project").on(table.project)],
+);
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+    event: text("event").notNull(), // One of WEBHOOK_EVENTS
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: text("status").notNull().default("pending"), // One of WEBHOOK_DELIVERY_STATUSES
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"), // HTTP status of the last attempt, if it got a response
+    error: text("error"), // Why the last attempt failed
+    nextAttemptAt: timestamp("next_attempt_at"), // null once succeeded or out of attempts
+    lastAttemptAt: timestamp("last_attempt_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_webhook_deliveries_webhook").on(table.webhookId, table.createdAt),
+    index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+export const insertWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+  enabled: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type Webhook = typeof webhooks.$inferSelect;
+// Webhook as returned by the API - the secret is only shown once, on create
+export type PublicWebhook = Omit<Webhook, "secret">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Incoming webhooks: external systems (alerting, CI) POST any JSON to
+// /api/hooks/:project/:token and server/incoming-hooks.ts turns it into a
+// card through the hook's mapping. Each mapping entry is a template in which
+// {{path.to.field}} is replaced by that field of the payload.
+export const incomingHookMappingSchema = z.object({
+  title: z.string().trim().min(1, "A title template is required").max(500),
+  description: z.string().max(5000).optional(),
+  // Rendered to a column key or label of the project; unset keeps new cards in the first column
+  status: z.string().max(200).optional(),
+  // Deliveries that render the same key update one card instead of creating another
+  idempotencyKey: z.string().max(500).optional(),
+});
+
+export type IncomingHookMapping = z.infer<typeof incomingHookMappingSchema>;
+
+export const incomingHooks = pgTable(
+  "incoming_hooks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    project: text("project").notNull(),
+    name: text("name").notNull(),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token in the hook's URL
+    tokenPrefix: text("token_prefix").notNull(), // First characters, so users can tell hooks apart
+    mapping: jsonb("mapping").$type<IncomingHookMapping>().notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_incoming_hooks_project").on(table.project)],
+);
+
+// The card each idempotency key of a hook created. cardId is not a foreign
+// key: once the card is deleted, the next delivery with the key creates a new one.
+export const incomingHookKeys = pgTable(
+  "incoming_hook_keys",
+  {
+    hookId: varchar("hook_id").notNull().references(() => incomingHooks.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    cardId: varchar("card_id"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.hookId, table.key] }),
+  ],
+);
+
+export const insertIncomingHookSchema = z.object({
+  name: z.string().trim().min(1, "Hook name is required").max(100),
+  mapping: incomingHookMappingSchema,
+  enabled: z.boolean().default(true),
+});
+
+export const updateIncomingHookSchema = insertIncomingHookSchema.partial();
+
+export type InsertIncomingHook = z.infer<typeof insertIncomingHookSchema>;
+export type UpdateIncomingHook = z.infer<typeof updateIncomingHookSchema>;
+export type IncomingHook = typeof incomingHooks.$inferSelect;
+// Hook as returned by the API - never includes the token hash
+export type PublicIncomingHook = Omit<IncomingHook, "tokenHash">;
@@ -0,0 +1,91 @@
+// GitHub-style task list items ("- [ ] text", "* [x] text") in card
+// descriptions. The card_tasks rows of a card always match the checkbox lines
+// of its description one to one, in order: the server rewrites the lines when
+// tasks change, and re-reads them when the description is edited.
+
+export interface MarkdownTask {
+  text: string;
+  completed: boolean;
+  // 1-based line in the Markdown, counted here by splitting on "\n". The board
+  // matches it against remark's node positions, which number lines the same way.
+  line: number;
+}
+
+interface TaskLine extends MarkdownTask {
+  indent: string;
+  bullet: string;
+}
+
+const TASK_LINE = /^(\s*)([-*+])\s+\[([ xX])\]\s+(\S.*?)\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+function findTaskLines(markdown: string): TaskLine[] {
+  const tasks: TaskLine[] = [];
+  let inFence = false;
+  markdown.split("\n").forEach((line, index) => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = inFence ? null : TASK_LINE.exec(line);
+    if (match) {
+      tasks.push({
+        indent: match[1],
+        bullet: match[2],
+        completed: match[3] !== " ",
+        text: match[4],
+        line: index + 1,
+      });
+    }
+  });
+  return tasks;
+}
+
+/**
+ * Task list items of a Markdown document, in order. Items inside fenced code
+ * blocks are skipped.
+ */
+export function parseMarkdownTasks(markdown: string): MarkdownTask[] {
+  return findTaskLines(markdown).map(({ text, completed, line }) => ({ text, completed, line }));
+}
+
+/**
+ * Rewrite the task list items of a Markdown document to `tasks`, in order.
+ * Existing items are updated in place (keeping their indentation and bullet),
+ * surplus items are removed, and extra tasks are added after the last item,
+ * or at the end of the document when it has none.
+ */
+export function writeMarkdownTasks(markdown: string, tasks: { text: string; completed: boolean }[]): string {
+  const existing = findTaskLines(markdown);
+  const lines = markdown.split("\n");
+  const format = (indent: string, bullet: string, task: { text: string; completed: boolean }) =>
+    `${indent}${bullet} [${task.completed ? "x" : " "}] ${task.text}`;
+
+  existing.slice(0, tasks.length).forEach((item, index) => {
+    lines[item.line - 1] = format(item.indent, item.bullet, tasks[index]);
+  });
+
+  if (tasks.length < existing.length) {
+    const removed = new Set(existing.slice(tasks.length).map(item => item.line - 1));
+    return lines.filter((_, index) => !removed.has(index)).join("\n");
+  }
+
+  const added = tasks.slice(existing.length);
+  if (added.length === 0) {
+    return lines.join("\n");
+  }
+  const last = existing[existing.length - 1];
+  if (last) {
+    lines.splice(last.line, 0, ...added.map(task => format(last.indent, last.bullet, task)));
+    return lines.join("\n");
+  }
+  const body = markdown.trimEnd();
+  return (body ? `${body}\n\n` : "") + added.map(task => format("", "-", task)).join("\n");
+}
+
+/**
+ * Whether a Markdown document has any task list items
+ */
+export function hasMarkdownTasks(markdown: string): boolean {
+  return findTaskLines(markdown).length > 0;
+}
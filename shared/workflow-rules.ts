@@ -0,0 +1,72 @@
+// Transition rules of a project's workflow. Each column can limit the columns
+// cards are moved in from (allowedFrom) and list what a card needs before it
+// enters (requires): a link before "complete", every task checked before
+// "verified", and so on. Storage checks them on every status change.
+import { getStatusDefinition, type StatusDefinition, type StatusRequirement } from "./schema";
+
+// The parts of a card the rules look at
+export interface WorkflowCardState {
+  link: string | null;
+  description: string;
+  dueDate: string | null;
+  priority: string | null;
+  estimate: number | null;
+  assigneeCount: number;
+  tasks: { completed: boolean }[];
+}
+
+const REQUIREMENT_MESSAGES: Record<StatusRequirement, string> = {
+  link: "it needs a link",
+  description: "it needs a description",
+  assignee: "it needs an assignee",
+  dueDate: "it needs a due date",
+  priority: "it needs a priority",
+  estimate: "it needs an estimate",
+  tasksComplete: "all of its tasks must be checked",
+};
+
+function meetsRequirement(card: WorkflowCardState, requirement: StatusRequirement): boolean {
+  switch (requirement) {
+    case "link":
+      return !!card.link?.trim();
+    case "description":
+      return !!card.description.trim();
+    case "assignee":
+      return card.assigneeCount > 0;
+    case "dueDate":
+      return !!card.dueDate;
+    case "priority":
+      return !!card.priority;
+    case "estimate":
+      return card.estimate !== null;
+    case "tasksComplete":
+      return card.tasks.every(task => task.completed);
+  }
+}
+
+/**
+ * Whether cards may be moved from one column straight to another
+ */
+export function isTransitionAllowed(statuses: StatusDefinition[], from: string, to: string): boolean {
+  const target = statuses.find(status => status.key === to);
+  return from === to || !target?.allowedFrom || target.allowedFrom.includes(from);
+}
+
+/**
+ * Why a card may not enter column `to`, or an empty list when it may. `from`
+ * is the column it leaves; new cards (undefined) may start in any column but
+ * still need what it requires.
+ */
+export function findWorkflowViolations(statuses: StatusDefinition[], from: string | undefined, to: string, card: WorkflowCardState): string[] {
+  const target = getStatusDefinition(statuses, to);
+  const violations: string[] = [];
+  if (from !== undefined && !isTransitionAllowed(statuses, from, to)) {
+    violations.push(`cards cannot move there from "${getStatusDefinition(statuses, from).label}"`);
+  }
+  for (const requirement of target.requires || []) {
+    if (!meetsRequirement(card, requirement)) {
+      violations.push(REQUIREMENT_MESSAGES[requirement]);
+    }
+  }
+  return violations;
+}
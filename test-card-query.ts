@@ -0,0 +1,98 @@
+#!/usr/bin/env tsx
+/**
+ * Checks how card filter queries are parsed and matched. Runs without a
+ * server or database.
+ *
+ * Usage:
+ *   npm run test:card-query
+ */
+
+import assert from 'assert/strict';
+import type { Card } from '@shared/schema';
+import { parseCardQuery, matchesCardQuery, CardQueryError } from '@shared/card-query';
+
+const now = new Date('2024-06-15T12:00:00Z');
+
+const card: Card & { labels: string[]; assignees: string[] } = {
+  id: 'card-1',
+  title: 'Fix login redirect',
+  description: 'See http://example.com/login\n\n- [x] Reproduce\n- [ ] Fix',
+  link: null,
+  status: 'in-progress',
+  order: 'n',
+  project: 'api',
+  taskList: null,
+  notes: 'Deploy at 12:30',
+  comments: null,
+  commentCount: 0,
+  dueDate: '2024-06-10',
+  priority: 'P1',
+  estimate: null,
+  createdAt: new Date('2024-06-01T00:00:00Z'),
+  updatedAt: new Date('2024-06-14T00:00:00Z'),
+  labels: ['Bug'],
+  assignees: ['alice'],
+};
+
+const matches = (query: string) => matchesCardQuery(card, parseCardQuery(query), now);
+
+const checks: [string, () => void][] = [
+  ['key:value terms become filters, any case', () => {
+    const { filters } = parseCardQuery('Status:in-progress,blocked label:bug');
+    assert.deepEqual(filters, [
+      { kind: 'status', values: ['in-progress', 'blocked'], negate: false },
+      { kind: 'label', values: ['bug'], negate: false },
+    ]);
+  }],
+  ['a word with an unknown key: prefix is searched as text', () => {
+    const { filters } = parseCardQuery('http://example.com/login 12:30 foo:"bar baz"');
+    assert.deepEqual(filters, [
+      { kind: 'text', field: 'any', value: 'http://example.com/login', negate: false },
+      { kind: 'text', field: 'any', value: '12:30', negate: false },
+      { kind: 'text', field: 'any', value: 'foo:bar baz', negate: false },
+    ]);
+    assert.equal(matches('http://example.com/login'), true);
+    assert.equal(matches('12:30'), true);
+  }],
+  ['quoted values stay together, with or without a key', () => {
+    const { filters } = parseCardQuery('"login redirect" title:"Fix login"');
+    assert.deepEqual(filters, [
+      { kind: 'text', field: 'any', value: 'login redirect', negate: false },
+      { kind: 'text', field: 'title', value: 'Fix login', negate: false },
+    ]);
+  }],
+  ['a leading - negates a term', () => {
+    assert.equal(matches('-status:in-progress'), false);
+    assert.equal(matches('-label:ui'), true);
+  }],
+  ['invalid values of known filters are refused', () => {
+    assert.throws(() => parseCardQuery('status:'), CardQueryError);
+    assert.throws(() => parseCardQuery('has:everything'), CardQueryError);
+    assert.throws(() => parseCardQuery('priority:P9'), CardQueryError);
+    assert.throws(() => parseCardQuery('updated:7d'), CardQueryError);
+  }],
+  ['due, tasks and date filters match the card', () => {
+    assert.equal(matches('due:overdue'), true);
+    assert.equal(matches('due:none'), false);
+    assert.equal(matches('tasks:incomplete has:tasks'), true);
+    assert.equal(matches('tasks:complete'), false);
+    assert.equal(matches('updated:<2d created:>7d'), true);
+    assert.equal(matches('created:>2024-06-02'), false);
+  }],
+  ['every term must match', () => {
+    assert.equal(matches('project:api assignee:alice priority:p0,p1 login'), true);
+    assert.equal(matches('project:api assignee:bob'), false);
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);
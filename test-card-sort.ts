@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+/**
+ * Checks how card sort orders are parsed and applied. Runs without a server
+ * or database.
+ *
+ * Usage:
+ *   npm run test:card-sort
+ */
+
+import assert from 'assert/strict';
+import { parseCardSort, sortCards, CardSortError } from '@shared/card-sort';
+
+function card(id: string, order: string, fields: { priority?: string; dueDate?: string; estimate?: number; title?: string; updatedAt?: string } = {}) {
+  return {
+    id,
+    order,
+    title: fields.title ?? id,
+    priority: fields.priority ?? null,
+    dueDate: fields.dueDate ?? null,
+    estimate: fields.estimate ?? null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: fields.updatedAt ?? '2024-01-01T00:00:00Z',
+  };
+}
+
+const cards = [
+  card('a', 'n', { priority: 'P2', dueDate: '2024-03-01', title: 'beta' }),
+  card('b', 'c', { priority: 'P0', title: 'Alpha', updatedAt: '2024-02-01T00:00:00Z' }),
+  card('c', 'x', { estimate: 3, dueDate: '2024-02-01', title: 'gamma' }),
+  card('d', 'h', { priority: 'P2', estimate: 1, title: 'delta' }),
+];
+
+const ids = (sort: string) => sortCards(cards, parseCardSort(sort)).map(sorted => sorted.id).join('');
+
+const checks: [string, () => void][] = [
+  ['keys are matched in any case and "-" reverses them', () => {
+    assert.deepEqual(parseCardSort('Priority, -dueDate'), [
+      { key: 'priority', descending: false },
+      { key: 'dueDate', descending: true },
+    ]);
+  }],
+  ['unknown keys are refused', () => {
+    assert.throws(() => parseCardSort('rank,size'), CardSortError);
+  }],
+  ['an empty sort keeps board order', () => {
+    assert.deepEqual(parseCardSort(''), []);
+    assert.equal(ids(''), 'bdac');
+    assert.equal(ids('-rank'), 'cadb');
+  }],
+  ['cards without a value come last either way', () => {
+    assert.equal(ids('priority'), 'bdac');
+    assert.equal(ids('-priority'), 'dabc');
+    assert.equal(ids('dueDate'), 'cabd');
+    assert.equal(ids('-estimate'), 'cdba');
+  }],
+  ['later keys break the ties of earlier ones', () => {
+    assert.equal(ids('priority,title'), 'badc');
+    assert.equal(ids('priority,-title'), 'bdac');
+  }],
+  ['titles sort without regard to case and dates compare as times', () => {
+    assert.equal(ids('title'), 'badc');
+    assert.equal(ids('-updatedAt'), 'bdac');
+  }],
+  ['sorting returns a copy', () => {
+    sortCards(cards, parseCardSort('-rank'));
+    assert.equal(cards.map(sorted => sorted.id).join(''), 'abcd');
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);
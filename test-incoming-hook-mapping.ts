@@ -0,0 +1,55 @@
+#!/usr/bin/env tsx
+/**
+ * Checks how incoming hook mappings turn payloads into cards. Runs without a
+ * server or database.
+ *
+ * Usage:
+ *   npm run test:hook-mapping
+ */
+
+import assert from 'assert/strict';
+import { DEFAULT_STATUSES } from '@shared/schema';
+import { buildHookCard, renderHookCardFields, IncomingHookPayloadError } from '@shared/incoming-hook-mapping';
+
+const payload = {
+  alert: { name: 'High CPU', host: 'db-1', fingerprint: 'abc123' },
+  alerts: [{ labels: { severity: 'critical' } }],
+};
+
+const checks: [string, () => void][] = [
+  ['a title-only mapping creates a card with an empty description', () => {
+    const card = buildHookCard({ title: '{{alert.name}} on {{alert.host}}' }, 'ops', payload, DEFAULT_STATUSES);
+    assert.equal(card.title, 'High CPU on db-1');
+    assert.equal(card.description, '');
+    assert.equal(card.project, 'ops');
+    assert.equal(card.status, undefined);
+  }],
+  ['templates step into arrays by index and render missing values as nothing', () => {
+    const card = buildHookCard({ title: '[{{alerts.0.labels.severity}}] {{alert.missing}}' }, 'ops', payload, DEFAULT_STATUSES);
+    assert.equal(card.title, '[critical]');
+  }],
+  ['a status template may name the column by its label', () => {
+    const label = DEFAULT_STATUSES[1].label;
+    const card = buildHookCard({ title: 'x', status: label.toLowerCase() }, 'ops', payload, DEFAULT_STATUSES);
+    assert.equal(card.status, DEFAULT_STATUSES[1].key);
+  }],
+  ['updates leave out fields without a template', () => {
+    const fields = renderHookCardFields({ title: '{{alert.name}}' }, payload, DEFAULT_STATUSES);
+    assert.deepEqual(fields, { title: 'High CPU' });
+  }],
+  ['an empty rendered title is refused', () => {
+    assert.throws(() => buildHookCard({ title: '{{nothing}}' }, 'ops', payload, DEFAULT_STATUSES), IncomingHookPayloadError);
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);
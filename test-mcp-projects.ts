@@ -38,9 +38,9 @@ async function testGetProjects() {
     name: 'get_projects',
     arguments: {}
   });
-  const projects = JSON.parse(result.content[0].text);
-  console.log(`✅ Found ${projects.length} projects:`, projects.join(', '));
-  return projects;
+  const projects: Array<{ slug: string; name: string }> = JSON.parse(result.content[0].text);
+  console.log(`✅ Found ${projects.length} projects:`, projects.map(p => p.name).join(', '));
+  return projects.map(p => p.slug);
 }
 
 async function testGetCardsByProject(project: string) {
@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+/**
+ * Checks the fractional card ranks. Runs without a server or database.
+ *
+ * Usage:
+ *   npm run test:rank
+ */
+
+import assert from 'assert/strict';
+import { compareRanks, evenlySpacedRanks, isValidRank, rankBetween, RANK_REBALANCE_LENGTH } from '@shared/rank';
+
+function assertBetween(before: string | null, after: string | null) {
+  const rank = rankBetween(before, after);
+  assert.ok(isValidRank(rank), `"${rank}" is not a valid rank`);
+  if (before) assert.equal(compareRanks(before, rank), -1, `"${rank}" is not after "${before}"`);
+  if (after) assert.equal(compareRanks(rank, after), -1, `"${rank}" is not before "${after}"`);
+  return rank;
+}
+
+const checks: [string, () => void][] = [
+  ['only letter keys not ending in "a" are ranks', () => {
+    assert.equal(isValidRank('n'), true);
+    assert.equal(isValidRank('ab'), true);
+    assert.equal(isValidRank('ba'), false);
+    assert.equal(isValidRank('12'), false);
+    assert.equal(isValidRank(''), false);
+  }],
+  ['there is a rank between any two different ranks', () => {
+    const pairs: [string, string][] = [['b', 'c'], ['n', 'nb'], ['az', 'b'], ['zz', 'zzb'], ['mzzz', 'n']];
+    for (const [before, after] of pairs) {
+      assertBetween(before, after);
+    }
+  }],
+  ['appending and prepending keep keys below the rebalance length', () => {
+    let last: string | null = null;
+    for (let i = 0; i < 100; i++) {
+      last = assertBetween(last, null);
+    }
+    assert.ok(last!.length < RANK_REBALANCE_LENGTH, `appending 100 cards made "${last}"`);
+
+    let first: string | null = null;
+    for (let i = 0; i < 100; i++) {
+      first = assertBetween(null, first);
+    }
+    assert.ok(first!.length < RANK_REBALANCE_LENGTH, `prepending 100 cards made "${first}"`);
+  }],
+  ['repeated inserts at the same spot stay ordered', () => {
+    const before = 'n';
+    let after = 'o';
+    for (let i = 0; i < 50; i++) {
+      after = assertBetween(before, after);
+    }
+  }],
+  ['invalid or out-of-order neighbours still give a valid rank', () => {
+    assertBetween(null, null);
+    assert.ok(isValidRank(rankBetween('3', '7')));
+    assertBetween('p', null);
+    assert.equal(compareRanks('p', rankBetween('p', 'c')), -1);
+  }],
+  ['evenly spaced ranks are valid, ordered and unique', () => {
+    for (const count of [1, 2, 25, 26, 700]) {
+      const ranks = evenlySpacedRanks(count);
+      assert.equal(ranks.length, count);
+      assert.ok(ranks.every(isValidRank));
+      for (let i = 1; i < ranks.length; i++) {
+        assert.equal(compareRanks(ranks[i - 1], ranks[i]), -1, `"${ranks[i - 1]}" is not before "${ranks[i]}"`);
+      }
+    }
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);
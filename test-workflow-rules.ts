@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * Checks the per-column transition rules of a workflow. Runs without a server
+ * or database.
+ *
+ * Usage:
+ *   npm run test:workflow-rules
+ */
+
+import assert from 'assert/strict';
+import type { StatusDefinition } from '@shared/schema';
+import { findWorkflowViolations, isTransitionAllowed, type WorkflowCardState } from '@shared/workflow-rules';
+
+const statuses: StatusDefinition[] = [
+  { key: 'todo', label: 'To Do', color: 'gray' },
+  { key: 'doing', label: 'Doing', color: 'blue', requires: ['assignee'] },
+  { key: 'review', label: 'Review', color: 'purple', allowedFrom: ['doing'], requires: ['link', 'tasksComplete'] },
+  { key: 'done', label: 'Done', color: 'green', allowedFrom: ['review'] },
+];
+
+const card: WorkflowCardState = {
+  link: null,
+  description: '',
+  dueDate: null,
+  priority: null,
+  estimate: null,
+  assigneeCount: 0,
+  tasks: [{ completed: true }, { completed: false }],
+};
+
+const checks: [string, () => void][] = [
+  ['columns without allowedFrom take cards from anywhere', () => {
+    assert.equal(isTransitionAllowed(statuses, 'done', 'todo'), true);
+    assert.equal(isTransitionAllowed(statuses, 'review', 'doing'), true);
+  }],
+  ['allowedFrom limits where cards come from', () => {
+    assert.equal(isTransitionAllowed(statuses, 'doing', 'review'), true);
+    assert.equal(isTransitionAllowed(statuses, 'todo', 'review'), false);
+    assert.equal(isTransitionAllowed(statuses, 'review', 'review'), true);
+  }],
+  ['a refused move names the column it comes from', () => {
+    const complete: WorkflowCardState = { ...card, link: 'https://example.com', tasks: [] };
+    assert.deepEqual(findWorkflowViolations(statuses, 'todo', 'review', complete), [
+      'cards cannot move there from "To Do"',
+    ]);
+  }],
+  ['every missing requirement is listed', () => {
+    assert.deepEqual(findWorkflowViolations(statuses, 'doing', 'review', card), [
+      'it needs a link',
+      'all of its tasks must be checked',
+    ]);
+    assert.deepEqual(findWorkflowViolations(statuses, 'todo', 'doing', { ...card, assigneeCount: 1 }), []);
+  }],
+  ['new cards may start in any column but need what it requires', () => {
+    assert.deepEqual(findWorkflowViolations(statuses, undefined, 'done', card), []);
+    assert.deepEqual(findWorkflowViolations(statuses, undefined, 'doing', card), ['it needs an assignee']);
+  }],
+  ['a blank link does not count as a link', () => {
+    const violations = findWorkflowViolations(statuses, 'doing', 'review', { ...card, link: '  ', tasks: [] });
+    assert.deepEqual(violations, ['it needs a link']);
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);